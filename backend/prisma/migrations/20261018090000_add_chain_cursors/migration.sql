@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "chain_cursors" (
+    "id" SERIAL NOT NULL,
+    "chain_key" TEXT NOT NULL,
+    "chain_type" TEXT NOT NULL,
+    "last_processed_block" BIGINT NOT NULL,
+    "last_block_hash" TEXT,
+    "head_block" BIGINT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chain_cursors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chain_cursors_chain_key_key" ON "chain_cursors"("chain_key");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "pending_deposits" (
+    "id" SERIAL NOT NULL,
+    "chain_key" TEXT NOT NULL,
+    "block_number" BIGINT NOT NULL,
+    "block_hash" TEXT NOT NULL,
+    "transaction_hash" TEXT NOT NULL,
+    "log_index" INTEGER NOT NULL,
+    "recipient_address" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolved_at" TIMESTAMP(3),
+
+    CONSTRAINT "pending_deposits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pending_deposits_chain_key_status_block_number_idx" ON "pending_deposits"("chain_key", "status", "block_number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pending_deposits_event_block_key" ON "pending_deposits"("chain_key", "transaction_hash", "log_index", "block_hash");
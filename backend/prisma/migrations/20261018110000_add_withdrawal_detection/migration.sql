@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "company_addresses" ADD COLUMN     "withdrawal_threshold" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "pending_deposits" ADD COLUMN     "direction" TEXT NOT NULL DEFAULT 'incoming';
+
+-- DropIndex
+DROP INDEX "pending_deposits_event_block_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pending_deposits_event_block_key" ON "pending_deposits"("chain_key", "transaction_hash", "log_index", "block_hash", "direction");
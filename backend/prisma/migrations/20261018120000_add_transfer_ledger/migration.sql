@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "transfers" (
+    "id" SERIAL NOT NULL,
+    "transfer_key" TEXT NOT NULL,
+    "chain_key" TEXT NOT NULL,
+    "chain_type" TEXT NOT NULL,
+    "block_number" BIGINT NOT NULL,
+    "block_hash" TEXT NOT NULL,
+    "block_timestamp" TIMESTAMP(3),
+    "transaction_hash" TEXT NOT NULL,
+    "log_index" INTEGER NOT NULL,
+    "direction" TEXT NOT NULL,
+    "from_address" TEXT NOT NULL,
+    "to_address" TEXT NOT NULL,
+    "token_symbol" TEXT NOT NULL,
+    "token_contract_address" TEXT,
+    "raw_amount" DECIMAL(78,0) NOT NULL,
+    "decimals" INTEGER NOT NULL,
+    "usd_value" DECIMAL(24,6),
+    "status" TEXT NOT NULL DEFAULT 'confirmed',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "transfer_company_addresses" (
+    "transfer_id" INTEGER NOT NULL,
+    "company_address_id" INTEGER NOT NULL,
+
+    CONSTRAINT "transfer_company_addresses_pkey" PRIMARY KEY ("transfer_id","company_address_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transfers_transfer_key_key" ON "transfers"("transfer_key");
+
+-- CreateIndex
+CREATE INDEX "transfers_chain_key_transaction_hash_idx" ON "transfers"("chain_key", "transaction_hash");
+
+-- CreateIndex
+CREATE INDEX "transfers_to_address_idx" ON "transfers"("to_address");
+
+-- CreateIndex
+CREATE INDEX "transfers_from_address_idx" ON "transfers"("from_address");
+
+-- CreateIndex
+CREATE INDEX "transfers_created_at_idx" ON "transfers"("created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "transfer_company_addresses_company_address_id_idx" ON "transfer_company_addresses"("company_address_id");
+
+-- AddForeignKey
+ALTER TABLE "transfer_company_addresses" ADD CONSTRAINT "transfer_company_addresses_transfer_id_fkey" FOREIGN KEY ("transfer_id") REFERENCES "transfers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transfer_company_addresses" ADD CONSTRAINT "transfer_company_addresses_company_address_id_fkey" FOREIGN KEY ("company_address_id") REFERENCES "company_addresses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "notification_outbox" (
+    "id" SERIAL NOT NULL,
+    "event_key" TEXT NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "chain_key" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "delivered_channels" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "delivered_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_outbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_outbox_event_key_key" ON "notification_outbox"("event_key");
+
+-- CreateIndex
+CREATE INDEX "notification_outbox_status_next_attempt_at_idx" ON "notification_outbox"("status", "next_attempt_at");
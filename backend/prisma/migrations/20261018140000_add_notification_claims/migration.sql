@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "notification_claims" (
+    "id" SERIAL NOT NULL,
+    "company_id" INTEGER NOT NULL,
+    "channel" TEXT NOT NULL,
+    "chain_key" TEXT NOT NULL,
+    "transaction_hash" TEXT NOT NULL,
+    "event_index" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'claimed',
+    "deposit_key" TEXT,
+    "suppressed_count" INTEGER NOT NULL DEFAULT 0,
+    "last_suppressed_at" TIMESTAMP(3),
+    "claimed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sent_at" TIMESTAMP(3),
+
+    CONSTRAINT "notification_claims_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_claims_event_key" ON "notification_claims"("company_id", "channel", "chain_key", "transaction_hash", "event_index", "direction", "stage");
+
+-- AddForeignKey
+ALTER TABLE "notification_claims" ADD CONSTRAINT "notification_claims_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "unknown_tokens" (
+    "id" SERIAL NOT NULL,
+    "chain" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "symbol" TEXT,
+    "name" TEXT,
+    "decimals" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "transfer_count" INTEGER NOT NULL DEFAULT 1,
+    "first_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "promoted_token_id" INTEGER,
+    "promoted_at" TIMESTAMP(3),
+
+    CONSTRAINT "unknown_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "unknown_tokens_chain_address_key" ON "unknown_tokens"("chain", "address");
+
+-- CreateIndex
+CREATE INDEX "unknown_tokens_status_last_seen_at_idx" ON "unknown_tokens"("status", "last_seen_at" DESC);
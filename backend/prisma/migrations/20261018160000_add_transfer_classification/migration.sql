@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "transfers" ADD COLUMN     "classification" TEXT,
+ADD COLUMN     "classification_reasons" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "lookalike_of" TEXT;
+
+-- CreateIndex
+CREATE INDEX "transfers_classification_idx" ON "transfers"("classification");
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "address_freezes" (
+    "id" SERIAL NOT NULL,
+    "chain_key" TEXT NOT NULL,
+    "chain_type" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "token_symbol" TEXT NOT NULL,
+    "token_contract_address" TEXT NOT NULL,
+    "is_frozen" BOOLEAN NOT NULL,
+    "frozen_at" TIMESTAMP(3),
+    "frozen_tx_hash" TEXT,
+    "unfrozen_at" TIMESTAMP(3),
+    "unfrozen_tx_hash" TEXT,
+    "block_number" BIGINT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "address_freezes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "address_freezes_chain_key_token_contract_address_address_key" ON "address_freezes"("chain_key", "token_contract_address", "address");
+
+-- CreateIndex
+CREATE INDEX "address_freezes_address_idx" ON "address_freezes"("address");
+
+-- CreateIndex
+CREATE INDEX "address_freezes_is_frozen_idx" ON "address_freezes"("is_frozen");
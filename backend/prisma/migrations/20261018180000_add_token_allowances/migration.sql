@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "token_allowances" (
+    "id" SERIAL NOT NULL,
+    "chain_key" TEXT NOT NULL,
+    "owner" TEXT NOT NULL,
+    "spender" TEXT NOT NULL,
+    "token_contract_address" TEXT NOT NULL,
+    "token_symbol" TEXT NOT NULL,
+    "token_decimals" INTEGER,
+    "amount" DECIMAL(78,0) NOT NULL,
+    "is_unlimited" BOOLEAN NOT NULL,
+    "usd_value" DECIMAL(24,6),
+    "transaction_hash" TEXT NOT NULL,
+    "block_number" BIGINT NOT NULL,
+    "approved_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "token_allowances_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "token_allowances_owner_token_spender_key" ON "token_allowances"("chain_key", "owner", "token_contract_address", "spender");
+
+-- CreateIndex
+CREATE INDEX "token_allowances_owner_idx" ON "token_allowances"("owner");
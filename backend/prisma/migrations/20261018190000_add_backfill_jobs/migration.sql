@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "backfill_jobs" (
+    "id" SERIAL NOT NULL,
+    "company_id" INTEGER NOT NULL,
+    "chain_keys" TEXT[],
+    "from_block" BIGINT,
+    "to_block" BIGINT,
+    "since" TIMESTAMP(3),
+    "until" TIMESTAMP(3),
+    "notify" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "progress" JSONB NOT NULL DEFAULT '{}',
+    "transfers_found" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "backfill_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "backfill_jobs_status_idx" ON "backfill_jobs"("status");
+
+-- CreateIndex
+CREATE INDEX "backfill_jobs_company_id_idx" ON "backfill_jobs"("company_id");
+
+-- AddForeignKey
+ALTER TABLE "backfill_jobs" ADD CONSTRAINT "backfill_jobs_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "company_addresses" ADD COLUMN     "networks" TEXT[] DEFAULT ARRAY[]::TEXT[];
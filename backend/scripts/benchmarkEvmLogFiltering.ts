@@ -0,0 +1,242 @@
+import { readFileSync, existsSync } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import type { Hex } from 'viem';
+import {
+    TRANSFER_EVENT_TOPIC,
+    addressToTopic,
+    chunkAddresses,
+    dedupeTransferLogs,
+    isTrackedTransferLog,
+} from '../src/services/monitors/evmLogFilter';
+
+/**
+ * Compares the old EVM scanning path (fetch every Transfer log, match topics with
+ * `some/includes`, match native transfers with `Array.includes`) against topic-filtered
+ * eth_getLogs plus Set lookups, using the large-scale test CSVs as the tracked address set.
+ *
+ * No RPC is contacted: a mock node applies the topic filters the way eth_getLogs does,
+ * so the numbers isolate client-side work and the volume of data each approach pulls.
+ *
+ * Usage: bun scripts/benchmarkEvmLogFiltering.ts
+ *   BENCH_TARGET_ADDRESSES  tracked addresses (CSV addresses padded with random ones), default 10000
+ *   BENCH_BLOCKS            synthetic blocks per run, default 20
+ *   BENCH_LOGS_PER_BLOCK    Transfer logs per block, default 300
+ *   BENCH_TXS_PER_BLOCK     native transactions per block, default 150
+ *   BENCH_TRACKED_RATIO     share of logs/txs touching a tracked address, default 0.01
+ *   EVM_LOG_TOPIC_CHUNK_SIZE  addresses per topic filter, default 500
+ */
+
+interface SyntheticLog {
+    topics: Hex[];
+    data: Hex;
+    blockHash: Hex;
+    blockNumber: bigint;
+    logIndex: number;
+    transactionHash: Hex;
+}
+
+interface SyntheticTx {
+    from: Hex;
+    to: Hex;
+    value: bigint;
+    hash: Hex;
+}
+
+interface SyntheticBlock {
+    number: bigint;
+    hash: Hex;
+    logs: SyntheticLog[];
+    transactions: SyntheticTx[];
+}
+
+interface BenchResult {
+    label: string;
+    ms: number;
+    getLogsCalls: number;
+    payloadBytes: number;
+    matchedLogs: number;
+    matchedNative: number;
+}
+
+function readIntEnv(name: string, fallback: number): number {
+    const value = process.env[name];
+    return value ? parseInt(value, 10) : fallback;
+}
+
+const TARGET_ADDRESSES = readIntEnv('BENCH_TARGET_ADDRESSES', 10000);
+const BLOCKS = readIntEnv('BENCH_BLOCKS', 20);
+const LOGS_PER_BLOCK = readIntEnv('BENCH_LOGS_PER_BLOCK', 300);
+const TXS_PER_BLOCK = readIntEnv('BENCH_TXS_PER_BLOCK', 150);
+const TRACKED_RATIO = process.env.BENCH_TRACKED_RATIO ? parseFloat(process.env.BENCH_TRACKED_RATIO) : 0.01;
+const CHUNK_SIZE = readIntEnv('EVM_LOG_TOPIC_CHUNK_SIZE', 500);
+
+function randomHex(bytes: number): Hex {
+    return `0x${randomBytes(bytes).toString('hex')}` as Hex;
+}
+
+function pick<T>(items: T[]): T {
+    return items[Math.floor(Math.random() * items.length)];
+}
+
+function loadCsvEvmAddresses(): Hex[] {
+    const addresses: Hex[] = [];
+    for (const index of [1, 2, 3]) {
+        const file = path.resolve(__dirname, `../../large-scale-test-csv-${index}.csv`);
+        if (!existsSync(file)) {
+            console.warn(`Skipping missing CSV ${file}`);
+            continue;
+        }
+        const lines = readFileSync(file, 'utf8').split(/\r?\n/).slice(1);
+        for (const line of lines) {
+            const [address, chainType] = line.split(',');
+            if (chainType?.trim().toUpperCase() === 'EVM' && /^0x[0-9a-fA-F]{40}$/.test(address?.trim() ?? '')) {
+                addresses.push(address.trim().toLowerCase() as Hex);
+            }
+        }
+    }
+    return Array.from(new Set(addresses));
+}
+
+function buildTrackedAddresses(): { tracked: Hex[]; fromCsv: number } {
+    const tracked = loadCsvEvmAddresses();
+    const fromCsv = tracked.length;
+    while (tracked.length < TARGET_ADDRESSES) {
+        tracked.push(randomHex(20));
+    }
+    return { tracked, fromCsv };
+}
+
+function buildBlocks(tracked: Hex[]): SyntheticBlock[] {
+    const blocks: SyntheticBlock[] = [];
+    for (let i = 0; i < BLOCKS; i++) {
+        const number = 20_000_000n + BigInt(i);
+        const hash = randomHex(32);
+        const logs: SyntheticLog[] = [];
+        for (let logIndex = 0; logIndex < LOGS_PER_BLOCK; logIndex++) {
+            // Roughly a third of the tracked transfers are withdrawals
+            const touchesTracked = Math.random() < TRACKED_RATIO;
+            const outgoing = touchesTracked && Math.random() < 0.3;
+            const from = outgoing ? pick(tracked) : randomHex(20);
+            const to = touchesTracked && !outgoing ? pick(tracked) : randomHex(20);
+            logs.push({
+                topics: [TRANSFER_EVENT_TOPIC as Hex, addressToTopic(from), addressToTopic(to)],
+                data: randomHex(32),
+                blockHash: hash,
+                blockNumber: number,
+                logIndex,
+                transactionHash: randomHex(32),
+            });
+        }
+        const transactions: SyntheticTx[] = [];
+        for (let t = 0; t < TXS_PER_BLOCK; t++) {
+            const touchesTracked = Math.random() < TRACKED_RATIO;
+            transactions.push({
+                from: randomHex(20),
+                to: touchesTracked ? pick(tracked) : randomHex(20),
+                value: BigInt(Math.floor(Math.random() * 1e9)),
+                hash: randomHex(32),
+            });
+        }
+        blocks.push({ number, hash, logs, transactions });
+    }
+    return blocks;
+}
+
+// JSON size of what the node would send back for these logs
+function payloadSize(logs: SyntheticLog[]): number {
+    return JSON.stringify(logs, (_key, value) => typeof value === 'bigint' ? `0x${value.toString(16)}` : value).length;
+}
+
+// Mock eth_getLogs over the whole range, optionally filtered on the from (topic 1) or to (topic 2) position
+function mockGetLogs(blocks: SyntheticBlock[], filter?: { position: 1 | 2; topics: Set<string> }): SyntheticLog[] {
+    const result: SyntheticLog[] = [];
+    for (const block of blocks) {
+        for (const log of block.logs) {
+            if (!filter || filter.topics.has(log.topics[filter.position])) {
+                result.push(log);
+            }
+        }
+    }
+    return result;
+}
+
+function runLegacy(blocks: SyntheticBlock[], tracked: Hex[]): BenchResult {
+    const logs = mockGetLogs(blocks);
+    const payloadBytes = payloadSize(logs);
+
+    const started = performance.now();
+    const isTrackedTopic = (topic: Hex | undefined) => !!topic &&
+        tracked.some(trackedAddr => topic.toLowerCase().includes(trackedAddr.substring(2).toLowerCase()));
+    const matchedLogs = logs.filter(log =>
+        log.topics[0]?.toLowerCase() === TRANSFER_EVENT_TOPIC.toLowerCase() &&
+        (isTrackedTopic(log.topics[2]) || isTrackedTopic(log.topics[1]))
+    ).length;
+    let matchedNative = 0;
+    for (const block of blocks) {
+        for (const tx of block.transactions) {
+            if (tracked.includes(tx.to.toLowerCase() as Hex)) {
+                matchedNative++;
+            }
+        }
+    }
+    const ms = performance.now() - started;
+
+    return { label: 'legacy (unfiltered getLogs + some/includes)', ms, getLogsCalls: 1, payloadBytes, matchedLogs, matchedNative };
+}
+
+function runFiltered(blocks: SyntheticBlock[], tracked: Hex[]): BenchResult {
+    const trackedSet = new Set<string>(tracked);
+    const responses: SyntheticLog[][] = [];
+    for (const chunk of chunkAddresses(tracked, CHUNK_SIZE)) {
+        const topics = new Set<string>(chunk.map(addressToTopic));
+        responses.push(mockGetLogs(blocks, { position: 2, topics }));
+        responses.push(mockGetLogs(blocks, { position: 1, topics }));
+    }
+    const payloadBytes = responses.reduce((total, logs) => total + payloadSize(logs), 0);
+
+    const started = performance.now();
+    const logs = dedupeTransferLogs(responses.flat());
+    const matchedLogs = logs.filter(log => isTrackedTransferLog(log, trackedSet)).length;
+    let matchedNative = 0;
+    for (const block of blocks) {
+        for (const tx of block.transactions) {
+            if (trackedSet.has(tx.to.toLowerCase())) {
+                matchedNative++;
+            }
+        }
+    }
+    const ms = performance.now() - started;
+
+    return { label: `topic-filtered (chunks of ${CHUNK_SIZE}) + Set`, ms, getLogsCalls: responses.length, payloadBytes, matchedLogs, matchedNative };
+}
+
+function report(result: BenchResult): void {
+    const blocksPerSecond = result.ms > 0 ? (BLOCKS / (result.ms / 1000)).toFixed(1) : 'inf';
+    console.log(`\n${result.label}`);
+    console.log(`  client time:     ${result.ms.toFixed(1)} ms (${blocksPerSecond} blocks/s)`);
+    console.log(`  getLogs calls:   ${result.getLogsCalls}`);
+    console.log(`  payload:         ${(result.payloadBytes / 1024).toFixed(1)} KiB`);
+    console.log(`  matched:         ${result.matchedLogs} ERC20 logs, ${result.matchedNative} native txs`);
+}
+
+function main(): void {
+    const { tracked, fromCsv } = buildTrackedAddresses();
+    console.log(`Tracked addresses: ${tracked.length} (${fromCsv} from large-scale CSVs)`);
+    console.log(`Blocks: ${BLOCKS}, ${LOGS_PER_BLOCK} Transfer logs and ${TXS_PER_BLOCK} txs per block, tracked ratio ${TRACKED_RATIO}`);
+
+    const blocks = buildBlocks(tracked);
+    const legacy = runLegacy(blocks, tracked);
+    const filtered = runFiltered(blocks, tracked);
+    report(legacy);
+    report(filtered);
+
+    if (legacy.matchedLogs !== filtered.matchedLogs || legacy.matchedNative !== filtered.matchedNative) {
+        console.error('\nMismatch between approaches: results differ.');
+        process.exit(1);
+    }
+    const speedup = filtered.ms > 0 ? (legacy.ms / filtered.ms).toFixed(1) : 'inf';
+    console.log(`\nSpeedup: ${speedup}x client time, ${(legacy.payloadBytes / Math.max(1, filtered.payloadBytes)).toFixed(1)}x less data`);
+}
+
+main();
@@ -1,13 +1,15 @@
 import 'dotenv-flow/config';
 import { Chain } from 'viem'; // Import Chain type
-import { mainnet, polygon, bsc } from 'viem/chains'; // Import specific chain objects
+import { evmChainRegistry } from './config/evmChains';
 
 
 interface NetworkConfig {
     wsUrl: string;
     httpRpcUrl?: string; // Renamed from httpApiUrl
+    fullNodeUrls?: string[]; // Tron full node HTTP APIs, primary first; the monitor fails over between them
     apiKey?: string; // Some providers might not need a separate key in the URL
     tronNativePollingIntervalMs?: number; // Added for Tron native polling
+    tronMaxCatchUpBlocks?: number; // Max blocks behind head the Tron monitor backfills after a restart
     // For Etherscan-like APIs
     httpApiKey?: string;
 }
@@ -23,12 +25,68 @@ export interface EvmChainConfig {
 
 interface AppConfig {
     networks: {
-        ethereum: NetworkConfig;
-        polygon: NetworkConfig;
-        bsc: NetworkConfig;
         tron: NetworkConfig; // Added Tron network
+        [evmChainKey: string]: NetworkConfig; // One entry per chain in the EVM chain registry, keyed by chain key
     };
     evmChains: EvmChainConfig[]; // Add the evmChains property
+    bitcoin: {
+        network: string; // 'mainnet', 'testnet' or 'regtest'; part of the chain key
+        rpcUrls: string[]; // Bitcoin Core-compatible JSON-RPC endpoints, primary first; empty disables the monitor
+        rpcUser?: string;
+        rpcPassword?: string;
+        confirmations: number; // Blocks a deposit must be buried under before it is alerted
+        pollingIntervalMs: number;
+        maxCatchUpBlocks: number; // Older blocks than this behind head are skipped on startup
+    };
+    solana: {
+        cluster: string; // 'mainnet-beta', 'devnet' or 'testnet'; part of the chain key
+        rpcUrls: string[]; // JSON-RPC endpoints, primary first; empty disables the monitor
+        pollingIntervalMs: number;
+        maxSlotsPerPoll: number; // Slots listed per getBlocks call
+        maxCatchUpSlots: number; // Older slots than this behind the finalized slot are skipped on startup
+    };
+    evmScanner: {
+        backfillBatchSize: number; // Blocks fetched per getLogs call while catching up
+        maxCatchUpBlocks: number; // Older blocks than this behind head are skipped on startup
+        logTopicChunkSize: number; // Tracked addresses per topic filter in a single eth_getLogs call
+    };
+    backfill: {
+        maxBlocks: number; // Largest block range one backfill job may scan per chain
+        pollIntervalMs: number; // How often queued jobs are picked up
+    };
+    mempoolWatcher: {
+        fetchBatchSize: number; // Pending transactions fetched in parallel
+        maxQueueSize: number; // Pending hashes waiting to be fetched before the oldest are skipped
+        dropAfterMs: number; // A warned transaction not mined within this time is checked for having been dropped
+        dropCheckIntervalMs: number;
+    };
+    rpcPool: {
+        failureThreshold: number; // Consecutive failures before a provider is taken out of rotation
+        probeIntervalMs: number; // How often unhealthy providers are re-checked
+        requestTimeoutMs: number; // Per-request timeout before failing over to the next provider
+    };
+    outbox: {
+        pollIntervalMs: number; // How often the dispatcher looks for due notifications
+        batchSize: number; // Notifications claimed per dispatcher run
+        maxAttempts: number; // Failed deliveries before a notification is dead-lettered
+        baseBackoffMs: number; // Delay after the first failure; doubles with every further attempt
+        maxBackoffMs: number;
+        lockTimeoutMs: number; // A claimed notification not finished within this time is picked up again
+    };
+    spamFilter: {
+        enabled: boolean; // Classify transfers as they are recorded; suppressed ones are kept in the ledger only
+        poisoningPrefixLength: number; // Leading address characters a lookalike shares with an earlier counterparty
+        poisoningSuffixLength: number; // Trailing address characters it shares
+        dustUsdThreshold: number; // Priced transfers worth less than this are suppressed as dust; 0 disables
+    };
+    freezeMonitor: {
+        tokenSymbols: string[]; // Tokens whose issuer blacklist events are watched, looked up in the tokens table per chain
+    };
+    approvalMonitor: {
+        enabled: boolean; // Track ERC20 approvals granted by tracked wallets
+        usdThreshold: number; // Priced allowances worth at least this much are alerted; unlimited ones always are
+        allowedSpenders: string[]; // Lowercase spender addresses (known routers, custodians) that are never alerted
+    };
     logLevel: string; // Add log level configuration
     alchemy: {
         apiKey: string;
@@ -43,44 +101,91 @@ interface AppConfig {
 
 export const config: AppConfig = {
     networks: {
-        ethereum: {
-            wsUrl: process.env.ETHEREUM_WSS_URL || '',
-            httpRpcUrl: `https://eth-mainnet.g.alchemy.com/v2/${process.env.ALCHEMY_ID || ''}`,
-        },
-        polygon: {
-            wsUrl: process.env.POLYGON_WSS_URL || '',
-            httpRpcUrl: `https://polygon-mainnet.g.alchemy.com/v2/${process.env.ALCHEMY_ID || ''}`,
-        },
-        bsc: {
-            wsUrl: process.env.BNB_WSS_URL || '',
-            httpRpcUrl: `https://bnb-mainnet.g.alchemy.com/v2/${process.env.ALCHEMY_ID || ''}`,
-        },
+        ...Object.fromEntries(evmChainRegistry.map(chain => [chain.key, {
+            wsUrl: process.env[`${chain.key.toUpperCase()}_WSS_URL`] || '',
+            httpRpcUrl: chain.rpcUrl,
+        }])),
         tron: {
             wsUrl: process.env.TRONGRID_API_URL || 'https://api.trongrid.io',
             apiKey: process.env.TRONGRID_API_KEY,
+            fullNodeUrls: Array.from(new Set([
+                process.env.TRONGRID_API_URL || 'https://api.trongrid.io',
+                ...(process.env.TRON_FALLBACK_FULL_NODE_URLS || '').split(',').map(url => url.trim()).filter(Boolean),
+            ])),
             tronNativePollingIntervalMs: process.env.TRON_NATIVE_POLLING_INTERVAL_MS ? parseInt(process.env.TRON_NATIVE_POLLING_INTERVAL_MS, 10) : 3000, // Default to 3000ms
+            tronMaxCatchUpBlocks: process.env.TRON_MAX_CATCHUP_BLOCKS ? parseInt(process.env.TRON_MAX_CATCHUP_BLOCKS, 10) : 28800, // Default to ~24h of 3s blocks
         },
     },
-    evmChains: [
-        {
-            name: 'Ethereum',
-            chainId: mainnet.id,
-            rpcUrl: `https://eth-mainnet.g.alchemy.com/v2/${process.env.ALCHEMY_ID || ''}`,
-            chain: mainnet,
-        },
-        {
-            name: 'Polygon',
-            chainId: polygon.id,
-            rpcUrl: `https://polygon-mainnet.g.alchemy.com/v2/${process.env.ALCHEMY_ID || ''}`,
-            chain: polygon,
-        },
-        {
-            name: 'BSC',
-            chainId: bsc.id,
-            rpcUrl: `https://bsc-mainnet.nodereal.io/v1/${process.env.NODEREAL_API_KEY || ''}`, // Example, adjust if using Alchemy for BSC
-            chain: bsc,
-        }
-    ],
+    evmChains: evmChainRegistry.map(chain => ({
+        name: chain.name,
+        chainId: chain.chainId,
+        rpcUrl: chain.rpcUrl,
+        chain: chain.viemChain,
+    })),
+    bitcoin: {
+        network: process.env.BTC_NETWORK || 'mainnet',
+        rpcUrls: Array.from(new Set([
+            process.env.BTC_RPC_URL || '',
+            ...(process.env.BTC_FALLBACK_RPC_URLS || '').split(',').map(url => url.trim()),
+        ].filter(Boolean))),
+        rpcUser: process.env.BTC_RPC_USER,
+        rpcPassword: process.env.BTC_RPC_PASSWORD,
+        confirmations: process.env.BTC_CONFIRMATIONS ? parseInt(process.env.BTC_CONFIRMATIONS, 10) : 3,
+        pollingIntervalMs: process.env.BTC_POLLING_INTERVAL_MS ? parseInt(process.env.BTC_POLLING_INTERVAL_MS, 10) : 60000,
+        maxCatchUpBlocks: process.env.BTC_MAX_CATCHUP_BLOCKS ? parseInt(process.env.BTC_MAX_CATCHUP_BLOCKS, 10) : 144, // ~24h of 10 minute blocks
+    },
+    solana: {
+        cluster: process.env.SOLANA_CLUSTER || 'mainnet-beta',
+        rpcUrls: Array.from(new Set([
+            process.env.SOLANA_RPC_URL || '',
+            ...(process.env.SOLANA_FALLBACK_RPC_URLS || '').split(',').map(url => url.trim()),
+        ].filter(Boolean))),
+        pollingIntervalMs: process.env.SOLANA_POLLING_INTERVAL_MS ? parseInt(process.env.SOLANA_POLLING_INTERVAL_MS, 10) : 2000,
+        maxSlotsPerPoll: process.env.SOLANA_MAX_SLOTS_PER_POLL ? parseInt(process.env.SOLANA_MAX_SLOTS_PER_POLL, 10) : 100,
+        maxCatchUpSlots: process.env.SOLANA_MAX_CATCHUP_SLOTS ? parseInt(process.env.SOLANA_MAX_CATCHUP_SLOTS, 10) : 1500, // ~10 minutes of 400ms slots
+    },
+    evmScanner: {
+        backfillBatchSize: process.env.EVM_BACKFILL_BATCH_SIZE ? parseInt(process.env.EVM_BACKFILL_BATCH_SIZE, 10) : 20,
+        maxCatchUpBlocks: process.env.EVM_MAX_CATCHUP_BLOCKS ? parseInt(process.env.EVM_MAX_CATCHUP_BLOCKS, 10) : 10000,
+        logTopicChunkSize: process.env.EVM_LOG_TOPIC_CHUNK_SIZE ? parseInt(process.env.EVM_LOG_TOPIC_CHUNK_SIZE, 10) : 500,
+    },
+    backfill: {
+        maxBlocks: process.env.BACKFILL_MAX_BLOCKS ? parseInt(process.env.BACKFILL_MAX_BLOCKS, 10) : 250000,
+        pollIntervalMs: process.env.BACKFILL_POLL_INTERVAL_MS ? parseInt(process.env.BACKFILL_POLL_INTERVAL_MS, 10) : 10000,
+    },
+    mempoolWatcher: {
+        fetchBatchSize: process.env.MEMPOOL_FETCH_BATCH_SIZE ? parseInt(process.env.MEMPOOL_FETCH_BATCH_SIZE, 10) : 20,
+        maxQueueSize: process.env.MEMPOOL_MAX_QUEUE_SIZE ? parseInt(process.env.MEMPOOL_MAX_QUEUE_SIZE, 10) : 5000,
+        dropAfterMs: process.env.MEMPOOL_DROP_AFTER_MS ? parseInt(process.env.MEMPOOL_DROP_AFTER_MS, 10) : 15 * 60 * 1000,
+        dropCheckIntervalMs: process.env.MEMPOOL_DROP_CHECK_INTERVAL_MS ? parseInt(process.env.MEMPOOL_DROP_CHECK_INTERVAL_MS, 10) : 60 * 1000,
+    },
+    rpcPool: {
+        failureThreshold: process.env.RPC_FAILURE_THRESHOLD ? parseInt(process.env.RPC_FAILURE_THRESHOLD, 10) : 3,
+        probeIntervalMs: process.env.RPC_PROBE_INTERVAL_MS ? parseInt(process.env.RPC_PROBE_INTERVAL_MS, 10) : 30000,
+        requestTimeoutMs: process.env.RPC_REQUEST_TIMEOUT_MS ? parseInt(process.env.RPC_REQUEST_TIMEOUT_MS, 10) : 10000,
+    },
+    outbox: {
+        pollIntervalMs: process.env.OUTBOX_POLL_INTERVAL_MS ? parseInt(process.env.OUTBOX_POLL_INTERVAL_MS, 10) : 2000,
+        batchSize: process.env.OUTBOX_BATCH_SIZE ? parseInt(process.env.OUTBOX_BATCH_SIZE, 10) : 50,
+        maxAttempts: process.env.OUTBOX_MAX_ATTEMPTS ? parseInt(process.env.OUTBOX_MAX_ATTEMPTS, 10) : 8,
+        baseBackoffMs: process.env.OUTBOX_BASE_BACKOFF_MS ? parseInt(process.env.OUTBOX_BASE_BACKOFF_MS, 10) : 5000,
+        maxBackoffMs: process.env.OUTBOX_MAX_BACKOFF_MS ? parseInt(process.env.OUTBOX_MAX_BACKOFF_MS, 10) : 15 * 60 * 1000,
+        lockTimeoutMs: process.env.OUTBOX_LOCK_TIMEOUT_MS ? parseInt(process.env.OUTBOX_LOCK_TIMEOUT_MS, 10) : 5 * 60 * 1000,
+    },
+    spamFilter: {
+        enabled: process.env.SPAM_FILTER_ENABLED !== 'false',
+        poisoningPrefixLength: process.env.POISONING_PREFIX_LENGTH ? parseInt(process.env.POISONING_PREFIX_LENGTH, 10) : 4,
+        poisoningSuffixLength: process.env.POISONING_SUFFIX_LENGTH ? parseInt(process.env.POISONING_SUFFIX_LENGTH, 10) : 4,
+        dustUsdThreshold: process.env.DUST_USD_THRESHOLD ? parseFloat(process.env.DUST_USD_THRESHOLD) : 0.01,
+    },
+    freezeMonitor: {
+        tokenSymbols: (process.env.FREEZE_MONITOR_TOKENS || 'USDT,USDC').split(',').map(symbol => symbol.trim().toUpperCase()).filter(Boolean),
+    },
+    approvalMonitor: {
+        enabled: process.env.APPROVAL_MONITOR_ENABLED !== 'false',
+        usdThreshold: process.env.APPROVAL_ALERT_USD_THRESHOLD ? parseFloat(process.env.APPROVAL_ALERT_USD_THRESHOLD) : 10000,
+        allowedSpenders: (process.env.APPROVAL_ALLOWED_SPENDERS || '').split(',').map(spender => spender.trim().toLowerCase()).filter(Boolean),
+    },
     // logLevel: process.env.LOG_LEVEL || (process.env.NODE_ENV === 'development' ? 'debug' : 'info'),
     logLevel: "info",
     alchemy: {
@@ -0,0 +1,142 @@
+import 'dotenv-flow/config';
+import type { Chain } from 'viem';
+import { mainnet, polygon, bsc, arbitrum, base, optimism, avalanche } from 'viem/chains';
+
+// How internal (contract-to-address) native transfers are found: not at all, geth's
+// debug_traceBlockByHash with the callTracer, or OpenEthereum/Erigon's trace_block
+export type EvmTraceMode = 'off' | 'debug' | 'parity';
+
+/**
+ * Everything the backend needs to know about an EVM chain. Adding a chain here makes the
+ * monitors, balance lookups, token lookups and Slack formatting pick it up.
+ */
+export interface EvmChainDefinition {
+    key: string; // Chain name used in the token_addresses table and as env var prefix, e.g. 'bsc' -> BSC_RPC_URL
+    name: string; // Display name used in notifications and logs, e.g. 'BNB'
+    viemChain: Chain;
+    chainId: number;
+    rpcUrl: string; // Primary RPC endpoint
+    rpcUrls: string[]; // Primary first, then fallbacks the monitors fail over to
+    alchemyNetwork: string; // Network id used by the Alchemy Portfolio API, e.g. 'eth-mainnet'
+    nativeSymbol: string;
+    priceSymbol: string; // Symbol used for native price lookups when it differs from the on-chain symbol
+    explorerTxUrl: string; // Transaction link template, '{txHash}' is replaced
+    pollingIntervalMs: number;
+    confirmations: number; // Blocks a deposit must be buried under before it is confirmed (0 = alert immediately)
+    traceMode: EvmTraceMode;
+    mempoolWatch: boolean; // Warn about pending deposits seen in the mempool before they are mined
+    mempoolWsUrl: string | null; // WebSocket endpoint for the pending transaction subscription; the RPC pool is polled with a filter otherwise
+}
+
+interface EvmChainDeclaration {
+    key: string;
+    name: string;
+    viemChain: Chain;
+    alchemyNetwork: string;
+    priceSymbol?: string;
+    explorerTxUrl: string;
+    pollingIntervalMs: number;
+    confirmations: number;
+    traceMode?: EvmTraceMode;
+}
+
+// Declare new EVM chains here
+const EVM_CHAIN_DECLARATIONS: EvmChainDeclaration[] = [
+    { key: 'ethereum', name: 'Ethereum', viemChain: mainnet, alchemyNetwork: 'eth-mainnet', explorerTxUrl: 'https://etherscan.io/tx/{txHash}', pollingIntervalMs: 8000, confirmations: 12 },
+    { key: 'polygon', name: 'Polygon', viemChain: polygon, alchemyNetwork: 'polygon-mainnet', priceSymbol: 'MATIC', explorerTxUrl: 'https://polygonscan.com/tx/{txHash}', pollingIntervalMs: 2000, confirmations: 64 },
+    { key: 'bsc', name: 'BNB', viemChain: bsc, alchemyNetwork: 'bnb-mainnet', explorerTxUrl: 'https://bscscan.com/tx/{txHash}', pollingIntervalMs: 3000, confirmations: 15 },
+    { key: 'arbitrum', name: 'Arbitrum', viemChain: arbitrum, alchemyNetwork: 'arb-mainnet', explorerTxUrl: 'https://arbiscan.io/tx/{txHash}', pollingIntervalMs: 2000, confirmations: 20 },
+    { key: 'base', name: 'Base', viemChain: base, alchemyNetwork: 'base-mainnet', explorerTxUrl: 'https://basescan.org/tx/{txHash}', pollingIntervalMs: 2000, confirmations: 10 },
+    { key: 'optimism', name: 'Optimism', viemChain: optimism, alchemyNetwork: 'opt-mainnet', explorerTxUrl: 'https://optimistic.etherscan.io/tx/{txHash}', pollingIntervalMs: 2000, confirmations: 10 },
+    { key: 'avalanche', name: 'Avalanche', viemChain: avalanche, alchemyNetwork: 'avax-mainnet', explorerTxUrl: 'https://snowtrace.io/tx/{txHash}', pollingIntervalMs: 2000, confirmations: 1 },
+];
+
+function readIntEnv(name: string, fallback: number): number {
+    const value = process.env[name];
+    return value ? parseInt(value, 10) : fallback;
+}
+
+function readListEnv(name: string): string[] {
+    const value = process.env[name];
+    return value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+function readBooleanEnv(name: string, fallback: boolean): boolean {
+    const value = process.env[name]?.trim().toLowerCase();
+    return value === 'true' ? true : (value === 'false' ? false : fallback);
+}
+
+function readTraceModeEnv(name: string, fallback: EvmTraceMode): EvmTraceMode {
+    const value = process.env[name]?.trim().toLowerCase();
+    return value === 'off' || value === 'debug' || value === 'parity' ? value : fallback;
+}
+
+/**
+ * Resolves a declaration against the environment. Every value can be overridden per chain
+ * with `<KEY>_RPC_URL`, `<KEY>_POLLING_INTERVAL_MS`, `<KEY>_CONFIRMATIONS` and `<KEY>_TRACE_MODE`.
+ * `<KEY>_FALLBACK_RPC_URLS` (comma-separated) adds failover endpoints; the chain's public
+ * RPC is always kept as the last resort. `<KEY>_MEMPOOL_WATCH=true` turns on pending deposit
+ * warnings, subscribed through `<KEY>_MEMPOOL_WS_URL` when set.
+ */
+function resolveChain(declaration: EvmChainDeclaration): EvmChainDefinition {
+    const envPrefix = declaration.key.toUpperCase();
+    const rpcUrl = process.env[`${envPrefix}_RPC_URL`] || `https://${declaration.alchemyNetwork}.g.alchemy.com/v2/${process.env.ALCHEMY_ID || ''}`;
+    const rpcUrls = Array.from(new Set([
+        rpcUrl,
+        ...readListEnv(`${envPrefix}_FALLBACK_RPC_URLS`),
+        ...declaration.viemChain.rpcUrls.default.http,
+    ]));
+    return {
+        key: declaration.key,
+        name: declaration.name,
+        viemChain: declaration.viemChain,
+        chainId: declaration.viemChain.id,
+        rpcUrl,
+        rpcUrls,
+        alchemyNetwork: declaration.alchemyNetwork,
+        nativeSymbol: declaration.viemChain.nativeCurrency.symbol,
+        priceSymbol: declaration.priceSymbol ?? declaration.viemChain.nativeCurrency.symbol,
+        explorerTxUrl: declaration.explorerTxUrl,
+        pollingIntervalMs: readIntEnv(`${envPrefix}_POLLING_INTERVAL_MS`, declaration.pollingIntervalMs),
+        confirmations: readIntEnv(`${envPrefix}_CONFIRMATIONS`, declaration.confirmations),
+        traceMode: readTraceModeEnv(`${envPrefix}_TRACE_MODE`, declaration.traceMode ?? 'off'),
+        mempoolWatch: readBooleanEnv(`${envPrefix}_MEMPOOL_WATCH`, false),
+        mempoolWsUrl: process.env[`${envPrefix}_MEMPOOL_WS_URL`] || null,
+    };
+}
+
+// EVM_CHAINS (comma-separated keys, e.g. "ethereum,polygon") limits which chains are enabled; all by default
+const enabledKeys = process.env.EVM_CHAINS
+    ? process.env.EVM_CHAINS.split(',').map(key => key.trim().toLowerCase()).filter(Boolean)
+    : null;
+
+export const evmChainRegistry: EvmChainDefinition[] = EVM_CHAIN_DECLARATIONS
+    .filter(declaration => !enabledKeys || enabledKeys.includes(declaration.key))
+    .map(resolveChain);
+
+export function getEvmChainById(chainId: number): EvmChainDefinition | undefined {
+    return evmChainRegistry.find(chain => chain.chainId === chainId);
+}
+
+export function getEvmChainByName(name: string): EvmChainDefinition | undefined {
+    const normalized = name.toLowerCase();
+    return evmChainRegistry.find(chain => chain.name.toLowerCase() === normalized || chain.key === normalized);
+}
+
+/**
+ * Resolves a network as users write it: key ('polygon'), display name ('BNB'), chain id (137)
+ * or chain key ('EVM:137').
+ */
+export function resolveEvmNetwork(value: string | number): EvmChainDefinition | undefined {
+    const text = String(value).trim();
+    const chainId = /^(?:EVM:)?(\d+)$/i.exec(text);
+    return chainId ? getEvmChainById(Number(chainId[1])) : getEvmChainByName(text);
+}
+
+export function getEvmChainByAlchemyNetwork(network: string): EvmChainDefinition | undefined {
+    return evmChainRegistry.find(chain => chain.alchemyNetwork === network);
+}
+
+export function getEvmExplorerTxUrl(chain: EvmChainDefinition, txHash: string): string {
+    return chain.explorerTxUrl.replace('{txHash}', txHash);
+}
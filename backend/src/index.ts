@@ -14,11 +14,22 @@ import companyRoutes from './modules/company/company.routes';
 import importRoutes from './modules/import/import.routes';
 import slackRoutes from './routes/slackRoutes';
 import reportRoutes from './routes/reportRoutes';
+import cursorRoutes from './routes/cursorRoutes';
+import transferRoutes from './routes/transferRoutes';
+import outboxRoutes from './routes/outboxRoutes';
+import tokenRoutes from './routes/tokenRoutes';
+import freezeRoutes from './routes/freezeRoutes';
+import allowanceRoutes from './routes/allowanceRoutes';
+import backfillRoutes from './routes/backfillRoutes';
 import authRoutes from './modules/auth/auth.routes';
 import { ChainMonitorManager } from './services/monitors/chainMonitorManager';
+import { listChainMonitorPlugins } from './services/monitors/chainMonitorRegistry';
 import { TokenService } from './services/token/tokenService';
 import { ServiceManager } from './services/serviceManager';
 import { MemoryLeakDetector } from './services/memoryLeakDetector';
+import { BlockCursorService } from './services/cursor/blockCursorService';
+import { OutboxDispatcher } from './services/outbox/outboxDispatcher';
+import { BackfillService } from './services/backfill/backfillService';
 import logger from './config/logger';
 
 // Create an event handler function
@@ -38,6 +49,14 @@ const handleWebSocketEvent = (event: any) => {
             token: event.data.tokenContract,
             hash: event.data.transactionHash
         });
+    } else if (event.type === 'NFT') {
+        logger.info(`[${event.chainId}] ${event.data.standard} NFT transfer detected:`, {
+            from: event.data.from,
+            to: event.data.to,
+            tokenIds: event.data.tokenIds.map((id: bigint) => id.toString()),
+            token: event.data.tokenContract,
+            hash: event.data.transactionHash
+        });
     }
 };
 
@@ -54,6 +73,13 @@ server.register(companyRoutes, { prefix: '/companies' });
 server.register(importRoutes, { prefix: '/imports' });
 server.register(slackRoutes, { prefix: '/api/v1/slack' });
 server.register(reportRoutes, { prefix: '/api/v1/reports' });
+server.register(cursorRoutes, { prefix: '/api/v1/cursors' });
+server.register(transferRoutes, { prefix: '/api/v1/transfers' });
+server.register(outboxRoutes, { prefix: '/api/v1/outbox' });
+server.register(tokenRoutes, { prefix: '/api/v1/tokens' });
+server.register(freezeRoutes, { prefix: '/api/v1/freezes' });
+server.register(allowanceRoutes, { prefix: '/api/v1/allowances' });
+server.register(backfillRoutes, { prefix: '/api/v1/backfills' });
 
 // Unauthenticated routes for Slack installation
 server.get('/public/companies/:id', async (request, reply) => {
@@ -152,13 +178,13 @@ server.post('/public/slack/generate-install-url', async (request, reply) => {
 // Initialize Token Service
 const tokenService = TokenService.getInstance();
 
-// Initialize Connection Monitors
-const evmMonitor = new ChainMonitorManager(5, 'EVM'); // Refresh addresses every 5 minutes
-const tronMonitor = new ChainMonitorManager(5, 'TRON'); // Refresh addresses every 5 minutes
-
-// Set event handlers
-evmMonitor.setEventHandler(handleWebSocketEvent);
-tronMonitor.setEventHandler(handleWebSocketEvent);
+// Initialize one connection monitor per registered chain family, keyed by lowercase chain type ('evm', 'tron', ...)
+const chainMonitors = new Map<string, ChainMonitorManager>();
+for (const plugin of listChainMonitorPlugins()) {
+    const monitor = new ChainMonitorManager(5, plugin.chainType); // Refresh addresses every 5 minutes
+    monitor.setEventHandler(handleWebSocketEvent);
+    chainMonitors.set(plugin.chainType.toLowerCase(), monitor);
+}
 
 // Initialize service manager
 const serviceManager = ServiceManager.getInstance();
@@ -170,16 +196,28 @@ serviceManager.registerService({
     stop: () => tokenService.stop()
 });
 
+const outboxDispatcher = OutboxDispatcher.getInstance();
 serviceManager.registerService({
-    name: 'EVM_Monitor',
-    start: async () => await evmMonitor.startConnections(),
-    stop: () => evmMonitor.stopConnections()
+    name: 'OutboxDispatcher',
+    start: async () => outboxDispatcher.start(),
+    stop: () => outboxDispatcher.stop()
 });
 
+for (const monitor of chainMonitors.values()) {
+    serviceManager.registerService({
+        name: `${monitor.getChainType()}_Monitor`,
+        start: async () => await monitor.startConnections(),
+        stop: () => monitor.stopConnections()
+    });
+}
+
+// Historical scans run on the monitors above once they are up
+const backfillService = BackfillService.getInstance();
+chainMonitors.forEach(monitor => backfillService.registerMonitor(monitor));
 serviceManager.registerService({
-    name: 'TRON_Monitor',
-    start: async () => await tronMonitor.startConnections(),
-    stop: () => tronMonitor.stopConnections()
+    name: 'BackfillService',
+    start: async () => await backfillService.start(),
+    stop: () => backfillService.stop()
 });
 
 // Initialize Memory Leak Detector
@@ -271,43 +309,39 @@ server.get('/health', async (request, reply) => {
 // Add API route to switch blockchain monitoring mode
 server.post('/api/monitoring/mode', async (request, reply) => {
     try {
-        const { mode } = request.body as { mode: 'EVM' | 'TRON' | 'both' };
+        const { mode } = request.body as { mode: string | string[] };
+        const chainTypes = Array.from(chainMonitors.keys());
+
+        // A chain type, a list of chain types, or 'both'/'all' for every registered chain family
+        const requested = typeof mode === 'string' && ['both', 'all'].includes(mode.toLowerCase())
+            ? chainTypes
+            : (Array.isArray(mode) ? mode : [mode]).filter(Boolean).map(type => String(type).toLowerCase());
 
-        if (!mode || !['EVM', 'TRON', 'both'].includes(mode)) {
+        if (requested.length === 0 || requested.some(type => !chainMonitors.has(type))) {
+            const validModes = [...chainTypes.map(type => chainMonitors.get(type)!.getChainType()), 'both', 'all'];
             return reply.status(400).send({
                 status: 'error',
-                message: 'Invalid mode. Must be "EVM", "TRON", or "both".'
+                message: `Invalid mode. Must be one of ${validModes.map(m => `"${m}"`).join(', ')}, or a list of chain types.`
             });
         }
 
-        // Stop all monitoring first
-        await serviceManager.stopAll();
+        // Stop all chain monitoring first; other services (token prices, outbox) keep running
+        for (const monitor of chainMonitors.values()) {
+            monitor.stopConnections();
+        }
         logger.info(`Stopped all blockchain monitoring`);
 
         // Start requested monitoring mode(s)
-        if (mode === 'EVM' || mode === 'both') {
-            const evmService = serviceManager.getService('EVM_Monitor');
-            if (evmService) {
-                await evmService.start();
-                logger.info('EVM blockchain monitoring started');
-            }
-        }
-
-        if (mode === 'TRON' || mode === 'both') {
-            const tronService = serviceManager.getService('TRON_Monitor');
-            if (tronService) {
-                await tronService.start();
-                logger.info('Tron blockchain monitoring started');
-            }
+        for (const type of requested) {
+            const monitor = chainMonitors.get(type)!;
+            await monitor.startConnections();
+            logger.info(`${monitor.getChainType()} blockchain monitoring started`);
         }
 
         return {
             status: 'success',
-            message: `Monitoring mode switched to ${mode}`,
-            activeMonitoring: {
-                evm: mode === 'EVM' || mode === 'both',
-                tron: mode === 'TRON' || mode === 'both'
-            }
+            message: `Monitoring mode switched to ${Array.isArray(mode) ? mode.join(', ') : mode}`,
+            activeMonitoring: Object.fromEntries(chainTypes.map(type => [type, requested.includes(type)]))
         };
     } catch (error: any) {
         logger.error('Error switching monitoring mode:', error);
@@ -322,15 +356,25 @@ server.post('/api/monitoring/mode', async (request, reply) => {
 // Add API route to get current monitoring status
 server.get('/api/monitoring/status', async (request, reply) => {
     const memoryStats = memoryLeakDetector.getMemoryStats();
+
+    let persistedCursors: Awaited<ReturnType<BlockCursorService['listCursors']>> = [];
+    try {
+        persistedCursors = await BlockCursorService.getInstance().listCursors();
+    } catch (error) {
+        logger.warn('Failed to load persisted chain cursors for status:', error);
+    }
+
+    const monitors = Array.from(chainMonitors.entries());
     return {
         status: 'success',
         monitoring: {
-            evm: evmMonitor.isRunning(),
-            tron: tronMonitor.isRunning(),
-            addressCount: {
-                evm: evmMonitor.getTrackedAddressCount(),
-                tron: tronMonitor.getTrackedAddressCount()
-            }
+            ...Object.fromEntries(monitors.map(([type, monitor]) => [type, monitor.isRunning()])),
+            addressCount: Object.fromEntries(monitors.map(([type, monitor]) => [type, monitor.getTrackedAddressCount()])),
+            cursors: {
+                live: monitors.flatMap(([, monitor]) => monitor.getCursorStatus()),
+                persisted: persistedCursors
+            },
+            rpcProviders: monitors.flatMap(([, monitor]) => monitor.getProviderStatus())
         },
         memory: {
             current: memoryStats.current ? {
@@ -392,23 +436,26 @@ server.post('/api/memory/cleanup', async (request, reply) => {
 server.post('/api/services/restart', async (request, reply) => {
     try {
         const { service } = request.body as { service?: string };
+        const restartedServices = service ? [service.toLowerCase()] : Array.from(chainMonitors.keys());
 
-        if (service === 'evm' || !service) {
-            logger.info('Restarting EVM monitor...');
-            evmMonitor.stopConnections();
-            await evmMonitor.startConnections();
+        if (restartedServices.some(type => !chainMonitors.has(type))) {
+            return reply.status(400).send({
+                status: 'error',
+                message: `Unknown service. Must be one of ${Array.from(chainMonitors.keys()).map(type => `"${type}"`).join(', ')}.`
+            });
         }
 
-        if (service === 'tron' || !service) {
-            logger.info('Restarting Tron monitor...');
-            tronMonitor.stopConnections();
-            await tronMonitor.startConnections();
+        for (const type of restartedServices) {
+            const monitor = chainMonitors.get(type)!;
+            logger.info(`Restarting ${monitor.getChainType()} monitor...`);
+            monitor.stopConnections();
+            await monitor.startConnections();
         }
 
         return {
             status: 'success',
             message: `Service(s) restarted successfully`,
-            restartedServices: service ? [service] : ['evm', 'tron']
+            restartedServices
         };
     } catch (error: any) {
         logger.error('Error restarting services:', error);
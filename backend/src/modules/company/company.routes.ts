@@ -1,6 +1,6 @@
 import type { FastifyInstance, FastifyPluginAsync, FastifyRequest } from 'fastify';
 import companyService from './company.service';
-import type { CompanyParams, CreateCompanyBody, UpdateCompanyBody } from './company.types';
+import type { CompanyParams, CreateCompanyBody, UpdateCompanyBody, CompanyAddressParams, UpdateCompanyAddressBody } from './company.types';
 import { Prisma } from '@prisma/client';
 import { authenticateToken } from '../auth/auth.middleware';
 
@@ -114,6 +114,53 @@ const companyRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
         }
     });
 
+    // PUT /companies/:id/addresses/:address - Update alert thresholds, account details or watched EVM networks of a tracked address, or (de)activate it
+    fastify.put<
+        { Body: UpdateCompanyAddressBody, Params: CompanyAddressParams }
+    >('/:id/addresses/:address', { preHandler: authenticateToken }, async (request, reply) => {
+        try {
+            const companyId = parseInt(request.params.id, 10);
+            if (isNaN(companyId)) {
+                reply.status(400).send({ error: 'Invalid company ID format.' });
+                return;
+            }
+
+            const { threshold, withdrawalThreshold, accountName, accountManager, isActive, networks } = request.body || {};
+            for (const [field, value] of Object.entries({ threshold, withdrawalThreshold })) {
+                if (value !== undefined && (isNaN(Number(value)) || Number(value) < 0)) {
+                    reply.status(400).send({ error: `${field} must be a non-negative number.` });
+                    return;
+                }
+            }
+            if (isActive !== undefined && typeof isActive !== 'boolean') {
+                reply.status(400).send({ error: 'isActive must be true or false.' });
+                return;
+            }
+            if (networks !== undefined && (!Array.isArray(networks) || networks.some(network => typeof network !== 'string' && typeof network !== 'number'))) {
+                reply.status(400).send({ error: 'networks must be a list of EVM chains (e.g. ["EVM:1", "polygon"]), or empty for all.' });
+                return;
+            }
+            if (threshold === undefined && withdrawalThreshold === undefined && accountName === undefined && accountManager === undefined && isActive === undefined && networks === undefined) {
+                reply.status(400).send({ error: 'No data provided for update. threshold, withdrawalThreshold, accountName, accountManager, isActive or networks must be present.' });
+                return;
+            }
+
+            const updated = await companyService.updateCompanyAddress(companyId, request.params.address, {
+                threshold, withdrawalThreshold, accountName, accountManager, isActive, networks,
+            });
+            reply.send(updated);
+        } catch (e: any) {
+            fastify.log.error(e);
+            if (e.message === 'Company address not found.') {
+                reply.status(404).send({ error: e.message });
+            } else if (e.message.includes('Invalid')) {
+                reply.status(400).send({ error: e.message });
+            } else {
+                reply.status(500).send({ error: 'Internal Server Error' });
+            }
+        }
+    });
+
     // DELETE /companies/:id - Delete a company
     fastify.delete<
         { Params: CompanyParams }
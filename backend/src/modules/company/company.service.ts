@@ -1,8 +1,10 @@
 import prisma from '../../prisma';
 import { Prisma } from '@prisma/client';
 import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library'; // Specific import for error type
-import type { CreateCompanyBody, UpdateCompanyBody, SlackConfigurationInput } from './company.types';
+import type { CreateCompanyBody, UpdateCompanyBody, SlackConfigurationInput, UpdateCompanyAddressBody } from './company.types';
 import { Decimal } from '@prisma/client/runtime/library';
+import { AddressChangeService } from '../../services/address/addressChangeService';
+import { normalizeEvmNetworks } from '../../services/address/networkSelection';
 
 // Helper to build SlackConfig data for create/update operations
 const buildSlackConfigPayload = (configInput: SlackConfigurationInput): any => {
@@ -151,12 +153,67 @@ export class CompanyService {
         }
     }
 
+    async updateCompanyAddress(companyId: number, address: string, data: UpdateCompanyAddressBody) {
+        const companyAddress = await prisma.companyAddress.findFirst({
+            where: {
+                companyId,
+                address: { address: { equals: address, mode: 'insensitive' } },
+            },
+            include: { address: { select: { chainType: true } } },
+        });
+        if (!companyAddress) {
+            throw new Error('Company address not found.');
+        }
+        const networks = data.networks !== undefined ? normalizeEvmNetworks(data.networks) : undefined;
+        if (networks && networks.length > 0 && companyAddress.address.chainType !== 'EVM') {
+            throw new Error('Invalid networks: network selection only applies to EVM addresses.');
+        }
+
+        const updateData: any = {};
+        if (data.threshold !== undefined) {
+            updateData.threshold = new Decimal(data.threshold.toString());
+        }
+        if (data.withdrawalThreshold !== undefined) {
+            updateData.withdrawalThreshold = new Decimal(data.withdrawalThreshold.toString());
+        }
+        if (data.accountName !== undefined) {
+            updateData.accountName = data.accountName;
+        }
+        if (data.accountManager !== undefined) {
+            updateData.accountManager = data.accountManager;
+        }
+        if (data.isActive !== undefined) {
+            updateData.isActive = data.isActive;
+        }
+        if (networks !== undefined) {
+            updateData.networks = networks;
+        }
+
+        const updated = await prisma.companyAddress.update({
+            where: { id: companyAddress.id },
+            data: updateData,
+            include: { address: true },
+        });
+        const networksChanged = networks !== undefined && networks.join(',') !== companyAddress.networks.join(',');
+        if ((data.isActive !== undefined && data.isActive !== companyAddress.isActive) || networksChanged) {
+            await AddressChangeService.getInstance().publish([companyAddress.addressId], 'address_update');
+        }
+        return updated;
+    }
+
     async deleteCompanyById(id: number) {
         try {
-            return await prisma.company.delete({
+            const companyAddresses = await prisma.companyAddress.findMany({
+                where: { companyId: id, isActive: true },
+                select: { addressId: true },
+            });
+            const deleted = await prisma.company.delete({
                 where: { id },
                 include: { slackConfiguration: true }
             });
+            // Its addresses are unlinked by the cascade; stop monitoring the ones no other company tracks
+            await AddressChangeService.getInstance().publish(companyAddresses.map(companyAddress => companyAddress.addressId), 'company_delete');
+            return deleted;
         } catch (e: any) {
             if (e instanceof PrismaClientKnownRequestError && e.code === 'P2025') {
                 throw new Error('Company not found to delete.');
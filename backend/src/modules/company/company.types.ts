@@ -26,4 +26,18 @@ export interface UpdateCompanyBody {
     slackConfiguration?: SlackConfigurationInput;
     dailyReportsEnabled?: boolean;
     dailyReportsEmail?: string | null;
-} 
\ No newline at end of file
+} 
+
+export interface CompanyAddressParams {
+    id: string;
+    address: string;
+}
+
+export interface UpdateCompanyAddressBody {
+    threshold?: number | string; // USD value a deposit must reach to alert
+    withdrawalThreshold?: number | string; // USD value a withdrawal must reach to alert
+    accountName?: string | null;
+    accountManager?: string | null;
+    isActive?: boolean; // False stops monitoring the address for this company
+    networks?: Array<string | number>; // EVM chains to watch the address on (keys, names or ids); empty for all
+}
@@ -1,8 +1,10 @@
 import prisma from '../../prisma'; // Adjusted path to import from src/prisma.ts
 import { Prisma, PrismaClient } from '@prisma/client';
 import type { ImportAddress, ImportRequestBody } from './import.types';
-import { isValidEVMAddress, isValidTronAddress } from '../../utils/validators';
+import { isValidEVMAddress, isValidTronAddress, isValidBitcoinAddress, isBech32Address, isValidSolanaAddress } from '../../utils/validators';
 import logger from '../../config/logger'; // Import logger
+import { AddressChangeService } from '../../services/address/addressChangeService';
+import { normalizeEvmNetworks } from '../../services/address/networkSelection';
 
 export class ImportService {
     private readonly BATCH_SIZE = 100; // Process 100 addresses per batch to avoid timeouts
@@ -94,8 +96,14 @@ export class ImportService {
         }
 
         // Handle REPLACE mode - deactivate existing addresses
+        let replacedAddressIds: number[] = [];
         if (mode === 'REPLACE') {
             logger.info(`[ImportService] REPLACE mode: deactivating existing addresses for company ${companyId}`);
+            const replaced = await prisma.companyAddress.findMany({
+                where: { companyId: companyId, isActive: true },
+                select: { addressId: true },
+            });
+            replacedAddressIds = replaced.map(companyAddress => companyAddress.addressId);
             await prisma.companyAddress.updateMany({
                 where: { companyId: companyId, isActive: true },
                 data: { isActive: false }, // Soft delete existing active addresses for this company
@@ -105,6 +113,12 @@ export class ImportService {
         // Process company address associations in batches
         await this.processCompanyAddressBatches(processedAddressesInfo, companyId);
 
+        // Let the monitors start (and stop) watching right away
+        await AddressChangeService.getInstance().publish(
+            [...replacedAddressIds, ...processedAddressesInfo.filter(addr => addr.isValid).map(addr => addr.addressId)],
+            'import'
+        );
+
         // Update the import batch with final counts
         const finalImportBatch = await prisma.importBatch.update({
             where: { id: importBatch.id },
@@ -150,10 +164,27 @@ export class ImportService {
                     isValid = isValidEVMAddress(impAddr.address);
                 } else if (currentChainType === 'TRON') {
                     isValid = isValidTronAddress(impAddr.address);
+                } else if (currentChainType === 'BTC') {
+                    isValid = isValidBitcoinAddress(impAddr.address);
+                    if (isValid && isBech32Address(impAddr.address)) {
+                        impAddr.address = impAddr.address.toLowerCase(); // Nodes report bech32 addresses in lowercase
+                    }
+                } else if (currentChainType === 'SOLANA') {
+                    isValid = isValidSolanaAddress(impAddr.address);
                 } else {
                     isValid = false; // Invalid chain_type
                 }
 
+                if (isValid && impAddr.networks !== undefined && impAddr.networks !== null) {
+                    try {
+                        impAddr.networks = normalizeEvmNetworks(impAddr.networks);
+                        isValid = impAddr.networks.length === 0 || currentChainType === 'EVM'; // Network selection only applies to EVM addresses
+                    } catch (error: any) {
+                        logger.warn(`[ImportService] Skipping ${impAddr.address}: ${error.message}`);
+                        isValid = false;
+                    }
+                }
+
                 if (isValid) {
                     validCount++;
                     const uniqueAddress = await tx.address.upsert({
@@ -209,8 +240,10 @@ export class ImportService {
                 for (const procAddr of batch) {
                     // Use the threshold, accountName, and accountManager from the individual address in the CSV, if provided
                     const addressThreshold = procAddr.originalAddress.threshold;
+                    const withdrawalThreshold = procAddr.originalAddress.withdrawalThreshold;
                     const accountName = procAddr.originalAddress.accountName;
                     const accountManager = procAddr.originalAddress.accountManager;
+                    const networks = procAddr.originalAddress.networks as string[] | undefined; // Normalized to chain keys by processBatch
 
                     await tx.companyAddress.upsert({
                         where: { uq_company_address: { companyId: companyId, addressId: procAddr.addressId } },
@@ -218,16 +251,20 @@ export class ImportService {
                             isActive: true,
                             updatedAt: new Date(),
                             threshold: addressThreshold ?? 0, // Use 0 if no threshold provided
+                            withdrawalThreshold: withdrawalThreshold ?? 0,
                             accountName: accountName ?? null,
-                            accountManager: accountManager ?? null
+                            accountManager: accountManager ?? null,
+                            networks: networks ?? []
                         },
                         create: {
                             company: { connect: { id: companyId } },
                             address: { connect: { id: procAddr.addressId } },
                             isActive: true,
                             threshold: addressThreshold ?? 0, // Use 0 if no threshold provided
+                            withdrawalThreshold: withdrawalThreshold ?? 0,
                             accountName: accountName ?? null,
-                            accountManager: accountManager ?? null
+                            accountManager: accountManager ?? null,
+                            networks: networks ?? []
                         },
                     });
                 }
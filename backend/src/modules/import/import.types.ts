@@ -1,9 +1,11 @@
 export interface ImportAddress {
     address: string;
-    chain_type: 'EVM' | 'TRON';
+    chain_type: 'EVM' | 'TRON' | 'BTC' | 'SOLANA';
     threshold?: number;
+    withdrawalThreshold?: number;
     accountName?: string;
     accountManager?: string;
+    networks?: string[] | string; // EVM only: chains to watch the address on (keys, names or ids); all when omitted
 }
 
 export interface ImportRequestBody {
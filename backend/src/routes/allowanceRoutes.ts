@@ -0,0 +1,67 @@
+import type { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import type { TokenAllowance } from '@prisma/client';
+import { authenticateToken } from '../modules/auth/auth.middleware';
+import { TokenAllowanceService } from '../services/token/tokenAllowanceService';
+
+interface ListAllowancesQuery {
+    owner?: string;
+    spender?: string;
+    chainKey?: string;
+    unlimited?: string;
+    includeRevoked?: string;
+    limit?: string;
+    offset?: string;
+}
+
+function serializeAllowance(allowance: TokenAllowance) {
+    return {
+        id: allowance.id,
+        chainKey: allowance.chainKey,
+        owner: allowance.owner,
+        spender: allowance.spender,
+        tokenSymbol: allowance.tokenSymbol,
+        tokenContractAddress: allowance.tokenContractAddress,
+        tokenDecimals: allowance.tokenDecimals,
+        amount: allowance.amount.toFixed(0),
+        unlimited: allowance.isUnlimited,
+        usdValue: allowance.usdValue !== null ? Number(allowance.usdValue) : null,
+        transactionHash: allowance.transactionHash,
+        blockNumber: allowance.blockNumber.toString(),
+        approvedAt: allowance.approvedAt,
+    };
+}
+
+const allowanceRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+    const allowanceService = TokenAllowanceService.getInstance();
+
+    // GET /allowances?owner=0x... - current ERC20 allowances granted by tracked wallets; revoked ones with ?includeRevoked=true
+    fastify.get<{ Querystring: ListAllowancesQuery }>('/', { preHandler: authenticateToken }, async (request, reply) => {
+        try {
+            const { owner, spender, chainKey, unlimited, includeRevoked, limit, offset } = request.query || {};
+            if ((unlimited !== undefined && unlimited !== 'true' && unlimited !== 'false')
+                || (includeRevoked !== undefined && includeRevoked !== 'true' && includeRevoked !== 'false')) {
+                return reply.status(400).send({ error: 'unlimited and includeRevoked must be true or false.' });
+            }
+            if ((limit && !/^\d+$/.test(limit)) || (offset && !/^\d+$/.test(offset))) {
+                return reply.status(400).send({ error: 'limit and offset must be non-negative integers.' });
+            }
+            const { total, allowances } = await allowanceService.listAllowances(
+                {
+                    owner,
+                    spender,
+                    chainKey,
+                    unlimited: unlimited !== undefined ? unlimited === 'true' : undefined,
+                    includeRevoked: includeRevoked === 'true',
+                },
+                limit ? parseInt(limit, 10) : undefined,
+                offset ? parseInt(offset, 10) : undefined
+            );
+            reply.send({ total, allowances: allowances.map(serializeAllowance) });
+        } catch (e: any) {
+            fastify.log.error(e);
+            reply.status(500).send({ error: 'Internal Server Error' });
+        }
+    });
+};
+
+export default allowanceRoutes;
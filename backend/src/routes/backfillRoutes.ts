@@ -0,0 +1,184 @@
+import type { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import type { BackfillJob } from '@prisma/client';
+import { authenticateToken } from '../modules/auth/auth.middleware';
+import { BackfillService } from '../services/backfill/backfillService';
+import type { BackfillJobStatus } from '../services/backfill/backfillService';
+import { serializeTransfer } from './transferRoutes';
+
+interface CreateBackfillBody {
+    companyId: number | string;
+    chainKeys?: string[];
+    chainKey?: string;
+    fromBlock?: number | string;
+    toBlock?: number | string;
+    since?: string;
+    until?: string;
+    notify?: boolean;
+}
+
+interface PageQuery {
+    limit?: string;
+    offset?: string;
+}
+
+interface ListBackfillsQuery {
+    companyId?: string;
+    status?: string;
+    limit?: string;
+    offset?: string;
+}
+
+const BACKFILL_STATUSES: BackfillJobStatus[] = ['queued', 'running', 'completed', 'failed'];
+
+function parseBlock(value: number | string | undefined, name: string): bigint | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (!/^\d+$/.test(String(value))) {
+        throw new Error(`Invalid ${name}, expected a non-negative integer.`);
+    }
+    return BigInt(value);
+}
+
+function parseDate(value: string | undefined, name: string): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new Error(`Invalid ${name} date.`);
+    }
+    return date;
+}
+
+function serializeJob(job: BackfillJob) {
+    return {
+        id: job.id,
+        companyId: job.companyId,
+        chainKeys: job.chainKeys,
+        fromBlock: job.fromBlock !== null ? job.fromBlock.toString() : null,
+        toBlock: job.toBlock !== null ? job.toBlock.toString() : null,
+        since: job.since,
+        until: job.until,
+        notify: job.notify,
+        status: job.status,
+        progress: job.progress, // Per chain key: fromBlock, toBlock, lastScannedBlock, transfersFound
+        transfersFound: job.transfersFound,
+        error: job.error,
+        startedAt: job.startedAt,
+        completedAt: job.completedAt,
+        createdAt: job.createdAt,
+    };
+}
+
+const backfillRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+    const backfillService = BackfillService.getInstance();
+
+    // POST /backfills - queue a historical scan of a company's addresses; found transfers go to the ledger, and to Slack with notify: true
+    fastify.post<{ Body: CreateBackfillBody }>('/', { preHandler: authenticateToken }, async (request, reply) => {
+        try {
+            const body = request.body || ({} as CreateBackfillBody);
+            if (body.companyId === undefined || !/^\d+$/.test(String(body.companyId))) {
+                return reply.status(400).send({ error: 'Invalid company ID format.' });
+            }
+            const chainKeys = body.chainKeys ?? (body.chainKey ? [body.chainKey] : []);
+            if (!Array.isArray(chainKeys) || chainKeys.some(chainKey => typeof chainKey !== 'string')) {
+                return reply.status(400).send({ error: 'chainKeys must be a list of chain keys (e.g. ["EVM:1", "TRON:728126428"]).' });
+            }
+            if (body.notify !== undefined && typeof body.notify !== 'boolean') {
+                return reply.status(400).send({ error: 'notify must be true or false.' });
+            }
+
+            const job = await backfillService.createJob({
+                companyId: parseInt(String(body.companyId), 10),
+                chainKeys,
+                fromBlock: parseBlock(body.fromBlock, 'fromBlock'),
+                toBlock: parseBlock(body.toBlock, 'toBlock'),
+                since: parseDate(body.since, 'since'),
+                until: parseDate(body.until, 'until'),
+                notify: body.notify,
+            });
+            reply.status(202).send({ message: `Backfill job ${job.id} queued.`, job: serializeJob(job) });
+        } catch (e: any) {
+            fastify.log.error(e);
+            if (e.message.includes('not found')) {
+                reply.status(404).send({ error: e.message });
+            } else if (e.message.includes('Invalid')) {
+                reply.status(400).send({ error: e.message });
+            } else {
+                reply.status(500).send({ error: 'Internal Server Error' });
+            }
+        }
+    });
+
+    // GET /backfills?companyId=...&status=running - backfill jobs, newest first
+    fastify.get<{ Querystring: ListBackfillsQuery }>('/', { preHandler: authenticateToken }, async (request, reply) => {
+        try {
+            const { companyId, status, limit, offset } = request.query || {};
+            if (companyId !== undefined && !/^\d+$/.test(companyId)) {
+                return reply.status(400).send({ error: 'Invalid company ID format.' });
+            }
+            if (status !== undefined && !BACKFILL_STATUSES.includes(status as BackfillJobStatus)) {
+                return reply.status(400).send({ error: `Invalid status, expected one of: ${BACKFILL_STATUSES.join(', ')}.` });
+            }
+            if ((limit && !/^\d+$/.test(limit)) || (offset && !/^\d+$/.test(offset))) {
+                return reply.status(400).send({ error: 'limit and offset must be non-negative integers.' });
+            }
+            const { total, jobs } = await backfillService.listJobs(
+                {
+                    companyId: companyId !== undefined ? parseInt(companyId, 10) : undefined,
+                    status: status as BackfillJobStatus | undefined,
+                },
+                limit ? parseInt(limit, 10) : undefined,
+                offset ? parseInt(offset, 10) : undefined
+            );
+            reply.send({ total, jobs: jobs.map(serializeJob) });
+        } catch (e: any) {
+            fastify.log.error(e);
+            reply.status(500).send({ error: 'Internal Server Error' });
+        }
+    });
+
+    // GET /backfills/:id - status and progress of one job; its transfers are listed by GET /backfills/:id/transfers
+    fastify.get<{ Params: { id: string } }>('/:id', { preHandler: authenticateToken }, async (request, reply) => {
+        try {
+            const { id } = request.params;
+            if (!/^\d+$/.test(id)) {
+                return reply.status(400).send({ error: 'Invalid backfill job ID format.' });
+            }
+            const job = await backfillService.getJob(parseInt(id, 10));
+            if (!job) {
+                return reply.status(404).send({ error: 'Backfill job not found.' });
+            }
+            reply.send({ job: serializeJob(job) });
+        } catch (e: any) {
+            fastify.log.error(e);
+            reply.status(500).send({ error: 'Internal Server Error' });
+        }
+    });
+
+    // GET /backfills/:id/transfers - ledger transfers of the job's company in the blocks it has scanned so far
+    fastify.get<{ Params: { id: string }; Querystring: PageQuery }>('/:id/transfers', { preHandler: authenticateToken }, async (request, reply) => {
+        try {
+            const { id } = request.params;
+            const { limit, offset } = request.query || {};
+            if (!/^\d+$/.test(id)) {
+                return reply.status(400).send({ error: 'Invalid backfill job ID format.' });
+            }
+            if ((limit && !/^\d+$/.test(limit)) || (offset && !/^\d+$/.test(offset))) {
+                return reply.status(400).send({ error: 'limit and offset must be non-negative integers.' });
+            }
+            const job = await backfillService.getJob(parseInt(id, 10));
+            if (!job) {
+                return reply.status(404).send({ error: 'Backfill job not found.' });
+            }
+            const { total, transfers } = await backfillService.listJobTransfers(
+                job,
+                limit ? parseInt(limit, 10) : undefined,
+                offset ? parseInt(offset, 10) : undefined
+            );
+            reply.send({ job: serializeJob(job), total, transfers: transfers.map(serializeTransfer) });
+        } catch (e: any) {
+            fastify.log.error(e);
+            reply.status(500).send({ error: 'Internal Server Error' });
+        }
+    });
+};
+
+export default backfillRoutes;
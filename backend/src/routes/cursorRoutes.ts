@@ -0,0 +1,59 @@
+import type { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { authenticateToken } from '../modules/auth/auth.middleware';
+import { BlockCursorService } from '../services/cursor/blockCursorService';
+
+interface RewindCursorBody {
+    chainKey: string;
+    blockNumber: number | string;
+}
+
+const cursorRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+    const cursorService = BlockCursorService.getInstance();
+
+    // GET /cursors - persisted scan position and lag of every chain
+    fastify.get('/', { preHandler: authenticateToken }, async (request, reply) => {
+        try {
+            const cursors = await cursorService.listCursors();
+            reply.send({ cursors });
+        } catch (e: any) {
+            fastify.log.error(e);
+            reply.status(500).send({ error: 'Internal Server Error' });
+        }
+    });
+
+    // POST /cursors/rewind - admin override: re-scan a chain starting at blockNumber (inclusive)
+    fastify.post<{ Body: RewindCursorBody }>(
+        '/rewind',
+        { preHandler: authenticateToken },
+        async (request, reply) => {
+            try {
+                const { chainKey, blockNumber } = request.body || ({} as RewindCursorBody);
+
+                if (!chainKey || typeof chainKey !== 'string') {
+                    return reply.status(400).send({ error: 'chainKey is required (e.g. "TRON:728126428" or "EVM:1").' });
+                }
+                if (blockNumber === undefined || blockNumber === null || !/^\d+$/.test(String(blockNumber))) {
+                    return reply.status(400).send({ error: 'blockNumber is required and must be a positive integer.' });
+                }
+
+                const cursor = await cursorService.rewind(chainKey, BigInt(blockNumber));
+                reply.send({
+                    message: `Cursor ${chainKey} rewound. Scanning resumes at block ${blockNumber}.`,
+                    chainKey: cursor.chainKey,
+                    lastProcessedBlock: cursor.lastProcessedBlock.toString(),
+                });
+            } catch (e: any) {
+                fastify.log.error(e);
+                if (e.message.includes('not found')) {
+                    reply.status(404).send({ error: e.message });
+                } else if (e.message.includes('Invalid')) {
+                    reply.status(400).send({ error: e.message });
+                } else {
+                    reply.status(500).send({ error: 'Failed to rewind cursor.', details: e.message });
+                }
+            }
+        }
+    );
+};
+
+export default cursorRoutes;
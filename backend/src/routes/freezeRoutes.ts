@@ -0,0 +1,83 @@
+import type { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import type { AddressFreeze } from '@prisma/client';
+import { authenticateToken } from '../modules/auth/auth.middleware';
+import { AddressFreezeService } from '../services/freeze/addressFreezeService';
+
+interface ListFreezesQuery {
+    address?: string;
+    chainKey?: string;
+    companyId?: string;
+    frozen?: string;
+    limit?: string;
+    offset?: string;
+}
+
+function serializeFreeze(freeze: AddressFreeze) {
+    return {
+        id: freeze.id,
+        chainKey: freeze.chainKey,
+        chainType: freeze.chainType,
+        address: freeze.address,
+        tokenSymbol: freeze.tokenSymbol,
+        tokenContractAddress: freeze.tokenContractAddress,
+        frozen: freeze.isFrozen,
+        frozenAt: freeze.frozenAt,
+        frozenTxHash: freeze.frozenTxHash,
+        unfrozenAt: freeze.unfrozenAt,
+        unfrozenTxHash: freeze.unfrozenTxHash,
+        blockNumber: freeze.blockNumber.toString(),
+        updatedAt: freeze.updatedAt,
+    };
+}
+
+const freezeRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+    const freezeService = AddressFreezeService.getInstance();
+
+    // GET /freezes?address=...&frozen=true - issuer freeze state of tracked addresses, per stablecoin contract
+    fastify.get<{ Querystring: ListFreezesQuery }>('/', { preHandler: authenticateToken }, async (request, reply) => {
+        try {
+            const { address, chainKey, companyId, frozen, limit, offset } = request.query || {};
+            if (frozen !== undefined && frozen !== 'true' && frozen !== 'false') {
+                return reply.status(400).send({ error: 'frozen must be true or false.' });
+            }
+            if (companyId !== undefined && !/^\d+$/.test(companyId)) {
+                return reply.status(400).send({ error: 'Invalid company ID format.' });
+            }
+            if ((limit && !/^\d+$/.test(limit)) || (offset && !/^\d+$/.test(offset))) {
+                return reply.status(400).send({ error: 'limit and offset must be non-negative integers.' });
+            }
+            const { total, freezes } = await freezeService.listFreezes(
+                {
+                    address,
+                    chainKey,
+                    companyId: companyId !== undefined ? parseInt(companyId, 10) : undefined,
+                    frozen: frozen !== undefined ? frozen === 'true' : undefined,
+                },
+                limit ? parseInt(limit, 10) : undefined,
+                offset ? parseInt(offset, 10) : undefined
+            );
+            reply.send({ total, freezes: freezes.map(serializeFreeze) });
+        } catch (e: any) {
+            fastify.log.error(e);
+            reply.status(500).send({ error: 'Internal Server Error' });
+        }
+    });
+
+    // GET /freezes/:address - whether one address is currently frozen by any watched issuer
+    fastify.get<{ Params: { address: string } }>('/:address', { preHandler: authenticateToken }, async (request, reply) => {
+        try {
+            const { address } = request.params;
+            const { freezes } = await freezeService.listFreezes({ address });
+            reply.send({
+                address,
+                frozen: freezes.some(freeze => freeze.isFrozen),
+                freezes: freezes.map(serializeFreeze),
+            });
+        } catch (e: any) {
+            fastify.log.error(e);
+            reply.status(500).send({ error: 'Internal Server Error' });
+        }
+    });
+};
+
+export default freezeRoutes;
@@ -0,0 +1,147 @@
+import type { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { authenticateToken } from '../modules/auth/auth.middleware';
+import { OutboxService } from '../services/outbox/outboxService';
+import type { ApprovalOutboxPayload, FreezeOutboxPayload, MempoolOutboxPayload, OutboxEntry, OutboxStatus, TransferOutboxPayload } from '../services/outbox/outboxService';
+
+interface ListOutboxQuery {
+    status?: string;
+    limit?: string;
+    offset?: string;
+}
+
+interface RedriveBody {
+    ids?: number[];
+}
+
+const OUTBOX_STATUSES: OutboxStatus[] = ['pending', 'processing', 'delivered', 'dead'];
+
+function serializeEntry(entry: OutboxEntry) {
+    const base = {
+        id: entry.id,
+        eventKey: entry.eventKey,
+        eventType: entry.eventType,
+        chainKey: entry.chainKey,
+        status: entry.status,
+        attempts: entry.attempts,
+        deliveredChannels: entry.deliveredChannels,
+        nextAttemptAt: entry.nextAttemptAt,
+        lastError: entry.lastError,
+        deliveredAt: entry.deliveredAt,
+        createdAt: entry.createdAt,
+    };
+    if (entry.eventType === 'freeze') {
+        const { freeze } = entry.payload as FreezeOutboxPayload;
+        return {
+            ...base,
+            freeze: {
+                address: freeze.address,
+                frozen: freeze.frozen,
+                transactionHash: freeze.transactionHash,
+                tokenSymbol: freeze.tokenSymbol,
+                tokenContractAddress: freeze.tokenContractAddress,
+                chainName: freeze.chainName,
+            },
+        };
+    }
+    if (entry.eventType === 'approval') {
+        const { approval } = entry.payload as ApprovalOutboxPayload;
+        return {
+            ...base,
+            approval: {
+                owner: approval.owner,
+                spender: approval.spender,
+                tokenSymbol: approval.tokenSymbol,
+                amount: approval.amount,
+                unlimited: approval.isUnlimited,
+                risk: approval.risk ?? null,
+                transactionHash: approval.transactionHash,
+                chainName: approval.chainName,
+            },
+        };
+    }
+    if (entry.eventType === 'mempool') {
+        const { mempoolTransfer, stage, blockNumber } = entry.payload as MempoolOutboxPayload;
+        return {
+            ...base,
+            mempool: {
+                stage,
+                blockNumber,
+                transactionHash: mempoolTransfer.transactionHash,
+                recipientAddress: mempoolTransfer.recipientAddress,
+                senderAddress: mempoolTransfer.senderAddress,
+                formattedValue: mempoolTransfer.formattedValue,
+                tokenSymbol: mempoolTransfer.tokenSymbol,
+                usdValue: mempoolTransfer.usdValue,
+                chainName: mempoolTransfer.chainName,
+            },
+        };
+    }
+    const { transfer, confirmationStatus } = entry.payload as TransferOutboxPayload;
+    return {
+        ...base,
+        transfer: {
+            direction: transfer.direction ?? 'incoming',
+            confirmationStatus,
+            transactionHash: transfer.transactionHash,
+            recipientAddress: transfer.recipientAddress,
+            senderAddress: transfer.senderAddress ?? null,
+            formattedValue: transfer.formattedValue,
+            tokenSymbol: transfer.tokenSymbol,
+            usdValue: transfer.usdValue,
+            chainName: transfer.context.chainName,
+        },
+    };
+}
+
+const outboxRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+    const outboxService = OutboxService.getInstance();
+
+    // GET /outbox - number of queued, delivered and dead-lettered notifications
+    fastify.get('/', { preHandler: authenticateToken }, async (request, reply) => {
+        try {
+            reply.send(await outboxService.getStats());
+        } catch (e: any) {
+            fastify.log.error(e);
+            reply.status(500).send({ error: 'Internal Server Error' });
+        }
+    });
+
+    // GET /outbox/entries?status=dead - inspect notifications in one status, most recently updated first
+    fastify.get<{ Querystring: ListOutboxQuery }>('/entries', { preHandler: authenticateToken }, async (request, reply) => {
+        try {
+            const { status = 'dead', limit, offset } = request.query || {};
+            if (!OUTBOX_STATUSES.includes(status as OutboxStatus)) {
+                return reply.status(400).send({ error: `Invalid status, expected one of: ${OUTBOX_STATUSES.join(', ')}.` });
+            }
+            if ((limit && !/^\d+$/.test(limit)) || (offset && !/^\d+$/.test(offset))) {
+                return reply.status(400).send({ error: 'limit and offset must be non-negative integers.' });
+            }
+            const { total, entries } = await outboxService.listEntries(
+                status as OutboxStatus,
+                limit ? parseInt(limit, 10) : undefined,
+                offset ? parseInt(offset, 10) : undefined
+            );
+            reply.send({ total, entries: entries.map(serializeEntry) });
+        } catch (e: any) {
+            fastify.log.error(e);
+            reply.status(500).send({ error: 'Internal Server Error' });
+        }
+    });
+
+    // POST /outbox/redrive - re-queue dead-lettered notifications; all of them when no ids are given
+    fastify.post<{ Body: RedriveBody }>('/redrive', { preHandler: authenticateToken }, async (request, reply) => {
+        try {
+            const { ids } = request.body || {};
+            if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => !Number.isInteger(id)))) {
+                return reply.status(400).send({ error: 'ids must be an array of outbox entry ids.' });
+            }
+            const redriven = await outboxService.redrive(ids);
+            reply.send({ message: `${redriven} notification(s) re-queued for delivery.`, redriven });
+        } catch (e: any) {
+            fastify.log.error(e);
+            reply.status(500).send({ error: 'Failed to re-drive notifications.', details: e.message });
+        }
+    });
+};
+
+export default outboxRoutes;
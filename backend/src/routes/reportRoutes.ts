@@ -53,7 +53,7 @@ const reportRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
                     orderBy: { timeSent: 'asc' },
                 });
 
-                // Minimal CSV: transaction hash, transaction time, recipient address, token, USD value, account name
+                // Minimal CSV: transaction hash, transaction time, recipient address, token, USD value, account name, direction (incoming/outgoing)
                 const headers = [
                     'transaction_hash',
                     'transaction_time_utc',
@@ -61,19 +61,26 @@ const reportRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
                     'token',
                     'usd_value',
                     'account_manager',
+                    'direction',
                 ];
 
                 const rows: string[] = [];
                 rows.push(headers.join(','));
                 for (const log of logs) {
                     const payload: any = log.payload as any;
+                    // Deposits removed by a chain reorganization never happened
+                    if (payload?.confirmationStatus === 'retracted') continue;
+                    // Duplicates that were never posted
+                    if (payload?.status === 'suppressed') continue;
+                    // Issuer freeze, token approval and mempool alerts are not settled transfers
+                    if (log.kind === 'freeze_slack' || log.kind === 'approval_slack' || log.kind === 'mempool_slack') continue;
 
                     // Resolve account manager: prefer payload; if missing, look up from DB
                     let accountManagerValue: string = '';
                     try {
                         accountManagerValue = (payload?.accountManager ?? payload?.account_manager ?? '') as string;
                         if (!accountManagerValue) {
-                            const recipientAddress = payload?.recipientAddress ?? '';
+                            const recipientAddress = payload?.trackedAddress ?? payload?.recipientAddress ?? '';
                             const chainType = payload?.chain?.type as string | undefined;
 
                             const addressFilter: any = { address: recipientAddress };
@@ -101,6 +108,7 @@ const reportRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
                         formatCsvValue(payload?.tokenSymbol ?? ''),
                         formatCsvValue(payload?.usdValue ?? ''),
                         formatCsvValue(accountManagerValue),
+                        formatCsvValue(payload?.direction ?? 'incoming'),
 
                     ].join(',');
                     rows.push(line);
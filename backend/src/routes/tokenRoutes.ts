@@ -0,0 +1,89 @@
+import type { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import type { UnknownToken } from '@prisma/client';
+import { authenticateToken } from '../modules/auth/auth.middleware';
+import { UnknownTokenService } from '../services/token/unknownTokenService';
+import type { PromoteTokenOverrides, UnknownTokenStatus } from '../services/token/unknownTokenService';
+
+interface ListUnknownTokensQuery {
+    status?: string;
+    limit?: string;
+    offset?: string;
+}
+
+interface UnknownTokenParams {
+    id: string;
+}
+
+const UNKNOWN_TOKEN_STATUSES: UnknownTokenStatus[] = ['pending', 'promoted'];
+
+function serializeUnknownToken(token: UnknownToken) {
+    return {
+        id: token.id,
+        chain: token.chain,
+        address: token.address,
+        symbol: token.symbol,
+        name: token.name,
+        decimals: token.decimals,
+        status: token.status,
+        transferCount: token.transferCount,
+        firstSeenAt: token.firstSeenAt,
+        lastSeenAt: token.lastSeenAt,
+        promotedTokenId: token.promotedTokenId,
+        promotedAt: token.promotedAt,
+    };
+}
+
+const tokenRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+    const unknownTokenService = UnknownTokenService.getInstance();
+
+    // GET /tokens/unknown?status=pending - token contracts seen in tracked transfers but missing from the tokens table
+    fastify.get<{ Querystring: ListUnknownTokensQuery }>('/unknown', { preHandler: authenticateToken }, async (request, reply) => {
+        try {
+            const { status = 'pending', limit, offset } = request.query || {};
+            if (!UNKNOWN_TOKEN_STATUSES.includes(status as UnknownTokenStatus)) {
+                return reply.status(400).send({ error: `Invalid status, expected one of: ${UNKNOWN_TOKEN_STATUSES.join(', ')}.` });
+            }
+            if ((limit && !/^\d+$/.test(limit)) || (offset && !/^\d+$/.test(offset))) {
+                return reply.status(400).send({ error: 'limit and offset must be non-negative integers.' });
+            }
+            const { total, tokens } = await unknownTokenService.listUnknownTokens(
+                status as UnknownTokenStatus,
+                limit ? parseInt(limit, 10) : undefined,
+                offset ? parseInt(offset, 10) : undefined
+            );
+            reply.send({ total, tokens: tokens.map(serializeUnknownToken) });
+        } catch (e: any) {
+            fastify.log.error(e);
+            reply.status(500).send({ error: 'Internal Server Error' });
+        }
+    });
+
+    // POST /tokens/unknown/:id/promote - add a queued contract to the tokens table; body values override the on-chain metadata
+    fastify.post<{ Params: UnknownTokenParams; Body: PromoteTokenOverrides }>('/unknown/:id/promote', { preHandler: authenticateToken }, async (request, reply) => {
+        try {
+            const id = parseInt(request.params.id, 10);
+            if (isNaN(id)) {
+                return reply.status(400).send({ error: 'Invalid unknown token ID format.' });
+            }
+            const { symbol, name, decimals } = request.body || {};
+            if ((symbol !== undefined && (typeof symbol !== 'string' || !symbol.trim()))
+                || (name !== undefined && typeof name !== 'string')
+                || (decimals !== undefined && (!Number.isInteger(decimals) || decimals < 0 || decimals > 77))) {
+                return reply.status(400).send({ error: 'symbol and name must be non-empty strings and decimals an integer between 0 and 77.' });
+            }
+            const token = await unknownTokenService.promote(id, { symbol: symbol?.trim(), name, decimals });
+            reply.send({ message: `Token ${token.symbol} added to the tokens table.`, ...token });
+        } catch (e: any) {
+            fastify.log.error(e);
+            if (e.message.includes('not found')) {
+                reply.status(404).send({ error: e.message });
+            } else if (e.message.includes('Invalid')) {
+                reply.status(400).send({ error: e.message });
+            } else {
+                reply.status(500).send({ error: 'Failed to promote token.', details: e.message });
+            }
+        }
+    });
+};
+
+export default tokenRoutes;
@@ -0,0 +1,115 @@
+import type { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { authenticateToken } from '../modules/auth/auth.middleware';
+import { TransferLedgerService } from '../services/transfer/transferLedgerService';
+import type { LedgerTransfer, TransferFilters } from '../services/transfer/transferLedgerService';
+
+interface ListTransfersQuery {
+    companyId?: string;
+    chainKey?: string;
+    address?: string;
+    transactionHash?: string;
+    direction?: string;
+    status?: string;
+    classification?: string;
+    since?: string;
+    until?: string;
+    limit?: string;
+    offset?: string;
+}
+
+function parseDate(value: string | undefined, name: string): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new Error(`Invalid ${name} date.`);
+    }
+    return date;
+}
+
+function parseInteger(value: string | undefined, name: string): number | undefined {
+    if (value === undefined || value === '') return undefined;
+    if (!/^\d+$/.test(value)) {
+        throw new Error(`Invalid ${name}, expected a non-negative integer.`);
+    }
+    return parseInt(value, 10);
+}
+
+/**
+ * A ledger transfer as returned by the API: big numbers as strings, matched company addresses inline.
+ */
+export function serializeTransfer(transfer: LedgerTransfer) {
+    return {
+        id: transfer.id,
+        transferKey: transfer.transferKey,
+        chainKey: transfer.chainKey,
+        chainType: transfer.chainType,
+        blockNumber: transfer.blockNumber.toString(),
+        blockHash: transfer.blockHash,
+        blockTimestamp: transfer.blockTimestamp,
+        transactionHash: transfer.transactionHash,
+        logIndex: transfer.logIndex,
+        direction: transfer.direction,
+        fromAddress: transfer.fromAddress,
+        toAddress: transfer.toAddress,
+        tokenSymbol: transfer.tokenSymbol,
+        tokenContractAddress: transfer.tokenContractAddress,
+        rawAmount: transfer.rawAmount.toFixed(),
+        decimals: transfer.decimals,
+        usdValue: transfer.usdValue !== null ? Number(transfer.usdValue) : null,
+        status: transfer.status,
+        classification: transfer.classification,
+        classificationReasons: transfer.classificationReasons,
+        lookalikeOf: transfer.lookalikeOf,
+        createdAt: transfer.createdAt,
+        matchedAddresses: transfer.matchedAddresses.map(match => match.companyAddress),
+    };
+}
+
+const transferRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+    const transferLedger = TransferLedgerService.getInstance();
+
+    // GET /transfers - detected transfers from the ledger, newest first; ?classification=suppressed lists filtered spam
+    fastify.get<{ Querystring: ListTransfersQuery }>('/', { preHandler: authenticateToken }, async (request, reply) => {
+        try {
+            const query = request.query || {};
+            if (query.direction && !['incoming', 'outgoing'].includes(query.direction)) {
+                return reply.status(400).send({ error: 'Invalid direction, expected "incoming" or "outgoing".' });
+            }
+            if (query.status && !['pending', 'confirmed', 'retracted'].includes(query.status)) {
+                return reply.status(400).send({ error: 'Invalid status, expected "pending", "confirmed" or "retracted".' });
+            }
+            if (query.classification && !['clean', 'suppressed', 'poisoning'].includes(query.classification)) {
+                return reply.status(400).send({ error: 'Invalid classification, expected "clean", "suppressed" or "poisoning".' });
+            }
+
+            const filters: TransferFilters = {
+                companyId: parseInteger(query.companyId, 'companyId'),
+                chainKey: query.chainKey,
+                address: query.address,
+                transactionHash: query.transactionHash,
+                direction: query.direction as TransferFilters['direction'],
+                status: query.status as TransferFilters['status'],
+                classification: query.classification as TransferFilters['classification'],
+                since: parseDate(query.since, 'since'),
+                until: parseDate(query.until, 'until'),
+                limit: parseInteger(query.limit, 'limit'),
+                offset: parseInteger(query.offset, 'offset'),
+            };
+            const { total, transfers } = await transferLedger.listTransfers(filters);
+
+            reply.send({
+                total,
+                transfers: transfers.map(serializeTransfer),
+            });
+        } catch (e: any) {
+            fastify.log.error(e);
+            if (e.message.includes('Invalid')) {
+                reply.status(400).send({ error: e.message });
+            } else {
+                reply.status(500).send({ error: 'Internal Server Error' });
+            }
+        }
+    });
+};
+
+export default transferRoutes;
@@ -12,6 +12,13 @@ interface TokenData {
         ethereum?: string;
         polygon?: string;
         bsc?: string;
+        arbitrum?: string;
+        base?: string;
+        optimism?: string;
+        avalanche?: string;
+        tron?: string;
+        bitcoin?: string;
+        solana?: string;
     };
 }
 
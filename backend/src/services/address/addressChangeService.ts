@@ -0,0 +1,61 @@
+import { EventEmitter } from 'events';
+import { prisma } from '../../prisma';
+import logger from '../../config/logger';
+
+export interface AddressSetChangeEvent {
+    added: string[]; // Tracked by at least one active company address
+    removed: string[]; // No longer tracked by any company
+    source: string; // What changed them, e.g. 'import' or 'company_delete'
+}
+
+/**
+ * Publishes changes to the tracked address set as soon as they are written, so running
+ * monitors apply them without waiting for their periodic reload from the database.
+ * Emits 'change' (AddressSetChangeEvent).
+ */
+export class AddressChangeService extends EventEmitter {
+    private static instance: AddressChangeService;
+
+    private constructor() {
+        super();
+    }
+
+    public static getInstance(): AddressChangeService {
+        if (!AddressChangeService.instance) {
+            AddressChangeService.instance = new AddressChangeService();
+        }
+        return AddressChangeService.instance;
+    }
+
+    /**
+     * Announces the current state of addresses whose company links were just created, activated,
+     * deactivated or deleted. Whether each one is still tracked is read back from the database, so
+     * an address another company still tracks is not removed. Failures are only logged: the
+     * monitors' periodic reload picks the change up anyway.
+     * @param addressIds Ids of the affected Address rows
+     */
+    public async publish(addressIds: number[], source: string): Promise<void> {
+        const ids = Array.from(new Set(addressIds));
+        if (ids.length === 0) {
+            return;
+        }
+        try {
+            const addresses = await prisma.address.findMany({
+                where: { id: { in: ids } },
+                select: {
+                    address: true,
+                    companyAddresses: { where: { isActive: true }, select: { id: true }, take: 1 },
+                },
+            });
+            const event: AddressSetChangeEvent = {
+                added: addresses.filter(address => address.companyAddresses.length > 0).map(address => address.address),
+                removed: addresses.filter(address => address.companyAddresses.length === 0).map(address => address.address),
+                source,
+            };
+            logger.info(`[AddressChangeService] ${source}: ${event.added.length} address(es) tracked, ${event.removed.length} no longer tracked.`);
+            this.emit('change', event);
+        } catch (error) {
+            logger.warn(`[AddressChangeService] Failed to publish address changes from ${source}. The next periodic reload applies them.`, error);
+        }
+    }
+}
@@ -1,10 +1,13 @@
 import type { Hex } from 'viem';
+import { isBech32Address } from '../../utils/validators';
 
 /**
  * Manages the list of tracked wallet addresses.
  * Stores all addresses in a lowercase format to simplify comparison.
  * EVM addresses are stored as lowercase hex.
  * Tron-like addresses (34 chars, T/t prefix) are stored as all-lowercase Base58 (e.g., tnbef...).
+ * Bitcoin bech32 addresses (bc1...) are case-insensitive and stored lowercase; Base58 ones are kept as is.
+ * Solana addresses are case-sensitive Base58 and kept as is.
  * Other addresses are also converted to lowercase.
  */
 export class AddressManager {
@@ -16,30 +19,42 @@ export class AddressManager {
         console.log(`AddressManager initialized. Processed ${initialAddresses.length} initial addresses. Now tracking ${this.trackedAddressesSet.size} unique addresses.`);
     }
 
-    private normalizeAndStoreAddress(address: string): void {
+    /**
+     * The form an address is stored in, or null for empty input.
+     */
+    private normalizeAddress(address: string): string | null {
         if (typeof address !== 'string' || address.trim() === '') {
             // console.warn(`[AddressManager] Received invalid or empty address input: ${address}`);
-            return;
+            return null;
         }
         const trimmedAddress = address.trim();
 
         // EVM addresses: store as lowercase hex for case-insensitive matching.
         if (trimmedAddress.startsWith('0x') && trimmedAddress.length === 42) {
             // Basic structural check for EVM, further validation can be done by consumers like EvmConnectionManager
-            this.trackedAddressesSet.add(trimmedAddress.toLowerCase() as Hex);
-            // console.debug(`[AddressManager] Stored EVM address: ${trimmedAddress.toLowerCase()}`);
-            return;
+            return trimmedAddress.toLowerCase() as Hex;
         }
 
         // Tron Base58 addresses (heuristic: starts with 'T', length 34): store AS IS (case-sensitive).
         if (trimmedAddress.startsWith('T') && trimmedAddress.length === 34) {
-            this.trackedAddressesSet.add(trimmedAddress); // Store original case
-            return;
+            return trimmedAddress; // Store original case
+        }
+
+        // Bitcoin bech32 addresses may be written in either case; store lowercase.
+        if (isBech32Address(trimmedAddress)) {
+            return trimmedAddress.toLowerCase();
         }
 
         // For any other address types (e.g., Tron hex 41..., or other unknown formats):
         // Store AS IS. Consumers specific to those types will handle further normalization/validation.
-        this.trackedAddressesSet.add(trimmedAddress);
+        return trimmedAddress;
+    }
+
+    private normalizeAndStoreAddress(address: string): void {
+        const normalized = this.normalizeAddress(address);
+        if (normalized !== null) {
+            this.trackedAddressesSet.add(normalized);
+        }
     }
 
     public updateAddresses(newAddresses: string[]): void {
@@ -50,6 +65,28 @@ export class AddressManager {
         console.log(`AddressManager updated. Processed ${newAddresses.length} addresses. Now tracking ${this.trackedAddressesSet.size} unique addresses.`);
     }
 
+    /**
+     * Applies an incremental change to the tracked set.
+     * @returns Whether the set changed
+     */
+    public applyChanges(added: string[], removed: string[]): boolean {
+        let changed = false;
+        removed.forEach(address => {
+            const normalized = this.normalizeAddress(address);
+            if (normalized !== null && this.trackedAddressesSet.delete(normalized)) {
+                changed = true;
+            }
+        });
+        added.forEach(address => {
+            const normalized = this.normalizeAddress(address);
+            if (normalized !== null && !this.trackedAddressesSet.has(normalized)) {
+                this.trackedAddressesSet.add(normalized);
+                changed = true;
+            }
+        });
+        return changed;
+    }
+
     public isTracking(address: string): boolean {
         if (typeof address !== 'string' || address.trim() === '') return false;
         const trimmedAddress = address.trim();
@@ -59,6 +96,10 @@ export class AddressManager {
             return this.trackedAddressesSet.has(trimmedAddress.toLowerCase() as Hex);
         }
 
+        if (isBech32Address(trimmedAddress)) {
+            return this.trackedAddressesSet.has(trimmedAddress.toLowerCase());
+        }
+
         // For Tron Base58 (T...) and any other types, check with the original case as stored.
         return this.trackedAddressesSet.has(trimmedAddress);
     }
@@ -21,6 +21,32 @@ export class AddressService {
         }
     }
 
+    /**
+     * Networks each EVM address is limited to, merged over the companies tracking it. Addresses
+     * a company watches on every network are left out, as are inactive ones.
+     * @returns Lowercase address to the chain keys it is watched on
+     */
+    async getEvmNetworkSelections(): Promise<Map<string, Set<string>>> {
+        const companyAddresses = await prisma.companyAddress.findMany({
+            where: { isActive: true, address: { chainType: 'EVM' } },
+            select: { networks: true, address: { select: { address: true } } },
+        });
+        const selections = new Map<string, Set<string>>();
+        const unrestricted = new Set<string>();
+        for (const companyAddress of companyAddresses) {
+            const address = companyAddress.address.address.toLowerCase();
+            if (companyAddress.networks.length === 0) {
+                unrestricted.add(address);
+                continue;
+            }
+            const networks = selections.get(address) ?? new Set<string>();
+            companyAddress.networks.forEach(network => networks.add(network));
+            selections.set(address, networks);
+        }
+        unrestricted.forEach(address => selections.delete(address));
+        return selections;
+    }
+
     async validateAddress(address: string): Promise<boolean> {
         // EVM address validation
         if (address.startsWith('0x')) {
@@ -0,0 +1,32 @@
+import type { Prisma } from '@prisma/client';
+import { resolveEvmNetwork } from '../../config/evmChains';
+import { buildChainKey } from '../cursor/blockCursorService';
+
+/**
+ * Normalizes the EVM networks selected for a company address to chain keys ('EVM:137'). Networks
+ * may be chain keys, names or chain ids, as a list or a comma/semicolon-separated string.
+ * An empty selection watches the address on every configured network.
+ * @throws When a network is not a configured EVM chain
+ */
+export function normalizeEvmNetworks(networks: Array<string | number> | string): string[] {
+    const values = typeof networks === 'string' ? networks.split(/[,;]/) : networks;
+    const chainKeys = new Set<string>();
+    for (const value of values) {
+        if (String(value).trim() === '') {
+            continue;
+        }
+        const chain = resolveEvmNetwork(value);
+        if (!chain) {
+            throw new Error(`Invalid network "${value}": not a configured EVM chain.`);
+        }
+        chainKeys.add(buildChainKey('EVM', chain.chainId));
+    }
+    return Array.from(chainKeys);
+}
+
+/**
+ * CompanyAddress condition matching the links that watch `chainKey`.
+ */
+export function networkSelectionFilter(chainKey: string): Prisma.CompanyAddressWhereInput {
+    return { OR: [{ networks: { isEmpty: true } }, { networks: { has: chainKey } }] };
+}
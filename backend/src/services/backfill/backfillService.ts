@@ -0,0 +1,237 @@
+import type { BackfillJob, Prisma } from '@prisma/client';
+import { prisma } from '../../prisma';
+import logger from '../../config/logger';
+import { config as appConfig } from '../../config';
+import type { ChainMonitorManager } from '../monitors/chainMonitorManager';
+import type { BackfillProgress } from '../monitors/chainMonitor';
+import { networkSelectionFilter } from '../address/networkSelection';
+import { TransferLedgerService } from '../transfer/transferLedgerService';
+
+export type BackfillJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface CreateBackfillJobInput {
+    companyId: number;
+    chainKeys: string[];
+    fromBlock?: bigint; // Block range, only for a single chain
+    toBlock?: bigint;
+    since?: Date; // Time range, otherwise; until defaults to the latest settled block
+    until?: Date;
+    notify?: boolean;
+}
+
+export interface BackfillJobFilters {
+    companyId?: number;
+    status?: BackfillJobStatus;
+}
+
+/**
+ * Historical scans of a company's addresses, e.g. the days before it was onboarded. Jobs are
+ * stored, then run one at a time by the monitor of each chain family, which records the
+ * transfers to the ledger. Alerts are only queued when the job asks for them.
+ * A job interrupted by a restart is queued again and rescanned from its first block; the ledger
+ * and the outbox ignore transfers they already hold.
+ */
+export class BackfillService {
+    private static instance: BackfillService;
+    private monitors: Map<string, ChainMonitorManager> = new Map(); // Keyed by uppercase chain type, as in chain keys
+    private timer: NodeJS.Timeout | null = null;
+    private isProcessing = false;
+
+    private constructor() { }
+
+    public static getInstance(): BackfillService {
+        if (!BackfillService.instance) {
+            BackfillService.instance = new BackfillService();
+        }
+        return BackfillService.instance;
+    }
+
+    public registerMonitor(monitor: ChainMonitorManager): void {
+        this.monitors.set(monitor.getChainType().toUpperCase(), monitor);
+    }
+
+    public async start(): Promise<void> {
+        if (this.timer) {
+            logger.warn('[BackfillService] Already running.');
+            return;
+        }
+        const interrupted = await prisma.backfillJob.updateMany({ where: { status: 'running' }, data: { status: 'queued' } });
+        if (interrupted.count > 0) {
+            logger.warn(`[BackfillService] Re-queued ${interrupted.count} backfill job(s) interrupted by a restart.`);
+        }
+        this.timer = setInterval(() => {
+            this.processQueue().catch(error => logger.error('[BackfillService] Backfill run failed:', error));
+        }, appConfig.backfill.pollIntervalMs);
+        logger.info(`[BackfillService] Started, polling every ${appConfig.backfill.pollIntervalMs}ms.`);
+    }
+
+    public stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+            logger.info('[BackfillService] Stopped.');
+        }
+    }
+
+    /**
+     * Validates and queues a job. It starts on the next poll, after the jobs queued before it.
+     */
+    public async createJob(input: CreateBackfillJobInput): Promise<BackfillJob> {
+        const chainKeys = Array.from(new Set(input.chainKeys));
+        if (chainKeys.length === 0) {
+            throw new Error('Invalid request: at least one chain key is required.');
+        }
+        for (const chainKey of chainKeys) {
+            const monitor = this.monitors.get(chainKey.split(':')[0].toUpperCase());
+            if (!monitor || !monitor.getCursorStatus().some(status => status.chainKey === chainKey)) {
+                throw new Error(`Invalid chain key ${chainKey}: the chain is not being monitored.`);
+            }
+            if (!monitor.supportsBackfill()) {
+                throw new Error(`Invalid chain key ${chainKey}: backfill is not supported for ${monitor.getChainType()} chains.`);
+            }
+        }
+
+        const isBlockRange = input.fromBlock !== undefined || input.toBlock !== undefined;
+        if (isBlockRange) {
+            if (input.fromBlock === undefined || input.toBlock === undefined || input.fromBlock > input.toBlock) {
+                throw new Error('Invalid block range: fromBlock and toBlock are both required, fromBlock first.');
+            }
+            if (chainKeys.length > 1) {
+                throw new Error('Invalid block range: block numbers only apply to a single chain. Use since/until for several chains.');
+            }
+        } else if (!input.since || (input.until && input.until <= input.since)) {
+            throw new Error('Invalid range: either fromBlock/toBlock or since (with an optional later until) is required.');
+        }
+
+        const company = await prisma.company.findUnique({ where: { id: input.companyId }, select: { id: true } });
+        if (!company) {
+            throw new Error('Company not found.');
+        }
+
+        const job = await prisma.backfillJob.create({
+            data: {
+                companyId: input.companyId,
+                chainKeys,
+                fromBlock: isBlockRange ? input.fromBlock : null,
+                toBlock: isBlockRange ? input.toBlock : null,
+                since: isBlockRange ? null : input.since,
+                until: isBlockRange ? null : input.until ?? null,
+                notify: input.notify ?? false,
+            },
+        });
+        logger.info(`[BackfillService] Queued backfill job ${job.id} for company ${input.companyId} on ${chainKeys.join(', ')}.`);
+        return job;
+    }
+
+    public async getJob(id: number): Promise<BackfillJob | null> {
+        return prisma.backfillJob.findUnique({ where: { id } });
+    }
+
+    /**
+     * Ledger transfers of the job's company within the blocks the job has scanned so far, newest
+     * first. Transfers the live scan had already recorded in those blocks are included.
+     */
+    public async listJobTransfers(job: BackfillJob, limit?: number, offset?: number) {
+        const progress = (job.progress ?? {}) as unknown as Record<string, BackfillProgress>;
+        const blockRanges = Object.entries(progress)
+            .filter(([, chainProgress]) => chainProgress.lastScannedBlock !== null)
+            .map(([chainKey, chainProgress]) => ({
+                chainKey,
+                fromBlock: BigInt(chainProgress.fromBlock),
+                toBlock: BigInt(chainProgress.lastScannedBlock!),
+            }));
+        if (blockRanges.length === 0) {
+            return { total: 0, transfers: [] };
+        }
+        return TransferLedgerService.getInstance().listTransfers({ companyId: job.companyId, blockRanges, limit, offset });
+    }
+
+    /**
+     * Jobs matching the filters, newest first.
+     */
+    public async listJobs(filters: BackfillJobFilters = {}, limit: number = 50, offset: number = 0): Promise<{ total: number; jobs: BackfillJob[] }> {
+        const where = {
+            ...(filters.companyId !== undefined && { companyId: filters.companyId }),
+            ...(filters.status && { status: filters.status }),
+        };
+        const [total, jobs] = await Promise.all([
+            prisma.backfillJob.count({ where }),
+            prisma.backfillJob.findMany({ where, orderBy: { id: 'desc' }, take: Math.min(limit, 200), skip: offset }),
+        ]);
+        return { total, jobs };
+    }
+
+    /**
+     * Runs queued jobs oldest first. A job waits in the queue while a monitor it needs is not running.
+     */
+    public async processQueue(): Promise<void> {
+        if (this.isProcessing) {
+            return;
+        }
+        this.isProcessing = true;
+        try {
+            while (this.timer) {
+                const job = await prisma.backfillJob.findFirst({ where: { status: 'queued' }, orderBy: { id: 'asc' } });
+                if (!job || !job.chainKeys.every(chainKey => this.monitors.get(chainKey.split(':')[0].toUpperCase())?.isRunning())) {
+                    return;
+                }
+                await this.runJob(job);
+            }
+        } finally {
+            this.isProcessing = false;
+        }
+    }
+
+    private async runJob(job: BackfillJob): Promise<void> {
+        await prisma.backfillJob.update({ where: { id: job.id }, data: { status: 'running', startedAt: new Date(), error: null } });
+        logger.info(`[BackfillService] Running backfill job ${job.id}.`);
+
+        const progress: Record<string, BackfillProgress> = {};
+        const countTransfers = () => Object.values(progress).reduce((sum, chainProgress) => sum + chainProgress.transfersFound, 0);
+        const saveProgress = async (data: Prisma.BackfillJobUpdateInput = {}) => {
+            await prisma.backfillJob.update({
+                where: { id: job.id },
+                data: { progress: progress as unknown as Prisma.InputJsonObject, transfersFound: countTransfers(), ...data },
+            });
+        };
+
+        try {
+            for (const chainKey of job.chainKeys) {
+                const chainType = chainKey.split(':')[0].toUpperCase();
+                const monitor = this.monitors.get(chainType);
+                if (!monitor) {
+                    throw new Error(`No ${chainType} monitor is registered.`);
+                }
+                const companyAddresses = await prisma.companyAddress.findMany({
+                    where: { companyId: job.companyId, isActive: true, address: { chainType }, ...networkSelectionFilter(chainKey) },
+                    select: { address: { select: { address: true } } },
+                });
+                progress[chainKey] = await monitor.backfill(
+                    {
+                        chainKey,
+                        addresses: companyAddresses.map(companyAddress => companyAddress.address.address),
+                        fromBlock: job.fromBlock ?? undefined,
+                        toBlock: job.toBlock ?? undefined,
+                        since: job.since ?? undefined,
+                        until: job.until ?? undefined,
+                        notify: job.notify,
+                        isCancelled: () => !this.timer,
+                    },
+                    async chainProgress => {
+                        progress[chainKey] = { ...chainProgress };
+                        await saveProgress();
+                    }
+                );
+                if (!this.timer) {
+                    await saveProgress({ status: 'queued' }); // Shutting down: run it again on the next start
+                    return;
+                }
+            }
+            await saveProgress({ status: 'completed', completedAt: new Date() });
+            logger.info(`[BackfillService] Backfill job ${job.id} completed with ${countTransfers()} transfer(s).`);
+        } catch (error: any) {
+            logger.error(`[BackfillService] Backfill job ${job.id} failed:`, error);
+            await saveProgress({ status: 'failed', error: error?.message ?? String(error), completedAt: new Date() });
+        }
+    }
+}
@@ -1,6 +1,6 @@
 import { createPublicClient, http, type Address, type Chain, PublicClient } from 'viem';
-import { mainnet, polygon, bsc } from 'viem/chains';
 import { config as appConfig, EvmChainConfig } from '../../config';
+import { evmChainRegistry } from '../../config/evmChains';
 import logger from '../../config/logger';
 import { TokenService } from '../token/tokenService';
 import axios from 'axios';
@@ -172,11 +172,9 @@ interface TronScanTokensResponseOld {
 // NETWORK CONFIGURATIONS
 // ============================================================================
 
-const ALCHEMY_NETWORKS = {
-    ethereum: 'eth-mainnet',
-    polygon: 'polygon-mainnet',
-    bsc: 'bnb-mainnet'
-};
+const ALCHEMY_NETWORKS: Record<string, string> = Object.fromEntries(
+    evmChainRegistry.map(chain => [chain.key, chain.alchemyNetwork])
+);
 
 // ============================================================================
 // MAIN BALANCE SERVICE
@@ -187,16 +185,12 @@ export class BalanceService {
     private tokenService: TokenService;
     private clients: Map<number, any> = new Map();
     private chains: EvmChainConfig[];
-    private static readonly ALCHEMY_TO_DB_CHAIN: Record<string, string> = {
-        'eth-mainnet': 'ethereum',
-        'polygon-mainnet': 'polygon',
-        'bnb-mainnet': 'bsc'
-    };
-    private static readonly NATIVE_SYMBOL_BY_NETWORK: Record<string, string> = {
-        'eth-mainnet': 'ETH',
-        'polygon-mainnet': 'MATIC',
-        'bnb-mainnet': 'BNB'
-    };
+    private static readonly ALCHEMY_TO_DB_CHAIN: Record<string, string> = Object.fromEntries(
+        evmChainRegistry.map(chain => [chain.alchemyNetwork, chain.key])
+    );
+    private static readonly NATIVE_SYMBOL_BY_NETWORK: Record<string, string> = Object.fromEntries(
+        evmChainRegistry.map(chain => [chain.alchemyNetwork, chain.priceSymbol])
+    );
 
     private constructor() {
         this.tokenService = TokenService.getInstance();
@@ -0,0 +1,166 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../prisma';
+import logger from '../../config/logger';
+import type { TransferDirection } from '../monitors/chainMonitorManager';
+import { OutboxService } from '../outbox/outboxService';
+import type { OutboxEventInput } from '../outbox/outboxService';
+
+export type ConfirmationStatus = 'pending' | 'confirmed' | 'retracted';
+
+/**
+ * Everything needed to replay a deposit (or withdrawal) notification once its block is deep enough.
+ * Stored as JSON, so bigint values are kept as strings.
+ */
+export interface StoredDepositPayload {
+    direction?: TransferDirection; // Missing on rows stored before withdrawals were tracked; means 'incoming'
+    recipientAddress: string;
+    rawValue: string;
+    formattedValue: string;
+    tokenSymbol: string;
+    tokenDecimals: number;
+    tokenContractAddress?: string;
+    usdValue: number;
+    transactionHash: string;
+    senderAddress?: string;
+    blockNumber: string;
+    depositKey: string;
+    context: {
+        chainId: number | string;
+        chainName: string;
+        chainType: 'EVM' | 'TRON' | 'BTC' | 'SOLANA';
+        [key: string]: any;
+    };
+}
+
+export interface PendingDepositRecord {
+    id: number;
+    chainKey: string;
+    blockNumber: bigint;
+    blockHash: string;
+    transactionHash: string;
+    logIndex: number;
+    direction: TransferDirection;
+    payload: StoredDepositPayload;
+}
+
+/**
+ * Identifies one deposit across its pending/confirmed/retracted notifications.
+ * Includes the block hash, so a transaction re-mined in a different block after a
+ * reorg is tracked as a separate deposit. Native transfers use log index -1.
+ * Withdrawals get an ':out' suffix, since a transfer between two tracked wallets is both.
+ */
+export function buildDepositKey(chainKey: string, transactionHash: string, logIndex: number, blockHash: string, direction: TransferDirection = 'incoming'): string {
+    const key = `${chainKey}:${transactionHash.toLowerCase()}:${logIndex}:${blockHash.toLowerCase()}`;
+    return direction === 'outgoing' ? `${key}:out` : key;
+}
+
+/**
+ * Splits a key built by buildDepositKey() back into its parts.
+ * @returns null when the key is not in the expected format
+ */
+export function parseDepositKey(depositKey: string): { chainKey: string; transactionHash: string; logIndex: number; blockHash: string; direction: TransferDirection } | null {
+    const parts = depositKey.split(':');
+    const direction: TransferDirection = parts[parts.length - 1] === 'out' ? 'outgoing' : 'incoming';
+    if (direction === 'outgoing') {
+        parts.pop();
+    }
+    if (parts.length !== 5 || !/^-?\d+$/.test(parts[3])) {
+        return null;
+    }
+    const [chainType, chainId, transactionHash, logIndex, blockHash] = parts;
+    return {
+        chainKey: `${chainType}:${chainId}`,
+        transactionHash,
+        logIndex: parseInt(logIndex, 10),
+        blockHash,
+        direction,
+    };
+}
+
+/**
+ * Holds deposits detected in blocks that are not yet final, until the monitor
+ * has seen enough confirmations to confirm them or retract them after a reorg.
+ */
+export class PendingDepositService {
+    private static instance: PendingDepositService;
+
+    private constructor() { }
+
+    public static getInstance(): PendingDepositService {
+        if (!PendingDepositService.instance) {
+            PendingDepositService.instance = new PendingDepositService();
+        }
+        return PendingDepositService.instance;
+    }
+
+    /**
+     * Records a pending deposit. Returns false when the same event in the same block
+     * is already tracked (e.g. the block was re-scanned after a rewind).
+     */
+    public async addPending(
+        chainKey: string,
+        blockNumber: bigint,
+        blockHash: string,
+        logIndex: number,
+        payload: StoredDepositPayload
+    ): Promise<boolean> {
+        const result = await prisma.pendingDeposit.createMany({
+            data: [{
+                chainKey,
+                blockNumber,
+                blockHash,
+                transactionHash: payload.transactionHash,
+                logIndex,
+                direction: payload.direction ?? 'incoming',
+                recipientAddress: payload.recipientAddress,
+                payload: payload as unknown as Prisma.InputJsonObject,
+            }],
+            skipDuplicates: true,
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Pending deposits in blocks at or below `maxBlockNumber`, oldest first.
+     */
+    public async getDueDeposits(chainKey: string, maxBlockNumber: bigint): Promise<PendingDepositRecord[]> {
+        const rows = await prisma.pendingDeposit.findMany({
+            where: {
+                chainKey,
+                status: 'pending',
+                blockNumber: { lte: maxBlockNumber },
+            },
+            orderBy: [{ blockNumber: 'asc' }, { id: 'asc' }],
+        });
+        return rows.map((row: any) => ({
+            id: row.id,
+            chainKey: row.chainKey,
+            blockNumber: row.blockNumber,
+            blockHash: row.blockHash,
+            transactionHash: row.transactionHash,
+            logIndex: row.logIndex,
+            direction: row.direction as TransferDirection,
+            payload: row.payload as StoredDepositPayload,
+        }));
+    }
+
+    /**
+     * Resolves a pending deposit, queueing its confirmation/retraction notification in the same transaction.
+     */
+    public async markResolved(id: number, status: Exclude<ConfirmationStatus, 'pending'>, outboxEvents: OutboxEventInput[] = []): Promise<void> {
+        try {
+            const resolve = prisma.pendingDeposit.update({
+                where: { id },
+                data: { status, resolvedAt: new Date() },
+            });
+            if (outboxEvents.length === 0) {
+                await resolve;
+                return;
+            }
+            await prisma.$transaction([resolve, OutboxService.getInstance().enqueueOperation(outboxEvents)]);
+        } catch (error) {
+            logger.error(`[PendingDepositService] Failed to mark pending deposit ${id} as ${status}:`, error);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,156 @@
+import { EventEmitter } from 'events';
+import { prisma } from '../../prisma';
+import logger from '../../config/logger';
+import { OutboxService } from '../outbox/outboxService';
+import type { OutboxEventInput } from '../outbox/outboxService';
+
+export interface ChainCursorState {
+    chainKey: string;
+    chainType: string;
+    lastProcessedBlock: bigint;
+    lastBlockHash: string | null;
+    headBlock: bigint | null;
+    updatedAt: Date;
+}
+
+export interface CursorRewindEvent {
+    chainKey: string;
+    lastProcessedBlock: bigint;
+}
+
+export interface ChainCursorStatus {
+    chainKey: string;
+    chainType: string;
+    lastProcessedBlock: string;
+    headBlock: string | null;
+    lag: number | null;
+    updatedAt: string;
+}
+
+/**
+ * Builds the key a chain's cursor is stored under, e.g. 'EVM:1' or 'TRON:728126428'.
+ */
+export function buildChainKey(chainType: string, chainId: number | string): string {
+    return `${chainType}:${chainId}`;
+}
+
+/**
+ * Persists the last fully processed block of every monitored chain so the
+ * monitors can resume (and backfill) from where they stopped after a restart.
+ * Emits 'rewind' (CursorRewindEvent) when an admin moves a cursor back so running
+ * monitors can pick the new position up without a restart.
+ */
+export class BlockCursorService extends EventEmitter {
+    private static instance: BlockCursorService;
+
+    private constructor() {
+        super();
+    }
+
+    public static getInstance(): BlockCursorService {
+        if (!BlockCursorService.instance) {
+            BlockCursorService.instance = new BlockCursorService();
+        }
+        return BlockCursorService.instance;
+    }
+
+    public async getCursor(chainKey: string): Promise<ChainCursorState | null> {
+        const cursor = await prisma.chainCursor.findUnique({ where: { chainKey } });
+        if (!cursor) {
+            return null;
+        }
+        return {
+            chainKey: cursor.chainKey,
+            chainType: cursor.chainType,
+            lastProcessedBlock: cursor.lastProcessedBlock,
+            lastBlockHash: cursor.lastBlockHash,
+            headBlock: cursor.headBlock,
+            updatedAt: cursor.updatedAt,
+        };
+    }
+
+    /**
+     * Records that every block up to and including `blockNumber` has been processed.
+     * Notifications produced by those blocks are queued in the same transaction, so a block
+     * is never marked processed without its alerts, nor alerted twice after a crash.
+     */
+    public async commit(
+        chainKey: string,
+        chainType: string,
+        blockNumber: bigint,
+        details: { blockHash?: string | null; headBlock?: bigint | null; outboxEvents?: OutboxEventInput[] } = {}
+    ): Promise<void> {
+        const data = {
+            lastProcessedBlock: blockNumber,
+            lastBlockHash: details.blockHash ?? null,
+            ...(details.headBlock !== undefined && { headBlock: details.headBlock }),
+        };
+        const upsertCursor = prisma.chainCursor.upsert({
+            where: { chainKey },
+            update: data,
+            create: { chainKey, chainType, ...data },
+        });
+        if (!details.outboxEvents?.length) {
+            await upsertCursor;
+            return;
+        }
+        await prisma.$transaction([
+            OutboxService.getInstance().enqueueOperation(details.outboxEvents),
+            upsertCursor,
+        ]);
+    }
+
+    /**
+     * Updates only the observed chain head, used to report how far behind a monitor is.
+     */
+    public async updateHead(chainKey: string, headBlock: bigint): Promise<void> {
+        try {
+            await prisma.chainCursor.updateMany({
+                where: { chainKey },
+                data: { headBlock },
+            });
+        } catch (error) {
+            logger.warn(`[BlockCursorService] Failed to update head block for ${chainKey}:`, error);
+        }
+    }
+
+    /**
+     * Moves a cursor back so scanning resumes at `fromBlock` (inclusive).
+     * Throws if the cursor does not exist or `fromBlock` is ahead of the current position.
+     */
+    public async rewind(chainKey: string, fromBlock: bigint): Promise<ChainCursorState> {
+        const cursor = await this.getCursor(chainKey);
+        if (!cursor) {
+            throw new Error(`Cursor ${chainKey} not found.`);
+        }
+        if (fromBlock < 1n) {
+            throw new Error('Invalid block number. Must be a positive integer.');
+        }
+        const lastProcessedBlock = fromBlock - 1n;
+        if (lastProcessedBlock > cursor.lastProcessedBlock) {
+            throw new Error(`Invalid block number. Cursor ${chainKey} is at block ${cursor.lastProcessedBlock}; a rewind must not move it forward.`);
+        }
+
+        await prisma.chainCursor.update({
+            where: { chainKey },
+            data: { lastProcessedBlock, lastBlockHash: null },
+        });
+        logger.warn(`[BlockCursorService] Cursor ${chainKey} rewound from ${cursor.lastProcessedBlock} to ${lastProcessedBlock}. Scanning resumes at block ${fromBlock}.`);
+
+        const event: CursorRewindEvent = { chainKey, lastProcessedBlock };
+        this.emit('rewind', event);
+        return { ...cursor, lastProcessedBlock, lastBlockHash: null };
+    }
+
+    public async listCursors(): Promise<ChainCursorStatus[]> {
+        const cursors = await prisma.chainCursor.findMany({ orderBy: { chainKey: 'asc' } });
+        return cursors.map((cursor: { chainKey: string; chainType: string; lastProcessedBlock: bigint; headBlock: bigint | null; updatedAt: Date }) => ({
+            chainKey: cursor.chainKey,
+            chainType: cursor.chainType,
+            lastProcessedBlock: cursor.lastProcessedBlock.toString(),
+            headBlock: cursor.headBlock !== null ? cursor.headBlock.toString() : null,
+            lag: cursor.headBlock !== null ? Number(cursor.headBlock - cursor.lastProcessedBlock) : null,
+            updatedAt: cursor.updatedAt.toISOString(),
+        }));
+    }
+}
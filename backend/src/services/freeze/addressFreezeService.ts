@@ -0,0 +1,116 @@
+import { prisma } from '../../prisma';
+import logger from '../../config/logger';
+import type { AddressFreeze } from '@prisma/client';
+
+/**
+ * An issuer blacklist event for a tracked address, as queued for notification. Block values are
+ * strings so the event survives the JSON outbox payload.
+ */
+export interface FreezeEvent {
+    chainKey: string;
+    chainType: 'EVM' | 'TRON';
+    chainName: string;
+    chainId: number | string;
+    address: string; // The affected holder, as tracked
+    frozen: boolean; // False when the issuer lifted the freeze
+    tokenSymbol: string;
+    tokenContractAddress: string;
+    transactionHash: string;
+    blockNumber: string;
+    blockHash: string;
+    blockTimestamp: string | null; // ISO time
+    logIndex: number;
+}
+
+export interface FreezeFilters {
+    address?: string;
+    chainKey?: string;
+    companyId?: number;
+    frozen?: boolean;
+}
+
+/**
+ * Freeze state of tracked addresses per stablecoin contract, kept from the issuer blacklist
+ * events the EVM and Tron monitors see. Each address/contract pair holds its latest state, so an
+ * unfreeze clears the flag while the last freeze stays on record.
+ */
+export class AddressFreezeService {
+    private static instance: AddressFreezeService;
+
+    private constructor() { }
+
+    public static getInstance(): AddressFreezeService {
+        if (!AddressFreezeService.instance) {
+            AddressFreezeService.instance = new AddressFreezeService();
+        }
+        return AddressFreezeService.instance;
+    }
+
+    /**
+     * Applies a freeze or unfreeze. Events from blocks older than the stored state (a block
+     * re-scanned after a cursor rewind) leave it untouched.
+     * @returns Whether the stored state was updated
+     */
+    public async recordFreezeEvent(event: FreezeEvent): Promise<boolean> {
+        const blockNumber = BigInt(event.blockNumber);
+        const key = { chainKey: event.chainKey, tokenContractAddress: event.tokenContractAddress, address: event.address };
+        const existing = await prisma.addressFreeze.findUnique({
+            where: { chainKey_tokenContractAddress_address: key },
+            select: { blockNumber: true },
+        });
+        if (existing && existing.blockNumber > blockNumber) {
+            return false;
+        }
+
+        const eventTime = event.blockTimestamp ? new Date(event.blockTimestamp) : new Date();
+        const change = event.frozen
+            ? { isFrozen: true, frozenAt: eventTime, frozenTxHash: event.transactionHash }
+            : { isFrozen: false, unfrozenAt: eventTime, unfrozenTxHash: event.transactionHash };
+        await prisma.addressFreeze.upsert({
+            where: { chainKey_tokenContractAddress_address: key },
+            create: { ...key, chainType: event.chainType, tokenSymbol: event.tokenSymbol, blockNumber, ...change },
+            update: { tokenSymbol: event.tokenSymbol, blockNumber, ...change },
+        });
+        logger.warn(`[AddressFreezeService] ${event.address} on ${event.chainKey} was ${event.frozen ? 'frozen' : 'unfrozen'} by the ${event.tokenSymbol} issuer (tx ${event.transactionHash}).`);
+        return true;
+    }
+
+    /**
+     * Freeze records matching the filters, most recently changed first.
+     */
+    public async listFreezes(filters: FreezeFilters = {}, limit: number = 100, offset: number = 0): Promise<{ total: number; freezes: AddressFreeze[] }> {
+        let companyAddresses: string[] | undefined;
+        if (filters.companyId !== undefined) {
+            const rows = await prisma.companyAddress.findMany({
+                where: { companyId: filters.companyId },
+                select: { address: { select: { address: true, chainType: true } } },
+            });
+            companyAddresses = rows.map(row => row.address.chainType === 'EVM' ? row.address.address.toLowerCase() : row.address.address);
+        }
+        // EVM freezes are stored lowercase; Tron base58 addresses are case-sensitive and kept as given
+        const address = filters.address && /^0x[0-9a-f]{40}$/i.test(filters.address) ? filters.address.toLowerCase() : filters.address;
+
+        const where = {
+            ...(filters.chainKey && { chainKey: filters.chainKey }),
+            ...(filters.frozen !== undefined && { isFrozen: filters.frozen }),
+            ...(address || companyAddresses
+                ? {
+                    address: {
+                        ...(address && { equals: address }),
+                        ...(companyAddresses && { in: companyAddresses }),
+                    },
+                }
+                : {}),
+        };
+        const [total, freezes] = await Promise.all([
+            prisma.addressFreeze.count({ where }),
+            prisma.addressFreeze.findMany({
+                where,
+                orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+                take: Math.min(limit, 500),
+                skip: offset,
+            }),
+        ]);
+        return { total, freezes };
+    }
+}
@@ -0,0 +1,69 @@
+import { isBech32Address } from '../../utils/validators';
+import type { BitcoinBlock } from '../rpc/bitcoinRpcClient';
+
+export const SATS_PER_BTC = 100_000_000;
+
+export interface BitcoinDeposit {
+    transactionHash: string;
+    recipientAddress: string;
+    amountSats: bigint;
+    outputIndex: number; // First output of the transaction paying the address
+    outputCount: number; // Outputs of the transaction paying the address
+    senderAddress?: string; // Address of the first input, when the node returned spent outputs
+}
+
+/**
+ * Bech32 addresses are case-insensitive and compared in lowercase; Base58 addresses are case-sensitive.
+ */
+export function normalizeBitcoinAddress(address: string): string {
+    return isBech32Address(address) ? address.toLowerCase() : address;
+}
+
+/**
+ * Converts a BTC amount as returned by the node to satoshis. Node amounts have at most
+ * 8 decimals, so rounding only removes floating point noise.
+ */
+export function btcToSats(value: number): bigint {
+    return BigInt(Math.round(value * SATS_PER_BTC));
+}
+
+/**
+ * Deposits to tracked addresses in a block. A transaction with several outputs to the same address
+ * (batched payouts) is one deposit of their sum; outputs to different tracked addresses are separate deposits.
+ * Change, an output back to an address the transaction spends from, is not a deposit.
+ * @param trackedAddresses Addresses normalized with normalizeBitcoinAddress()
+ */
+export function extractTrackedDeposits(block: BitcoinBlock, trackedAddresses: Set<string>): BitcoinDeposit[] {
+    const deposits: BitcoinDeposit[] = [];
+    for (const tx of block.tx) {
+        const byAddress = new Map<string, BitcoinDeposit>();
+        const inputAddresses = new Set(tx.vin
+            .map(input => input.prevout?.scriptPubKey?.address)
+            .filter((address): address is string => !!address)
+            .map(normalizeBitcoinAddress));
+        for (const output of tx.vout) {
+            const address = output.scriptPubKey?.address;
+            if (!address) continue;
+            const normalized = normalizeBitcoinAddress(address);
+            if (!trackedAddresses.has(normalized) || inputAddresses.has(normalized)) continue;
+
+            const existing = byAddress.get(normalized);
+            if (existing) {
+                existing.amountSats += btcToSats(output.value);
+                existing.outputCount++;
+                continue;
+            }
+            const firstInput = tx.vin[0];
+            byAddress.set(normalized, {
+                transactionHash: tx.txid,
+                recipientAddress: normalized,
+                amountSats: btcToSats(output.value),
+                outputIndex: output.n,
+                outputCount: 1,
+                senderAddress: firstInput?.coinbase ? undefined : firstInput?.prevout?.scriptPubKey?.address,
+            });
+        }
+        deposits.push(...byAddress.values());
+    }
+    return deposits;
+}
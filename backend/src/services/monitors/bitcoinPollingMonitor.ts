@@ -0,0 +1,284 @@
+import type { Hex } from 'viem';
+import { formatUnits } from 'viem';
+import { config as appConfig } from '../../config';
+import logger from '../../config/logger';
+import type { EventHandlerCallback } from './chainMonitorManager';
+import type { AddressManager } from '../address/addressManager';
+import { TokenService } from '../token/tokenService';
+import { BlockCursorService, buildChainKey } from '../cursor/blockCursorService';
+import type { CursorRewindEvent } from '../cursor/blockCursorService';
+import { buildDepositKey } from '../confirmation/pendingDepositService';
+import type { StoredDepositPayload } from '../confirmation/pendingDepositService';
+import { buildTransferOutboxEvent } from '../outbox/outboxService';
+import type { OutboxEventInput } from '../outbox/outboxService';
+import { TransferLedgerService } from '../transfer/transferLedgerService';
+import { BitcoinRpcClient } from '../rpc/bitcoinRpcClient';
+import type { BitcoinBlock } from '../rpc/bitcoinRpcClient';
+import type { RpcPoolStatus } from '../rpc/rpcProviderPool';
+import { isValidBitcoinAddress } from '../../utils/validators';
+import { extractTrackedDeposits, normalizeBitcoinAddress } from './bitcoinBlockParser';
+import type { BitcoinDeposit } from './bitcoinBlockParser';
+import type { ChainMonitor, MonitorCursorStatus } from './chainMonitor';
+
+const BTC_DECIMALS = 8;
+
+/**
+ * Polls a Bitcoin Core-compatible node for blocks paying tracked addresses. Blocks are only
+ * scanned once they have `bitcoin.confirmations` confirmations, so every deposit is alerted
+ * once, already confirmed, and a reorg shallower than that never reaches the alerts.
+ */
+export class BitcoinPollingMonitor implements ChainMonitor {
+    private addressManager: AddressManager;
+    private eventHandler: EventHandlerCallback | null;
+    private tokenService: TokenService;
+    private cursorService: BlockCursorService;
+    private transferLedger: TransferLedgerService;
+    private rpcClient: BitcoinRpcClient | null = null;
+
+    private pollingInterval: NodeJS.Timeout | null = null;
+    private isPolling = false;
+    private lastProcessedHeight: number | null = null;
+    private lastBlockHash: string | null = null;
+    private headHeight: number | null = null;
+    private pendingRewindTo: number | null = null; // Set by an admin cursor rewind, applied before the next poll
+    private blockOutbox: OutboxEventInput[] = []; // Notifications from the block being processed, queued with its cursor commit
+
+    private readonly CHAIN_KEY = buildChainKey('BTC', appConfig.bitcoin.network);
+
+    constructor(addressManager: AddressManager, handler: EventHandlerCallback | null) {
+        this.addressManager = addressManager;
+        this.eventHandler = handler;
+        this.tokenService = TokenService.getInstance();
+        this.cursorService = BlockCursorService.getInstance();
+        this.transferLedger = TransferLedgerService.getInstance();
+    }
+
+    public async start(): Promise<void> {
+        if (appConfig.bitcoin.rpcUrls.length === 0) {
+            logger.warn('[Bitcoin] BTC_RPC_URL is not configured. Bitcoin monitoring is disabled.');
+            return;
+        }
+        if (this.pollingInterval) {
+            logger.warn('[Bitcoin] Block polling is already running.');
+            return;
+        }
+
+        this.rpcClient = new BitcoinRpcClient(this.CHAIN_KEY);
+        this.rpcClient.startHealthChecks();
+        this.cursorService.on('rewind', this.handleCursorRewind);
+
+        this.pollingInterval = setInterval(() => this.checkForNewBlocks(), appConfig.bitcoin.pollingIntervalMs);
+        logger.info(`[Bitcoin] Started polling ${appConfig.bitcoin.network} every ${appConfig.bitcoin.pollingIntervalMs / 1000} seconds, alerting after ${appConfig.bitcoin.confirmations} confirmation(s).`);
+        // Blocks are 10 minutes apart, so catch up now rather than after the first interval; not awaited, as catching up can take a while
+        this.checkForNewBlocks();
+    }
+
+    public stop(): void {
+        logger.info('Stopping Bitcoin block polling...');
+        this.cursorService.off('rewind', this.handleCursorRewind);
+        if (this.pollingInterval) {
+            clearInterval(this.pollingInterval);
+            this.pollingInterval = null;
+        }
+        this.rpcClient?.stopHealthChecks();
+        this.isPolling = false;
+        logger.info('Bitcoin block polling stopped.');
+    }
+
+    public updateTrackedAddresses(newAddressesHint: string[], newEventHandler?: EventHandlerCallback | null): void {
+        if (newEventHandler !== undefined) {
+            this.eventHandler = newEventHandler;
+        }
+        // The tracked set is read from the shared AddressManager before every block
+        logger.info(`[Bitcoin] Received address update hint. Total hints: ${newAddressesHint.length}.`);
+    }
+
+    /**
+     * Current scan position, used to report how far behind the Bitcoin monitor is.
+     */
+    public getCursorStatus(): MonitorCursorStatus[] {
+        if (!this.rpcClient) {
+            return [];
+        }
+        return [{
+            chainId: appConfig.bitcoin.network,
+            chainKey: this.CHAIN_KEY,
+            lastProcessedBlock: this.lastProcessedHeight !== null ? this.lastProcessedHeight.toString() : null,
+            headBlock: this.headHeight !== null ? this.headHeight.toString() : null,
+            lag: this.headHeight !== null && this.lastProcessedHeight !== null ? this.headHeight - this.lastProcessedHeight : null,
+        }];
+    }
+
+    public getProviderStatus(): RpcPoolStatus[] {
+        return this.rpcClient ? [this.rpcClient.getStatus()] : [];
+    }
+
+    private handleCursorRewind = (event: CursorRewindEvent): void => {
+        if (event.chainKey !== this.CHAIN_KEY) {
+            return;
+        }
+        this.pendingRewindTo = Number(event.lastProcessedBlock);
+        logger.warn(`[Bitcoin] Cursor rewind requested. Scanning will resume at block ${this.pendingRewindTo + 1}.`);
+    };
+
+    /**
+     * Resume from the persisted cursor when there is one, bounded by bitcoin.maxCatchUpBlocks.
+     * Without a cursor (first run) start at the newest block that already has enough confirmations.
+     */
+    private async initializeLastProcessedHeight(confirmedTip: number): Promise<void> {
+        const cursor = await this.cursorService.getCursor(this.CHAIN_KEY);
+        if (!cursor) {
+            this.lastProcessedHeight = confirmedTip - 1;
+            logger.info(`[Bitcoin] No persisted cursor found. Starting at block ${confirmedTip}.`);
+            return;
+        }
+
+        const cursorHeight = Number(cursor.lastProcessedBlock);
+        const maxCatchUp = appConfig.bitcoin.maxCatchUpBlocks;
+        if (confirmedTip - cursorHeight > maxCatchUp) {
+            const skipTo = confirmedTip - maxCatchUp;
+            logger.warn(`[Bitcoin] Cursor ${cursorHeight} is ${confirmedTip - cursorHeight} blocks behind the confirmed tip ${confirmedTip}, exceeding the catch-up window of ${maxCatchUp}. Blocks ${cursorHeight + 1}-${skipTo} will NOT be scanned.`);
+            this.lastProcessedHeight = skipTo;
+            this.lastBlockHash = null;
+        } else {
+            this.lastProcessedHeight = cursorHeight;
+            this.lastBlockHash = cursor.lastBlockHash;
+        }
+        logger.info(`[Bitcoin] Resumed from persisted cursor at block ${this.lastProcessedHeight}.`);
+    }
+
+    private async checkForNewBlocks(): Promise<void> {
+        if (this.isPolling || !this.rpcClient) {
+            return;
+        }
+        this.isPolling = true;
+
+        try {
+            const tip = await this.rpcClient.getBlockCount();
+            this.headHeight = tip;
+            // The block at the confirmed tip has exactly `confirmations` confirmations
+            const confirmedTip = tip - Math.max(1, appConfig.bitcoin.confirmations) + 1;
+
+            if (this.lastProcessedHeight === null) {
+                await this.initializeLastProcessedHeight(confirmedTip);
+            }
+            if (this.pendingRewindTo !== null) {
+                this.lastProcessedHeight = this.pendingRewindTo;
+                this.lastBlockHash = null;
+                this.pendingRewindTo = null;
+            }
+
+            while (this.lastProcessedHeight! < confirmedTip && this.pendingRewindTo === null && this.pollingInterval) {
+                const height = this.lastProcessedHeight! + 1;
+                const blockHash = await this.rpcClient.getBlockHash(height);
+                const block = await this.rpcClient.getBlock(blockHash);
+
+                if (this.lastBlockHash && block.previousblockhash && block.previousblockhash !== this.lastBlockHash) {
+                    logger.warn(`[Bitcoin] Block ${height} does not build on the last processed block ${this.lastBlockHash}. A reorg deeper than ${appConfig.bitcoin.confirmations} confirmation(s) replaced it; deposits in the replaced block are not retracted.`);
+                }
+
+                this.blockOutbox = [];
+                await this.processBlock(block);
+                await this.cursorService.commit(this.CHAIN_KEY, 'BTC', BigInt(height), {
+                    blockHash: block.hash,
+                    headBlock: BigInt(tip),
+                    outboxEvents: this.blockOutbox,
+                });
+                this.blockOutbox = [];
+                this.lastProcessedHeight = height;
+                this.lastBlockHash = block.hash;
+            }
+        } catch (error: any) {
+            logger.error(`[Bitcoin] Failed to process new blocks, will retry: ${error.message}`);
+        } finally {
+            this.isPolling = false;
+        }
+    }
+
+    private async processBlock(block: BitcoinBlock): Promise<void> {
+        const trackedAddresses = new Set(this.addressManager.getTrackedAddresses()
+            .filter(isValidBitcoinAddress)
+            .map(normalizeBitcoinAddress));
+        if (trackedAddresses.size === 0) {
+            return;
+        }
+
+        const deposits = extractTrackedDeposits(block, trackedAddresses);
+        if (deposits.length === 0) {
+            return;
+        }
+        logger.info(`[Bitcoin] Block ${block.height}: found ${deposits.length} deposit(s) to tracked addresses.`);
+
+        const btcToken = await this.tokenService.getToken('BTC', 'bitcoin');
+        const price = btcToken?.price ? Number(btcToken.price) : 0;
+        for (const deposit of deposits) {
+            await this.dispatchDeposit(block, deposit, price);
+        }
+    }
+
+    /**
+     * Writes a deposit to the ledger and queues its alert for the block's cursor commit. The block
+     * already has the required confirmations, so the deposit is recorded as confirmed.
+     */
+    private async dispatchDeposit(block: BitcoinBlock, deposit: BitcoinDeposit, price: number): Promise<void> {
+        const formattedValue = formatUnits(deposit.amountSats, BTC_DECIMALS);
+        const payload: Omit<StoredDepositPayload, 'depositKey'> = {
+            direction: 'incoming',
+            recipientAddress: deposit.recipientAddress,
+            rawValue: deposit.amountSats.toString(),
+            formattedValue,
+            tokenSymbol: 'BTC',
+            tokenDecimals: BTC_DECIMALS,
+            tokenContractAddress: 'BTC', // Native coin symbol
+            usdValue: parseFloat(formattedValue) * price,
+            transactionHash: deposit.transactionHash,
+            senderAddress: deposit.senderAddress,
+            blockNumber: block.height.toString(),
+            context: {
+                chainId: appConfig.bitcoin.network,
+                chainName: 'Bitcoin',
+                chainType: 'BTC',
+                confirmationsRequired: appConfig.bitcoin.confirmations,
+                outputCount: deposit.outputCount,
+            },
+        };
+
+        // The output index stands in for the log index, so each deposit of a transaction has its own key
+        const depositKey = buildDepositKey(this.CHAIN_KEY, deposit.transactionHash, deposit.outputIndex, block.hash);
+        await this.transferLedger.recordTransfer({
+            transferKey: depositKey,
+            chainKey: this.CHAIN_KEY,
+            chainType: 'BTC',
+            blockNumber: BigInt(block.height),
+            blockHash: block.hash,
+            blockTimestamp: new Date(block.time * 1000),
+            transactionHash: deposit.transactionHash,
+            logIndex: deposit.outputIndex,
+            direction: 'incoming',
+            fromAddress: deposit.senderAddress ?? '',
+            toAddress: deposit.recipientAddress,
+            tokenSymbol: 'BTC',
+            tokenContractAddress: 'BTC',
+            rawAmount: payload.rawValue,
+            decimals: BTC_DECIMALS,
+            usdValue: payload.usdValue,
+            status: 'confirmed',
+        });
+        this.blockOutbox.push(buildTransferOutboxEvent(this.CHAIN_KEY, { ...payload, depositKey }));
+
+        if (this.eventHandler) {
+            this.eventHandler({
+                type: 'NATIVE',
+                chainId: appConfig.bitcoin.network,
+                direction: 'incoming',
+                data: {
+                    from: (deposit.senderAddress ?? '') as Hex,
+                    to: deposit.recipientAddress as Hex,
+                    value: deposit.amountSats,
+                    hash: deposit.transactionHash as Hex,
+                    blockNumber: BigInt(block.height),
+                },
+            });
+        }
+    }
+}
@@ -0,0 +1,80 @@
+import type { AddressManager } from '../address/addressManager';
+import type { RpcPoolStatus } from '../rpc/rpcProviderPool';
+import type { EventHandlerCallback } from './chainMonitorManager';
+
+/**
+ * Name of a chain family a monitor plugin is registered under, e.g. 'EVM' or 'TRON'.
+ * Also used as the chain type of its chain keys and addresses.
+ */
+export type ChainType = string;
+
+/**
+ * In-memory scan position of one chain, as reported on the monitoring status endpoint.
+ */
+export interface MonitorCursorStatus {
+    chainId: number | string;
+    chainKey: string;
+    lastProcessedBlock: string | null;
+    headBlock: string | null;
+    lag: number | null;
+}
+
+/**
+ * Historical scan of one chain for transfers of the given addresses, over a block or a time range.
+ */
+export interface BackfillRequest {
+    chainKey: string;
+    addresses: string[];
+    fromBlock?: bigint;
+    toBlock?: bigint;
+    since?: Date; // Used when no block range is given
+    until?: Date;
+    notify: boolean; // Queue alerts for the transfers found; otherwise they are only written to the ledger
+    isCancelled: () => boolean; // Checked between blocks
+}
+
+/**
+ * How far a backfill of one chain got. Block numbers are strings so it can be stored as JSON.
+ */
+export interface BackfillProgress {
+    fromBlock: string;
+    toBlock: string;
+    lastScannedBlock: string | null;
+    transfersFound: number; // Transfers written to the ledger, including ones the live scan had already recorded
+}
+
+/**
+ * Contract every chain family monitor implements. The monitor reads the tracked set from the
+ * AddressManager it was created with, persists its own cursor and emits a UnifiedTransferEvent
+ * through the event handler for every transfer it detects.
+ */
+export interface ChainMonitor {
+    start(): void | Promise<void>;
+    stop(): void;
+    /**
+     * Called after the shared AddressManager has been updated.
+     * @param addresses Every tracked address, of any chain family
+     * @param handler Replaces the event handler when given
+     */
+    updateTrackedAddresses(addresses: string[], handler?: EventHandlerCallback | null): void;
+    getCursorStatus(): MonitorCursorStatus[];
+    /**
+     * Health of the RPC providers the monitor is using, one entry per chain.
+     */
+    getProviderStatus(): RpcPoolStatus[];
+    /**
+     * Scans settled historical blocks with the same decoding as live scanning, recording the
+     * transfers to the ledger. Optional: chain families without it cannot be backfilled.
+     * @param onProgress Called after every scanned batch of blocks
+     */
+    backfill?(request: BackfillRequest, onProgress: (progress: BackfillProgress) => Promise<void>): Promise<BackfillProgress>;
+}
+
+/**
+ * Registration of a chain family. See chainMonitorRegistry.
+ */
+export interface ChainMonitorPlugin {
+    chainType: ChainType;
+    displayName: string;
+    create(addressManager: AddressManager, handler: EventHandlerCallback | null): ChainMonitor;
+}
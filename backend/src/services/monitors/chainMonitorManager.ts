@@ -1,9 +1,14 @@
 import type { Hex } from 'viem';
-import { EvmPollingMonitor } from './evmPollingMonitor';
-import { TronPollingMonitor } from './tronPollingMonitor';
 import { AddressManager } from '../address/addressManager';
 import { AddressService } from '../address/addressService';
+import { AddressChangeService } from '../address/addressChangeService';
+import type { AddressSetChangeEvent } from '../address/addressChangeService';
 import logger from '../../config/logger';
+import type { RpcPoolStatus } from '../rpc/rpcProviderPool';
+import type { BackfillProgress, BackfillRequest, ChainMonitor, ChainType, MonitorCursorStatus } from './chainMonitor';
+import { getChainMonitorPlugin } from './chainMonitorRegistry';
+
+export type { ChainType } from './chainMonitor';
 
 // --- SHARED TYPES --- (Still exported for use by other parts of the application, like the handler itself)
 export interface Erc20TransferEvent {
@@ -22,16 +27,32 @@ export interface NativeTransferEvent {
     value: bigint;
     hash: Hex;
     blockNumber: bigint;
+    internal?: boolean; // Sent by a contract during the transaction rather than as the transaction's own value
 }
 
+export interface NftTransferEvent {
+    standard: 'ERC721' | 'ERC1155';
+    from: Hex;
+    to: Hex;
+    operator?: Hex; // ERC-1155 only: the account that initiated the transfer
+    tokenIds: bigint[];
+    amounts: bigint[]; // Copies moved per token ID; always 1 for ERC-721
+    transactionHash: Hex;
+    blockNumber: bigint;
+    logIndex: number;
+    tokenContract: Hex;
+}
+
+// Whether a tracked address received the transfer or sent it
+export type TransferDirection = 'incoming' | 'outgoing';
+
 export type UnifiedTransferEvent =
-    | { type: 'ERC20'; data: Erc20TransferEvent; chainId: number; }
-    | { type: 'NATIVE'; data: NativeTransferEvent; chainId: number; };
+    | { type: 'ERC20'; data: Erc20TransferEvent; chainId: number | string; direction?: TransferDirection; }
+    | { type: 'NATIVE'; data: NativeTransferEvent; chainId: number | string; direction?: TransferDirection; }
+    | { type: 'NFT'; data: NftTransferEvent; chainId: number | string; direction?: TransferDirection; };
 
 export type EventHandlerCallback = (event: UnifiedTransferEvent) => void;
 
-export type ChainType = 'EVM' | 'TRON';
-
 // --- MOCK DATABASE FUNCTION --- (Replace with actual DB call using Prisma)
 async function fetchAddressesFromDB(): Promise<Hex[]> {
     console.log("[DB Mock] Fetching addresses from database...");
@@ -54,8 +75,7 @@ export class ChainMonitorManager {
     private eventHandler: EventHandlerCallback | null = null;
     private addressManager: AddressManager;
     private addressService: AddressService;
-    private evmManager: EvmPollingMonitor | null = null;
-    private tronManager: TronPollingMonitor | null = null;
+    private monitor: ChainMonitor | null = null;
     private refreshIntervalId: NodeJS.Timeout | null = null;
     private chainType: ChainType;
     private running: boolean = false;
@@ -64,6 +84,9 @@ export class ChainMonitorManager {
         private readonly refreshIntervalMinutes: number = 5,
         chainType: ChainType = 'EVM'
     ) {
+        if (!getChainMonitorPlugin(chainType)) {
+            throw new Error(`No chain monitor registered for ${chainType}.`);
+        }
         this.addressManager = new AddressManager();
         this.addressService = new AddressService();
         this.chainType = chainType;
@@ -80,18 +103,27 @@ export class ChainMonitorManager {
         const allTrackedAddresses = this.addressManager.getTrackedAddresses();
         logger.info("Internal: Updating connections. Current tracked addresses from AddressManager:", allTrackedAddresses);
 
-        // Only update if managers exist and are running
-        if (this.chainType === 'EVM' && this.evmManager && this.running) {
-            const evmAddresses = allTrackedAddresses
-                .filter(addr => typeof addr === 'string' && addr.startsWith('0x') && addr.length === 42)
-                .map(addr => addr.toLowerCase() as Hex);
-            this.evmManager.updateTrackedAddresses(evmAddresses, this.eventHandler);
-        } else if (this.chainType === 'TRON' && this.tronManager && this.running) {
-            // Assuming tronManager can handle a string[] and does its own filtering/validation
-            this.tronManager.updateTrackedAddresses(allTrackedAddresses, this.eventHandler);
+        // Only update if the monitor exists and is running; each monitor picks out its own chain family's addresses
+        if (this.monitor && this.running) {
+            this.monitor.updateTrackedAddresses(allTrackedAddresses, this.eventHandler);
         }
     }
 
+    /**
+     * Applies an address change published by an import, an address edit or a company deletion
+     * right away; the periodic reload remains the safety net.
+     */
+    private handleAddressChange = (event: AddressSetChangeEvent): void => {
+        if (!this.monitor || !this.running) {
+            return;
+        }
+        if (!this.addressManager.applyChanges(event.added, event.removed)) {
+            return;
+        }
+        logger.info(`[${this.chainType}] Applying address changes from ${event.source}: +${event.added.length}/-${event.removed.length}. Now tracking ${this.addressManager.getTrackedAddressCount()} addresses.`);
+        this.monitor.updateTrackedAddresses(this.addressManager.getTrackedAddresses(), this.eventHandler);
+    };
+
     public async reloadAddressesFromDB(): Promise<void> {
         logger.info("Reloading addresses from DB...");
         try {
@@ -122,14 +154,9 @@ export class ChainMonitorManager {
             logger.warn("Event handler not set in ChainMonitorManager before starting. Events might be missed.");
         }
 
-        // Initialize and start the appropriate manager based on chain type
-        if (this.chainType === 'EVM') {
-            this.evmManager = new EvmPollingMonitor(this.addressManager, this.eventHandler);
-            this.evmManager.start();
-        } else if (this.chainType === 'TRON') {
-            this.tronManager = new TronPollingMonitor(this.addressManager, this.eventHandler);
-            this.tronManager.start();
-        }
+        // Initialize and start the monitor registered for this chain type
+        this.monitor = getChainMonitorPlugin(this.chainType)!.create(this.addressManager, this.eventHandler);
+        await this.monitor.start();
 
         // Start periodic refresh
         if (this.refreshIntervalMinutes > 0) {
@@ -144,6 +171,7 @@ export class ChainMonitorManager {
             logger.info(`Periodic address refresh scheduled every ${this.refreshIntervalMinutes} minutes.`);
         }
 
+        AddressChangeService.getInstance().on('change', this.handleAddressChange);
         this.running = true;
         logger.info(`${this.chainType.toUpperCase()} connection manager started via ChainMonitorManager.`);
     }
@@ -157,12 +185,10 @@ export class ChainMonitorManager {
             logger.info("Stopped periodic address refresh.");
         }
 
-        if (this.chainType === 'EVM' && this.evmManager) {
-            this.evmManager.stop();
-            this.evmManager = null;
-        } else if (this.chainType === 'TRON' && this.tronManager) {
-            this.tronManager.stop();
-            this.tronManager = null;
+        AddressChangeService.getInstance().off('change', this.handleAddressChange);
+        if (this.monitor) {
+            this.monitor.stop();
+            this.monitor = null;
         }
 
         this.running = false;
@@ -185,12 +211,57 @@ export class ChainMonitorManager {
         return this.addressManager.getTrackedAddressCount();
     }
 
+    /**
+     * Get the in-memory scan position of each chain handled by this manager
+     * @returns One entry per chain with its last processed block, observed head and lag
+     */
+    public getCursorStatus(): MonitorCursorStatus[] {
+        return this.monitor ? this.monitor.getCursorStatus() : [];
+    }
+
+    /**
+     * Get the RPC provider pools of the active monitor
+     * @returns One entry per chain with the provider currently in use and each provider's health
+     */
+    public getProviderStatus(): RpcPoolStatus[] {
+        return this.monitor ? this.monitor.getProviderStatus() : [];
+    }
+
+    /**
+     * Whether the active monitor can scan historical blocks
+     */
+    public supportsBackfill(): boolean {
+        return !!this.monitor?.backfill;
+    }
+
+    /**
+     * Run a historical scan on the active monitor
+     * @returns The final progress of the scan
+     */
+    public async backfill(request: BackfillRequest, onProgress: (progress: BackfillProgress) => Promise<void>): Promise<BackfillProgress> {
+        if (!this.monitor || !this.running) {
+            throw new Error(`${this.chainType} monitoring is not running.`);
+        }
+        if (!this.monitor.backfill) {
+            throw new Error(`Backfill is not supported for ${this.chainType} chains.`);
+        }
+        return this.monitor.backfill(request, onProgress);
+    }
+
+    public getChainType(): ChainType {
+        return this.chainType;
+    }
+
     public async setChainType(chainType: ChainType): Promise<void> {
         if (this.chainType === chainType) {
             logger.info(`Already using ${chainType} chain type.`);
             return;
         }
 
+        if (!getChainMonitorPlugin(chainType)) {
+            throw new Error(`No chain monitor registered for ${chainType}.`);
+        }
+
         logger.info(`Switching from ${this.chainType} to ${chainType} chain type...`);
 
         // Stop current connections
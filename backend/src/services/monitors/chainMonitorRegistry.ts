@@ -0,0 +1,55 @@
+import logger from '../../config/logger';
+import { EvmPollingMonitor } from './evmPollingMonitor';
+import { TronPollingMonitor } from './tronPollingMonitor';
+import { BitcoinPollingMonitor } from './bitcoinPollingMonitor';
+import { SolanaPollingMonitor } from './solanaPollingMonitor';
+import type { ChainMonitorPlugin, ChainType } from './chainMonitor';
+
+const plugins = new Map<ChainType, ChainMonitorPlugin>();
+
+/**
+ * Makes a chain family available to the monitoring service, the status endpoint and the
+ * monitoring mode switch, all of which iterate over the registered plugins.
+ */
+export function registerChainMonitor(plugin: ChainMonitorPlugin): void {
+    if (plugins.has(plugin.chainType)) {
+        logger.warn(`[ChainMonitorRegistry] Monitor for ${plugin.chainType} is already registered. Overwriting.`);
+    }
+    plugins.set(plugin.chainType, plugin);
+}
+
+export function getChainMonitorPlugin(chainType: ChainType): ChainMonitorPlugin | undefined {
+    return plugins.get(chainType);
+}
+
+/**
+ * Registered chain families, in registration order.
+ */
+export function listChainMonitorPlugins(): ChainMonitorPlugin[] {
+    return Array.from(plugins.values());
+}
+
+// --- BUILT-IN CHAIN FAMILIES ---
+registerChainMonitor({
+    chainType: 'EVM',
+    displayName: 'EVM',
+    create: (addressManager, handler) => new EvmPollingMonitor(addressManager, handler),
+});
+
+registerChainMonitor({
+    chainType: 'TRON',
+    displayName: 'Tron',
+    create: (addressManager, handler) => new TronPollingMonitor(addressManager, handler),
+});
+
+registerChainMonitor({
+    chainType: 'BTC',
+    displayName: 'Bitcoin',
+    create: (addressManager, handler) => new BitcoinPollingMonitor(addressManager, handler),
+});
+
+registerChainMonitor({
+    chainType: 'SOLANA',
+    displayName: 'Solana',
+    create: (addressManager, handler) => new SolanaPollingMonitor(addressManager, handler),
+});
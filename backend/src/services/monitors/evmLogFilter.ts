@@ -0,0 +1,142 @@
+import type { Hex } from 'viem';
+
+// ERC20 Transfer event topic; ERC-721 uses the same signature with the token ID as a third indexed topic
+export const TRANSFER_EVENT_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+// ERC-1155 TransferSingle and TransferBatch event topics
+export const TRANSFER_SINGLE_EVENT_TOPIC = '0xc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f62';
+export const TRANSFER_BATCH_EVENT_TOPIC = '0x4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb';
+
+// ERC20 Approval event topic; ERC-721 approvals use the same signature with the token ID as a third indexed topic
+export const APPROVAL_EVENT_TOPIC = '0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925';
+
+// eth_getLogs topics: one entry per position, a list matches any of its topics, null matches all
+export type LogTopicFilter = (Hex | Hex[] | null)[];
+
+export type NftStandard = 'ERC721' | 'ERC1155';
+
+// The subset of a log the filtering helpers need, so they work on viem logs and plain fixtures alike
+export interface TransferLogLike {
+    topics: readonly (Hex | null | undefined)[] | Hex[];
+    blockHash: Hex | null;
+    blockNumber: bigint | null;
+    logIndex: number | null;
+}
+
+/**
+ * Splits tracked addresses into groups that each fit in one eth_getLogs topic filter.
+ */
+export function chunkAddresses<T>(addresses: T[], chunkSize: number): T[][] {
+    const size = Math.max(1, chunkSize);
+    const chunks: T[][] = [];
+    for (let i = 0; i < addresses.length; i += size) {
+        chunks.push(addresses.slice(i, i + size));
+    }
+    return chunks;
+}
+
+/**
+ * eth_getLogs topic filters for the transfers, and optionally the approvals, of one chunk of
+ * tracked addresses. Events indexing the tracked party at the same position share a filter, their
+ * signatures OR'd in the first topic:
+ * position 1 is the ERC20/ERC-721 `from` and the Approval `owner`, position 2 the ERC20/ERC-721 `to`
+ * and the ERC-1155 `from` (after its operator), position 3 the ERC-1155 `to`.
+ */
+export function buildTrackedLogTopicFilters(addressTopics: Hex[], includeApprovals: boolean): LogTopicFilter[] {
+    const erc1155Topics: Hex[] = [TRANSFER_SINGLE_EVENT_TOPIC, TRANSFER_BATCH_EVENT_TOPIC];
+    return [
+        [includeApprovals ? [TRANSFER_EVENT_TOPIC, APPROVAL_EVENT_TOPIC] : [TRANSFER_EVENT_TOPIC], addressTopics],
+        [[TRANSFER_EVENT_TOPIC, ...erc1155Topics], null, addressTopics],
+        [erc1155Topics, null, null, addressTopics],
+    ];
+}
+
+/**
+ * Whether a log is an ERC20 Approval (owner and spender indexed, unlike ERC-721's).
+ */
+export function isErc20ApprovalLog(log: TransferLogLike): boolean {
+    return log.topics[0]?.toLowerCase() === APPROVAL_EVENT_TOPIC && log.topics.length === 3;
+}
+
+/**
+ * Left-pads an address to the 32-byte form used in indexed event topics.
+ */
+export function addressToTopic(address: string): Hex {
+    return `0x${address.toLowerCase().replace(/^0x/, '').padStart(64, '0')}` as Hex;
+}
+
+/**
+ * Extracts the lowercase address from an indexed address topic.
+ */
+export function topicToAddress(topic: Hex | null | undefined): Hex | null {
+    if (!topic || topic.length !== 66) {
+        return null;
+    }
+    return `0x${topic.slice(26).toLowerCase()}` as Hex;
+}
+
+/**
+ * Drops logs returned by more than one filter (e.g. a transfer between two tracked wallets
+ * matches both the `from` and the `to` query) and orders the rest by block and log index.
+ */
+export function dedupeTransferLogs<T extends TransferLogLike>(logs: T[]): T[] {
+    const seen = new Set<string>();
+    const unique: T[] = [];
+    for (const log of logs) {
+        const key = `${log.blockHash}:${log.logIndex}`;
+        if (seen.has(key)) {
+            continue;
+        }
+        seen.add(key);
+        unique.push(log);
+    }
+    return unique.sort((a, b) => {
+        const blockA = a.blockNumber ?? 0n;
+        const blockB = b.blockNumber ?? 0n;
+        if (blockA !== blockB) {
+            return blockA < blockB ? -1 : 1;
+        }
+        return (a.logIndex ?? 0) - (b.logIndex ?? 0);
+    });
+}
+
+/**
+ * The NFT standard a log belongs to, or null for an ERC20 Transfer or any other event.
+ */
+export function getNftTransferStandard(log: TransferLogLike): NftStandard | null {
+    const topic = log.topics[0]?.toLowerCase();
+    if (topic === TRANSFER_EVENT_TOPIC && log.topics.length === 4) {
+        return 'ERC721';
+    }
+    if (topic === TRANSFER_SINGLE_EVENT_TOPIC || topic === TRANSFER_BATCH_EVENT_TOPIC) {
+        return 'ERC1155';
+    }
+    return null;
+}
+
+/**
+ * Sender and recipient of a Transfer, TransferSingle or TransferBatch log. ERC-1155 events
+ * index the operator first, so their parties sit one topic later.
+ */
+export function getTransferLogParties(log: TransferLogLike): { from: Hex | null; to: Hex | null } | null {
+    const topic = log.topics[0]?.toLowerCase();
+    if (topic === TRANSFER_EVENT_TOPIC) {
+        return { from: topicToAddress(log.topics[1] ?? null), to: topicToAddress(log.topics[2] ?? null) };
+    }
+    if (topic === TRANSFER_SINGLE_EVENT_TOPIC || topic === TRANSFER_BATCH_EVENT_TOPIC) {
+        return { from: topicToAddress(log.topics[2] ?? null), to: topicToAddress(log.topics[3] ?? null) };
+    }
+    return null;
+}
+
+/**
+ * Whether a token transfer log moves funds into or out of a tracked address.
+ */
+export function isTrackedTransferLog(log: TransferLogLike, trackedAddresses: Set<string>): boolean {
+    const parties = getTransferLogParties(log);
+    if (!parties) {
+        return false;
+    }
+    const { from, to } = parties;
+    return (to !== null && trackedAddresses.has(to)) || (from !== null && trackedAddresses.has(from));
+}
@@ -0,0 +1,274 @@
+import { createPublicClient, webSocket, decodeFunctionData, formatUnits, parseAbi } from 'viem';
+import type { Chain, Hex, PublicClient, Transaction } from 'viem';
+import { config as appConfig } from '../../config';
+import logger from '../../config/logger';
+import { TokenService } from '../token/tokenService';
+import { OutboxService, buildMempoolOutboxEvent } from '../outbox/outboxService';
+import type { OutboxEventInput } from '../outbox/outboxService';
+import { isRpcMethodUnsupported } from '../rpc/rpcProviderPool';
+
+// ERC20 calls that move tokens to the address in their calldata
+const ERC20_TRANSFER_FUNCTIONS = parseAbi([
+    'function transfer(address to, uint256 value)',
+    'function transferFrom(address from, address to, uint256 value)',
+]);
+
+export type MempoolStage = 'pending' | 'mined' | 'dropped';
+
+/**
+ * A deposit to a tracked address decoded from a pending transaction. Amounts are strings so
+ * it survives the JSON outbox payload.
+ */
+export interface MempoolTransfer {
+    chainKey: string;
+    chainName: string;
+    chainId: number;
+    transactionHash: string;
+    transferIndex: number; // -1 for the transaction's native value, 0 for its ERC20 transfer call
+    recipientAddress: string; // The tracked wallet, lowercase
+    senderAddress: string;
+    rawValue: string;
+    formattedValue: string;
+    tokenSymbol: string;
+    tokenContractAddress: string | null; // Null for native transfers
+    usdValue: number;
+    firstSeenAt: string; // ISO time the transaction was seen pending
+}
+
+export interface MempoolWatcherChain {
+    key: string; // Chain name used for token lookups, e.g. 'ethereum'
+    name: string;
+    id: number;
+    chainKey: string;
+    viemChain: Chain;
+    priceSymbol: string;
+    mempoolWsUrl: string | null;
+}
+
+interface WatchedTransaction {
+    transfers: MempoolTransfer[];
+    seenAt: number;
+}
+
+/**
+ * Early warning for deposits that are still in the mempool. Pending transactions are read from
+ * a subscription (WebSocket) or a pending transaction filter (HTTP); native value and ERC20
+ * `transfer`/`transferFrom` calls to tracked addresses are alerted as pending deposits of listed
+ * tokens. The block scanner reports when a warned transaction is mined; one that is neither mined
+ * nor pending after `mempoolWatcher.dropAfterMs` is reported as dropped.
+ * Warned transactions are kept in memory only, so a restart forgets their follow-ups.
+ */
+export class EvmMempoolWatcher {
+    private chain: MempoolWatcherChain;
+    private client: PublicClient;
+    private getTrackedSet: () => Set<string>;
+    private tokenService: TokenService;
+    private outboxService: OutboxService;
+    private unwatchPending: (() => void) | null = null;
+    private dropCheckTimer: NodeJS.Timeout | null = null;
+    private queue: Hex[] = [];
+    private isDraining = false;
+    private skippedHashes = 0; // Hashes dropped from a full queue since the last warning
+    private watched: Map<string, WatchedTransaction> = new Map(); // Keyed by lowercase transaction hash
+
+    constructor(chain: MempoolWatcherChain, client: PublicClient, getTrackedSet: () => Set<string>) {
+        this.chain = chain;
+        this.client = client;
+        this.getTrackedSet = getTrackedSet;
+        this.tokenService = TokenService.getInstance();
+        this.outboxService = OutboxService.getInstance();
+    }
+
+    public start(): void {
+        if (this.unwatchPending) {
+            return;
+        }
+        const watchClient = this.chain.mempoolWsUrl
+            ? createPublicClient({ chain: this.chain.viemChain, transport: webSocket(this.chain.mempoolWsUrl) })
+            : this.client;
+        this.unwatchPending = watchClient.watchPendingTransactions({
+            onTransactions: hashes => this.enqueue(hashes),
+            onError: error => this.handleWatchError(error),
+        });
+        this.dropCheckTimer = setInterval(() => {
+            this.checkDropped().catch(error => logger.error(`[${this.chain.name} Mempool] Dropped transaction check failed:`, error));
+        }, appConfig.mempoolWatcher.dropCheckIntervalMs);
+        logger.info(`[${this.chain.name} Mempool] Watching pending transactions ${this.chain.mempoolWsUrl ? 'over WebSocket' : 'with a pending transaction filter'}.`);
+    }
+
+    public stop(): void {
+        this.unwatchPending?.();
+        this.unwatchPending = null;
+        if (this.dropCheckTimer) {
+            clearInterval(this.dropCheckTimer);
+            this.dropCheckTimer = null;
+        }
+        this.queue = [];
+    }
+
+    /**
+     * Stops following the warned transactions among `transactionHashes`, which were mined in
+     * `blockNumber`, and returns their follow-up notifications for the block's cursor commit.
+     */
+    public takeMined(transactionHashes: string[], blockNumber: bigint): OutboxEventInput[] {
+        const events: OutboxEventInput[] = [];
+        for (const hash of transactionHashes) {
+            const watched = this.watched.get(hash.toLowerCase());
+            if (!watched) {
+                continue;
+            }
+            this.watched.delete(hash.toLowerCase());
+            events.push(...watched.transfers.map(transfer => buildMempoolOutboxEvent(transfer, 'mined', blockNumber)));
+        }
+        return events;
+    }
+
+    private handleWatchError(error: Error): void {
+        if (isRpcMethodUnsupported(error)) {
+            logger.error(`[${this.chain.name} Mempool] The RPC provider does not offer pending transactions. Pending deposit warnings are off for this chain.`, error);
+            this.stop();
+            return;
+        }
+        logger.warn(`[${this.chain.name} Mempool] Pending transaction watch failed:`, error);
+    }
+
+    private enqueue(hashes: Hex[]): void {
+        if (this.getTrackedSet().size === 0) {
+            return;
+        }
+        this.queue.push(...hashes);
+        const overflow = this.queue.length - appConfig.mempoolWatcher.maxQueueSize;
+        if (overflow > 0) {
+            this.queue.splice(0, overflow);
+            this.skippedHashes += overflow;
+        }
+        if (!this.isDraining) {
+            this.drain().catch(error => logger.error(`[${this.chain.name} Mempool] Failed to process pending transactions:`, error));
+        }
+    }
+
+    /**
+     * Fetches queued pending transactions batch by batch and warns about the ones paying tracked addresses.
+     */
+    private async drain(): Promise<void> {
+        this.isDraining = true;
+        try {
+            while (this.queue.length > 0 && this.unwatchPending) {
+                const batch = this.queue.splice(0, Math.max(1, appConfig.mempoolWatcher.fetchBatchSize));
+                const trackedSet = this.getTrackedSet();
+                const transactions = await Promise.all(batch.map(hash => this.client.getTransaction({ hash }).catch(() => null)));
+                for (const tx of transactions) {
+                    if (!tx || tx.blockNumber !== null || this.watched.has(tx.hash.toLowerCase())) {
+                        continue;
+                    }
+                    const transfers = await this.decodeTransfers(tx, trackedSet);
+                    if (transfers.length === 0) {
+                        continue;
+                    }
+                    this.watched.set(tx.hash.toLowerCase(), { transfers, seenAt: Date.now() });
+                    await this.outboxService.enqueue(transfers.map(transfer => buildMempoolOutboxEvent(transfer, 'pending')));
+                    logger.info(`[${this.chain.name} Mempool] Pending deposit to ${transfers[0].recipientAddress} in ${tx.hash}.`);
+                }
+            }
+            if (this.skippedHashes > 0) {
+                logger.warn(`[${this.chain.name} Mempool] Skipped ${this.skippedHashes} pending transaction(s) because the queue was full. Raise MEMPOOL_FETCH_BATCH_SIZE or use a faster RPC.`);
+                this.skippedHashes = 0;
+            }
+        } finally {
+            this.isDraining = false;
+        }
+    }
+
+    /**
+     * Native value and ERC20 transfer calls of a pending transaction that pay a tracked address.
+     * Tokens missing from the tokens table are skipped: they have no price to judge them by.
+     */
+    private async decodeTransfers(tx: Transaction, trackedSet: Set<string>): Promise<MempoolTransfer[]> {
+        const to = tx.to?.toLowerCase();
+        if (!to) {
+            return [];
+        }
+        const transfers: MempoolTransfer[] = [];
+        const base = {
+            chainKey: this.chain.chainKey,
+            chainName: this.chain.name,
+            chainId: this.chain.id,
+            transactionHash: tx.hash,
+            firstSeenAt: new Date().toISOString(),
+        };
+
+        if (tx.value > 0n && trackedSet.has(to)) {
+            const nativeToken = await this.tokenService.getToken(this.chain.priceSymbol, this.chain.key);
+            const formattedValue = formatUnits(tx.value, this.chain.viemChain.nativeCurrency.decimals);
+            transfers.push({
+                ...base,
+                transferIndex: -1,
+                recipientAddress: to,
+                senderAddress: tx.from.toLowerCase(),
+                rawValue: tx.value.toString(),
+                formattedValue,
+                tokenSymbol: this.chain.viemChain.nativeCurrency.symbol,
+                tokenContractAddress: null,
+                usdValue: nativeToken?.price ? parseFloat(formattedValue) * nativeToken.price : 0,
+            });
+        }
+
+        let call: { recipient: string; sender: string; value: bigint } | null = null;
+        try {
+            const { functionName, args } = decodeFunctionData({ abi: ERC20_TRANSFER_FUNCTIONS, data: tx.input });
+            call = functionName === 'transfer'
+                ? { recipient: args[0], sender: tx.from, value: args[1] }
+                : { recipient: args[1], sender: args[0], value: args[2] };
+        } catch {
+            // Not an ERC20 transfer call
+        }
+        if (call && call.value > 0n && trackedSet.has(call.recipient.toLowerCase())) {
+            const token = await this.tokenService.getTokenByAddress(this.chain.key, to);
+            if (token) {
+                const formattedValue = formatUnits(call.value, token.decimals);
+                transfers.push({
+                    ...base,
+                    transferIndex: 0,
+                    recipientAddress: call.recipient.toLowerCase(),
+                    senderAddress: call.sender.toLowerCase(),
+                    rawValue: call.value.toString(),
+                    formattedValue,
+                    tokenSymbol: token.symbol,
+                    tokenContractAddress: to,
+                    usdValue: token.price ? parseFloat(formattedValue) * token.price : 0,
+                });
+            }
+        }
+        return transfers;
+    }
+
+    /**
+     * Looks up warned transactions that have waited longer than `dropAfterMs`: gone from the node
+     * means dropped (or replaced by another transaction with the same nonce); mined in a block the
+     * scanner did not attribute (e.g. it was already scanned) is reported as mined.
+     */
+    private async checkDropped(): Promise<void> {
+        const cutoff = Date.now() - appConfig.mempoolWatcher.dropAfterMs;
+        for (const [hash, watched] of Array.from(this.watched.entries())) {
+            if (watched.seenAt > cutoff) {
+                continue;
+            }
+            let tx: Transaction | null;
+            try {
+                tx = await this.client.getTransaction({ hash: hash as Hex });
+            } catch (error: any) {
+                if (error?.name !== 'TransactionNotFoundError') {
+                    throw error;
+                }
+                tx = null;
+            }
+            if (tx && tx.blockNumber === null) {
+                continue; // Still pending
+            }
+            this.watched.delete(hash);
+            const stage: MempoolStage = tx ? 'mined' : 'dropped';
+            await this.outboxService.enqueue(watched.transfers.map(transfer => buildMempoolOutboxEvent(transfer, stage, tx?.blockNumber ?? null)));
+            logger.info(`[${this.chain.name} Mempool] Pending transaction ${hash} was ${stage}.`);
+        }
+    }
+}
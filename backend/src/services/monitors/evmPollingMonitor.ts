@@ -1,66 +1,178 @@
 import {
-    createPublicClient, http, webSocket,
+    createPublicClient, http, custom, webSocket,
     decodeEventLog, parseAbiItem, getContract, isAddress,
-    formatUnits
+    formatUnits, toHex, formatLog, parseAbi
 } from 'viem';
 import type {
     PublicClient, Filter, WatchContractEventReturnType, Hex, Abi,
     Log, Transaction, Block, Chain, AbiItem, DecodeEventLogReturnType, GetFilterChangesReturnType
 } from 'viem';
-import {
-    mainnet, polygon, bsc // Add other chains from viem/chains as needed
-} from 'viem/chains';
 import { config as appConfig } from '../../config';
+import { evmChainRegistry } from '../../config/evmChains';
+import type { EvmTraceMode } from '../../config/evmChains';
 // Import types from orchestrator - these will need to be exported from wsConnectionManager.ts
-import type { Erc20TransferEvent, NativeTransferEvent, UnifiedTransferEvent, EventHandlerCallback } from './chainMonitorManager';
+import type { Erc20TransferEvent, NativeTransferEvent, NftTransferEvent, UnifiedTransferEvent, EventHandlerCallback, TransferDirection } from './chainMonitorManager';
 import type { AddressManager } from '../address/addressManager'; // Import AddressManager type
+import { AddressService } from '../address/addressService';
+import { AddressChangeService } from '../address/addressChangeService';
 import logger from '../../config/logger';
-import { NotificationService } from '../notification/notificationService';
 import { TokenService } from '../token/tokenService';
+import { UnknownTokenService } from '../token/unknownTokenService';
+import { TokenAllowanceService, isUnlimitedAllowance } from '../token/tokenAllowanceService';
+import type { ApprovalEvent } from '../token/tokenAllowanceService';
+import { BlockCursorService, buildChainKey } from '../cursor/blockCursorService';
+import type { CursorRewindEvent } from '../cursor/blockCursorService';
+import { PendingDepositService, buildDepositKey } from '../confirmation/pendingDepositService';
+import type { StoredDepositPayload } from '../confirmation/pendingDepositService';
+import { TransferLedgerService } from '../transfer/transferLedgerService';
+import { AddressFreezeService } from '../freeze/addressFreezeService';
+import type { FreezeEvent } from '../freeze/addressFreezeService';
+import { OutboxService, buildApprovalOutboxEvent, buildFreezeOutboxEvent, buildTransferOutboxEvent } from '../outbox/outboxService';
+import type { OutboxEventInput } from '../outbox/outboxService';
+import {
+    chunkAddresses, dedupeTransferLogs, isTrackedTransferLog, getNftTransferStandard, addressToTopic,
+    buildTrackedLogTopicFilters, isErc20ApprovalLog, APPROVAL_EVENT_TOPIC
+} from './evmLogFilter';
+import { FREEZE_EVENTS_ABI, decodeFreezeLog } from './stablecoinFreezeEvents';
+import { extractCallTracerTransfers, extractParityTraceTransfers } from './evmTraceParser';
+import type { DebugTraceBlockByHashRpc, InternalNativeTransfer, TraceBlockRpc } from './evmTraceParser';
+import { RpcProviderPool, isRpcMethodUnsupported, redactRpcUrl } from '../rpc/rpcProviderPool';
+import type { RpcPoolStatus } from '../rpc/rpcProviderPool';
+import type { BackfillProgress, BackfillRequest, ChainMonitor, MonitorCursorStatus } from './chainMonitor';
+import { EvmMempoolWatcher } from './evmMempoolWatcher';
 
 // ERC20 Transfer event ABI (this is the same for all ERC20 tokens)
 const ERC20_TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
-// ERC20 Transfer event topic
-const TRANSFER_EVENT_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+// ERC20 Approval event; ERC-721 shares the signature with the token ID as a third indexed topic
+const ERC20_APPROVAL_EVENT = parseAbiItem('event Approval(address indexed owner, address indexed spender, uint256 value)');
+
+// NFT transfer events; ERC-721 shares the ERC20 signature but indexes the token ID
+const ERC721_TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)');
+const ERC1155_TRANSFER_EVENTS = parseAbi([
+    'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+    'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)',
+]);
+// Optional metadata functions most tokens and collections implement
+const TOKEN_METADATA_ABI = parseAbi([
+    'function name() view returns (string)',
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+]);
 
 // EVM Chain Configuration
 interface EvmChain {
     viemChain: Chain; // Use the generic Chain type from viem
     httpUrl: string; // Changed from wsUrl to httpUrl
-    name: string; // e.g., 'ethereum', 'polygon'
+    rpcUrls: string[]; // httpUrl first, then failover endpoints
+    name: string; // Display name, e.g. 'Ethereum', 'BNB'
+    key: string; // Chain name used for token lookups, e.g. 'ethereum', 'bsc'
     id: number;
+    priceSymbol: string; // Symbol used to look up the native token price
     pollingInterval: number; // in milliseconds
+    confirmations: number; // Blocks a deposit must be buried under before it is confirmed; 0 notifies immediately
+    traceMode: EvmTraceMode; // How internal native transfers are found; 'off' only sees transactions' own value
+    mempoolWatch: boolean; // Warn about deposits while their transaction is still pending
+    mempoolWsUrl: string | null; // WebSocket endpoint for the pending transaction subscription; HTTP filters otherwise
+}
+
+// Per-chain scanning position, mirrored to the chain_cursors table after every block
+interface EvmChainScanState {
+    chainKey: string;
+    lastProcessedBlock: bigint | null;
+    headBlock: bigint | null;
+    pendingRewindTo: bigint | null; // Set by an admin cursor rewind, applied before the next poll
+    recentBlockHashes: Map<bigint, string>; // Hashes of recently processed blocks, used to detect reorgs
+    isPolling: boolean;
+    stopped: boolean;
+    blockOutbox: OutboxEventInput[]; // Notifications from the block being processed, queued with its cursor commit
+    traceUnsupportedWarned: boolean; // Set once the missing trace API has been logged, until a trace succeeds again
+    mempoolWatcher: EvmMempoolWatcher | null; // Set when the chain has mempool watching enabled
+    isBackfill: boolean; // Historical scan: blocks are settled, so transfers are recorded as confirmed right away
+    recordedTransfers: number; // Transfers written to the ledger, counted for backfill progress
 }
 
-const evmChainsConfig: EvmChain[] = [
-    { viemChain: mainnet, httpUrl: appConfig.networks.ethereum.httpRpcUrl!, name: 'Ethereum', id: mainnet.id, pollingInterval: 8000 },
-    { viemChain: polygon, httpUrl: appConfig.networks.polygon.httpRpcUrl!, name: 'Polygon', id: polygon.id, pollingInterval: 2000 },
-    { viemChain: bsc, httpUrl: appConfig.networks.bsc.httpRpcUrl!, name: 'BNB', id: bsc.id, pollingInterval: 3000 },
-];
+const evmChainsConfig: EvmChain[] = evmChainRegistry.map(chain => ({
+    viemChain: chain.viemChain,
+    httpUrl: chain.rpcUrl,
+    rpcUrls: chain.rpcUrls,
+    name: chain.name,
+    key: chain.key,
+    id: chain.chainId,
+    priceSymbol: chain.priceSymbol,
+    pollingInterval: chain.pollingIntervalMs,
+    confirmations: chain.confirmations,
+    traceMode: chain.traceMode,
+    mempoolWatch: chain.mempoolWatch,
+    mempoolWsUrl: chain.mempoolWsUrl,
+}));
+
+// On-chain metadata of a token contract or NFT collection; null where the contract does not implement it
+interface ContractMetadata {
+    name: string | null;
+    symbol: string | null;
+    decimals: number | null;
+}
 
-export class EvmPollingMonitor {
+function groupLogsByBlock(logs: Log[]): Map<bigint, Log[]> {
+    const logsByBlock = new Map<bigint, Log[]>();
+    for (const log of logs) {
+        if (log.blockNumber === null) continue;
+        const blockLogs = logsByBlock.get(log.blockNumber) || [];
+        blockLogs.push(log);
+        logsByBlock.set(log.blockNumber, blockLogs);
+    }
+    return logsByBlock;
+}
+
+// Block hashes kept beyond the confirmation depth, so reorgs slightly deeper than expected are still detected
+const REORG_HASH_HISTORY_MARGIN = 32n;
+
+export class EvmPollingMonitor implements ChainMonitor {
     private publicClients: Map<number, PublicClient> = new Map();
+    private providerPools: Map<number, RpcProviderPool> = new Map();
     private unsubscribeCallbacksMap: Map<number, Array<() => void>> = new Map();
     private addressManager: AddressManager; // Store AddressManager instance
     private eventHandler: EventHandlerCallback | null = null;
-    private notificationService: NotificationService;
     private tokenService: TokenService;
+    private cursorService: BlockCursorService;
+    private pendingDepositService: PendingDepositService;
+    private transferLedger: TransferLedgerService;
+    private scanStates: Map<number, EvmChainScanState> = new Map();
+    private unknownTokenService: UnknownTokenService;
+    private contractMetadata: Map<string, ContractMetadata> = new Map(); // Keyed by `${chainId}:${contract}`
+    private addressFreezeService: AddressFreezeService;
+    private allowanceService: TokenAllowanceService;
+    private addressService: AddressService;
+    private networkSelections: Map<string, Set<string>> = new Map(); // Lowercase address -> chain keys; absent means every network
 
     constructor(addressManager: AddressManager, handler: EventHandlerCallback | null) {
         this.addressManager = addressManager;
         this.eventHandler = handler;
-        this.notificationService = NotificationService.getInstance();
         this.tokenService = TokenService.getInstance();
+        this.unknownTokenService = UnknownTokenService.getInstance();
+        this.cursorService = BlockCursorService.getInstance();
+        this.pendingDepositService = PendingDepositService.getInstance();
+        this.transferLedger = TransferLedgerService.getInstance();
+        this.addressFreezeService = AddressFreezeService.getInstance();
+        this.allowanceService = TokenAllowanceService.getInstance();
+        this.addressService = new AddressService();
     }
 
-    private getValidTrackedEvmAddresses(): Hex[] {
+    /**
+     * Tracked EVM addresses, lowercase. With `chainKey`, only those watched on that network.
+     */
+    private getValidTrackedEvmAddresses(chainKey?: string): Hex[] {
         const allAddresses = this.addressManager.getTrackedAddresses();
         // Log raw addresses from AddressManager for debugging listener setup
         // logger.info(`[EVM Setup] Raw addresses from AddressManager: ${JSON.stringify(allAddresses)}`); 
         const validEvmAddresses: Hex[] = [];
         for (const addr of allAddresses) {
             if (isAddress(addr)) {
-                validEvmAddresses.push(addr.toLowerCase() as Hex);
+                const networks = chainKey ? this.networkSelections.get(addr.toLowerCase()) : undefined;
+                if (!networks || networks.has(chainKey!)) {
+                    validEvmAddresses.push(addr.toLowerCase() as Hex);
+                }
             } else {
                 const addrString = String(addr);
                 if (addrString && (!addrString.startsWith('0x') || (addrString.startsWith('0x') && addrString.length !== 42))) {
@@ -76,10 +188,26 @@ export class EvmPollingMonitor {
         if (!chain.httpUrl) {
             throw new Error(`HTTP RPC URL for ${chain.name} is not configured.`);
         }
-        logger.info(`Initializing EVM client for ${chain.name} on ${chain.httpUrl} with polling interval ${chain.pollingInterval}ms`);
+        logger.info(`Initializing EVM client for ${chain.name} on ${chain.rpcUrls.map(redactRpcUrl).join(', ')} with polling interval ${chain.pollingInterval}ms`);
+
+        // One plain client per endpoint; the monitor's client routes every request through the pool
+        const providerClients = new Map<string, PublicClient>(chain.rpcUrls.map(url => [url, createPublicClient({
+            chain: chain.viemChain,
+            transport: http(url, { retryCount: 0, timeout: appConfig.rpcPool.requestTimeoutMs }),
+        }) as PublicClient]));
+        const pool = new RpcProviderPool(buildChainKey('EVM', chain.id), chain.name, chain.rpcUrls.map(url => ({ url })), {
+            probe: async provider => { await providerClients.get(provider.url)!.getBlockNumber(); },
+        });
+        this.providerPools.get(chain.id)?.stopHealthChecks();
+        this.providerPools.set(chain.id, pool);
+        pool.startHealthChecks();
+
         const client = createPublicClient({
             chain: chain.viemChain,
-            transport: http(chain.httpUrl),
+            transport: custom({
+                request: ({ method, params }) =>
+                    pool.execute(provider => providerClients.get(provider.url)!.transport.request({ method, params })),
+            }, { retryCount: 0 }),
             batch: {
                 multicall: true, // Enable multicall for performance optimization
             },
@@ -88,141 +216,796 @@ export class EvmPollingMonitor {
         return client;
     }
 
+    /**
+     * Which RPC provider each chain is currently using, with per-provider health and latency.
+     */
+    public getProviderStatus(): RpcPoolStatus[] {
+        return Array.from(this.providerPools.values()).map(pool => pool.getStatus());
+    }
+
     private startBlockScanner(
         client: PublicClient,
         chain: EvmChain,
     ) {
         logger.info(`[${chain.name}] Setting up unified block scanner.`);
 
-        let lastProcessedBlock: bigint | null = null;
+        const state: EvmChainScanState = {
+            chainKey: buildChainKey('EVM', chain.id),
+            lastProcessedBlock: null,
+            headBlock: null,
+            pendingRewindTo: null,
+            recentBlockHashes: new Map(),
+            isPolling: false,
+            stopped: false,
+            blockOutbox: [],
+            traceUnsupportedWarned: false,
+            mempoolWatcher: chain.mempoolWatch
+                ? new EvmMempoolWatcher(
+                    { key: chain.key, name: chain.name, id: chain.id, chainKey: buildChainKey('EVM', chain.id), viemChain: chain.viemChain, priceSymbol: chain.priceSymbol, mempoolWsUrl: chain.mempoolWsUrl },
+                    client,
+                    () => new Set<string>(this.getValidTrackedEvmAddresses(buildChainKey('EVM', chain.id)))
+                )
+                : null,
+            isBackfill: false,
+            recordedTransfers: 0,
+        };
+        this.scanStates.set(chain.id, state);
+        state.mempoolWatcher?.start();
 
-        const unwatch = client.watchBlocks({
-            onBlock: async (block) => {
-                if (!this.eventHandler) {
-                    logger.warn("Event handler not set, skipping event processing in onBlock.");
-                    return;
+        let pollTimer: NodeJS.Timeout | null = null;
+        const poll = async () => {
+            if (state.isPolling || state.stopped) {
+                return;
+            }
+            state.isPolling = true;
+            try {
+                if (state.pendingRewindTo !== null) {
+                    state.lastProcessedBlock = state.pendingRewindTo;
+                    state.pendingRewindTo = null;
+                    state.recentBlockHashes.clear();
                 }
-                const handler = this.eventHandler;
-
-                if (!block || !block.number) {
-                    logger.warn(`[${chain.name}] Received a block without a number in watchBlocks. Skipping.`);
-                    return;
+                if (state.lastProcessedBlock === null) {
+                    await this.initializeScanCursor(client, chain, state);
                 }
+                await this.scanToHead(client, chain, state);
+            } catch (error) {
+                logger.error(`[${chain.name}] Error scanning blocks after ${state.lastProcessedBlock ?? 'unknown'}. Will retry on next poll:`, error);
+            } finally {
+                state.isPolling = false;
+            }
+        };
 
-                // Simple check to avoid reprocessing the same block if watchBlocks fires multiple times
-                if (block.number === lastProcessedBlock) {
-                    logger.debug(`[${chain.name}] Already processed block ${block.number}. Skipping.`);
-                    return;
+        // The first poll backfills everything since the persisted cursor; live polling only starts once it is done.
+        poll().finally(() => {
+            if (!state.stopped) {
+                pollTimer = setInterval(poll, chain.pollingInterval);
+                logger.info(`[${chain.name}] Caught up to block ${state.lastProcessedBlock ?? 'unknown'}. Live polling every ${chain.pollingInterval}ms.`);
+            }
+        });
+
+        const unwatch = () => {
+            state.stopped = true;
+            state.mempoolWatcher?.stop();
+            if (pollTimer) {
+                clearInterval(pollTimer);
+                pollTimer = null;
+            }
+        };
+        const currentUnsubs = this.unsubscribeCallbacksMap.get(chain.id) || [];
+        currentUnsubs.push(unwatch);
+        this.unsubscribeCallbacksMap.set(chain.id, currentUnsubs);
+    }
+
+    /**
+     * Resolves where scanning resumes: the persisted cursor if there is one (bounded by
+     * maxCatchUpBlocks), otherwise the current head.
+     */
+    private async initializeScanCursor(client: PublicClient, chain: EvmChain, state: EvmChainScanState): Promise<void> {
+        const head = await client.getBlockNumber();
+        state.headBlock = head;
+
+        const cursor = await this.cursorService.getCursor(state.chainKey);
+        if (!cursor) {
+            state.lastProcessedBlock = head - 1n;
+            logger.info(`[${chain.name}] No persisted cursor found. Starting from current head ${head}.`);
+            return;
+        }
+
+        const maxCatchUp = BigInt(appConfig.evmScanner.maxCatchUpBlocks);
+        let resumeAfter = cursor.lastProcessedBlock;
+        if (head - resumeAfter > maxCatchUp) {
+            const skipTo = head - maxCatchUp;
+            logger.warn(`[${chain.name}] Cursor ${resumeAfter} is ${head - resumeAfter} blocks behind head ${head}, exceeding the catch-up limit of ${maxCatchUp}. Blocks ${resumeAfter + 1n}-${skipTo} will NOT be scanned.`);
+            resumeAfter = skipTo;
+        }
+        state.lastProcessedBlock = resumeAfter;
+        if (resumeAfter === cursor.lastProcessedBlock && cursor.lastBlockHash) {
+            state.recentBlockHashes.set(resumeAfter, cursor.lastBlockHash);
+        }
+        logger.info(`[${chain.name}] Resuming from persisted cursor. Last processed block ${resumeAfter}, head ${head} (${head - resumeAfter} behind).`);
+    }
+
+    /**
+     * Processes every block between the cursor and the current head in bounded batches,
+     * committing the cursor after each block.
+     */
+    private async scanToHead(client: PublicClient, chain: EvmChain, state: EvmChainScanState): Promise<void> {
+        const head = await client.getBlockNumber();
+        state.headBlock = head;
+        const batchSize = BigInt(Math.max(1, appConfig.evmScanner.backfillBatchSize));
+
+        while (!state.stopped && state.pendingRewindTo === null && state.lastProcessedBlock !== null && state.lastProcessedBlock < head) {
+            const fromBlock = state.lastProcessedBlock + 1n;
+            const toBlock = fromBlock + batchSize - 1n < head ? fromBlock + batchSize - 1n : head;
+            if (toBlock > fromBlock) {
+                logger.info(`[${chain.name}] Catching up blocks ${fromBlock}-${toBlock} (head ${head}).`);
+            }
+            await this.processBlockRange(client, chain, state, fromBlock, toBlock, head);
+        }
+    }
+
+    private async processBlockRange(
+        client: PublicClient,
+        chain: EvmChain,
+        state: EvmChainScanState,
+        fromBlock: bigint,
+        toBlock: bigint,
+        head: bigint
+    ): Promise<void> {
+        // Resolve the tracked set once per range rather than once per block and processor
+        const trackedAddresses = this.getValidTrackedEvmAddresses(state.chainKey);
+        const trackedSet = new Set<string>(trackedAddresses);
+
+        // 1. Fetch only the token transfer (and approval) logs touching tracked addresses for the whole range
+        const { transferLogs, approvalLogs: rangeApprovalLogs } = await this.fetchTrackedLogs(client, { fromBlock, toBlock }, trackedAddresses, appConfig.approvalMonitor.enabled);
+        const logsByBlock = groupLogsByBlock(transferLogs);
+        // Issuer blacklist events are rare, so all of them are fetched and matched against the tracked set
+        const freezeContracts = trackedSet.size > 0 ? await this.getFreezeWatchedContracts(chain) : new Map<string, string>();
+        const freezeLogsByBlock = groupLogsByBlock(await this.fetchFreezeLogs(client, { fromBlock, toBlock }, freezeContracts));
+        const approvalLogsByBlock = groupLogsByBlock(rangeApprovalLogs);
+
+        const includeTransactions = trackedSet.size > 0;
+        for (let blockNumber = fromBlock; blockNumber <= toBlock; blockNumber++) {
+            if (state.stopped || state.pendingRewindTo !== null) {
+                return;
+            }
+            const block = await client.getBlock({ blockNumber, includeTransactions });
+            if (!block?.hash) {
+                throw new Error(`Block ${blockNumber} not available yet.`);
+            }
+
+            const expectedParentHash = state.recentBlockHashes.get(blockNumber - 1n);
+            if (expectedParentHash && block.parentHash.toLowerCase() !== expectedParentHash.toLowerCase()) {
+                await this.handleReorg(client, chain, state, blockNumber - 1n, head);
+                return;
+            }
+
+            // Logs fetched for the range may belong to a block that has since been replaced
+            let blockLogs = logsByBlock.get(blockNumber) || [];
+            let approvalLogs = approvalLogsByBlock.get(blockNumber) || [];
+            if ([...blockLogs, ...approvalLogs].some(log => log.blockHash && log.blockHash.toLowerCase() !== block.hash!.toLowerCase())) {
+                ({ transferLogs: blockLogs, approvalLogs } = await this.fetchTrackedLogs(client, { blockHash: block.hash }, trackedAddresses, appConfig.approvalMonitor.enabled));
+            }
+            let freezeLogs = freezeLogsByBlock.get(blockNumber) || [];
+            if (freezeLogs.some(log => log.blockHash && log.blockHash.toLowerCase() !== block.hash!.toLowerCase())) {
+                freezeLogs = await this.fetchFreezeLogs(client, { blockHash: block.hash }, freezeContracts);
+            }
+
+            const transactions = (block.transactions as Array<Transaction | Hex>)
+                .filter((tx): tx is Transaction => typeof tx === 'object');
+            const internalTransfers = await this.fetchInternalTransfers(client, chain, state, blockNumber, block.hash, transactions, trackedSet);
+            const blockTimestamp = new Date(Number(block.timestamp) * 1000);
+            state.blockOutbox = [];
+            await this.processBlock(chain, state, blockNumber, block.hash, blockTimestamp, blockLogs, transactions, internalTransfers, trackedSet);
+            if (freezeLogs.length > 0) {
+                await this.processFreezeLogs(freezeLogs, chain, state, blockNumber, block.hash, blockTimestamp, trackedSet, freezeContracts);
+            }
+            if (approvalLogs.length > 0) {
+                await this.processApprovalLogs(approvalLogs, chain, state, blockNumber, block.hash, blockTimestamp, trackedSet);
+            }
+            if (state.mempoolWatcher && transactions.length > 0) {
+                // Follow-ups to the pending deposit warnings of this block's transactions
+                state.blockOutbox.push(...state.mempoolWatcher.takeMined(transactions.map(tx => tx.hash), blockNumber));
+            }
+            this.rememberBlockHash(chain, state, blockNumber, block.hash);
+            await this.cursorService.commit(state.chainKey, 'EVM', blockNumber, {
+                blockHash: block.hash,
+                headBlock: head,
+                outboxEvents: state.blockOutbox,
+            });
+            state.blockOutbox = [];
+            state.lastProcessedBlock = blockNumber;
+        }
+
+        await this.resolvePendingDeposits(client, chain, state);
+    }
+
+    /**
+     * Fetches Transfer (ERC20 and ERC-721) and ERC-1155 TransferSingle/TransferBatch logs whose
+     * `from` or `to` topic is a tracked address, and with `includeApprovals` the ERC20 Approval logs
+     * they own. The node does the filtering, so large address sets are split into chunks of
+     * `logTopicChunkSize` topics; each chunk costs three eth_getLogs calls, one per topic position.
+     */
+    private async fetchTrackedLogs(
+        client: PublicClient,
+        range: { fromBlock: bigint; toBlock: bigint } | { blockHash: Hex },
+        trackedAddresses: Hex[],
+        includeApprovals: boolean
+    ): Promise<{ transferLogs: Log[]; approvalLogs: Log[] }> {
+        if (trackedAddresses.length === 0) {
+            return { transferLogs: [], approvalLogs: [] };
+        }
+        const logs: Log[] = [];
+        for (const chunk of chunkAddresses(trackedAddresses, appConfig.evmScanner.logTopicChunkSize)) {
+            for (const topics of buildTrackedLogTopicFilters(chunk.map(addressToTopic), includeApprovals)) {
+                const rawLogs = await client.request({
+                    method: 'eth_getLogs',
+                    params: ['blockHash' in range
+                        ? { blockHash: range.blockHash, topics }
+                        : { fromBlock: toHex(range.fromBlock), toBlock: toHex(range.toBlock), topics }],
+                });
+                logs.push(...rawLogs.map(rawLog => formatLog(rawLog)));
+            }
+        }
+        const uniqueLogs = dedupeTransferLogs(logs);
+        return {
+            transferLogs: uniqueLogs.filter(log => log.topics[0]?.toLowerCase() !== APPROVAL_EVENT_TOPIC),
+            approvalLogs: uniqueLogs.filter(isErc20ApprovalLog),
+        };
+    }
+
+    /**
+     * Contracts of the `freezeMonitor.tokenSymbols` tokens on this chain, mapped to their symbol.
+     */
+    private async getFreezeWatchedContracts(chain: EvmChain): Promise<Map<string, string>> {
+        const contracts = new Map<string, string>();
+        for (const token of await this.tokenService.getActiveTokens()) {
+            if (!appConfig.freezeMonitor.tokenSymbols.includes(token.symbol.toUpperCase())) {
+                continue;
+            }
+            const address = token.addresses.find(tokenAddress => tokenAddress.chain === chain.key)?.address;
+            if (address && isAddress(address)) {
+                contracts.set(address.toLowerCase(), token.symbol);
+            }
+        }
+        return contracts;
+    }
+
+    /**
+     * Fetches the blacklist and unblacklist logs of the watched issuer contracts.
+     */
+    private async fetchFreezeLogs(
+        client: PublicClient,
+        range: { fromBlock: bigint; toBlock: bigint } | { blockHash: Hex },
+        freezeContracts: Map<string, string>
+    ): Promise<Log[]> {
+        if (freezeContracts.size === 0) {
+            return [];
+        }
+        const address = Array.from(freezeContracts.keys()) as Hex[];
+        const logs = 'blockHash' in range
+            ? await client.getLogs({ address, blockHash: range.blockHash, events: FREEZE_EVENTS_ABI })
+            : await client.getLogs({ address, fromBlock: range.fromBlock, toBlock: range.toBlock, events: FREEZE_EVENTS_ABI });
+        return logs as Log[];
+    }
+
+    /**
+     * Internal native transfers of a block into or out of tracked addresses, found through the
+     * chain's trace API. The debug tracer is called by block hash, so a block replaced since it was
+     * fetched cannot be traced by mistake. A provider without the trace API is logged once and the
+     * block is scanned without traces.
+     */
+    private async fetchInternalTransfers(
+        client: PublicClient,
+        chain: EvmChain,
+        state: EvmChainScanState,
+        blockNumber: bigint,
+        blockHash: Hex,
+        transactions: Transaction[],
+        trackedSet: Set<string>
+    ): Promise<InternalNativeTransfer[]> {
+        if (chain.traceMode === 'off' || trackedSet.size === 0) {
+            return [];
+        }
+
+        let transfers: InternalNativeTransfer[];
+        try {
+            if (chain.traceMode === 'debug') {
+                const results = await client.request<DebugTraceBlockByHashRpc>({
+                    method: 'debug_traceBlockByHash',
+                    params: [blockHash, { tracer: 'callTracer' }],
+                });
+                transfers = extractCallTracerTransfers(results, transactions.map(tx => tx.hash));
+            } else {
+                const traces = await client.request<TraceBlockRpc>({
+                    method: 'trace_block',
+                    params: [toHex(blockNumber)],
+                });
+                if (traces.some(trace => trace.blockHash?.toLowerCase() !== blockHash.toLowerCase())) {
+                    throw new Error(`trace_block returned traces of another block ${blockNumber}; it was replaced while scanning.`);
                 }
+                transfers = extractParityTraceTransfers(traces);
+            }
+        } catch (error) {
+            if (!isRpcMethodUnsupported(error)) {
+                throw error;
+            }
+            if (!state.traceUnsupportedWarned) {
+                logger.error(`[${chain.name}] Trace mode '${chain.traceMode}' is enabled but the RPC provider does not support it. Internal transfers are NOT detected until it does.`, error);
+                state.traceUnsupportedWarned = true;
+            }
+            return [];
+        }
 
-                try {
-                    const blockNumberForLog = block.number.toString();
-                    logger.debug(`[${chain.name}] Processing block ${blockNumberForLog}.`);
-
-                    // 1. Fetch all ERC20 transfer logs for the block more efficiently
-                    const logs = await client.getLogs({
-                        fromBlock: block.number,
-                        toBlock: block.number,
-                        event: ERC20_TRANSFER_EVENT
-                    });
+        state.traceUnsupportedWarned = false;
+        return transfers.filter(transfer => trackedSet.has(transfer.to) || trackedSet.has(transfer.from));
+    }
 
-                    if (logs && logs.length > 0) {
-                        logger.debug(`[${chain.name}] Found ${logs.length} ERC20 transfer logs in block ${blockNumberForLog}.`);
-                        await this.processErc20TransferLogs(logs, chain, handler);
-                    }
+    /**
+     * Processes a single block's token transfer logs and native transfers.
+     */
+    private async processBlock(
+        chain: EvmChain,
+        state: EvmChainScanState,
+        blockNumber: bigint,
+        blockHash: Hex,
+        blockTimestamp: Date,
+        logs: Log[],
+        transactions: Transaction[],
+        internalTransfers: InternalNativeTransfer[],
+        trackedSet: Set<string>
+    ): Promise<void> {
+        const handler = state.isBackfill ? null : this.eventHandler; // Historical transfers are not live events
+        logger.debug(`[${chain.name}] Processing block ${blockNumber}.`);
 
-                    // 2. Get full block ONLY for native transfers if needed
-                    const trackedAddresses = this.addressManager.getTrackedAddresses();
-                    if (trackedAddresses.length > 0) {
-                        const fullBlock = await client.getBlock({
-                            blockNumber: block.number,
-                            includeTransactions: true
-                        });
-                        if (fullBlock?.transactions && fullBlock.transactions.length > 0) {
-                            this.processNativeTransfers(fullBlock.transactions, chain, handler);
-                        }
-                    }
+        const nftLogs = logs.filter(log => getNftTransferStandard(log) !== null);
+        const erc20Logs = logs.filter(log => getNftTransferStandard(log) === null);
+        if (erc20Logs.length > 0) {
+            logger.debug(`[${chain.name}] Found ${erc20Logs.length} ERC20 transfer logs in block ${blockNumber}.`);
+            await this.processErc20TransferLogs(erc20Logs, chain, state, blockHash, blockTimestamp, trackedSet, handler);
+        }
+        if (nftLogs.length > 0) {
+            logger.debug(`[${chain.name}] Found ${nftLogs.length} NFT transfer logs in block ${blockNumber}.`);
+            await this.processNftTransferLogs(nftLogs, chain, state, blockHash, blockTimestamp, trackedSet, handler);
+        }
+        if (transactions.length > 0) {
+            await this.processNativeTransfers(transactions, chain, state, blockHash, blockTimestamp, trackedSet, handler);
+        }
+        if (internalTransfers.length > 0) {
+            logger.debug(`[${chain.name}] Found ${internalTransfers.length} internal native transfers in block ${blockNumber}.`);
+            await this.processInternalTransfers(internalTransfers, chain, state, blockNumber, blockHash, blockTimestamp, trackedSet, handler);
+        }
+    }
+
+    /**
+     * Records issuer freezes and unfreezes of tracked addresses and queues their alerts with the
+     * block's cursor commit. They are alerted right away, without waiting for confirmations.
+     */
+    private async processFreezeLogs(
+        logs: Log[],
+        chain: EvmChain,
+        state: EvmChainScanState,
+        blockNumber: bigint,
+        blockHash: Hex,
+        blockTimestamp: Date,
+        trackedSet: Set<string>,
+        freezeContracts: Map<string, string>
+    ): Promise<void> {
+        for (const log of logs) {
+            const change = decodeFreezeLog(log.topics as Hex[], log.data);
+            const tokenSymbol = freezeContracts.get(log.address.toLowerCase());
+            if (!change || !tokenSymbol || !trackedSet.has(change.account) || !log.transactionHash || log.logIndex === null) {
+                continue;
+            }
+            const freeze: FreezeEvent = {
+                chainKey: state.chainKey,
+                chainType: 'EVM',
+                chainName: chain.name,
+                chainId: chain.id,
+                address: change.account,
+                frozen: change.frozen,
+                tokenSymbol,
+                tokenContractAddress: log.address.toLowerCase(),
+                transactionHash: log.transactionHash,
+                blockNumber: blockNumber.toString(),
+                blockHash,
+                blockTimestamp: blockTimestamp.toISOString(),
+                logIndex: log.logIndex,
+            };
+            if (await this.addressFreezeService.recordFreezeEvent(freeze)) {
+                state.blockOutbox.push(buildFreezeOutboxEvent(freeze));
+            }
+        }
+    }
 
-                    lastProcessedBlock = block.number;
+    /**
+     * Updates the allowance inventory from the Approval logs of tracked owners and queues alerts for
+     * unlimited or above-threshold allowances to spenders that are not allow-listed. Like freezes,
+     * approvals are alerted without waiting for confirmations.
+     */
+    private async processApprovalLogs(
+        logs: Log[],
+        chain: EvmChain,
+        state: EvmChainScanState,
+        blockNumber: bigint,
+        blockHash: Hex,
+        blockTimestamp: Date,
+        trackedSet: Set<string>
+    ): Promise<void> {
+        for (const log of logs) {
+            try {
+                const decodedLog = decodeEventLog({ abi: [ERC20_APPROVAL_EVENT], data: log.data, topics: log.topics });
+                const owner = decodedLog.args.owner.toLowerCase();
+                if (!trackedSet.has(owner) || !log.transactionHash || log.logIndex === null) {
+                    continue;
+                }
+                const tokenContract = log.address.toLowerCase() as Hex;
+                const tokenData = await this.tokenService.getTokenByAddress(chain.key, tokenContract);
+                const metadata = tokenData ? null : await this.getContractMetadata(chain, tokenContract);
+                const tokenDecimals = tokenData ? tokenData.decimals : metadata!.decimals;
+                const amount = decodedLog.args.value;
+                const isUnlimited = isUnlimitedAllowance(amount);
+                const formattedAmount = tokenDecimals !== null ? formatUnits(amount, tokenDecimals) : null;
 
-                } catch (error) {
-                    const blockNumberForErrorLog = block && block.number ? block.number.toString() : 'unknown block';
-                    logger.error(`[${chain.name}] Error processing block ${blockNumberForErrorLog}:`, error);
+                const approval: ApprovalEvent = {
+                    chainKey: state.chainKey,
+                    chainName: chain.name,
+                    chainId: chain.id,
+                    owner,
+                    spender: decodedLog.args.spender.toLowerCase(),
+                    tokenContractAddress: tokenContract,
+                    tokenSymbol: tokenData?.symbol ?? metadata!.symbol ?? 'UNKNOWN',
+                    tokenDecimals,
+                    amount: amount.toString(),
+                    formattedAmount,
+                    isUnlimited,
+                    usdValue: !isUnlimited && tokenData?.price && formattedAmount !== null ? parseFloat(formattedAmount) * tokenData.price : null,
+                    transactionHash: log.transactionHash,
+                    blockNumber: blockNumber.toString(),
+                    blockHash,
+                    blockTimestamp: blockTimestamp.toISOString(),
+                    logIndex: log.logIndex,
+                };
+                if (!await this.allowanceService.recordApproval(approval)) {
+                    continue;
                 }
-            },
-            onError: (error: Error) => {
-                logger.error(`[${chain.name}] Error watching blocks:`, error);
-                logger.error(`[${chain.name}] Full error object during block watching: ${JSON.stringify(error, Object.getOwnPropertyNames(error))}`);
-            },
-            pollingInterval: chain.pollingInterval,
-            poll: true,
+                const risk = this.allowanceService.assessRisk(approval);
+                if (risk) {
+                    logger.warn(`[${chain.name}] ${risk === 'unlimited' ? 'Unlimited' : 'Large'} ${approval.tokenSymbol} approval by ${owner} to ${approval.spender} (tx ${log.transactionHash}).`);
+                    state.blockOutbox.push(buildApprovalOutboxEvent({ ...approval, risk }));
+                }
+            } catch (error) {
+                logger.error(`[${chain.name}] Error processing Approval log:`, error);
+            }
+        }
+    }
+
+    private rememberBlockHash(chain: EvmChain, state: EvmChainScanState, blockNumber: bigint, blockHash: string): void {
+        state.recentBlockHashes.set(blockNumber, blockHash);
+        const oldestKept = blockNumber - BigInt(chain.confirmations) - REORG_HASH_HISTORY_MARGIN;
+        for (const knownBlock of state.recentBlockHashes.keys()) {
+            if (knownBlock < oldestKept) {
+                state.recentBlockHashes.delete(knownBlock);
+            }
+        }
+    }
+
+    /**
+     * Walks back from `lastKnownBlock` until the stored hash matches the canonical chain again
+     * and moves the cursor to that fork point, so the replaced blocks are re-scanned.
+     * Deposits seen in the orphaned blocks are retracted when their confirmation is due.
+     */
+    private async handleReorg(
+        client: PublicClient,
+        chain: EvmChain,
+        state: EvmChainScanState,
+        lastKnownBlock: bigint,
+        head: bigint
+    ): Promise<void> {
+        let forkPoint = lastKnownBlock;
+        while (forkPoint > 0n) {
+            const storedHash = state.recentBlockHashes.get(forkPoint);
+            if (!storedHash) {
+                break; // Beyond the kept history; re-scan from here
+            }
+            const canonical = await client.getBlock({ blockNumber: forkPoint });
+            if (canonical.hash && canonical.hash.toLowerCase() === storedHash.toLowerCase()) {
+                break;
+            }
+            state.recentBlockHashes.delete(forkPoint);
+            forkPoint--;
+        }
+
+        logger.warn(`[${chain.name}] Chain reorganization detected at block ${lastKnownBlock + 1n}. Re-scanning from block ${forkPoint + 1n} (${lastKnownBlock - forkPoint} block(s) replaced).`);
+        await this.cursorService.commit(state.chainKey, 'EVM', forkPoint, {
+            blockHash: state.recentBlockHashes.get(forkPoint) ?? null,
+            headBlock: head,
         });
-        const currentUnsubs = this.unsubscribeCallbacksMap.get(chain.id) || [];
-        currentUnsubs.push(unwatch);
-        this.unsubscribeCallbacksMap.set(chain.id, currentUnsubs);
+        state.lastProcessedBlock = forkPoint;
+    }
+
+    /**
+     * Confirms pending deposits that are now `confirmations` blocks deep, or retracts them
+     * when their block is no longer part of the canonical chain.
+     */
+    private async resolvePendingDeposits(client: PublicClient, chain: EvmChain, state: EvmChainScanState): Promise<void> {
+        if (chain.confirmations <= 0 || state.lastProcessedBlock === null) {
+            return;
+        }
+        const maxConfirmedBlock = state.lastProcessedBlock - BigInt(chain.confirmations) + 1n;
+        const dueDeposits = await this.pendingDepositService.getDueDeposits(state.chainKey, maxConfirmedBlock);
+        const canonicalHashes = new Map<bigint, string>();
+
+        for (const deposit of dueDeposits) {
+            let canonicalHash = state.recentBlockHashes.get(deposit.blockNumber) ?? canonicalHashes.get(deposit.blockNumber);
+            if (!canonicalHash) {
+                const block = await client.getBlock({ blockNumber: deposit.blockNumber });
+                canonicalHash = block.hash ?? '';
+                canonicalHashes.set(deposit.blockNumber, canonicalHash);
+            }
+
+            const status = canonicalHash.toLowerCase() === deposit.blockHash.toLowerCase() ? 'confirmed' : 'retracted';
+            await this.transferLedger.updateStatus(deposit.payload.depositKey, status);
+            await this.pendingDepositService.markResolved(deposit.id, status, [
+                buildTransferOutboxEvent(state.chainKey, deposit.payload, status),
+            ]);
+            if (status === 'retracted') {
+                logger.warn(`[${chain.name}] Deposit ${deposit.transactionHash} in block ${deposit.blockNumber} was reorged out. Retracting alert.`);
+            } else {
+                logger.info(`[${chain.name}] Deposit ${deposit.transactionHash} reached ${chain.confirmations} confirmations.`);
+            }
+        }
+    }
+
+    /**
+     * Writes the transfer to the ledger, then queues the alert for the block's cursor commit:
+     * a plain alert when the chain needs no confirmations, otherwise a "pending" alert, with the
+     * transfer recorded as pending until it is confirmed or retracted.
+     */
+    private async dispatchTransfer(
+        chain: EvmChain,
+        state: EvmChainScanState,
+        blockNumber: bigint,
+        blockHash: Hex,
+        blockTimestamp: Date,
+        logIndex: number,
+        payload: Omit<StoredDepositPayload, 'depositKey'>
+    ): Promise<void> {
+        const depositKey = buildDepositKey(state.chainKey, payload.transactionHash, logIndex, blockHash, payload.direction);
+        const deposit: StoredDepositPayload = {
+            ...payload,
+            depositKey,
+            context: { ...payload.context, confirmationsRequired: chain.confirmations },
+        };
+
+        await this.transferLedger.recordTransfer({
+            transferKey: depositKey,
+            chainKey: state.chainKey,
+            chainType: 'EVM',
+            blockNumber,
+            blockHash,
+            blockTimestamp,
+            transactionHash: payload.transactionHash,
+            logIndex,
+            direction: payload.direction ?? 'incoming',
+            fromAddress: payload.senderAddress ?? '',
+            toAddress: payload.recipientAddress,
+            tokenSymbol: payload.tokenSymbol,
+            tokenContractAddress: payload.tokenContractAddress,
+            rawAmount: payload.rawValue,
+            decimals: payload.tokenDecimals,
+            usdValue: payload.context.unpriced ? null : payload.usdValue,
+            status: chain.confirmations <= 0 || state.isBackfill ? 'confirmed' : 'pending',
+        });
+        state.recordedTransfers++;
+
+        if (chain.confirmations <= 0 || state.isBackfill) {
+            state.blockOutbox.push(buildTransferOutboxEvent(state.chainKey, deposit));
+            return;
+        }
+
+        const isNew = await this.pendingDepositService.addPending(state.chainKey, blockNumber, blockHash, logIndex, deposit);
+        if (!isNew) {
+            logger.debug(`[${chain.name}] Transfer ${depositKey} is already pending confirmation.`);
+        }
+        // Queued even when already pending: the outbox ignores an alert it already holds
+        state.blockOutbox.push(buildTransferOutboxEvent(state.chainKey, deposit, 'pending'));
+    }
+
+    /**
+     * Directions in which a transfer touches the tracked set: incoming when the recipient
+     * is tracked, outgoing when the sender is. A transfer between two tracked wallets is both.
+     */
+    private getTransferDirections(from: string, to: string, trackedAddresses: Set<string>): TransferDirection[] {
+        const directions: TransferDirection[] = [];
+        if (trackedAddresses.has(to)) directions.push('incoming');
+        if (trackedAddresses.has(from)) directions.push('outgoing');
+        return directions;
+    }
+
+    private handleCursorRewind = (event: CursorRewindEvent): void => {
+        for (const state of this.scanStates.values()) {
+            if (state.chainKey === event.chainKey) {
+                state.pendingRewindTo = event.lastProcessedBlock;
+                logger.warn(`[EVM] Cursor rewind requested for ${event.chainKey}. Scanning will resume at block ${event.lastProcessedBlock + 1n}.`);
+            }
+        }
+    };
+
+    /**
+     * Scans settled blocks (at least `confirmations` deep) of one chain for transfers of the given
+     * addresses, block by block through the same processors as live scanning. Issuer freezes,
+     * approvals and the persisted cursor are left alone.
+     */
+    public async backfill(request: BackfillRequest, onProgress: (progress: BackfillProgress) => Promise<void>): Promise<BackfillProgress> {
+        const chain = evmChainsConfig.find(candidate => buildChainKey('EVM', candidate.id) === request.chainKey);
+        const client = chain ? this.publicClients.get(chain.id) : undefined;
+        if (!chain || !client) {
+            throw new Error(`Chain ${request.chainKey} is not being monitored.`);
+        }
+        const trackedAddresses = request.addresses.filter(address => isAddress(address)).map(address => address.toLowerCase() as Hex);
+        const trackedSet = new Set<string>(trackedAddresses);
+
+        const settledHead = (await client.getBlockNumber()) - BigInt(Math.max(0, chain.confirmations));
+        const fromBlock = request.fromBlock ?? await this.findFirstBlockAtOrAfter(client, request.since ?? new Date(0), settledHead);
+        const requestedTo = request.toBlock ?? (request.until ? await this.findFirstBlockAtOrAfter(client, request.until, settledHead) - 1n : settledHead);
+        const toBlock = requestedTo < settledHead ? requestedTo : settledHead;
+        if (fromBlock > toBlock) {
+            throw new Error(`Invalid range: no settled ${chain.name} blocks between ${fromBlock} and ${requestedTo}.`);
+        }
+        if (toBlock - fromBlock + 1n > BigInt(appConfig.backfill.maxBlocks)) {
+            throw new Error(`Invalid range: ${toBlock - fromBlock + 1n} ${chain.name} blocks exceed the backfill limit of ${appConfig.backfill.maxBlocks}.`);
+        }
+
+        const state: EvmChainScanState = {
+            chainKey: request.chainKey,
+            lastProcessedBlock: null,
+            headBlock: settledHead,
+            pendingRewindTo: null,
+            recentBlockHashes: new Map(),
+            isPolling: false,
+            stopped: false,
+            blockOutbox: [],
+            traceUnsupportedWarned: false,
+            mempoolWatcher: null,
+            isBackfill: true,
+            recordedTransfers: 0,
+        };
+        const progress: BackfillProgress = { fromBlock: fromBlock.toString(), toBlock: toBlock.toString(), lastScannedBlock: null, transfersFound: 0 };
+        const outboxService = OutboxService.getInstance();
+        const batchSize = BigInt(Math.max(1, appConfig.evmScanner.backfillBatchSize));
+        logger.info(`[${chain.name}] Backfilling blocks ${fromBlock}-${toBlock} for ${trackedAddresses.length} address(es).`);
+
+        for (let batchStart = fromBlock; batchStart <= toBlock && trackedSet.size > 0; batchStart += batchSize) {
+            const batchEnd = batchStart + batchSize - 1n < toBlock ? batchStart + batchSize - 1n : toBlock;
+            const logsByBlock = groupLogsByBlock((await this.fetchTrackedLogs(client, { fromBlock: batchStart, toBlock: batchEnd }, trackedAddresses, false)).transferLogs);
+            for (let blockNumber = batchStart; blockNumber <= batchEnd; blockNumber++) {
+                if (request.isCancelled()) {
+                    return progress;
+                }
+                const block = await client.getBlock({ blockNumber, includeTransactions: true });
+                if (!block?.hash) {
+                    throw new Error(`Block ${blockNumber} not available.`);
+                }
+                const transactions = (block.transactions as Array<Transaction | Hex>)
+                    .filter((tx): tx is Transaction => typeof tx === 'object');
+                const internalTransfers = await this.fetchInternalTransfers(client, chain, state, blockNumber, block.hash, transactions, trackedSet);
+                state.blockOutbox = [];
+                await this.processBlock(chain, state, blockNumber, block.hash, new Date(Number(block.timestamp) * 1000), logsByBlock.get(blockNumber) || [], transactions, internalTransfers, trackedSet);
+                progress.transfersFound = state.recordedTransfers;
+                if (request.notify) {
+                    await outboxService.enqueue(state.blockOutbox);
+                }
+            }
+            progress.lastScannedBlock = batchEnd.toString();
+            await onProgress(progress);
+        }
+        return progress;
+    }
+
+    /**
+     * Binary search for the first block mined at or after `time`.
+     * @returns `head + 1` when even the head block is older
+     */
+    private async findFirstBlockAtOrAfter(client: PublicClient, time: Date, head: bigint): Promise<bigint> {
+        const target = BigInt(Math.floor(time.getTime() / 1000));
+        let low = 0n;
+        let high = head + 1n;
+        while (low < high) {
+            const mid = (low + high) / 2n;
+            const block = await client.getBlock({ blockNumber: mid });
+            if (block.timestamp < target) {
+                low = mid + 1n;
+            } else {
+                high = mid;
+            }
+        }
+        return low;
+    }
+
+    /**
+     * Current scan position of every chain, used to report how far behind each chain is.
+     */
+    public getCursorStatus(): MonitorCursorStatus[] {
+        return evmChainsConfig
+            .filter(chain => this.scanStates.has(chain.id))
+            .map(chain => {
+                const state = this.scanStates.get(chain.id)!;
+                return {
+                    chainId: chain.id,
+                    chainKey: state.chainKey,
+                    lastProcessedBlock: state.lastProcessedBlock !== null ? state.lastProcessedBlock.toString() : null,
+                    headBlock: state.headBlock !== null ? state.headBlock.toString() : null,
+                    lag: state.headBlock !== null && state.lastProcessedBlock !== null
+                        ? Number(state.headBlock - state.lastProcessedBlock)
+                        : null,
+                };
+            });
     }
 
     private async processNativeTransfers(
         transactions: Transaction[],
         chain: EvmChain,
-        handler: EventHandlerCallback
+        state: EvmChainScanState,
+        blockHash: Hex,
+        blockTimestamp: Date,
+        trackedSet: Set<string>,
+        handler: EventHandlerCallback | null
     ) {
-        const validTrackedAddresses = this.getValidTrackedEvmAddresses();
-        // Log addresses used for filtering native transfers
-        // logger.info(`[${chain.name} - Native] Addresses used for filtering: ${JSON.stringify(validTrackedAddresses)}`);
-        if (validTrackedAddresses.length === 0) {
+        if (trackedSet.size === 0) {
             // logger.info(`[${chain.name} - Native] No valid EVM addresses to filter against. Skipping processing.`);
             return;
         }
 
-        const relevantTransactions = transactions.filter(tx =>
-            tx.to && validTrackedAddresses.includes(tx.to.toLowerCase() as Hex)
-        );
-        for (const tx of relevantTransactions) {
-            if (tx.blockNumber && tx.from && tx.to && tx.value && tx.hash) {
-                logger.debug(`[${chain.name}] Native transfer to ${tx.to}:`, {
-                    from: tx.from,
-                    to: tx.to,
-                    value: tx.value.toString(),
-                    hash: tx.hash
-                });
-                const nativeSymbol = chain.viemChain.nativeCurrency.symbol;
-                const nativeDecimals = chain.viemChain.nativeCurrency.decimals;
-
-                // Handle Polygon native token symbol for price lookup
-                let symbolForPriceLookup = nativeSymbol;
-                if (chain.id === polygon.id && nativeSymbol.toUpperCase() === 'POL') {
-                    logger.info(`[${chain.name}] Native symbol is POL, using MATIC for price lookup.`);
-                    symbolForPriceLookup = 'MATIC';
-                }
+        for (const tx of transactions) {
+            if (!tx.blockNumber || !tx.from || !tx.to || !tx.value || !tx.hash) {
+                continue;
+            }
+            const toAddress = tx.to.toLowerCase() as Hex;
+            const fromAddress = tx.from.toLowerCase() as Hex;
+            const directions = this.getTransferDirections(fromAddress, toAddress, trackedSet);
+            if (directions.length === 0) {
+                continue;
+            }
 
-                const tokenData = await this.tokenService.getToken(symbolForPriceLookup, chain.name.toLowerCase());
-                const tokenPrice = tokenData?.price || 0;
-                const formattedTxValue = formatUnits(tx.value, nativeDecimals);
-                const usdValue = tokenPrice ? parseFloat(formattedTxValue) * tokenPrice : 0;
-                await this.notificationService.notifyDeposit(
-                    tx.to.toLowerCase() as Hex,
-                    tx.value.toString(),
-                    formattedTxValue,
-                    nativeSymbol,
-                    nativeDecimals,
-                    'NATIVE',
+            logger.debug(`[${chain.name}] Native transfer ${directions.join('/')} ${fromAddress} -> ${toAddress}:`, {
+                value: tx.value.toString(),
+                hash: tx.hash
+            });
+            const nativeSymbol = chain.viemChain.nativeCurrency.symbol;
+            const nativeDecimals = chain.viemChain.nativeCurrency.decimals;
+
+            const tokenData = await this.tokenService.getToken(chain.priceSymbol, chain.key);
+            const tokenPrice = tokenData?.price || 0;
+            const formattedTxValue = formatUnits(tx.value, nativeDecimals);
+            const usdValue = tokenPrice ? parseFloat(formattedTxValue) * tokenPrice : 0;
+
+            for (const direction of directions) {
+                await this.dispatchTransfer(chain, state, tx.blockNumber, blockHash, blockTimestamp, -1, {
+                    direction,
+                    recipientAddress: toAddress,
+                    rawValue: tx.value.toString(),
+                    formattedValue: formattedTxValue,
+                    tokenSymbol: nativeSymbol,
+                    tokenDecimals: nativeDecimals,
+                    tokenContractAddress: 'NATIVE',
                     usdValue,
-                    tx.hash,
-                    tx.from.toLowerCase() as Hex,
-                    tx.blockNumber,
-                    {
+                    transactionHash: tx.hash,
+                    senderAddress: fromAddress,
+                    blockNumber: tx.blockNumber.toString(),
+                    context: {
                         chainId: chain.id,
                         chainName: chain.name,
                         chainType: 'EVM',
-                    }
-                );
-                handler({
+                    },
+                });
+                handler?.({
                     type: 'NATIVE',
                     chainId: chain.id,
+                    direction,
                     data: {
-                        to: tx.to.toLowerCase() as Hex,
-                        from: tx.from.toLowerCase() as Hex,
+                        to: toAddress,
+                        from: fromAddress,
                         value: tx.value,
                         hash: tx.hash,
                         blockNumber: tx.blockNumber,
@@ -232,24 +1015,87 @@ export class EvmPollingMonitor {
         }
     }
 
+    /**
+     * Native value forwarded by contracts (Safe wallets, batch payouts, bridges) during a transaction.
+     * Log indexes -2, -3, ... keep them apart from the transaction's own value transfer (-1).
+     */
+    private async processInternalTransfers(
+        transfers: InternalNativeTransfer[],
+        chain: EvmChain,
+        state: EvmChainScanState,
+        blockNumber: bigint,
+        blockHash: Hex,
+        blockTimestamp: Date,
+        trackedSet: Set<string>,
+        handler: EventHandlerCallback | null
+    ) {
+        const nativeSymbol = chain.viemChain.nativeCurrency.symbol;
+        const nativeDecimals = chain.viemChain.nativeCurrency.decimals;
+        const tokenData = await this.tokenService.getToken(chain.priceSymbol, chain.key);
+        const tokenPrice = tokenData?.price || 0;
+
+        for (const transfer of transfers) {
+            const directions = this.getTransferDirections(transfer.from, transfer.to, trackedSet);
+            const formattedValue = formatUnits(transfer.value, nativeDecimals);
+            const usdValue = tokenPrice ? parseFloat(formattedValue) * tokenPrice : 0;
+            logger.debug(`[${chain.name}] Internal native transfer ${directions.join('/')} ${transfer.from} -> ${transfer.to}:`, {
+                value: transfer.value.toString(),
+                hash: transfer.transactionHash
+            });
+
+            for (const direction of directions) {
+                await this.dispatchTransfer(chain, state, blockNumber, blockHash, blockTimestamp, -2 - transfer.traceIndex, {
+                    direction,
+                    recipientAddress: transfer.to,
+                    rawValue: transfer.value.toString(),
+                    formattedValue,
+                    tokenSymbol: nativeSymbol,
+                    tokenDecimals: nativeDecimals,
+                    tokenContractAddress: 'NATIVE',
+                    usdValue,
+                    transactionHash: transfer.transactionHash,
+                    senderAddress: transfer.from,
+                    blockNumber: blockNumber.toString(),
+                    context: {
+                        chainId: chain.id,
+                        chainName: chain.name,
+                        chainType: 'EVM',
+                        internal: true,
+                    },
+                });
+                handler?.({
+                    type: 'NATIVE',
+                    chainId: chain.id,
+                    direction,
+                    data: {
+                        to: transfer.to,
+                        from: transfer.from,
+                        value: transfer.value,
+                        hash: transfer.transactionHash,
+                        blockNumber,
+                        internal: true,
+                    }
+                });
+            }
+        }
+    }
+
     private async processErc20TransferLogs(
         logs: Log[],
         chain: EvmChain,
-        handler: EventHandlerCallback
+        state: EvmChainScanState,
+        blockHash: Hex,
+        blockTimestamp: Date,
+        trackedSet: Set<string>,
+        handler: EventHandlerCallback | null
     ) {
-        const validTrackedAddresses = this.getValidTrackedEvmAddresses();
-        if (validTrackedAddresses.length === 0) {
+        if (trackedSet.size === 0) {
             return; // No addresses to check against
         }
 
-        const relevantLogs = logs.filter(log => {
-            // Topic[0] is the event signature. Topic[2] is the 'to' address for Transfer events.
-            return log.topics[0]?.toLowerCase() === TRANSFER_EVENT_TOPIC.toLowerCase() &&
-                log.topics[2] &&
-                validTrackedAddresses.some(trackedAddr =>
-                    log.topics[2]?.toLowerCase().includes(trackedAddr.substring(2).toLowerCase())
-                );
-        });
+        // The node already filtered by topic; this guards against providers that ignore topic filters.
+        // Topic[0] is the event signature. Topic[1] is the 'from' and topic[2] the 'to' address for Transfer events.
+        const relevantLogs = logs.filter(log => isTrackedTransferLog(log, trackedSet));
 
         for (const log of relevantLogs) {
             try {
@@ -259,69 +1105,78 @@ export class EvmPollingMonitor {
                     topics: log.topics,
                 });
                 const toAddress = decodedLog.args.to.toLowerCase() as Hex;
-                if (!this.addressManager.isTracking(toAddress)) {
-                    logger.warn(`[${chain.name}] ERC20 log for ${toAddress} was not in AddressManager's list despite filter.`);
+                const fromAddress = decodedLog.args.from.toLowerCase() as Hex;
+                const directions = this.getTransferDirections(fromAddress, toAddress, trackedSet);
+                if (directions.length === 0) {
+                    logger.warn(`[${chain.name}] ERC20 log ${fromAddress} -> ${toAddress} was not in AddressManager's list despite filter.`);
                     continue;
                 }
-                logger.debug(`[${chain.name}] ERC20 Transfer to ${toAddress}:`, {
-                    from: decodedLog.args.from,
+                logger.debug(`[${chain.name}] ERC20 Transfer ${directions.join('/')} ${fromAddress} -> ${toAddress}:`, {
+                    from: fromAddress,
                     to: toAddress,
                     value: decodedLog.args.value.toString(),
                     tokenContract: log.address
                 });
-                const tokenData = await this.tokenService.getTokenByAddress(
-                    chain.name.toLowerCase(),
-                    log.address.toLowerCase()
-                );
-
-                // Only track and notify for known tokens that we have in our database
-                if (!tokenData) {
-                    // Log unknown token for future reference, but don't send notification
-                    const formattedValue = formatUnits(decodedLog.args.value, 18); // Use default 18 decimals for logging
+                const tokenContract = log.address.toLowerCase() as Hex;
+                const tokenData = await this.tokenService.getTokenByAddress(chain.key, tokenContract);
+
+                let tokenSymbol: string;
+                let tokenDecimals: number;
+                let tokenPrice = 0;
+                if (tokenData) {
+                    tokenSymbol = tokenData.symbol;
+                    tokenDecimals = tokenData.decimals;
+                    tokenPrice = tokenData.price || 0;
+                } else {
+                    // Not in the tokens table: alert as unpriced with the contract's own metadata and queue it for review
+                    const metadata = await this.getContractMetadata(chain, tokenContract);
+                    await this.unknownTokenService.recordSighting({ chain: chain.key, address: tokenContract, ...metadata });
+                    tokenSymbol = metadata.symbol ?? 'UNKNOWN';
+                    tokenDecimals = metadata.decimals ?? 0;
                     logger.info(`[${chain.name}] Unknown ERC20 token transfer detected:`, {
-                        tokenContract: log.address.toLowerCase(),
+                        tokenContract,
+                        symbol: metadata.symbol,
                         to: toAddress,
-                        from: decodedLog.args.from.toLowerCase(),
-                        amount: formattedValue,
+                        from: fromAddress,
+                        amount: decodedLog.args.value.toString(),
                         transactionHash: log.transactionHash,
                         blockNumber: log.blockNumber,
                         chainId: chain.id
                     });
-                    continue; // Skip notification for unknown tokens
                 }
-
-                const tokenSymbol = tokenData.symbol;
-                const tokenDecimals = tokenData.decimals;
-                const tokenPrice = tokenData.price || 0;
                 const formattedLogValue = formatUnits(decodedLog.args.value, tokenDecimals);
                 const usdValue = tokenPrice ? parseFloat(formattedLogValue) * tokenPrice : 0;
 
-                if (log.transactionHash && log.blockNumber) {
-                    await this.notificationService.notifyDeposit(
-                        toAddress,
-                        decodedLog.args.value.toString(),
-                        formattedLogValue,
+                if (!log.transactionHash || log.blockNumber === null || log.logIndex === null) {
+                    continue;
+                }
+                for (const direction of directions) {
+                    await this.dispatchTransfer(chain, state, log.blockNumber, blockHash, blockTimestamp, log.logIndex, {
+                        direction,
+                        recipientAddress: toAddress,
+                        rawValue: decodedLog.args.value.toString(),
+                        formattedValue: formattedLogValue,
                         tokenSymbol,
                         tokenDecimals,
-                        log.address.toLowerCase() as Hex,
+                        tokenContractAddress: log.address.toLowerCase(),
                         usdValue,
-                        log.transactionHash,
-                        decodedLog.args.from.toLowerCase() as Hex,
-                        log.blockNumber,
-                        {
+                        transactionHash: log.transactionHash,
+                        senderAddress: fromAddress,
+                        blockNumber: log.blockNumber.toString(),
+                        context: {
                             chainId: chain.id,
                             chainName: chain.name,
                             chainType: 'EVM',
-                            tokenContractAddress: log.address
-                        }
-                    );
-                }
-                if (log.transactionHash && log.blockNumber !== null && log.logIndex !== null) {
-                    handler({
+                            tokenContractAddress: log.address,
+                            ...(!tokenData && { unpriced: true }),
+                        },
+                    });
+                    handler?.({
                         type: 'ERC20',
                         chainId: chain.id,
+                        direction,
                         data: {
-                            from: decodedLog.args.from.toLowerCase() as Hex,
+                            from: fromAddress,
                             to: toAddress,
                             value: decodedLog.args.value,
                             transactionHash: log.transactionHash,
@@ -337,7 +1192,157 @@ export class EvmPollingMonitor {
         }
     }
 
-    public start(): void {
+    /**
+     * Decodes an ERC-721 Transfer or ERC-1155 TransferSingle/TransferBatch log into the token IDs
+     * and amounts it moved.
+     */
+    private decodeNftTransferLog(log: Log): Omit<NftTransferEvent, 'transactionHash' | 'blockNumber' | 'logIndex' | 'tokenContract'> | null {
+        const standard = getNftTransferStandard(log);
+        if (standard === 'ERC721') {
+            const { args } = decodeEventLog({ abi: [ERC721_TRANSFER_EVENT], data: log.data, topics: log.topics });
+            return {
+                standard,
+                from: args.from.toLowerCase() as Hex,
+                to: args.to.toLowerCase() as Hex,
+                tokenIds: [args.tokenId],
+                amounts: [1n],
+            };
+        }
+        if (standard === 'ERC1155') {
+            const decoded = decodeEventLog({ abi: ERC1155_TRANSFER_EVENTS, data: log.data, topics: log.topics });
+            const common = {
+                standard,
+                from: decoded.args.from.toLowerCase() as Hex,
+                to: decoded.args.to.toLowerCase() as Hex,
+                operator: decoded.args.operator.toLowerCase() as Hex,
+            };
+            return decoded.eventName === 'TransferSingle'
+                ? { ...common, tokenIds: [decoded.args.id], amounts: [decoded.args.value] }
+                : { ...common, tokenIds: [...decoded.args.ids], amounts: [...decoded.args.values] };
+        }
+        return null;
+    }
+
+    /**
+     * Name, symbol and decimals of a contract, read once and cached. All three are optional in
+     * ERC20 and ERC-721 and most ERC-1155 contracts lack them, so any may be null.
+     */
+    private async getContractMetadata(chain: EvmChain, contract: Hex): Promise<ContractMetadata> {
+        const cacheKey = `${chain.id}:${contract}`;
+        const cached = this.contractMetadata.get(cacheKey);
+        if (cached) {
+            return cached;
+        }
+        const client = this.publicClients.get(chain.id);
+        if (!client) {
+            return { name: null, symbol: null, decimals: null };
+        }
+        const [name, symbol, decimals] = await Promise.allSettled([
+            client.readContract({ address: contract, abi: TOKEN_METADATA_ABI, functionName: 'name' }),
+            client.readContract({ address: contract, abi: TOKEN_METADATA_ABI, functionName: 'symbol' }),
+            client.readContract({ address: contract, abi: TOKEN_METADATA_ABI, functionName: 'decimals' }),
+        ]);
+        const metadata: ContractMetadata = {
+            name: name.status === 'fulfilled' && name.value ? name.value : null,
+            symbol: symbol.status === 'fulfilled' && symbol.value ? symbol.value : null,
+            decimals: decimals.status === 'fulfilled' ? decimals.value : null,
+        };
+        this.contractMetadata.set(cacheKey, metadata);
+        return metadata;
+    }
+
+    /**
+     * NFTs have no token table entry or price, so every NFT transfer is alerted with a USD value
+     * of zero and the collection metadata in the context for the channels to lay out.
+     */
+    private async processNftTransferLogs(
+        logs: Log[],
+        chain: EvmChain,
+        state: EvmChainScanState,
+        blockHash: Hex,
+        blockTimestamp: Date,
+        trackedSet: Set<string>,
+        handler: EventHandlerCallback | null
+    ) {
+        if (trackedSet.size === 0) {
+            return;
+        }
+
+        for (const log of logs.filter(log => isTrackedTransferLog(log, trackedSet))) {
+            try {
+                const transfer = this.decodeNftTransferLog(log);
+                if (!transfer || !log.transactionHash || log.blockNumber === null || log.logIndex === null) {
+                    continue;
+                }
+                const directions = this.getTransferDirections(transfer.from, transfer.to, trackedSet);
+                if (directions.length === 0) {
+                    continue;
+                }
+                const tokenContract = log.address.toLowerCase() as Hex;
+                const collection = await this.getContractMetadata(chain, tokenContract);
+                const totalAmount = transfer.amounts.reduce((sum, amount) => sum + amount, 0n);
+                logger.debug(`[${chain.name}] ${transfer.standard} transfer ${directions.join('/')} ${transfer.from} -> ${transfer.to}:`, {
+                    tokenIds: transfer.tokenIds.map(id => id.toString()),
+                    tokenContract,
+                    hash: log.transactionHash
+                });
+
+                for (const direction of directions) {
+                    await this.dispatchTransfer(chain, state, log.blockNumber, blockHash, blockTimestamp, log.logIndex, {
+                        direction,
+                        recipientAddress: transfer.to,
+                        rawValue: totalAmount.toString(),
+                        formattedValue: totalAmount.toString(),
+                        tokenSymbol: collection.symbol ?? 'NFT',
+                        tokenDecimals: 0,
+                        tokenContractAddress: tokenContract,
+                        usdValue: 0,
+                        transactionHash: log.transactionHash,
+                        senderAddress: transfer.from,
+                        blockNumber: log.blockNumber.toString(),
+                        context: {
+                            chainId: chain.id,
+                            chainName: chain.name,
+                            chainType: 'EVM',
+                            tokenContractAddress: tokenContract,
+                            nft: {
+                                standard: transfer.standard,
+                                collectionName: collection.name,
+                                collectionSymbol: collection.symbol,
+                                tokenIds: transfer.tokenIds.map(id => id.toString()),
+                                amounts: transfer.amounts.map(amount => amount.toString()),
+                                operator: transfer.operator ?? null,
+                            },
+                        },
+                    });
+                    handler?.({
+                        type: 'NFT',
+                        chainId: chain.id,
+                        direction,
+                        data: {
+                            ...transfer,
+                            transactionHash: log.transactionHash,
+                            blockNumber: log.blockNumber,
+                            logIndex: log.logIndex,
+                            tokenContract,
+                        }
+                    });
+                }
+            } catch (error) {
+                logger.error(`[${chain.name}] Error processing NFT transfer log:`, error);
+            }
+        }
+    }
+
+    public async start(): Promise<void> {
+        // Scanners must not start before they know which networks each address is limited to
+        try {
+            this.networkSelections = await this.addressService.getEvmNetworkSelections();
+        } catch (error) {
+            logger.error('[EVM] Failed to load address network selections. EVM monitoring is not started.', error);
+            throw error;
+        }
+
         const initialAddressesRaw = this.addressManager.getTrackedAddresses();
         const initialValidEvmAddresses = this.getValidTrackedEvmAddresses();
         logger.info({
@@ -351,6 +1356,8 @@ export class EvmPollingMonitor {
         if (!this.eventHandler) {
             logger.warn("Event handler not set for EvmPollingMonitor. Events might be missed.");
         }
+        this.cursorService.on('rewind', this.handleCursorRewind);
+        AddressChangeService.getInstance().on('change', this.handleAddressChange);
         evmChainsConfig.forEach(chain => {
             try {
                 const client = this.initializeEvmClient(chain);
@@ -375,37 +1382,16 @@ export class EvmPollingMonitor {
             this.eventHandler = newEventHandler;
         }
 
-        // Gracefully unsubscribe from all existing watchers
-        this.unsubscribeCallbacksMap.forEach((unsubs, chainId) => {
-            logger.debug(`Unsubscribing from ${unsubs.length} watchers for chain ${chainId}`);
-            unsubs.forEach((unsub, index) => {
-                try {
-                    unsub();
-                } catch (error: any) {
-                    // This can happen if the filter has already expired on the RPC node.
-                    // Common errors: "filter not found", "eth_uninstallFilter" failures
-                    // It's safe to ignore as we are about to create new filters anyway.
-                    if (error?.message?.includes('filter not found') ||
-                        error?.message?.includes('eth_uninstallFilter') ||
-                        error?.code === 32000) {
-                        logger.debug(`Filter ${index} for chain ${chainId} already expired/removed. This is normal.`);
-                    } else {
-                        logger.warn(`Unexpected error during unsubscribe for chain ${chainId}, filter ${index}:`, {
-                            message: error?.message,
-                            code: error?.code,
-                            details: error?.details
-                        });
-                    }
-                }
-            });
-        });
-
-        this.unsubscribeCallbacksMap.clear();
-
         if (!this.eventHandler) {
             logger.warn("Event handler not set for EvmPollingMonitor during update. Events might be missed.");
         }
+
+        // Block scanners read the tracked set from AddressManager on every block, so running
+        // scanners are left alone: restarting them would re-read the cursor mid-batch.
         evmChainsConfig.forEach(chain => {
+            if (this.unsubscribeCallbacksMap.has(chain.id)) {
+                return;
+            }
             const client = this.publicClients.get(chain.id);
             if (client) {
                 this.startBlockScanner(client, chain);
@@ -421,13 +1407,33 @@ export class EvmPollingMonitor {
         });
     }
 
-    public updateTrackedAddresses(newAddressesHint: Hex[], newEventHandler?: EventHandlerCallback | null) {
+    public updateTrackedAddresses(newAddressesHint: string[], newEventHandler?: EventHandlerCallback | null) {
         logger.info("EvmPollingMonitor: Received address update hint (will re-evaluate from AddressManager). Hint count:", newAddressesHint.length);
+        this.refreshNetworkSelections();
         this.updateConnections(newEventHandler);
     }
 
+    // Network-only edits leave the tracked set unchanged, so selections are refreshed on every published change
+    private handleAddressChange = (): void => {
+        this.refreshNetworkSelections();
+    };
+
+    /**
+     * Reloads the networks each address is limited to after a change. Until it completes, scans
+     * use the previous selections; on failure they are kept.
+     */
+    private refreshNetworkSelections(): void {
+        this.addressService.getEvmNetworkSelections()
+            .then(selections => {
+                this.networkSelections = selections;
+            })
+            .catch(error => logger.error('[EVM] Failed to load address network selections. Keeping the previous ones.', error));
+    }
+
     public stop() {
         logger.info("Stopping EVM polling connections...");
+        this.cursorService.off('rewind', this.handleCursorRewind);
+        AddressChangeService.getInstance().off('change', this.handleAddressChange);
         this.unsubscribeCallbacksMap.forEach((unsubs, chainId) => {
             logger.info(`Unsubscribing from ${unsubs.length} watchers for EVM chain ID: ${chainId}`);
             unsubs.forEach((unsub, index) => {
@@ -452,9 +1458,11 @@ export class EvmPollingMonitor {
             });
         });
         this.unsubscribeCallbacksMap.clear();
+        this.scanStates.clear();
         this.publicClients.forEach((client, chainId) => {
             logger.info(`Stopping client for chain ${chainId}`);
         });
+        this.providerPools.forEach(pool => pool.stopHealthChecks());
         logger.info('EVM polling connections stopped.');
     }
 }
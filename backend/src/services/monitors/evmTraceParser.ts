@@ -0,0 +1,154 @@
+import type { Hex } from 'viem';
+
+// Frame of the geth `callTracer` (debug_traceBlockByNumber / debug_traceBlockByHash)
+export interface CallTracerFrame {
+    type: string; // 'CALL', 'DELEGATECALL', 'STATICCALL', 'CALLCODE', 'CREATE', 'CREATE2', 'SELFDESTRUCT'
+    from: string;
+    to?: string;
+    value?: Hex;
+    error?: string;
+    calls?: CallTracerFrame[];
+}
+
+export interface CallTracerTransactionResult {
+    txHash?: Hex; // Missing on older geth versions; results are then in block transaction order
+    result: CallTracerFrame;
+}
+
+// Entry of the OpenEthereum/Erigon `trace_block` output
+export interface ParityTrace {
+    type: 'call' | 'create' | 'suicide' | 'reward';
+    action: {
+        callType?: string; // 'call', 'delegatecall', 'staticcall', 'callcode'
+        from?: string;
+        to?: string;
+        value?: Hex;
+        address?: string; // suicide: the destroyed contract
+        refundAddress?: string; // suicide: receives the balance
+        balance?: Hex; // suicide
+    };
+    result?: { address?: string } | null; // create: the new contract
+    error?: string;
+    traceAddress: number[];
+    transactionHash: Hex | null;
+    blockHash: Hex;
+}
+
+// viem RPC schema overrides for the two trace methods, which its public actions do not cover
+export type DebugTraceBlockByHashRpc = {
+    Parameters: [blockHash: Hex, options: { tracer: 'callTracer' }];
+    ReturnType: CallTracerTransactionResult[];
+};
+
+export type TraceBlockRpc = {
+    Parameters: [blockNumber: Hex];
+    ReturnType: ParityTrace[];
+};
+
+export interface InternalNativeTransfer {
+    transactionHash: Hex;
+    traceIndex: number; // Position among the transaction's internal value transfers, in call order
+    from: Hex;
+    to: Hex;
+    value: bigint;
+}
+
+// Call types that move value to `to`; DELEGATECALL and CALLCODE run code in the caller's own context
+const VALUE_CALL_TYPES = new Set(['CALL', 'CREATE', 'CREATE2', 'SELFDESTRUCT']);
+
+/**
+ * @param transfers The transaction's transfers found so far; their count is the next trace index
+ */
+function collectCallTracerTransfers(frame: CallTracerFrame, transactionHash: Hex, transfers: InternalNativeTransfer[], isTopLevel: boolean): void {
+    if (frame.error) {
+        return; // A reverted call undoes its value transfer and everything it called
+    }
+    const value = frame.value ? BigInt(frame.value) : 0n;
+    // The top-level call is the transaction itself, which the block's transaction list already covers
+    if (!isTopLevel && value > 0n && frame.to && VALUE_CALL_TYPES.has(frame.type.toUpperCase())) {
+        transfers.push({
+            transactionHash,
+            traceIndex: transfers.length,
+            from: frame.from.toLowerCase() as Hex,
+            to: frame.to.toLowerCase() as Hex,
+            value,
+        });
+    }
+    for (const call of frame.calls ?? []) {
+        collectCallTracerTransfers(call, transactionHash, transfers, false);
+    }
+}
+
+/**
+ * Internal native transfers in the output of debug_traceBlockBy* with `{ tracer: 'callTracer' }`.
+ * @param transactionHashes Hashes of the block's transactions, in order, for results without `txHash`
+ */
+export function extractCallTracerTransfers(results: CallTracerTransactionResult[], transactionHashes: Hex[]): InternalNativeTransfer[] {
+    const transfers: InternalNativeTransfer[] = [];
+    results.forEach((txResult, index) => {
+        const transactionHash = txResult.txHash ?? transactionHashes[index];
+        if (transactionHash && txResult.result) {
+            const txTransfers: InternalNativeTransfer[] = [];
+            collectCallTracerTransfers(txResult.result, transactionHash.toLowerCase() as Hex, txTransfers, true);
+            transfers.push(...txTransfers);
+        }
+    });
+    return transfers;
+}
+
+/**
+ * Internal native transfers in the output of trace_block.
+ */
+export function extractParityTraceTransfers(traces: ParityTrace[]): InternalNativeTransfer[] {
+    const transfers: InternalNativeTransfer[] = [];
+    // traceAddress paths of reverted calls per transaction; their subtrees moved nothing either
+    const revertedPaths = new Map<string, string[]>();
+    const transferCounts = new Map<string, number>();
+
+    for (const trace of traces) {
+        if (!trace.transactionHash) {
+            continue; // Block and uncle rewards
+        }
+        const transactionHash = trace.transactionHash.toLowerCase() as Hex;
+        const path = trace.traceAddress.join('.');
+        const reverted = revertedPaths.get(transactionHash) ?? [];
+        if (trace.error) {
+            reverted.push(path);
+            revertedPaths.set(transactionHash, reverted);
+            continue;
+        }
+        if (trace.traceAddress.length === 0 || reverted.some(revertedPath => revertedPath === '' || path.startsWith(`${revertedPath}.`))) {
+            continue;
+        }
+
+        let from: string | undefined;
+        let to: string | undefined;
+        let value: Hex | undefined;
+        if (trace.type === 'call' && (trace.action.callType ?? 'call') === 'call') {
+            ({ from, to, value } = trace.action);
+        } else if (trace.type === 'create') {
+            from = trace.action.from;
+            to = trace.result?.address;
+            value = trace.action.value;
+        } else if (trace.type === 'suicide') {
+            from = trace.action.address;
+            to = trace.action.refundAddress;
+            value = trace.action.balance;
+        }
+
+        const amount = value ? BigInt(value) : 0n;
+        if (!from || !to || amount === 0n) {
+            continue;
+        }
+        const traceIndex = transferCounts.get(transactionHash) ?? 0;
+        transferCounts.set(transactionHash, traceIndex + 1);
+        transfers.push({
+            transactionHash,
+            traceIndex,
+            from: from.toLowerCase() as Hex,
+            to: to.toLowerCase() as Hex,
+            value: amount,
+        });
+    }
+    return transfers;
+}
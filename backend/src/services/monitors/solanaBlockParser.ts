@@ -0,0 +1,109 @@
+import type { SolanaBlock, SolanaParsedInstruction, SolanaTokenBalance, SolanaTransaction } from '../rpc/solanaRpcClient';
+
+export const SOL_DECIMALS = 9;
+
+const TOKEN_PROGRAMS = new Set(['spl-token', 'spl-token-2022']);
+
+export interface SolanaTransfer {
+    kind: 'SOL' | 'SPL';
+    transactionHash: string; // First signature of the transaction
+    instructionIndex: number; // Position among the transaction's instructions, inner ones included, in execution order
+    recipientAddress: string; // Tracked wallet; for SPL transfers the owner of the receiving token account
+    senderAddress?: string; // Sending wallet; for SPL transfers the owner of the sending token account, when known
+    amount: bigint; // Lamports or token base units
+    mint?: string;
+    decimals?: number;
+    tokenAccount?: string; // Receiving token account of an SPL transfer
+}
+
+/**
+ * Top-level instructions followed by the inner instructions they invoked, in execution order.
+ */
+function flattenInstructions(tx: SolanaTransaction): SolanaParsedInstruction[] {
+    const innerByIndex = new Map((tx.meta?.innerInstructions ?? []).map(inner => [inner.index, inner.instructions]));
+    return tx.transaction.message.instructions.flatMap((instruction, index) => [instruction, ...(innerByIndex.get(index) ?? [])]);
+}
+
+/**
+ * Mint, owner and decimals of every token account the transaction touched, keyed by account address.
+ */
+function getTokenAccounts(tx: SolanaTransaction): Map<string, SolanaTokenBalance> {
+    const accountKeys = tx.transaction.message.accountKeys;
+    const accounts = new Map<string, SolanaTokenBalance>();
+    // Post balances last, so an account created by the transaction still resolves
+    for (const balance of [...(tx.meta?.preTokenBalances ?? []), ...(tx.meta?.postTokenBalances ?? [])]) {
+        const account = accountKeys[balance.accountIndex]?.pubkey;
+        if (account) {
+            accounts.set(account, balance);
+        }
+    }
+    return accounts;
+}
+
+function decodeTransfer(
+    instruction: SolanaParsedInstruction,
+    tokenAccounts: Map<string, SolanaTokenBalance>,
+    trackedAddresses: Set<string>
+): Omit<SolanaTransfer, 'transactionHash' | 'instructionIndex'> | null {
+    if (!instruction.parsed || typeof instruction.parsed === 'string') {
+        return null;
+    }
+    const { type, info } = instruction.parsed;
+
+    if (instruction.program === 'system' && (type === 'transfer' || type === 'transferWithSeed')) {
+        if (!trackedAddresses.has(info.destination) || info.source === info.destination) {
+            return null;
+        }
+        return { kind: 'SOL', recipientAddress: info.destination, senderAddress: info.source, amount: BigInt(info.lamports) };
+    }
+
+    if (instruction.program && TOKEN_PROGRAMS.has(instruction.program) && (type === 'transfer' || type === 'transferChecked')) {
+        const destination = tokenAccounts.get(info.destination);
+        const source = tokenAccounts.get(info.source);
+        // A tracked wallet receives through its token accounts; a token account can also be tracked directly
+        const recipientAddress = destination?.owner && trackedAddresses.has(destination.owner)
+            ? destination.owner
+            : (trackedAddresses.has(info.destination) ? info.destination : null);
+        const mint = info.mint ?? destination?.mint ?? source?.mint;
+        if (!recipientAddress || !mint) {
+            return null;
+        }
+        const senderAddress = source?.owner ?? info.authority ?? info.multisigAuthority;
+        if (senderAddress === recipientAddress) {
+            return null; // Moved between the wallet's own token accounts
+        }
+        return {
+            kind: 'SPL',
+            recipientAddress,
+            senderAddress,
+            amount: BigInt(type === 'transferChecked' ? info.tokenAmount.amount : info.amount),
+            mint,
+            decimals: info.tokenAmount?.decimals ?? destination?.uiTokenAmount.decimals ?? source?.uiTokenAmount.decimals,
+            tokenAccount: info.destination,
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Native SOL and SPL token transfers into tracked addresses in a block, including transfers made by
+ * other programs through inner instructions. Failed transactions are skipped.
+ * @param trackedAddresses Wallet addresses (or token accounts) to report transfers into, as Base58
+ */
+export function extractTrackedTransfers(block: SolanaBlock, trackedAddresses: Set<string>): SolanaTransfer[] {
+    const transfers: SolanaTransfer[] = [];
+    for (const tx of block.transactions) {
+        if (!tx.meta || tx.meta.err) {
+            continue;
+        }
+        const tokenAccounts = getTokenAccounts(tx);
+        flattenInstructions(tx).forEach((instruction, instructionIndex) => {
+            const transfer = decodeTransfer(instruction, tokenAccounts, trackedAddresses);
+            if (transfer) {
+                transfers.push({ ...transfer, transactionHash: tx.transaction.signatures[0], instructionIndex });
+            }
+        });
+    }
+    return transfers;
+}
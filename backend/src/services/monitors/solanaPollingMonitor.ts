@@ -0,0 +1,339 @@
+import type { Hex } from 'viem';
+import { formatUnits } from 'viem';
+import { config as appConfig } from '../../config';
+import logger from '../../config/logger';
+import type { EventHandlerCallback } from './chainMonitorManager';
+import type { AddressManager } from '../address/addressManager';
+import { TokenService } from '../token/tokenService';
+import { BlockCursorService, buildChainKey } from '../cursor/blockCursorService';
+import type { CursorRewindEvent } from '../cursor/blockCursorService';
+import { buildDepositKey } from '../confirmation/pendingDepositService';
+import type { StoredDepositPayload } from '../confirmation/pendingDepositService';
+import { buildTransferOutboxEvent } from '../outbox/outboxService';
+import type { OutboxEventInput } from '../outbox/outboxService';
+import { TransferLedgerService } from '../transfer/transferLedgerService';
+import { SolanaRpcClient, SolanaRpcError, SOLANA_SLOT_SKIPPED_CODES } from '../rpc/solanaRpcClient';
+import type { SolanaBlock } from '../rpc/solanaRpcClient';
+import type { RpcPoolStatus } from '../rpc/rpcProviderPool';
+import { isValidSolanaAddress } from '../../utils/validators';
+import { extractTrackedTransfers, SOL_DECIMALS } from './solanaBlockParser';
+import type { SolanaTransfer } from './solanaBlockParser';
+import type { ChainMonitor, MonitorCursorStatus } from './chainMonitor';
+
+/**
+ * Polls a Solana RPC node for finalized slots and reports native SOL and SPL token transfers into
+ * tracked wallets. Finalized blocks cannot be rolled back, so every deposit is alerted once, already
+ * confirmed, roughly 13 seconds after it lands.
+ */
+export class SolanaPollingMonitor implements ChainMonitor {
+    private addressManager: AddressManager;
+    private eventHandler: EventHandlerCallback | null;
+    private tokenService: TokenService;
+    private cursorService: BlockCursorService;
+    private transferLedger: TransferLedgerService;
+    private rpcClient: SolanaRpcClient | null = null;
+
+    private pollingInterval: NodeJS.Timeout | null = null;
+    private isPolling = false;
+    private lastProcessedSlot: number | null = null;
+    private headSlot: number | null = null;
+    private pendingRewindTo: number | null = null; // Set by an admin cursor rewind, applied before the next poll
+    private blockOutbox: OutboxEventInput[] = []; // Notifications from the block being processed, queued with its cursor commit
+
+    private readonly CHAIN_KEY = buildChainKey('SOLANA', appConfig.solana.cluster);
+
+    constructor(addressManager: AddressManager, handler: EventHandlerCallback | null) {
+        this.addressManager = addressManager;
+        this.eventHandler = handler;
+        this.tokenService = TokenService.getInstance();
+        this.cursorService = BlockCursorService.getInstance();
+        this.transferLedger = TransferLedgerService.getInstance();
+    }
+
+    public async start(): Promise<void> {
+        if (appConfig.solana.rpcUrls.length === 0) {
+            logger.warn('[Solana] SOLANA_RPC_URL is not configured. Solana monitoring is disabled.');
+            return;
+        }
+        if (this.pollingInterval) {
+            logger.warn('[Solana] Slot polling is already running.');
+            return;
+        }
+
+        this.rpcClient = new SolanaRpcClient(this.CHAIN_KEY);
+        this.rpcClient.startHealthChecks();
+        this.cursorService.on('rewind', this.handleCursorRewind);
+
+        this.pollingInterval = setInterval(() => this.checkForNewSlots(), appConfig.solana.pollingIntervalMs);
+        logger.info(`[Solana] Started polling ${appConfig.solana.cluster} finalized slots every ${appConfig.solana.pollingIntervalMs}ms.`);
+    }
+
+    public stop(): void {
+        logger.info('Stopping Solana slot polling...');
+        this.cursorService.off('rewind', this.handleCursorRewind);
+        if (this.pollingInterval) {
+            clearInterval(this.pollingInterval);
+            this.pollingInterval = null;
+        }
+        this.rpcClient?.stopHealthChecks();
+        this.isPolling = false;
+        logger.info('Solana slot polling stopped.');
+    }
+
+    public updateTrackedAddresses(newAddressesHint: string[], newEventHandler?: EventHandlerCallback | null): void {
+        if (newEventHandler !== undefined) {
+            this.eventHandler = newEventHandler;
+        }
+        // The tracked set is read from the shared AddressManager before every block
+        logger.info(`[Solana] Received address update hint. Total hints: ${newAddressesHint.length}.`);
+    }
+
+    /**
+     * Current scan position, used to report how far behind the Solana monitor is. Positions are slots.
+     */
+    public getCursorStatus(): MonitorCursorStatus[] {
+        if (!this.rpcClient) {
+            return [];
+        }
+        return [{
+            chainId: appConfig.solana.cluster,
+            chainKey: this.CHAIN_KEY,
+            lastProcessedBlock: this.lastProcessedSlot !== null ? this.lastProcessedSlot.toString() : null,
+            headBlock: this.headSlot !== null ? this.headSlot.toString() : null,
+            lag: this.headSlot !== null && this.lastProcessedSlot !== null ? this.headSlot - this.lastProcessedSlot : null,
+        }];
+    }
+
+    public getProviderStatus(): RpcPoolStatus[] {
+        return this.rpcClient ? [this.rpcClient.getStatus()] : [];
+    }
+
+    private handleCursorRewind = (event: CursorRewindEvent): void => {
+        if (event.chainKey !== this.CHAIN_KEY) {
+            return;
+        }
+        this.pendingRewindTo = Number(event.lastProcessedBlock);
+        logger.warn(`[Solana] Cursor rewind requested. Scanning will resume at slot ${this.pendingRewindTo + 1}.`);
+    };
+
+    /**
+     * Resume from the persisted cursor when there is one, bounded by solana.maxCatchUpSlots.
+     * Without a cursor (first run) start at the current finalized slot.
+     */
+    private async initializeLastProcessedSlot(finalizedSlot: number): Promise<void> {
+        const cursor = await this.cursorService.getCursor(this.CHAIN_KEY);
+        if (!cursor) {
+            this.lastProcessedSlot = finalizedSlot - 1;
+            logger.info(`[Solana] No persisted cursor found. Starting at slot ${finalizedSlot}.`);
+            return;
+        }
+
+        const cursorSlot = Number(cursor.lastProcessedBlock);
+        const maxCatchUp = appConfig.solana.maxCatchUpSlots;
+        if (finalizedSlot - cursorSlot > maxCatchUp) {
+            const skipTo = finalizedSlot - maxCatchUp;
+            logger.warn(`[Solana] Cursor ${cursorSlot} is ${finalizedSlot - cursorSlot} slots behind the finalized slot ${finalizedSlot}, exceeding the catch-up window of ${maxCatchUp}. Slots ${cursorSlot + 1}-${skipTo} will NOT be scanned.`);
+            this.lastProcessedSlot = skipTo;
+        } else {
+            this.lastProcessedSlot = cursorSlot;
+        }
+        logger.info(`[Solana] Resumed from persisted cursor at slot ${this.lastProcessedSlot}.`);
+    }
+
+    private async checkForNewSlots(): Promise<void> {
+        if (this.isPolling || !this.rpcClient) {
+            return;
+        }
+        this.isPolling = true;
+
+        try {
+            const finalizedSlot = await this.rpcClient.getSlot('finalized');
+            this.headSlot = finalizedSlot;
+
+            if (this.lastProcessedSlot === null) {
+                await this.initializeLastProcessedSlot(finalizedSlot);
+            }
+            if (this.pendingRewindTo !== null) {
+                this.lastProcessedSlot = this.pendingRewindTo;
+                this.pendingRewindTo = null;
+            }
+
+            while (this.lastProcessedSlot! < finalizedSlot && this.pendingRewindTo === null && this.pollingInterval) {
+                const rangeEnd = Math.min(finalizedSlot, this.lastProcessedSlot! + appConfig.solana.maxSlotsPerPoll);
+                // Skipped slots have no block and are left out of the list
+                const slots = await this.rpcClient.getBlocks(this.lastProcessedSlot! + 1, rangeEnd, 'finalized');
+
+                for (const slot of slots) {
+                    const block = await this.fetchBlock(slot);
+                    this.blockOutbox = [];
+                    if (block) {
+                        await this.processBlock(slot, block);
+                    }
+                    await this.cursorService.commit(this.CHAIN_KEY, 'SOLANA', BigInt(slot), {
+                        blockHash: block?.blockhash ?? null,
+                        headBlock: BigInt(finalizedSlot),
+                        outboxEvents: this.blockOutbox,
+                    });
+                    this.blockOutbox = [];
+                    this.lastProcessedSlot = slot;
+                }
+                if (this.lastProcessedSlot! < rangeEnd) {
+                    await this.cursorService.commit(this.CHAIN_KEY, 'SOLANA', BigInt(rangeEnd), { headBlock: BigInt(finalizedSlot) });
+                    this.lastProcessedSlot = rangeEnd;
+                }
+            }
+        } catch (error: any) {
+            logger.error(`[Solana] Failed to process new slots, will retry: ${error.message}`);
+        } finally {
+            this.isPolling = false;
+        }
+    }
+
+    /**
+     * @returns null when the slot turned out to have no block
+     */
+    private async fetchBlock(slot: number): Promise<SolanaBlock | null> {
+        try {
+            return await this.rpcClient!.getBlock(slot, 'finalized');
+        } catch (error) {
+            if (error instanceof SolanaRpcError && SOLANA_SLOT_SKIPPED_CODES.includes(error.code)) {
+                logger.warn(`[Solana] Slot ${slot} has no block: ${error.message}`);
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    private async processBlock(slot: number, block: SolanaBlock): Promise<void> {
+        const trackedAddresses = new Set(this.addressManager.getTrackedAddresses().filter(isValidSolanaAddress));
+        if (trackedAddresses.size === 0) {
+            return;
+        }
+
+        const transfers = extractTrackedTransfers(block, trackedAddresses);
+        if (transfers.length === 0) {
+            return;
+        }
+        logger.info(`[Solana] Slot ${slot}: found ${transfers.length} transfer(s) into tracked addresses.`);
+
+        for (const transfer of transfers) {
+            await this.dispatchTransfer(slot, block, transfer);
+        }
+    }
+
+    /**
+     * Resolves the token of a transfer. SPL tokens that are not in the tokens table are logged and skipped.
+     */
+    private async resolveToken(transfer: SolanaTransfer): Promise<{ symbol: string; decimals: number; price: number; contractAddress: string } | null> {
+        if (transfer.kind === 'SOL') {
+            const solToken = await this.tokenService.getToken('SOL', 'solana');
+            return { symbol: 'SOL', decimals: SOL_DECIMALS, price: solToken?.price ? Number(solToken.price) : 0, contractAddress: 'SOL' };
+        }
+
+        const tokenData = await this.tokenService.getTokenByAddress('solana', transfer.mint!);
+        if (!tokenData) {
+            logger.info('[Solana] Unknown SPL token transfer detected:', {
+                mint: transfer.mint,
+                to: transfer.recipientAddress,
+                from: transfer.senderAddress,
+                rawAmount: transfer.amount.toString(),
+                transactionHash: transfer.transactionHash,
+            });
+            return null;
+        }
+        return {
+            symbol: tokenData.symbol,
+            decimals: transfer.decimals ?? tokenData.decimals,
+            price: tokenData.price || 0,
+            contractAddress: transfer.mint!,
+        };
+    }
+
+    /**
+     * Writes a transfer to the ledger and queues its alert for the slot's cursor commit. The block
+     * is finalized, so the transfer is recorded as confirmed.
+     */
+    private async dispatchTransfer(slot: number, block: SolanaBlock, transfer: SolanaTransfer): Promise<void> {
+        const token = await this.resolveToken(transfer);
+        if (!token) {
+            return;
+        }
+
+        const formattedValue = formatUnits(transfer.amount, token.decimals);
+        const payload: Omit<StoredDepositPayload, 'depositKey'> = {
+            direction: 'incoming',
+            recipientAddress: transfer.recipientAddress,
+            rawValue: transfer.amount.toString(),
+            formattedValue,
+            tokenSymbol: token.symbol,
+            tokenDecimals: token.decimals,
+            tokenContractAddress: token.contractAddress,
+            usdValue: parseFloat(formattedValue) * token.price,
+            transactionHash: transfer.transactionHash,
+            senderAddress: transfer.senderAddress,
+            blockNumber: slot.toString(),
+            context: {
+                chainId: appConfig.solana.cluster,
+                chainName: 'Solana',
+                chainType: 'SOLANA',
+                ...(transfer.tokenAccount && { tokenAccount: transfer.tokenAccount }),
+            },
+        };
+
+        // The instruction index stands in for the log index, so each transfer of a transaction has its own key
+        const depositKey = buildDepositKey(this.CHAIN_KEY, transfer.transactionHash, transfer.instructionIndex, block.blockhash);
+        await this.transferLedger.recordTransfer({
+            transferKey: depositKey,
+            chainKey: this.CHAIN_KEY,
+            chainType: 'SOLANA',
+            blockNumber: BigInt(slot),
+            blockHash: block.blockhash,
+            blockTimestamp: block.blockTime !== null ? new Date(block.blockTime * 1000) : new Date(),
+            transactionHash: transfer.transactionHash,
+            logIndex: transfer.instructionIndex,
+            direction: 'incoming',
+            fromAddress: transfer.senderAddress ?? '',
+            toAddress: transfer.recipientAddress,
+            tokenSymbol: token.symbol,
+            tokenContractAddress: token.contractAddress,
+            rawAmount: payload.rawValue,
+            decimals: token.decimals,
+            usdValue: payload.usdValue,
+            status: 'confirmed',
+        });
+        this.blockOutbox.push(buildTransferOutboxEvent(this.CHAIN_KEY, { ...payload, depositKey }));
+
+        if (!this.eventHandler) {
+            return;
+        }
+        if (transfer.kind === 'SOL') {
+            this.eventHandler({
+                type: 'NATIVE',
+                chainId: appConfig.solana.cluster,
+                direction: 'incoming',
+                data: {
+                    from: (transfer.senderAddress ?? '') as Hex,
+                    to: transfer.recipientAddress as Hex,
+                    value: transfer.amount,
+                    hash: transfer.transactionHash as Hex,
+                    blockNumber: BigInt(slot),
+                },
+            });
+        } else {
+            this.eventHandler({
+                type: 'ERC20',
+                chainId: appConfig.solana.cluster,
+                direction: 'incoming',
+                data: {
+                    from: (transfer.senderAddress ?? '') as Hex,
+                    to: transfer.recipientAddress as Hex,
+                    value: transfer.amount,
+                    transactionHash: transfer.transactionHash as Hex,
+                    blockNumber: BigInt(slot),
+                    logIndex: transfer.instructionIndex,
+                    tokenContract: transfer.mint as Hex,
+                },
+            });
+        }
+    }
+}
@@ -0,0 +1,41 @@
+import { decodeEventLog, parseAbi } from 'viem';
+import type { Hex } from 'viem';
+
+/**
+ * Blacklist events of the stablecoin issuers. Tether's USDT (Ethereum and Tron) does not index
+ * the holder; Circle's USDC does.
+ */
+export const FREEZE_EVENTS_ABI = parseAbi([
+    'event AddedBlackList(address _user)',
+    'event RemovedBlackList(address _user)',
+    'event Blacklisted(address indexed _account)',
+    'event UnBlacklisted(address indexed _account)',
+]);
+
+const FREEZE_EVENT_NAMES = new Set(['AddedBlackList', 'Blacklisted']);
+
+export interface FreezeLogChange {
+    account: Hex; // Lowercase 20-byte address; Tron callers prefix it with 41
+    frozen: boolean; // False when the issuer lifted the freeze
+}
+
+/**
+ * Holder and direction of an issuer blacklist log.
+ * @returns null for any other log
+ */
+export function decodeFreezeLog(topics: Hex[], data: Hex): FreezeLogChange | null {
+    if (topics.length === 0) {
+        return null;
+    }
+    try {
+        const decoded = decodeEventLog({ abi: FREEZE_EVENTS_ABI, topics: topics as [Hex, ...Hex[]], data, strict: true });
+        const args = decoded.args as { _user?: Hex; _account?: Hex };
+        const account = args._user ?? args._account;
+        if (!account) {
+            return null;
+        }
+        return { account: account.toLowerCase() as Hex, frozen: FREEZE_EVENT_NAMES.has(decoded.eventName) };
+    } catch {
+        return null;
+    }
+}
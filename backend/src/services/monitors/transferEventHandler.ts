@@ -12,6 +12,11 @@ export async function handleWebSocketEvent(event: UnifiedTransferEvent): Promise
         data: event.data,
     });
 
+    if (event.type === 'NFT') {
+        logger.debug(`NFT transfers carry no value to compare against a threshold; skipping ${event.data.transactionHash}.`);
+        return;
+    }
+
     const { data, type, chainId } = event;
     const toAddress = data.to;
     // Ensure value is BigInt. Note: NativeTransferEvent and Erc20TransferEvent define 'value' as bigint already.
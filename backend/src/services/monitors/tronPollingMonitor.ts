@@ -1,14 +1,27 @@
 import type { Hex } from 'viem'; // For trackedAddresses type consistency
 import { config as appConfig } from '../../config';
 // Import types from orchestrator
-import type { UnifiedTransferEvent, EventHandlerCallback } from './chainMonitorManager';
+import type { UnifiedTransferEvent, EventHandlerCallback, TransferDirection } from './chainMonitorManager';
 import type { AddressManager } from '../address/addressManager';
-import { NotificationService } from '../notification/notificationService';
 import { TokenService } from '../token/tokenService';
+import { UnknownTokenService } from '../token/unknownTokenService';
+import { BlockCursorService, buildChainKey } from '../cursor/blockCursorService';
+import type { CursorRewindEvent } from '../cursor/blockCursorService';
+import { buildDepositKey } from '../confirmation/pendingDepositService';
+import type { StoredDepositPayload } from '../confirmation/pendingDepositService';
+import { OutboxService, buildFreezeOutboxEvent, buildTransferOutboxEvent } from '../outbox/outboxService';
+import type { OutboxEventInput } from '../outbox/outboxService';
+import { TransferLedgerService } from '../transfer/transferLedgerService';
+import { AddressFreezeService } from '../freeze/addressFreezeService';
+import type { FreezeEvent } from '../freeze/addressFreezeService';
+import { decodeFreezeLog } from './stablecoinFreezeEvents';
 import axios from 'axios';
 import logger from '../../config/logger';
+import { RpcProviderPool } from '../rpc/rpcProviderPool';
+import type { RpcPoolStatus } from '../rpc/rpcProviderPool';
+import type { BackfillProgress, BackfillRequest, ChainMonitor, MonitorCursorStatus } from './chainMonitor';
 import * as TronWebLib from 'tronweb';
-import { formatUnits } from 'viem';
+import { formatUnits, decodeAbiParameters } from 'viem';
 
 // Placeholder for Tron-specific client instance or connection references
 // e.g., let tronWebsocketClient: any = null;
@@ -25,6 +38,7 @@ import { formatUnits } from 'viem';
 interface TronTransaction {
     txID: string;
     blockNumber: number;
+    blockHash?: string;
     blockTimeStamp: number;
     contractType: number;
     ownerAddress: string;
@@ -72,6 +86,7 @@ interface TronTransactionFromBlock {
                     owner_address: string; // Hex format
                     to_address: string;    // Hex format
                     amount: number;
+                    asset_name?: string;   // TransferAssetContract: hex-encoded TRC10 asset ID
                 };
             };
         }[];
@@ -81,6 +96,50 @@ interface TronTransactionFromBlock {
     // other transaction fields if needed
 }
 
+interface TronInternalTransaction {
+    hash: string;
+    caller_address: string;     // Hex format
+    transferTo_address: string; // Hex format
+    callValueInfo: { callValue?: number; tokenId?: string }[]; // No tokenId means TRX
+    note: string; // Hex-encoded, e.g. "call"
+    rejected?: boolean;
+}
+
+// Event log of a transaction info; all values are hex without '0x'
+interface TronEventLog {
+    address: string; // Emitting contract, without the 41 prefix
+    topics?: string[];
+    data?: string;
+}
+
+interface TronTransactionInfo {
+    id: string;
+    blockNumber: number;
+    result?: string; // 'FAILED' when the transaction failed; missing on success
+    internal_transactions?: TronInternalTransaction[];
+    log?: TronEventLog[];
+}
+
+// Stablecoin contract whose issuer blacklist events are watched
+interface FreezeWatchedContract {
+    symbol: string;
+    address: string; // Base58
+}
+
+interface Trc10AssetInfo {
+    id: string;
+    name: string;
+    abbr: string;
+    precision: number;
+}
+
+// On-chain metadata of a TRC20 contract missing from the tokens table; null where the call failed
+interface Trc20Metadata {
+    name: string | null;
+    symbol: string | null;
+    decimals: number | null;
+}
+
 interface TronBlock {
     blockID: string;
     block_header: {
@@ -93,12 +152,22 @@ interface TronBlock {
     transactions?: TronTransactionFromBlock[];
 }
 
-export class TronPollingMonitor {
+// State of one block scan, threaded through the block processors
+interface TronBlockScanState {
+    handler: EventHandlerCallback | null; // Null when backfilling: historical transfers are not live events
+    blockOutbox: OutboxEventInput[]; // Notifications from the block being processed, queued with its cursor commit
+    recordedTransfers: number; // Transfers written to the ledger, counted for backfill progress
+}
+
+export class TronPollingMonitor implements ChainMonitor {
     private addressManager: AddressManager;
     private eventHandler: EventHandlerCallback | null;
-    private notificationService: NotificationService;
     private tokenService: TokenService;
     private tronWebInstance: TronWebLib.TronWeb; // Instance to be used
+    private cursorService: BlockCursorService;
+    private providerPool: RpcProviderPool;
+    private transferLedger: TransferLedgerService;
+    private addressFreezeService: AddressFreezeService;
 
     // Polling intervals
     private blockPollingInterval: NodeJS.Timeout | null = null;
@@ -107,8 +176,13 @@ export class TronPollingMonitor {
 
     // Tracking state
     private lastProcessedBlockNumber = 0;
+    private latestBlockNumber: number | null = null;
+    private pendingRewindTo: number | null = null; // Set by an admin cursor rewind, applied before the next poll
     // private lastProcessedTokenTimestamp = 0; // Will be replaced by per-token timestamps
     private tokenLastProcessedTimestamps: Map<string, number> = new Map(); // Key: tokenContractAddress, Value: timestamp
+    private trc10AssetCache: Map<string, Trc10AssetInfo> = new Map(); // Key: TRC10 asset ID; issued assets never change precision
+    private trc20MetadataCache: Map<string, Trc20Metadata> = new Map(); // Key: Base58 contract address of an unlisted TRC20 token
+    private unknownTokenService: UnknownTokenService;
 
     private isPolling = false; // Used for native block polling
     private isInitialized = false; // New flag to track initialization
@@ -117,12 +191,25 @@ export class TronPollingMonitor {
     private readonly TOKEN_POLLING_INTERVAL_MS = 10000; // 10 seconds
     private readonly MAX_TRANSACTIONS_PER_REQUEST = 50;
     private readonly TRON_CHAIN_ID = 728126428; // Tron mainnet chain ID
+    private readonly SOLIDIFIED_DEPTH = 19; // Blocks behind head after which a block is irreversible (2/3 of the 27 super representatives)
+    private readonly BLOCK_BATCH_SIZE = 100; // TronGrid's limit for getblockbylimitnext is 100
+    private readonly CHAIN_KEY = buildChainKey('TRON', 728126428);
 
     constructor(addressManager: AddressManager, handler: EventHandlerCallback | null) {
         this.addressManager = addressManager;
         this.eventHandler = handler;
-        this.notificationService = NotificationService.getInstance();
         this.tokenService = TokenService.getInstance();
+        this.unknownTokenService = UnknownTokenService.getInstance();
+        this.cursorService = BlockCursorService.getInstance();
+        this.transferLedger = TransferLedgerService.getInstance();
+        this.addressFreezeService = AddressFreezeService.getInstance();
+        this.providerPool = new RpcProviderPool(this.CHAIN_KEY, 'Tron', (appConfig.networks.tron.fullNodeUrls || [appConfig.networks.tron.wsUrl]).map(url => ({
+            url,
+            // TronGrid keys are only valid on TronGrid; other full nodes get no key header
+            headers: appConfig.networks.tron.apiKey && url.includes('trongrid.io') ? { 'TRON-PRO-API-KEY': appConfig.networks.tron.apiKey } : undefined,
+        })), {
+            probe: async provider => { await axios.post(`${provider.url}/wallet/getnowblock`, {}, { headers: provider.headers, timeout: appConfig.rpcPool.requestTimeoutMs }); },
+        });
         this.tronWebInstance = new TronWebLib.TronWeb({ // Ensure tronWebInstance is initialized here
             fullHost: appConfig.networks.tron.wsUrl || 'https://api.trongrid.io',
             // It's good practice to also include a private key if you need to sign anything,
@@ -204,31 +291,84 @@ export class TronPollingMonitor {
         return null;
     }
 
+    /**
+     * POSTs to the full node HTTP API, failing over between the configured full nodes.
+     */
+    private async postToFullNode(path: string, body: Record<string, unknown>) {
+        return this.providerPool.execute(provider => axios.post(`${provider.url}${path}`, body, {
+            headers: provider.headers,
+            timeout: appConfig.rpcPool.requestTimeoutMs,
+        }));
+    }
+
+    /**
+     * Which full node the monitor is currently using, with per-node health and latency.
+     */
+    public getProviderStatus(): RpcPoolStatus[] {
+        return [this.providerPool.getStatus()];
+    }
+
+    /**
+     * Resume from the persisted cursor when there is one, bounded by tronMaxCatchUpBlocks.
+     * Without a cursor (first run) start slightly behind the current head.
+     */
     private async initializeLastProcessedBlockNumber() {
         try {
-            const response = await axios.post(`${appConfig.networks.tron.wsUrl}/wallet/getnowblock`, {},
-                {
-                    headers: appConfig.networks.tron.apiKey ? { 'TRON-PRO-API-KEY': appConfig.networks.tron.apiKey } : undefined
-                }
-            );
+            const response = await this.postToFullNode('/wallet/getnowblock', {});
             const block = response.data as TronBlock;
-            if (block && block.block_header && block.block_header.raw_data && block.block_header.raw_data.number) {
-                // Start from 5 minutes ago worth of blocks, or current if that's too far back/complex to calculate initially
-                // For now, set to current block number minus a small buffer to avoid missing blocks during init.
-                // A common strategy is current block - N blocks, or find a block ~5 mins ago.
-                // Simplified: current block - 100 (approx 5 mins if 3s block time)
-                this.lastProcessedBlockNumber = Math.max(0, block.block_header.raw_data.number - 100);
-                logger.info(`Initialized lastProcessedBlockNumber to ${this.lastProcessedBlockNumber}`);
-            } else {
+            if (!block || !block.block_header || !block.block_header.raw_data || !block.block_header.raw_data.number) {
                 logger.warn('Could not fetch current block to initialize lastProcessedBlockNumber, starting from 0.');
                 this.lastProcessedBlockNumber = 0;
+                return;
+            }
+            const headBlockNumber = block.block_header.raw_data.number;
+            this.latestBlockNumber = headBlockNumber;
+
+            const cursor = await this.cursorService.getCursor(this.CHAIN_KEY);
+            if (!cursor) {
+                // Simplified: current block - 100 (approx 5 mins if 3s block time)
+                this.lastProcessedBlockNumber = Math.max(0, headBlockNumber - 100);
+                logger.info(`No persisted Tron cursor found. Initialized lastProcessedBlockNumber to ${this.lastProcessedBlockNumber}`);
+                return;
             }
+
+            const maxCatchUp = appConfig.networks.tron.tronMaxCatchUpBlocks ?? 28800;
+            const cursorBlockNumber = Number(cursor.lastProcessedBlock);
+            if (headBlockNumber - cursorBlockNumber > maxCatchUp) {
+                const skipTo = headBlockNumber - maxCatchUp;
+                logger.warn(`[Tron Polling] Cursor ${cursorBlockNumber} is ${headBlockNumber - cursorBlockNumber} blocks behind head ${headBlockNumber}, exceeding the catch-up window of ${maxCatchUp}. Blocks ${cursorBlockNumber + 1}-${skipTo} will NOT be scanned.`);
+                this.lastProcessedBlockNumber = skipTo;
+            } else {
+                this.lastProcessedBlockNumber = cursorBlockNumber;
+            }
+            logger.info(`Resumed lastProcessedBlockNumber from persisted cursor: ${this.lastProcessedBlockNumber} (head ${headBlockNumber})`);
         } catch (error) {
             logger.error('Error initializing lastProcessedBlockNumber:', error);
             this.lastProcessedBlockNumber = 0; // Fallback
         }
     }
 
+    private handleCursorRewind = (event: CursorRewindEvent): void => {
+        if (event.chainKey !== this.CHAIN_KEY) {
+            return;
+        }
+        this.pendingRewindTo = Number(event.lastProcessedBlock);
+        logger.warn(`[Tron Polling] Cursor rewind requested. Scanning will resume at block ${this.pendingRewindTo + 1}.`);
+    };
+
+    /**
+     * Current scan position, used to report how far behind the Tron monitor is.
+     */
+    public getCursorStatus(): MonitorCursorStatus[] {
+        return [{
+            chainId: this.TRON_CHAIN_ID,
+            chainKey: this.CHAIN_KEY,
+            lastProcessedBlock: this.isInitialized ? this.lastProcessedBlockNumber.toString() : null,
+            headBlock: this.latestBlockNumber !== null ? this.latestBlockNumber.toString() : null,
+            lag: this.isInitialized && this.latestBlockNumber !== null ? this.latestBlockNumber - this.lastProcessedBlockNumber : null,
+        }];
+    }
+
     /**
      * Start polling for Tron transactions
      */
@@ -244,6 +384,9 @@ export class TronPollingMonitor {
             await this.initializeLastProcessedBlockNumber();
         }
 
+        this.cursorService.on('rewind', this.handleCursorRewind);
+        this.providerPool.startHealthChecks();
+
         // Start unified block polling for BOTH native TRX and TRC20 transfers
         this.startBlockPolling();
 
@@ -293,9 +436,12 @@ export class TronPollingMonitor {
         this.isPolling = true;
 
         try {
-            const response = await axios.post(`${appConfig.networks.tron.wsUrl}/wallet/getnowblock`, {}, {
-                headers: appConfig.networks.tron.apiKey ? { 'TRON-PRO-API-KEY': appConfig.networks.tron.apiKey } : undefined
-            });
+            if (this.pendingRewindTo !== null) {
+                this.lastProcessedBlockNumber = this.pendingRewindTo;
+                this.pendingRewindTo = null;
+            }
+
+            const response = await this.postToFullNode('/wallet/getnowblock', {});
 
             const latestBlock = response.data as TronBlock;
             if (!latestBlock?.block_header?.raw_data?.number) {
@@ -303,6 +449,7 @@ export class TronPollingMonitor {
                 return;
             }
             const latestBlockNumber = latestBlock.block_header.raw_data.number;
+            this.latestBlockNumber = latestBlockNumber;
 
             if (latestBlockNumber > this.lastProcessedBlockNumber) {
                 const blocksToProcess = latestBlockNumber - this.lastProcessedBlockNumber;
@@ -316,26 +463,19 @@ export class TronPollingMonitor {
                 const trackedAddressesSet = new Set(validTronAddresses.map(addr => addr.toLowerCase()));
 
                 const tronTokens = await this.tokenService.getTronTokens();
-                const trackedTokenContracts = new Map<string, any>();
-                for (const token of tronTokens) {
-                    const tronAddress = token.addresses.find((addr: any) => addr.chain === 'tron');
-                    if (tronAddress) {
-                        trackedTokenContracts.set(tronAddress.address.toLowerCase(), token);
-                    }
-                }
+                const trackedTokenContracts = this.getTrackedTokenContracts(tronTokens);
+                const freezeContracts = this.getFreezeWatchedContracts(tronTokens);
 
-                const BATCH_SIZE = 100; // TronGrid's limit for getblockbylimitnext is 100
                 let currentBlock = this.lastProcessedBlockNumber + 1;
                 let batchFailed = false;
 
-                while (currentBlock <= latestBlockNumber && !batchFailed) {
-                    const endBlock = Math.min(currentBlock + BATCH_SIZE - 1, latestBlockNumber);
+                while (currentBlock <= latestBlockNumber && !batchFailed && this.pendingRewindTo === null) {
+                    const endBlock = Math.min(currentBlock + this.BLOCK_BATCH_SIZE - 1, latestBlockNumber);
                     logger.info(`[Tron Polling] Fetching blocks from ${currentBlock} to ${endBlock}.`);
 
                     try {
-                        const batchResponse = await axios.post(`${appConfig.networks.tron.wsUrl}/wallet/getblockbylimitnext`,
-                            { startNum: currentBlock, endNum: endBlock + 1 }, // endNum is exclusive
-                            { headers: appConfig.networks.tron.apiKey ? { 'TRON-PRO-API-KEY': appConfig.networks.tron.apiKey } : undefined }
+                        const batchResponse = await this.postToFullNode('/wallet/getblockbylimitnext',
+                            { startNum: currentBlock, endNum: endBlock + 1 } // endNum is exclusive
                         );
 
                         const blocks: TronBlock[] = batchResponse.data.block;
@@ -345,12 +485,21 @@ export class TronPollingMonitor {
                         }
 
                         for (const block of blocks) {
+                            if (this.pendingRewindTo !== null) {
+                                break; // Re-read the position from the rewind on the next cycle
+                            }
                             const blockNum = block.block_header.raw_data.number;
                             // It's possible the API gives us blocks we already processed if there are edge cases,
                             // or if a previous cycle failed midway through a batch.
                             if (blockNum > this.lastProcessedBlockNumber) {
-                                const success = await this.processBlock(block, trackedAddressesSet, trackedTokenContracts);
+                                const state: TronBlockScanState = { handler: this.eventHandler, blockOutbox: [], recordedTransfers: 0 };
+                                const success = await this.processBlock(block, state, trackedAddressesSet, trackedTokenContracts, freezeContracts);
                                 if (success) {
+                                    await this.cursorService.commit(this.CHAIN_KEY, 'TRON', BigInt(blockNum), {
+                                        blockHash: block.blockID,
+                                        headBlock: BigInt(latestBlockNumber),
+                                        outboxEvents: state.blockOutbox,
+                                    });
                                     this.lastProcessedBlockNumber = blockNum; // Update state only after successful processing
                                 } else {
                                     logger.warn(`[Tron Polling] Halting current batch processing due to failure at block ${blockNum}. Will retry.`);
@@ -373,13 +522,105 @@ export class TronPollingMonitor {
         }
     }
 
+    /**
+     * Scans solidified blocks for transfers of the given addresses through the same processors as
+     * live polling, without the event handler. Issuer freezes and the persisted cursor are left alone.
+     */
+    public async backfill(request: BackfillRequest, onProgress: (progress: BackfillProgress) => Promise<void>): Promise<BackfillProgress> {
+        if (request.chainKey !== this.CHAIN_KEY) {
+            throw new Error(`Chain ${request.chainKey} is not being monitored.`);
+        }
+        const trackedAddressesSet = new Set(request.addresses
+            .map(address => this.normalizeAndValidateTronAddress(address))
+            .filter((address): address is string => address !== null)
+            .map(address => address.toLowerCase()));
+
+        const settledHead = (await this.getBlockByNumber()).block_header.raw_data.number - this.SOLIDIFIED_DEPTH;
+        const fromBlock = request.fromBlock !== undefined ? Number(request.fromBlock) : await this.findFirstBlockAtOrAfter(request.since ?? new Date(0), settledHead);
+        const requestedTo = request.toBlock !== undefined ? Number(request.toBlock) : (request.until ? await this.findFirstBlockAtOrAfter(request.until, settledHead) - 1 : settledHead);
+        const toBlock = Math.min(requestedTo, settledHead);
+        if (fromBlock > toBlock) {
+            throw new Error(`Invalid range: no solidified Tron blocks between ${fromBlock} and ${requestedTo}.`);
+        }
+        if (toBlock - fromBlock + 1 > appConfig.backfill.maxBlocks) {
+            throw new Error(`Invalid range: ${toBlock - fromBlock + 1} Tron blocks exceed the backfill limit of ${appConfig.backfill.maxBlocks}.`);
+        }
+
+        const trackedTokenContracts = this.getTrackedTokenContracts(await this.tokenService.getTronTokens());
+        const state: TronBlockScanState = { handler: null, blockOutbox: [], recordedTransfers: 0 };
+        const progress: BackfillProgress = { fromBlock: fromBlock.toString(), toBlock: toBlock.toString(), lastScannedBlock: null, transfersFound: 0 };
+        const outboxService = OutboxService.getInstance();
+        logger.info(`[Tron Polling] Backfilling blocks ${fromBlock}-${toBlock} for ${trackedAddressesSet.size} address(es).`);
+
+        for (let batchStart = fromBlock; batchStart <= toBlock && trackedAddressesSet.size > 0; batchStart += this.BLOCK_BATCH_SIZE) {
+            const batchEnd = Math.min(batchStart + this.BLOCK_BATCH_SIZE - 1, toBlock);
+            const response = await this.postToFullNode('/wallet/getblockbylimitnext', { startNum: batchStart, endNum: batchEnd + 1 }); // endNum is exclusive
+            const blocks: TronBlock[] = response.data?.block ?? [];
+            if (blocks.length !== batchEnd - batchStart + 1) {
+                throw new Error(`Blocks ${batchStart}-${batchEnd} not available.`);
+            }
+            for (const block of blocks) {
+                if (request.isCancelled()) {
+                    return progress;
+                }
+                state.blockOutbox = [];
+                // No freeze contracts: issuer freezes are only tracked live
+                if (!await this.processBlock(block, state, trackedAddressesSet, trackedTokenContracts, new Map())) {
+                    throw new Error(`Block ${block.block_header.raw_data.number} could not be processed.`);
+                }
+                progress.transfersFound = state.recordedTransfers;
+                if (request.notify) {
+                    await outboxService.enqueue(state.blockOutbox);
+                }
+            }
+            progress.lastScannedBlock = batchEnd.toString();
+            await onProgress(progress);
+        }
+        return progress;
+    }
+
+    /**
+     * The block with the given number, or the current head without one.
+     */
+    private async getBlockByNumber(num?: number): Promise<TronBlock> {
+        const response = num === undefined
+            ? await this.postToFullNode('/wallet/getnowblock', {})
+            : await this.postToFullNode('/wallet/getblockbynum', { num });
+        const block = response.data as TronBlock;
+        if (!block?.block_header?.raw_data) {
+            throw new Error(`Tron block ${num ?? 'head'} not available.`);
+        }
+        return block;
+    }
+
+    /**
+     * Binary search for the first block produced at or after `time`.
+     * @returns `head + 1` when even the head block is older
+     */
+    private async findFirstBlockAtOrAfter(time: Date, head: number): Promise<number> {
+        let low = 0;
+        let high = head + 1;
+        while (low < high) {
+            const mid = Math.floor((low + high) / 2);
+            const block = await this.getBlockByNumber(mid);
+            if (block.block_header.raw_data.timestamp < time.getTime()) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low;
+    }
+
     /**
      * Process a single block for both native TRX and TRC20 transfers
      */
     private async processBlock(
         block: TronBlock,
+        state: TronBlockScanState,
         trackedAddressesSet: Set<string>,
-        trackedTokenContracts: Map<string, any>
+        trackedTokenContracts: Map<string, any>,
+        freezeContracts: Map<string, FreezeWatchedContract>
     ): Promise<boolean> {
         const blockNum = block.block_header.raw_data.number;
         try {
@@ -390,6 +631,8 @@ export class TronPollingMonitor {
 
             let nativeTransfers = 0;
             let trc20Transfers = 0;
+            let trc10Transfers = 0;
+            let hasContractCalls = false;
 
             for (const tx of block.transactions) {
                 if (!tx.raw_data || !tx.raw_data.contract) continue;
@@ -397,17 +640,34 @@ export class TronPollingMonitor {
                 for (const contract of tx.raw_data.contract) {
                     let processed = false;
                     if (contract.type === 'TransferContract') {
-                        processed = await this.processNativeTransferFromBlock(tx, contract, blockNum, trackedAddressesSet);
+                        processed = await this.processNativeTransferFromBlock(tx, contract, block, state, trackedAddressesSet);
                         if (processed) nativeTransfers++;
                     } else if (contract.type === 'TriggerSmartContract') {
-                        processed = await this.processTRC20TransferFromBlock(tx, contract, blockNum, trackedAddressesSet, trackedTokenContracts);
+                        hasContractCalls = true;
+                        processed = await this.processTRC20TransferFromBlock(tx, contract, block, state, trackedAddressesSet, trackedTokenContracts);
                         if (processed) trc20Transfers++;
+                    } else if (contract.type === 'TransferAssetContract') {
+                        processed = await this.processTRC10TransferFromBlock(tx, contract, block, state, trackedAddressesSet, trackedTokenContracts);
+                        if (processed) trc10Transfers++;
                     }
                 }
             }
 
-            if (nativeTransfers > 0 || trc20Transfers > 0) {
-                logger.info(`Block ${blockNum}: Found ${nativeTransfers} native TRX transfers and ${trc20Transfers} TRC20 transfers`);
+            // Internal TRX payments and issuer blacklist events only show in the transaction infos
+            let internalTransfers = 0;
+            let freezeEvents = 0;
+            if (hasContractCalls && trackedAddressesSet.size > 0) {
+                const response = await this.postToFullNode('/wallet/gettransactioninfobyblocknum', { num: blockNum });
+                const infos: TronTransactionInfo[] = Array.isArray(response.data) ? response.data : [];
+                internalTransfers = await this.processInternalTransfersFromBlock(block, state, infos, trackedAddressesSet);
+                freezeEvents = await this.processFreezeEventsFromBlock(block, state, infos, trackedAddressesSet, freezeContracts);
+            }
+
+            if (nativeTransfers > 0 || trc20Transfers > 0 || trc10Transfers > 0 || internalTransfers > 0) {
+                logger.info(`Block ${blockNum}: Found ${nativeTransfers} native TRX transfers, ${internalTransfers} internal TRX transfers, ${trc20Transfers} TRC20 transfers and ${trc10Transfers} TRC10 transfers`);
+            }
+            if (freezeEvents > 0) {
+                logger.warn(`Block ${blockNum}: Found ${freezeEvents} issuer freeze event(s) for tracked addresses`);
             }
             return true;
         } catch (error: any) {
@@ -425,29 +685,36 @@ export class TronPollingMonitor {
     private async processNativeTransferFromBlock(
         tx: TronTransactionFromBlock,
         contract: any,
-        blockNum: number,
+        block: TronBlock,
+        state: TronBlockScanState,
         trackedAddressesSet: Set<string>
     ): Promise<boolean> {
         if (!contract.parameter.value.to_address) return false;
+        const blockNum = block.block_header.raw_data.number;
 
         try {
             const toAddressHex = contract.parameter.value.to_address;
             const toAddressBase58 = this.tronWebInstance.address.fromHex(toAddressHex);
+            const ownerAddressBase58 = this.tronWebInstance.address.fromHex(contract.parameter.value.owner_address);
+            const directions = this.getTransferDirections(ownerAddressBase58, toAddressBase58, trackedAddressesSet);
 
-            if (trackedAddressesSet.has(toAddressBase58.toLowerCase())) {
-                logger.info(`[TRON NATIVE] Block: ${blockNum}, TX: ${tx.txID}, To: ${toAddressBase58}, Amount: ${contract.parameter.value.amount / 1_000_000} TRX`);
+            if (directions.length > 0) {
+                logger.info(`[TRON NATIVE] Block: ${blockNum}, TX: ${tx.txID}, ${directions.join('/')}, From: ${ownerAddressBase58}, To: ${toAddressBase58}, Amount: ${contract.parameter.value.amount / 1_000_000} TRX`);
 
                 const tronTx: TronTransaction = {
                     txID: tx.txID,
                     blockNumber: blockNum,
-                    blockTimeStamp: tx.raw_data.timestamp,
+                    blockHash: block.blockID,
+                    blockTimeStamp: block.block_header.raw_data.timestamp,
                     contractType: 1,
-                    ownerAddress: this.tronWebInstance.address.fromHex(contract.parameter.value.owner_address),
+                    ownerAddress: ownerAddressBase58,
                     toAddress: toAddressBase58,
                     amount: contract.parameter.value.amount,
                     contractRet: 'SUCCESS'
                 };
-                await this.processNativeTransfer(tronTx);
+                for (const direction of directions) {
+                    await this.processNativeTransfer(state, tronTx, direction);
+                }
                 return true;
             }
         } catch (error: any) {
@@ -456,16 +723,151 @@ export class TronPollingMonitor {
         return false;
     }
 
+    /**
+     * Process TRX sent by contracts (exchange withdrawals, multisig wallets), which appears in the
+     * internal transactions of the transaction info rather than as a TransferContract.
+     * @returns Number of internal TRX transfers touching tracked addresses
+     */
+    private async processInternalTransfersFromBlock(block: TronBlock, state: TronBlockScanState, infos: TronTransactionInfo[], trackedAddressesSet: Set<string>): Promise<number> {
+        const blockNum = block.block_header.raw_data.number;
+        let transfers = 0;
+        for (const info of infos) {
+            if (!info.internal_transactions || info.result === 'FAILED') continue;
+
+            for (const [index, internalTx] of info.internal_transactions.entries()) {
+                const trxValue = internalTx.callValueInfo?.find(callValue => !callValue.tokenId)?.callValue ?? 0;
+                if (internalTx.rejected || trxValue <= 0) continue;
+
+                try {
+                    const fromAddress = this.tronWebInstance.address.fromHex(internalTx.caller_address);
+                    const toAddress = this.tronWebInstance.address.fromHex(internalTx.transferTo_address);
+                    const directions = this.getTransferDirections(fromAddress, toAddress, trackedAddressesSet);
+                    if (directions.length === 0) continue;
+
+                    logger.info(`[TRON INTERNAL] Block: ${blockNum}, TX: ${info.id}, ${directions.join('/')}, From: ${fromAddress}, To: ${toAddress}, Amount: ${trxValue / 1_000_000} TRX`);
+                    const tronTx: TronTransaction = {
+                        txID: info.id,
+                        blockNumber: blockNum,
+                        blockHash: block.blockID,
+                        blockTimeStamp: block.block_header.raw_data.timestamp,
+                        contractType: 31, // TriggerSmartContract
+                        ownerAddress: fromAddress,
+                        toAddress,
+                        amount: trxValue,
+                        contractRet: 'SUCCESS'
+                    };
+                    // Log indexes -2, -3, ... keep internal transfers apart from the transaction's own TRX (-1) and TRC20 (0) transfers
+                    for (const direction of directions) {
+                        await this.processNativeTransfer(state, tronTx, direction, -2 - index);
+                    }
+                    transfers++;
+                } catch (error: any) {
+                    logger.warn(`Error processing internal transfer ${index} in block ${blockNum}, tx ${info.id}:`, error.message);
+                }
+            }
+        }
+        return transfers;
+    }
+
+    /**
+     * Tokens table entries keyed by their lowercased Tron contract address (or TRC10 asset ID).
+     */
+    private getTrackedTokenContracts(tronTokens: Array<{ addresses: Array<{ chain: string; address: string }> }>): Map<string, any> {
+        const contracts = new Map<string, any>();
+        for (const token of tronTokens) {
+            const tronAddress = token.addresses.find(addr => addr.chain === 'tron');
+            if (tronAddress) {
+                contracts.set(tronAddress.address.toLowerCase(), token);
+            }
+        }
+        return contracts;
+    }
+
+    /**
+     * Contracts of the `freezeMonitor.tokenSymbols` tokens on Tron, keyed by their hex address
+     * without the 41 prefix, as transaction info logs report it.
+     */
+    private getFreezeWatchedContracts(tronTokens: Array<{ symbol: string; addresses: Array<{ chain: string; address: string }> }>): Map<string, FreezeWatchedContract> {
+        const contracts = new Map<string, FreezeWatchedContract>();
+        for (const token of tronTokens) {
+            const tronAddress = token.addresses.find(addr => addr.chain === 'tron')?.address;
+            if (!tronAddress || !appConfig.freezeMonitor.tokenSymbols.includes(token.symbol.toUpperCase())) {
+                continue;
+            }
+            try {
+                const hexAddress = this.tronWebInstance.address.toHex(tronAddress).toLowerCase();
+                contracts.set(hexAddress.slice(2), { symbol: token.symbol, address: tronAddress });
+            } catch (error: any) {
+                logger.warn(`[TRON FREEZE] Invalid ${token.symbol} contract address ${tronAddress}: ${error.message}`);
+            }
+        }
+        return contracts;
+    }
+
+    /**
+     * Records USDT/USDC issuer freezes and unfreezes of tracked addresses and queues their alerts
+     * with the block's cursor commit.
+     * @returns Number of freeze events touching tracked addresses
+     */
+    private async processFreezeEventsFromBlock(
+        block: TronBlock,
+        state: TronBlockScanState,
+        infos: TronTransactionInfo[],
+        trackedAddressesSet: Set<string>,
+        freezeContracts: Map<string, FreezeWatchedContract>
+    ): Promise<number> {
+        if (freezeContracts.size === 0) {
+            return 0;
+        }
+        const blockNum = block.block_header.raw_data.number;
+        let events = 0;
+        for (const info of infos) {
+            if (!info.log || info.result === 'FAILED') continue;
+
+            for (const [index, log] of info.log.entries()) {
+                const contract = freezeContracts.get(log.address?.toLowerCase());
+                if (!contract || !log.topics) continue;
+                const change = decodeFreezeLog(log.topics.map(topic => `0x${topic}` as Hex), `0x${log.data ?? ''}` as Hex);
+                if (!change) continue;
+                const address = this.tronWebInstance.address.fromHex(`41${change.account.slice(2)}`);
+                if (!trackedAddressesSet.has(address.toLowerCase())) continue;
+
+                const freeze: FreezeEvent = {
+                    chainKey: this.CHAIN_KEY,
+                    chainType: 'TRON',
+                    chainName: 'Tron',
+                    chainId: this.TRON_CHAIN_ID,
+                    address,
+                    frozen: change.frozen,
+                    tokenSymbol: contract.symbol,
+                    tokenContractAddress: contract.address,
+                    transactionHash: info.id,
+                    blockNumber: blockNum.toString(),
+                    blockHash: block.blockID,
+                    blockTimestamp: new Date(block.block_header.raw_data.timestamp).toISOString(),
+                    logIndex: index,
+                };
+                if (await this.addressFreezeService.recordFreezeEvent(freeze)) {
+                    state.blockOutbox.push(buildFreezeOutboxEvent(freeze));
+                }
+                events++;
+            }
+        }
+        return events;
+    }
+
     /**
      * Process TRC20 transfer from block data - NEW SCALABLE APPROACH
      */
     private async processTRC20TransferFromBlock(
         tx: TronTransactionFromBlock,
         contract: any,
-        blockNum: number,
+        block: TronBlock,
+        state: TronBlockScanState,
         trackedAddressesSet: Set<string>,
         trackedTokenContracts: Map<string, any>
     ): Promise<boolean> {
+        const blockNum = block.block_header.raw_data.number;
         try {
             const contractData = contract.parameter.value;
             const contractAddressHex = contractData.contract_address;
@@ -473,62 +875,79 @@ export class TronPollingMonitor {
                 return false;
             }
 
-            const contractAddressBase58 = this.tronWebInstance.address.fromHex(contractAddressHex);
-            const tokenInfo = trackedTokenContracts.get(contractAddressBase58.toLowerCase());
-            if (!tokenInfo) {
-                return false;
-            }
-
             const decoded = this.decodeTRC20Transfer(contractData.data);
             if (!decoded) {
                 return false;
             }
 
             const toAddress = decoded.to;
-            if (!trackedAddressesSet.has(toAddress.toLowerCase())) {
+            const fromAddress = this.tronWebInstance.address.fromHex(contractData.owner_address);
+            const directions = this.getTransferDirections(fromAddress, toAddress, trackedAddressesSet);
+            if (directions.length === 0) {
                 return false;
             }
 
-            const fromAddress = this.tronWebInstance.address.fromHex(contractData.owner_address);
+            const contractAddressBase58 = this.tronWebInstance.address.fromHex(contractAddressHex);
+            const tokenInfo = trackedTokenContracts.get(contractAddressBase58.toLowerCase());
+            let tokenSymbol: string;
+            let tokenDecimals: number;
+            let tokenPrice = 0;
+            if (tokenInfo) {
+                tokenSymbol = tokenInfo.symbol;
+                tokenDecimals = tokenInfo.decimals;
+                tokenPrice = tokenInfo.price || 0;
+            } else {
+                // Not in the tokens table: alert as unpriced with the contract's own metadata and queue it for review
+                const metadata = await this.getTrc20Metadata(contractAddressBase58);
+                await this.unknownTokenService.recordSighting({ chain: 'tron', address: contractAddressBase58, ...metadata });
+                tokenSymbol = metadata.symbol ?? 'UNKNOWN';
+                tokenDecimals = metadata.decimals ?? 0;
+            }
 
-            logger.info(`[TRON TRC20] Block: ${blockNum}, TX: ${tx.txID}, From: ${fromAddress}, To: ${toAddress}, Token: ${tokenInfo.symbol}, Amount: ${decoded.amount}`);
+            logger.info(`[TRON TRC20] Block: ${blockNum}, TX: ${tx.txID}, ${directions.join('/')}, From: ${fromAddress}, To: ${toAddress}, Token: ${tokenSymbol}${tokenInfo ? '' : ` (unlisted ${contractAddressBase58})`}, Amount: ${decoded.amount}`);
 
             const numericAmount = BigInt(decoded.amount);
-            const formattedAmount = formatUnits(numericAmount, tokenInfo.decimals);
-            const usdValue = tokenInfo.price ? parseFloat(formattedAmount) * tokenInfo.price : 0;
-
-            await this.notificationService.notifyDeposit(
-                toAddress,
-                decoded.amount,
-                formattedAmount,
-                tokenInfo.symbol,
-                tokenInfo.decimals,
-                contractAddressBase58,
-                usdValue,
-                tx.txID,
-                fromAddress,
-                BigInt(blockNum),
-                {
-                    chainId: this.TRON_CHAIN_ID,
-                    chainName: 'Tron',
-                    chainType: 'TRON'
-                }
-            );
+            const formattedAmount = formatUnits(numericAmount, tokenDecimals);
+            const usdValue = tokenPrice ? parseFloat(formattedAmount) * tokenPrice : 0;
+            const context = {
+                chainId: this.TRON_CHAIN_ID,
+                chainName: 'Tron',
+                chainType: 'TRON' as const,
+                ...(!tokenInfo && { unpriced: true }),
+            };
 
-            if (this.eventHandler) {
-                this.eventHandler({
-                    type: 'ERC20',
-                    chainId: this.TRON_CHAIN_ID,
-                    data: {
-                        from: fromAddress as Hex,
-                        to: toAddress as Hex,
-                        value: BigInt(decoded.amount),
-                        transactionHash: tx.txID as Hex,
-                        blockNumber: BigInt(blockNum),
-                        logIndex: 0,
-                        tokenContract: contractAddressBase58 as Hex,
-                    }
+            for (const direction of directions) {
+                await this.dispatchTransfer(state, block.blockID, block.block_header.raw_data.timestamp, 0, {
+                    direction,
+                    recipientAddress: toAddress,
+                    rawValue: decoded.amount,
+                    formattedValue: formattedAmount,
+                    tokenSymbol,
+                    tokenDecimals,
+                    tokenContractAddress: contractAddressBase58,
+                    usdValue,
+                    transactionHash: tx.txID,
+                    senderAddress: fromAddress,
+                    blockNumber: blockNum.toString(),
+                    context,
                 });
+
+                if (state.handler) {
+                    state.handler({
+                        type: 'ERC20',
+                        chainId: this.TRON_CHAIN_ID,
+                        direction,
+                        data: {
+                            from: fromAddress as Hex,
+                            to: toAddress as Hex,
+                            value: BigInt(decoded.amount),
+                            transactionHash: tx.txID as Hex,
+                            blockNumber: BigInt(blockNum),
+                            logIndex: 0,
+                            tokenContract: contractAddressBase58 as Hex,
+                        }
+                    });
+                }
             }
             return true;
         } catch (error: any) {
@@ -537,6 +956,212 @@ export class TronPollingMonitor {
         }
     }
 
+    /**
+     * Process a TRC10 (TransferAssetContract) transfer from block data. TRC10 assets are priced
+     * when registered in the tokens table under chain 'tron' with their numeric asset ID as address;
+     * others are alerted as unpriced and queued for review like unlisted TRC20 contracts.
+     */
+    private async processTRC10TransferFromBlock(
+        tx: TronTransactionFromBlock,
+        contract: any,
+        block: TronBlock,
+        state: TronBlockScanState,
+        trackedAddressesSet: Set<string>,
+        trackedTokenContracts: Map<string, any>
+    ): Promise<boolean> {
+        const blockNum = block.block_header.raw_data.number;
+        try {
+            const value = contract.parameter.value;
+            if (!value.to_address || !value.asset_name || tx.ret?.[0]?.contractRet !== 'SUCCESS') {
+                return false;
+            }
+
+            const toAddress = this.tronWebInstance.address.fromHex(value.to_address);
+            const fromAddress = this.tronWebInstance.address.fromHex(value.owner_address);
+            const directions = this.getTransferDirections(fromAddress, toAddress, trackedAddressesSet);
+            if (directions.length === 0) {
+                return false;
+            }
+
+            // Since the AllowSameTokenName proposal, transfers name the asset by its numeric ID
+            const assetId = Buffer.from(value.asset_name, 'hex').toString('utf8');
+            if (!/^\d+$/.test(assetId)) {
+                logger.warn(`[TRON TRC10] Block: ${blockNum}, TX: ${tx.txID}: asset '${assetId}' is not a numeric asset ID. Skipping.`);
+                return false;
+            }
+
+            const tokenInfo = trackedTokenContracts.get(assetId);
+            const assetInfo = await this.getTrc10Asset(assetId);
+            if (!tokenInfo) {
+                // Not in the tokens table: alert as unpriced with the asset's own metadata and queue it for review
+                await this.unknownTokenService.recordSighting({
+                    chain: 'tron',
+                    address: assetId,
+                    symbol: assetInfo?.abbr || null,
+                    name: assetInfo?.name || null,
+                    decimals: assetInfo ? assetInfo.precision : null,
+                });
+            }
+            const tokenSymbol = tokenInfo?.symbol ?? (assetInfo?.abbr || assetInfo?.name || `TRC10-${assetId}`);
+            const decimals = assetInfo?.precision ?? tokenInfo?.decimals ?? 0;
+            const formattedAmount = formatUnits(BigInt(value.amount), decimals);
+            const usdValue = tokenInfo?.price ? parseFloat(formattedAmount) * tokenInfo.price : 0;
+            logger.info(`[TRON TRC10] Block: ${blockNum}, TX: ${tx.txID}, ${directions.join('/')}, From: ${fromAddress}, To: ${toAddress}, Token: ${tokenSymbol} (${tokenInfo ? '' : 'unlisted '}${assetId}), Amount: ${formattedAmount}`);
+
+            for (const direction of directions) {
+                await this.dispatchTransfer(state, block.blockID, block.block_header.raw_data.timestamp, 0, {
+                    direction,
+                    recipientAddress: toAddress,
+                    rawValue: value.amount.toString(),
+                    formattedValue: formattedAmount,
+                    tokenSymbol,
+                    tokenDecimals: decimals,
+                    tokenContractAddress: assetId,
+                    usdValue,
+                    transactionHash: tx.txID,
+                    senderAddress: fromAddress,
+                    blockNumber: blockNum.toString(),
+                    context: {
+                        chainId: this.TRON_CHAIN_ID,
+                        chainName: 'Tron',
+                        chainType: 'TRON',
+                        tokenStandard: 'TRC10',
+                        ...(!tokenInfo && { unpriced: true }),
+                    },
+                });
+
+                if (state.handler) {
+                    state.handler({
+                        type: 'ERC20',
+                        chainId: this.TRON_CHAIN_ID,
+                        direction,
+                        data: {
+                            from: fromAddress as Hex,
+                            to: toAddress as Hex,
+                            value: BigInt(value.amount),
+                            transactionHash: tx.txID as Hex,
+                            blockNumber: BigInt(blockNum),
+                            logIndex: 0,
+                            tokenContract: assetId as Hex,
+                        }
+                    });
+                }
+            }
+            return true;
+        } catch (error: any) {
+            logger.error(`[TronBlockScanner] Error processing TRC10 transfer in tx ${tx.txID}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Name, abbreviation and precision of a TRC10 asset, cached per asset ID.
+     * @returns null when the full node does not know the asset or cannot be reached
+     */
+    private async getTrc10Asset(assetId: string): Promise<Trc10AssetInfo | null> {
+        const cached = this.trc10AssetCache.get(assetId);
+        if (cached) {
+            return cached;
+        }
+        try {
+            const response = await this.postToFullNode('/wallet/getassetissuebyid', { value: assetId });
+            const asset = response.data;
+            if (!asset?.id) {
+                return null;
+            }
+            // Name and abbreviation are hex-encoded; precision is omitted for assets issued with 0 decimals
+            const info: Trc10AssetInfo = {
+                id: asset.id,
+                name: asset.name ? Buffer.from(asset.name, 'hex').toString('utf8') : '',
+                abbr: asset.abbr ? Buffer.from(asset.abbr, 'hex').toString('utf8') : '',
+                precision: asset.precision ?? 0,
+            };
+            this.trc10AssetCache.set(assetId, info);
+            return info;
+        } catch (error: any) {
+            logger.warn(`[TRON TRC10] Could not fetch metadata for asset ${assetId}: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Name, symbol and decimals of a TRC20 contract read through constant calls, cached per contract.
+     * Fields the contract does not implement (or returns in a non-standard encoding) are null.
+     */
+    private async getTrc20Metadata(contractAddress: string): Promise<Trc20Metadata> {
+        const cached = this.trc20MetadataCache.get(contractAddress);
+        if (cached) {
+            return cached;
+        }
+        const call = async (selector: string): Promise<string | null> => {
+            try {
+                const response = await this.postToFullNode('/wallet/triggerconstantcontract', {
+                    owner_address: contractAddress,
+                    contract_address: contractAddress,
+                    function_selector: selector,
+                    visible: true,
+                });
+                const result = response.data?.constant_result?.[0];
+                return response.data?.result?.result && result ? result : null;
+            } catch (error: any) {
+                logger.warn(`[TRON TRC20] ${selector} call to ${contractAddress} failed: ${error.message}`);
+                return null;
+            }
+        };
+        const decode = <T>(result: string | null, type: 'string' | 'uint8'): T | null => {
+            try {
+                return result ? decodeAbiParameters([{ type }], `0x${result}`)[0] as T : null;
+            } catch {
+                return null;
+            }
+        };
+
+        const [name, symbol, decimals] = [await call('name()'), await call('symbol()'), await call('decimals()')];
+        const metadata: Trc20Metadata = {
+            name: decode<string>(name, 'string') || null,
+            symbol: decode<string>(symbol, 'string') || null,
+            decimals: decode<number>(decimals, 'uint8'),
+        };
+        this.trc20MetadataCache.set(contractAddress, metadata);
+        return metadata;
+    }
+
+    /**
+     * Writes a detected transfer to the ledger and queues its alert for the block's cursor
+     * commit. Tron transfers are alerted as soon as they are seen, so they are recorded as confirmed.
+     */
+    private async dispatchTransfer(
+        state: TronBlockScanState,
+        blockHash: string,
+        blockTimestamp: number, // Milliseconds
+        logIndex: number,
+        payload: Omit<StoredDepositPayload, 'depositKey'>
+    ): Promise<void> {
+        const direction = payload.direction ?? 'incoming';
+        const depositKey = buildDepositKey(this.CHAIN_KEY, payload.transactionHash, logIndex, blockHash, direction);
+        await this.transferLedger.recordTransfer({
+            transferKey: depositKey,
+            chainKey: this.CHAIN_KEY,
+            chainType: 'TRON',
+            blockNumber: BigInt(payload.blockNumber),
+            blockHash,
+            blockTimestamp: blockTimestamp ? new Date(blockTimestamp) : null,
+            transactionHash: payload.transactionHash,
+            logIndex,
+            direction,
+            fromAddress: payload.senderAddress ?? '',
+            toAddress: payload.recipientAddress,
+            tokenSymbol: payload.tokenSymbol,
+            tokenContractAddress: payload.tokenContractAddress,
+            rawAmount: payload.rawValue,
+            decimals: payload.tokenDecimals,
+            usdValue: payload.context.unpriced ? null : payload.usdValue,
+            status: 'confirmed',
+        });
+        state.recordedTransfers++;
+        state.blockOutbox.push(buildTransferOutboxEvent(this.CHAIN_KEY, { ...payload, depositKey }));
+    }
+
     /**
      * Decode TRC20 transfer function call data
      * Transfer function signature: transfer(address _to, uint256 _value)
@@ -628,11 +1253,21 @@ export class TronPollingMonitor {
     }
 
     /**
-     * Process a native TRX transfer
+     * Directions in which a transfer touches the tracked set: incoming when the recipient
+     * is tracked, outgoing when the sender is. Addresses are compared lowercased.
      */
-    private async processNativeTransfer(tx: TronTransaction): Promise<void> {
-        if (!this.eventHandler) return;
+    private getTransferDirections(from: string, to: string, trackedAddressesSet: Set<string>): TransferDirection[] {
+        const directions: TransferDirection[] = [];
+        if (trackedAddressesSet.has(to.toLowerCase())) directions.push('incoming');
+        if (trackedAddressesSet.has(from.toLowerCase())) directions.push('outgoing');
+        return directions;
+    }
 
+    /**
+     * Process a native TRX transfer
+     * @param logIndex -1 for the transaction's own transfer; internal transfers use -2 and below
+     */
+    private async processNativeTransfer(state: TronBlockScanState, tx: TronTransaction, direction: TransferDirection = 'incoming', logIndex: number = -1): Promise<void> {
         try {
             const amount = tx.amount || 0;
             const fromAddress = tx.ownerAddress; // This is Base58 from adaptedTx
@@ -648,33 +1283,34 @@ export class TronPollingMonitor {
             const formattedAmount = (amount / Math.pow(10, tokenDecimals)).toString();
             const usdValue = tokenPrice ? (amount / Math.pow(10, tokenDecimals)) * tokenPrice : 0;
 
-            // Send notification
-            await this.notificationService.notifyDeposit(
-                toAddress, // recipientAddress
-                amount.toString(), // rawValue
-                formattedAmount, // formattedValue
-                'TRX', // tokenSymbol
-                tokenDecimals, // tokenDecimals
-                'TRX', // tokenContractAddress (native token symbol, or undefined)
-                usdValue, // usdValue
-                tx.txID, // transactionHash
-                fromAddress, // senderAddress
-                BigInt(tx.blockNumber), // blockNumber
-                { // depositContext
+            await this.dispatchTransfer(state, tx.blockHash ?? '', tx.blockTimeStamp, logIndex, {
+                direction,
+                recipientAddress: toAddress,
+                rawValue: amount.toString(),
+                formattedValue: formattedAmount,
+                tokenSymbol: 'TRX',
+                tokenDecimals,
+                tokenContractAddress: 'TRX', // Native token symbol
+                usdValue,
+                transactionHash: tx.txID,
+                senderAddress: fromAddress,
+                blockNumber: tx.blockNumber.toString(),
+                context: {
                     chainId: this.TRON_CHAIN_ID.toString(),
                     chainName: 'Tron',
                     chainType: 'TRON'
-                }
-            );
+                },
+            });
 
             // Convert addresses to hex format for consistency with EVM chains
             const fromHex = ('0x' + this.tronWebInstance.address.toHex(fromAddress)) as Hex;
             const toHex = ('0x' + this.tronWebInstance.address.toHex(toAddress)) as Hex;
 
             // Emit event
-            this.eventHandler({
+            state.handler?.({
                 type: 'NATIVE',
                 chainId: this.TRON_CHAIN_ID,
+                direction,
                 data: {
                     from: fromHex,
                     to: toHex,
@@ -694,6 +1330,9 @@ export class TronPollingMonitor {
     public stop(): void {
         logger.info('Stopping Tron transaction polling...');
 
+        this.cursorService.off('rewind', this.handleCursorRewind);
+        this.providerPool.stopHealthChecks();
+
         // Stop the main block polling interval
         if (this.blockPollingInterval) {
             clearInterval(this.blockPollingInterval);
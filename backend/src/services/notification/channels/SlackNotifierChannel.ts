@@ -1,7 +1,17 @@
 import logger from '../../../config/logger';
-import type { NotificationChannel, NotificationMessage } from '../notificationService';
+import { formatNftTokenList } from '../notificationService';
+import type { NftTransferDetails, NotificationChannel, NotificationMessage } from '../notificationService';
 import { prisma } from '../../../prisma';
 import { WebClient } from '@slack/web-api';
+import type { KnownBlock } from '@slack/web-api';
+import type { Prisma } from '@prisma/client';
+import { getEvmChainByName, getEvmExplorerTxUrl } from '../../../config/evmChains';
+import { NotificationDedupService } from '../notificationDedupService';
+import { buildDepositKey, parseDepositKey } from '../../confirmation/pendingDepositService';
+import { networkSelectionFilter } from '../../address/networkSelection';
+import type { FreezeEvent } from '../../freeze/addressFreezeService';
+import type { ApprovalEvent } from '../../token/tokenAllowanceService';
+import type { MempoolStage, MempoolTransfer } from '../../monitors/evmMempoolWatcher';
 
 interface SlackDepositMessageData {
     recipientAddress: string;
@@ -15,44 +25,182 @@ interface SlackDepositMessageData {
     senderAddress?: string;
     chainName: string;
     chainId: number | string;
-    chainType: 'EVM' | 'TRON';
+    chainType: 'EVM' | 'TRON' | 'BTC' | 'SOLANA';
     blockNumber?: bigint | number;
     summaryMessage?: string;
     totalBalance?: string;
+    confirmationStatus?: 'pending' | 'confirmed' | 'retracted';
+    confirmationsRequired?: number;
+    depositKey?: string;
+    direction?: 'incoming' | 'outgoing';
+    trackedAddress?: string; // The monitored wallet: the recipient of a deposit, the sender of a withdrawal
+    nft?: NftTransferDetails; // Set for ERC-721/ERC-1155 transfers, which get their own layout
+    unpriced?: boolean; // Token missing from the tokens table; usdValue is 0 for lack of a price
+    poisoning?: { lookalikeOf: string | null }; // Counterparty imitates an earlier one; alerted as a warning
     [key: string]: any;
 }
 
-function getExplorerLink(chainName: string, txHash: string): string {
-    const baseUrls: Record<string, string> = {
-        Tron: "https://tronscan.org/#/transaction/",
-        Ethereum: "https://etherscan.io/tx/",
-        Polygon: "https://polygonscan.com/tx/",
-        BNB: "https://bscscan.com/tx/",
-    };
-    return baseUrls[chainName] ? `${baseUrls[chainName]}${txHash}` : `#/tx/${txHash}`;
+// An alert about a tracked address that is not a transfer, e.g. an issuer freeze or a risky approval
+interface AddressAlert {
+    kind: string; // Notification log kind, e.g. 'freeze_slack'
+    trackedAddress: string;
+    chainType: string;
+    depositKey: string; // Claim key of the on-chain event, built with buildDepositKey()
+    summaryMessage?: string;
+    buildBlocks: (accountManager: string) => KnownBlock[]; // Slack Block Kit blocks
+    logPayload: Prisma.InputJsonObject; // Event details kept in the notification log
+    claimChannel?: string; // Dedup channel when the event must not share claims with the transfer alerts; defaults to 'slack'
+    stage?: 'pending' | 'confirmed' | 'retracted'; // Alerts with follow-ups: 'confirmed'/'retracted' update the message sent at 'pending'
+    usdValue?: number; // Checked against the company's deposit threshold when set
+}
+
+interface SentSlackMessage {
+    logId: number;
+    ts: string;
+    channel: string;
+    payload: Record<string, any>;
+}
+
+function getExplorerLink(chainName: string, txHash: string, chainId?: number | string): string {
+    if (chainName === 'Tron') {
+        return `https://tronscan.org/#/transaction/${txHash}`;
+    }
+    if (chainName === 'Bitcoin') {
+        return `https://mempool.space/tx/${txHash}`;
+    }
+    if (chainName === 'Solana') {
+        // chainId is the cluster; Solscan defaults to mainnet-beta
+        return chainId && chainId !== 'mainnet-beta'
+            ? `https://solscan.io/tx/${txHash}?cluster=${chainId}`
+            : `https://solscan.io/tx/${txHash}`;
+    }
+    const evmChain = getEvmChainByName(chainName);
+    return evmChain ? getEvmExplorerTxUrl(evmChain, txHash) : `#/tx/${txHash}`;
+}
+
+function getDepositHeader(depositData: SlackDepositMessageData): string {
+    if (depositData.poisoning && depositData.confirmationStatus !== 'retracted') {
+        return `*Address Poisoning Warning* (do not copy addresses from this transaction)`;
+    }
+    const kind = `${depositData.nft ? 'NFT ' : ''}${depositData.direction === 'outgoing' ? 'Withdrawal' : 'Deposit'}`;
+    switch (depositData.confirmationStatus) {
+        case 'pending':
+            return `*Pending ${kind} Detected* (awaiting ${depositData.confirmationsRequired ?? 'N/A'} confirmations)`;
+        case 'confirmed':
+            return `*New ${kind} Detected* (confirmed)`;
+        case 'retracted':
+            return `*${kind} Retracted* (removed by a chain reorganization)`;
+        default:
+            return `*New ${kind} Detected*`;
+    }
+}
+
+/**
+ * Main section of an NFT alert: the collection and token IDs take the place of the amount
+ * and USD value, which NFTs do not have.
+ */
+function buildNftSectionText(depositData: SlackDepositMessageData, nft: NftTransferDetails, trackedAddress: string, accountManager: string): string {
+    const collection = nft.collectionName
+        ? `${nft.collectionName}${nft.collectionSymbol ? ` (${nft.collectionSymbol})` : ''}`
+        : (nft.collectionSymbol ?? 'Unnamed collection');
+    const isWithdrawal = depositData.direction === 'outgoing';
+    return `${getDepositHeader(depositData)}
+*Wallet:* ${trackedAddress}
+*Account Manager:* ${accountManager}
+*Network:* ${depositData.chainName}
+*Collection:* ${collection}
+*Contract:* ${depositData.tokenContractAddress ?? 'N/A'} (${nft.standard === 'ERC721' ? 'ERC-721' : 'ERC-1155'})
+*Token IDs:* ${formatNftTokenList(nft)}
+${isWithdrawal
+        ? `*Sent To:* ${depositData.recipientAddress}`
+        : `*Deposit From:* ${depositData.senderAddress || 'N/A'}`}${nft.operator && nft.operator !== depositData.senderAddress ? `\n*Operator:* ${nft.operator}` : ''}`;
+}
+
+/**
+ * Message layout of an address alert: the details, a link to the transaction (red for high
+ * severity) and the transaction context line.
+ */
+function buildAddressAlertBlocks(text: string, explorerLink: string, highSeverity: boolean, context: string): KnownBlock[] {
+    return [
+        {
+            type: "section",
+            text: { type: "mrkdwn", text }
+        },
+        {
+            type: "actions",
+            elements: [
+                {
+                    type: "button",
+                    text: { type: "plain_text", text: "View Transaction" },
+                    url: explorerLink,
+                    style: highSeverity ? "danger" : "primary"
+                }
+            ]
+        },
+        {
+            type: "context",
+            elements: [{ type: "plain_text", text: context }]
+        }
+    ];
+}
+
+/**
+ * Finds the Slack message previously sent to a company for a deposit, so its
+ * confirmation/retraction can update it in place instead of posting a new one.
+ */
+async function findSentDepositMessage(companyId: number, kind: string, depositKey: string): Promise<SentSlackMessage | null> {
+    const log = await prisma.notificationLog.findFirst({
+        where: {
+            companyId,
+            kind,
+            AND: [
+                { payload: { path: ['depositKey'], equals: depositKey } },
+                { payload: { path: ['status'], equals: 'sent' } },
+            ],
+        },
+        orderBy: { timeSent: 'desc' },
+    });
+    const payload = (log?.payload ?? null) as Record<string, any> | null;
+    if (!log || !payload || !payload.slack?.ts) {
+        return null;
+    }
+    return { logId: log.id, ts: String(payload.slack.ts), channel: payload.slack.channel, payload };
 }
 
 // Utility function to format numbers with comma separators
-function formatNumberWithCommas(value: number | string): string {
+function formatNumberWithCommas(value: number | string, maximumFractionDigits: number = 2): string {
     const numValue = typeof value === 'string' ? parseFloat(value) : value;
     if (isNaN(numValue)) return value.toString();
 
     // Format with comma separators for thousands
     return numValue.toLocaleString('en-US', {
         minimumFractionDigits: 0,
-        maximumFractionDigits: 2
+        maximumFractionDigits
     });
 }
 
 export class SlackNotifierChannel implements NotificationChannel {
-    // Constructor and slackClient property removed
+    private dedupService = NotificationDedupService.getInstance();
 
     async send(notification: NotificationMessage): Promise<void> {
         logger.debug({ msg: "[SlackNotifierChannel] Received notification in send() method", notification });
 
         const { title, data, timestamp } = notification;
 
-        if (title !== "New Deposit Detected" && title !== "New Transfer Detected") {
+        if (title === "Address Freeze Alert") {
+            await this.sendFreezeAlert(notification);
+            return;
+        }
+        if (title === "Token Approval Alert") {
+            await this.sendApprovalAlert(notification);
+            return;
+        }
+        if (title === "Pending Deposit Alert") {
+            await this.sendMempoolAlert(notification);
+            return;
+        }
+
+        if (title !== "New Deposit Detected" && title !== "New Withdrawal Detected" && title !== "New Transfer Detected") {
             return;
         }
 
@@ -62,18 +210,24 @@ export class SlackNotifierChannel implements NotificationChannel {
         }
 
         const depositData = data as SlackDepositMessageData;
+        const isWithdrawal = depositData.direction === 'outgoing';
+        const trackedAddress = depositData.trackedAddress ?? depositData.recipientAddress;
+        const logKind = isWithdrawal ? 'withdrawal_slack' : 'deposit_slack';
+        const failedCompanies: string[] = [];
 
         try {
             logger.debug("[SlackNotifierChannel] Full depositData for lookup:", depositData);
 
-            // Find ALL companies that have this address configured (not just the first one)
+            // Find ALL companies that have this address configured (not just the first one), on this network
+            const chainKey = depositData.depositKey ? parseDepositKey(depositData.depositKey)?.chainKey : undefined;
             const companyAddresses = await prisma.companyAddress.findMany({
                 where: {
                     address: {
-                        address: depositData.recipientAddress,
+                        address: trackedAddress,
                         chainType: depositData.chainType,
                     },
                     isActive: true, // Only active addresses
+                    ...(chainKey && networkSelectionFilter(chainKey)),
                 },
                 include: {
                     address: true,
@@ -86,59 +240,112 @@ export class SlackNotifierChannel implements NotificationChannel {
             });
 
             if (!companyAddresses || companyAddresses.length === 0) {
-                logger.warn(`[SlackNotifierChannel] No active company found for address: ${depositData.recipientAddress}`);
+                logger.warn(`[SlackNotifierChannel] No active company found for address: ${trackedAddress}`);
                 return;
             }
 
-            logger.info(`[SlackNotifierChannel] Found ${companyAddresses.length} company(ies) for address: ${depositData.recipientAddress}`);
+            logger.info(`[SlackNotifierChannel] Found ${companyAddresses.length} company(ies) for address: ${trackedAddress}`);
 
             // Process each company that has this address configured
             for (const companyAddress of companyAddresses) {
                 if (!companyAddress.company) {
-                    logger.warn(`[SlackNotifierChannel] Company address record found but company is null for address: ${depositData.recipientAddress}`);
+                    logger.warn(`[SlackNotifierChannel] Company address record found but company is null for address: ${trackedAddress}`);
                     continue;
                 }
 
                 const slackConfig = companyAddress.company.slackConfiguration;
 
                 if (!slackConfig || !slackConfig.isEnabled || !slackConfig.channelId || !slackConfig.accessToken) {
-                    logger.info(`[SlackNotifierChannel] Slack notifications disabled or not configured for company: ${companyAddress.company.name} (Address: ${depositData.recipientAddress})`);
+                    logger.info(`[SlackNotifierChannel] Slack notifications disabled or not configured for company: ${companyAddress.company.name} (Address: ${trackedAddress})`);
                     continue; // Skip this company but continue with others
                 }
 
                 const slackClient = new WebClient(slackConfig.accessToken);
 
                 const usdValue = depositData.usdValue || 0;
-                const alertThresholdNumber = companyAddress.threshold ? Number(companyAddress.threshold) : 0;
+                // Withdrawals have their own per-address threshold
+                const thresholdValue = isWithdrawal ? companyAddress.withdrawalThreshold : companyAddress.threshold;
+                const alertThresholdNumber = thresholdValue ? Number(thresholdValue) : 0;
 
-                if (usdValue < alertThresholdNumber) {
-                    logger.info(`[SlackNotifierChannel] Deposit value $${usdValue.toFixed(2)} for ${depositData.recipientAddress} is below alert threshold $${alertThresholdNumber.toFixed(2)} for company ${companyAddress.company.name}. Notification not sent.`);
+                // NFTs and unlisted tokens have no price, so a USD threshold cannot filter them; poisoning dust is warned about whatever its value
+                if (!depositData.nft && !depositData.unpriced && !depositData.poisoning && usdValue < alertThresholdNumber) {
+                    logger.info(`[SlackNotifierChannel] ${isWithdrawal ? 'Withdrawal' : 'Deposit'} value $${usdValue.toFixed(2)} for ${trackedAddress} is below alert threshold $${alertThresholdNumber.toFixed(2)} for company ${companyAddress.company.name}. Notification not sent.`);
                     continue; // Skip this company but continue with others
                 }
 
-                const explorerLink = getExplorerLink(depositData.chainName, depositData.transactionHash);
-                const senderDisplay = depositData.senderAddress ? ` from ${depositData.senderAddress}` : '';
+                const confirmationStatus = depositData.confirmationStatus;
+                const isStatusUpdate = confirmationStatus === 'confirmed' || confirmationStatus === 'retracted';
+                const priorMessage = isStatusUpdate && depositData.depositKey
+                    ? await findSentDepositMessage(companyAddress.company.id, logKind, depositData.depositKey)
+                    : null;
+                if (confirmationStatus === 'retracted' && !priorMessage) {
+                    logger.info(`[SlackNotifierChannel] No Slack alert was sent to company ${companyAddress.company.name} for retracted deposit ${depositData.transactionHash}. Nothing to retract.`);
+                    continue;
+                }
+
+                // At most one alert per company and on-chain event, however often the block is scanned
+                const claimId = depositData.depositKey
+                    ? await this.dedupService.claim({
+                        companyId: companyAddress.company.id,
+                        channel: 'slack',
+                        depositKey: depositData.depositKey,
+                        confirmationStatus,
+                    })
+                    : null;
+                if (depositData.depositKey && claimId === null) {
+                    await prisma.notificationLog.create({
+                        data: {
+                            companyId: companyAddress.company.id,
+                            timeSent: new Date(),
+                            kind: logKind,
+                            channel: 'slack',
+                            payload: {
+                                status: 'suppressed',
+                                reason: 'duplicate',
+                                depositKey: depositData.depositKey,
+                                confirmationStatus: confirmationStatus ?? null,
+                                direction: depositData.direction ?? 'incoming',
+                                trackedAddress,
+                                usdValue: usdValue,
+                                transactionHash: depositData.transactionHash,
+                                chain: { name: depositData.chainName, type: depositData.chainType, id: depositData.chainId }
+                            }
+                        }
+                    });
+                    logger.info(`[SlackNotifierChannel] Company ${companyAddress.company.name} already has the ${confirmationStatus ?? 'deposit'} alert for ${depositData.transactionHash}. Recorded as suppressed.`);
+                    continue;
+                }
+
+                const explorerLink = getExplorerLink(depositData.chainName, depositData.transactionHash, depositData.chainId);
+                const senderDisplay = isWithdrawal
+                    ? ` to ${depositData.recipientAddress}`
+                    : (depositData.senderAddress ? ` from ${depositData.senderAddress}` : '');
 
                 // Fetch accountManager from companyAddress
                 const accountManager = (companyAddress as any).accountManager || 'N/A';
 
                 // Format numbers with comma separators
                 const formattedUsdValue = formatNumberWithCommas(usdValue);
-                const formattedTokenAmount = formatNumberWithCommas(depositData.formattedValue);
+                // Bitcoin deposits are routinely fractions of a coin, so keep satoshi precision
+                const formattedTokenAmount = formatNumberWithCommas(depositData.formattedValue, depositData.chainType === 'BTC' ? 8 : 2);
 
                 const messageBlocks = [
                     {
                         type: "section",
                         text: {
                             type: "mrkdwn",
-                            text:
-                                `*New Deposit Detected*
-*Wallet:* ${depositData.recipientAddress}
+                            text: depositData.nft ? buildNftSectionText(depositData, depositData.nft, trackedAddress, accountManager) :
+                                `${getDepositHeader(depositData)}
+*Wallet:* ${trackedAddress}
 *Account Manager:* ${accountManager}
 *Network:* ${depositData.chainName}
-*Currency:* ${depositData.tokenSymbol}
-*Amount:* ${formattedTokenAmount} ${depositData.tokenSymbol} ($${formattedUsdValue})
-*Deposit From:* ${depositData.senderAddress || 'N/A'}`
+*Currency:* ${depositData.tokenSymbol}${depositData.unpriced ? ` (unlisted token ${depositData.tokenContractAddress})` : ''}
+*Amount:* ${formattedTokenAmount} ${depositData.tokenSymbol} (${depositData.unpriced ? 'unpriced' : `$${formattedUsdValue}`})
+${isWithdrawal
+                                    ? `*Sent To:* ${depositData.recipientAddress}`
+                                    : `*Deposit From:* ${depositData.senderAddress || 'N/A'}`}${depositData.poisoning
+                                    ? `\n*Imitates Earlier Counterparty:* ${depositData.poisoning.lookalikeOf ?? 'N/A'}`
+                                    : ''}`
                         }
                     },
                     {
@@ -166,9 +373,37 @@ export class SlackNotifierChannel implements NotificationChannel {
                     }
                 ];
 
-                logger.info(`[SlackNotifierChannel] Attempting to send Slack notification to channel ${slackConfig.channelId} for company ${companyAddress.company.name} (Address: ${depositData.recipientAddress})`);
+                logger.info(`[SlackNotifierChannel] Attempting to send Slack notification to channel ${slackConfig.channelId} for company ${companyAddress.company.name} (Address: ${trackedAddress})`);
 
+                let posted = false; // Once Slack has the message, a later error must not release the claim
                 try {
+                    if (priorMessage) {
+                        await slackClient.chat.update({
+                            channel: priorMessage.channel,
+                            ts: priorMessage.ts,
+                            text: depositData.summaryMessage,
+                            blocks: messageBlocks,
+                        });
+                        posted = true;
+                        if (claimId !== null) {
+                            await this.dedupService.markSent(claimId);
+                        }
+                        await prisma.notificationLog.update({
+                            where: { id: priorMessage.logId },
+                            data: {
+                                payload: {
+                                    ...priorMessage.payload,
+                                    text: depositData.summaryMessage ?? null,
+                                    blocks: messageBlocks,
+                                    confirmationStatus,
+                                    statusUpdatedAt: new Date().toISOString(),
+                                }
+                            }
+                        });
+                        logger.info(`[SlackNotifierChannel] Updated Slack notification for company ${companyAddress.company.name} to ${confirmationStatus} (Tx: ${depositData.transactionHash})`);
+                        continue;
+                    }
+
                     const sentAt = new Date();
                     const slackResp = await slackClient.chat.postMessage({
                         channel: slackConfig.channelId,
@@ -177,18 +412,26 @@ export class SlackNotifierChannel implements NotificationChannel {
                         unfurl_links: false,
                         unfurl_media: false
                     });
+                    posted = true;
 
-                    logger.info(`[SlackNotifierChannel] Successfully sent Slack notification to company ${companyAddress.company.name} for ${depositData.recipientAddress}`);
+                    if (claimId !== null) {
+                        await this.dedupService.markSent(claimId);
+                    }
+                    logger.info(`[SlackNotifierChannel] Successfully sent Slack notification to company ${companyAddress.company.name} for ${trackedAddress}`);
 
                     // Persist notification log (success)
                     await prisma.notificationLog.create({
                         data: {
                             companyId: companyAddress.company.id,
                             timeSent: sentAt,
-                            kind: 'deposit_slack',
+                            kind: logKind,
                             channel: 'slack',
                             payload: {
                                 status: 'sent',
+                                depositKey: depositData.depositKey ?? null,
+                                confirmationStatus: confirmationStatus ?? null,
+                                direction: depositData.direction ?? 'incoming',
+                                trackedAddress,
                                 text: depositData.summaryMessage ?? null,
                                 blocks: messageBlocks,
                                 channelId: slackConfig.channelId,
@@ -220,17 +463,25 @@ export class SlackNotifierChannel implements NotificationChannel {
                         }
                     });
                 } catch (slackError) {
-                    logger.error(`[SlackNotifierChannel] Error sending Slack notification to company ${companyAddress.company.name}:`, { error: slackError, address: depositData.recipientAddress });
+                    logger.error(`[SlackNotifierChannel] Error sending Slack notification to company ${companyAddress.company.name}:`, { error: slackError, address: trackedAddress });
+                    if (claimId !== null && !posted) {
+                        await this.dedupService.markFailed(claimId).catch(claimErr =>
+                            logger.warn('[SlackNotifierChannel] Failed to release notification claim after failed Slack send', { error: claimErr }));
+                    }
                     // Persist notification log (failure)
                     try {
                         await prisma.notificationLog.create({
                             data: {
                                 companyId: companyAddress.company.id,
                                 timeSent: new Date(),
-                                kind: 'deposit_slack',
+                                kind: logKind,
                                 channel: 'slack',
                                 payload: {
                                     status: 'failed',
+                                    depositKey: depositData.depositKey ?? null,
+                                    confirmationStatus: confirmationStatus ?? null,
+                                    direction: depositData.direction ?? 'incoming',
+                                    trackedAddress,
                                     error: (slackError as any)?.message ?? String(slackError),
                                     accountManager: accountManager,
                                     recipientAddress: depositData.recipientAddress,
@@ -245,11 +496,296 @@ export class SlackNotifierChannel implements NotificationChannel {
                         logger.warn('[SlackNotifierChannel] Failed to persist notification log for failed Slack send', { error: logErr });
                     }
                     // Continue with other companies even if one fails
+                    failedCompanies.push(companyAddress.company.name);
                 }
             }
 
         } catch (error) {
-            logger.error("[SlackNotifierChannel] Error processing Slack notification:", { error, address: depositData.recipientAddress });
+            logger.error("[SlackNotifierChannel] Error processing Slack notification:", { error, address: trackedAddress });
+            throw error;
+        }
+
+        // Let the outbox retry; companies that already received the alert are skipped next time
+        if (failedCompanies.length > 0) {
+            throw new Error(`Slack delivery failed for ${failedCompanies.length} company(ies): ${failedCompanies.join(', ')}`);
+        }
+    }
+
+    /**
+     * Posts an issuer freeze or unfreeze to every company tracking the address. Freezes bypass
+     * the USD thresholds: they affect the wallet's whole balance of the token.
+     */
+    private async sendFreezeAlert(notification: NotificationMessage): Promise<void> {
+        const freeze = notification.data as (FreezeEvent & { summaryMessage?: string; severity?: string }) | undefined;
+        if (!freeze || typeof freeze.address !== 'string' || typeof freeze.transactionHash !== 'string') {
+            logger.warn("[SlackNotifierChannel] Invalid or missing data for Slack freeze notification", { data: freeze });
+            return;
+        }
+
+        const explorerLink = getExplorerLink(freeze.chainName, freeze.transactionHash, freeze.chainId);
+        const header = freeze.frozen
+            ? `:rotating_light: *Address Frozen by ${freeze.tokenSymbol} Issuer* (high severity)`
+            : `*Address Unfrozen by ${freeze.tokenSymbol} Issuer*`;
+        await this.sendAddressAlert({
+            kind: 'freeze_slack',
+            trackedAddress: freeze.address,
+            chainType: freeze.chainType,
+            depositKey: buildDepositKey(freeze.chainKey, freeze.transactionHash, freeze.logIndex, freeze.blockHash),
+            summaryMessage: freeze.summaryMessage,
+            buildBlocks: accountManager => buildAddressAlertBlocks(
+                `${header}
+*Wallet:* ${freeze.address}
+*Account Manager:* ${accountManager}
+*Network:* ${freeze.chainName}
+*Token:* ${freeze.tokenSymbol} (${freeze.tokenContractAddress})
+*Status:* ${freeze.frozen ? `Frozen. The wallet can no longer send ${freeze.tokenSymbol}.` : `Unfrozen. ${freeze.tokenSymbol} can be moved again.`}`,
+                explorerLink,
+                freeze.frozen,
+                `Tx: ${freeze.transactionHash} | Block: ${freeze.blockNumber} | Timestamp: ${notification.timestamp.toISOString()}`
+            ),
+            logPayload: {
+                frozen: freeze.frozen,
+                severity: freeze.severity ?? null,
+                tokenSymbol: freeze.tokenSymbol,
+                tokenContractAddress: freeze.tokenContractAddress,
+                transactionHash: freeze.transactionHash,
+                chain: { name: freeze.chainName, type: freeze.chainType, id: freeze.chainId, blockNumber: freeze.blockNumber },
+                explorerLink,
+            },
+        });
+    }
+
+    /**
+     * Posts a risky ERC20 approval to every company tracking the owner. The approval monitor has
+     * already applied the allowance threshold and spender allow-list.
+     */
+    private async sendApprovalAlert(notification: NotificationMessage): Promise<void> {
+        const approval = notification.data as (ApprovalEvent & { summaryMessage?: string; severity?: string }) | undefined;
+        if (!approval || typeof approval.owner !== 'string' || typeof approval.transactionHash !== 'string') {
+            logger.warn("[SlackNotifierChannel] Invalid or missing data for Slack approval notification", { data: approval });
+            return;
+        }
+
+        const explorerLink = getExplorerLink(approval.chainName, approval.transactionHash, approval.chainId);
+        const allowance = approval.isUnlimited
+            ? `Unlimited ${approval.tokenSymbol}`
+            : `${formatNumberWithCommas(approval.formattedAmount ?? approval.amount)} ${approval.tokenSymbol} ($${formatNumberWithCommas(approval.usdValue ?? 0)})`;
+        await this.sendAddressAlert({
+            kind: 'approval_slack',
+            trackedAddress: approval.owner,
+            chainType: 'EVM',
+            depositKey: buildDepositKey(approval.chainKey, approval.transactionHash, approval.logIndex, approval.blockHash),
+            summaryMessage: approval.summaryMessage,
+            buildBlocks: accountManager => buildAddressAlertBlocks(
+                `${approval.isUnlimited ? ':rotating_light: *Unlimited Token Approval Granted* (high severity)' : '*Large Token Approval Granted*'}
+*Wallet:* ${approval.owner}
+*Account Manager:* ${accountManager}
+*Network:* ${approval.chainName}
+*Token:* ${approval.tokenSymbol} (${approval.tokenContractAddress})
+*Allowance:* ${allowance}
+*Spender:* ${approval.spender}`,
+                explorerLink,
+                approval.isUnlimited,
+                `Tx: ${approval.transactionHash} | Block: ${approval.blockNumber} | Timestamp: ${notification.timestamp.toISOString()}`
+            ),
+            logPayload: {
+                risk: approval.risk ?? null,
+                severity: approval.severity ?? null,
+                spender: approval.spender,
+                amount: approval.amount,
+                unlimited: approval.isUnlimited,
+                usdValue: approval.usdValue,
+                tokenSymbol: approval.tokenSymbol,
+                tokenContractAddress: approval.tokenContractAddress,
+                transactionHash: approval.transactionHash,
+                chain: { name: approval.chainName, type: 'EVM', id: approval.chainId, blockNumber: approval.blockNumber },
+                explorerLink,
+            },
+        });
+    }
+
+    /**
+     * Posts a deposit still in the mempool to the companies tracking the recipient whose deposit
+     * threshold it meets, and updates that message once the transaction is mined or dropped.
+     * Claims use their own channel: the mined deposit is alerted again by the block scanner.
+     */
+    private async sendMempoolAlert(notification: NotificationMessage): Promise<void> {
+        const data = notification.data as (MempoolTransfer & { stage: MempoolStage; blockNumber: string | null; summaryMessage?: string }) | undefined;
+        if (!data || typeof data.recipientAddress !== 'string' || typeof data.transactionHash !== 'string') {
+            logger.warn("[SlackNotifierChannel] Invalid or missing data for Slack pending deposit notification", { data });
+            return;
+        }
+
+        const explorerLink = getExplorerLink(data.chainName, data.transactionHash, data.chainId);
+        const header = data.stage === 'pending'
+            ? `:hourglass_flowing_sand: *Pending Deposit in Mempool* (not mined yet, may still be replaced)`
+            : data.stage === 'mined'
+                ? `*Pending Deposit Mined* (block ${data.blockNumber ?? 'N/A'}, awaiting the deposit alert)`
+                : `*Pending Deposit Dropped* (left the mempool without being mined)`;
+        await this.sendAddressAlert({
+            kind: 'mempool_slack',
+            trackedAddress: data.recipientAddress,
+            chainType: 'EVM',
+            depositKey: buildDepositKey(data.chainKey, data.transactionHash, data.transferIndex, 'mempool'),
+            summaryMessage: data.summaryMessage,
+            claimChannel: 'slack_mempool',
+            stage: data.stage === 'pending' ? 'pending' : data.stage === 'mined' ? 'confirmed' : 'retracted',
+            usdValue: data.stage === 'pending' ? data.usdValue : undefined,
+            buildBlocks: accountManager => buildAddressAlertBlocks(
+                `${header}
+*Wallet:* ${data.recipientAddress}
+*Account Manager:* ${accountManager}
+*Network:* ${data.chainName}
+*Amount:* ${formatNumberWithCommas(data.formattedValue, 6)} ${data.tokenSymbol}
+*USD Value:* $${formatNumberWithCommas(data.usdValue)}
+*Deposit From:* ${data.senderAddress}`,
+                explorerLink,
+                false,
+                `Tx: ${data.transactionHash} | First seen: ${data.firstSeenAt} | Timestamp: ${notification.timestamp.toISOString()}`
+            ),
+            logPayload: {
+                stage: data.stage,
+                recipientAddress: data.recipientAddress,
+                senderAddress: data.senderAddress,
+                rawValue: data.rawValue,
+                formattedValue: data.formattedValue,
+                tokenSymbol: data.tokenSymbol,
+                tokenContractAddress: data.tokenContractAddress,
+                usdValue: data.usdValue,
+                transactionHash: data.transactionHash,
+                chain: { name: data.chainName, type: 'EVM', id: data.chainId, blockNumber: data.blockNumber },
+                explorerLink,
+            },
+        });
+    }
+
+    /**
+     * Posts an alert about a tracked address that is not a transfer to every company tracking it,
+     * at most once per company, on-chain event and stage. Only alerts carrying a `usdValue` are
+     * held to the company's threshold.
+     */
+    private async sendAddressAlert(alert: AddressAlert): Promise<void> {
+        const chainKey = parseDepositKey(alert.depositKey)?.chainKey;
+        const companyAddresses = await prisma.companyAddress.findMany({
+            where: {
+                address: { address: alert.trackedAddress, chainType: alert.chainType },
+                isActive: true,
+                ...(chainKey && networkSelectionFilter(chainKey)),
+            },
+            include: {
+                company: { include: { slackConfiguration: true } },
+            },
+        });
+        if (companyAddresses.length === 0) {
+            logger.warn(`[SlackNotifierChannel] No active company found for address: ${alert.trackedAddress}`);
+            return;
+        }
+
+        const failedCompanies: string[] = [];
+        for (const companyAddress of companyAddresses) {
+            const company = companyAddress.company;
+            const slackConfig = company?.slackConfiguration;
+            if (!company || !slackConfig || !slackConfig.isEnabled || !slackConfig.channelId || !slackConfig.accessToken) {
+                continue;
+            }
+
+            const thresholdValue = Number(companyAddress.threshold ?? 0);
+            if (alert.usdValue !== undefined && alert.usdValue < thresholdValue) {
+                logger.info(`[SlackNotifierChannel] ${alert.kind} alert value $${alert.usdValue.toFixed(2)} for ${alert.trackedAddress} is below alert threshold $${thresholdValue.toFixed(2)} for company ${company.name}. Notification not sent.`);
+                continue;
+            }
+
+            const isFollowUp = alert.stage === 'confirmed' || alert.stage === 'retracted';
+            const priorMessage = isFollowUp ? await findSentDepositMessage(company.id, alert.kind, alert.depositKey) : null;
+            if (isFollowUp && !priorMessage) {
+                continue; // The company was never alerted, e.g. the value was below its threshold
+            }
+
+            const claimId = await this.dedupService.claim({
+                companyId: company.id,
+                channel: alert.claimChannel ?? 'slack',
+                depositKey: alert.depositKey,
+                confirmationStatus: alert.stage,
+            });
+            if (claimId === null) {
+                logger.info(`[SlackNotifierChannel] Company ${company.name} already has the ${alert.kind} alert for ${alert.depositKey}.`);
+                continue;
+            }
+
+            const accountManager = companyAddress.accountManager || 'N/A';
+            const messageBlocks = alert.buildBlocks(accountManager);
+            const loggedBlocks = messageBlocks as unknown as Prisma.InputJsonArray; // Block Kit blocks are plain JSON
+            let posted = false;
+            try {
+                if (priorMessage) {
+                    await new WebClient(slackConfig.accessToken).chat.update({
+                        channel: priorMessage.channel,
+                        ts: priorMessage.ts,
+                        text: alert.summaryMessage,
+                        blocks: messageBlocks,
+                    });
+                    posted = true;
+                    await this.dedupService.markSent(claimId);
+                    await prisma.notificationLog.update({
+                        where: { id: priorMessage.logId },
+                        data: {
+                            payload: {
+                                ...priorMessage.payload,
+                                text: alert.summaryMessage ?? null,
+                                blocks: loggedBlocks,
+                                ...alert.logPayload,
+                                statusUpdatedAt: new Date().toISOString(),
+                            }
+                        }
+                    });
+                    logger.info(`[SlackNotifierChannel] Updated ${alert.kind} alert for company ${company.name} to ${alert.stage} (${alert.depositKey})`);
+                    continue;
+                }
+
+                const slackResp = await new WebClient(slackConfig.accessToken).chat.postMessage({
+                    channel: slackConfig.channelId,
+                    text: alert.summaryMessage,
+                    blocks: messageBlocks,
+                    unfurl_links: false,
+                    unfurl_media: false
+                });
+                posted = true;
+                await this.dedupService.markSent(claimId);
+                await prisma.notificationLog.create({
+                    data: {
+                        companyId: company.id,
+                        timeSent: new Date(),
+                        kind: alert.kind,
+                        channel: 'slack',
+                        payload: {
+                            status: 'sent',
+                            depositKey: alert.depositKey,
+                            trackedAddress: alert.trackedAddress,
+                            text: alert.summaryMessage ?? null,
+                            blocks: loggedBlocks,
+                            channelId: slackConfig.channelId,
+                            accountManager,
+                            ...alert.logPayload,
+                            slack: {
+                                ts: slackResp.ts ?? null,
+                                channel: slackResp.channel ?? slackConfig.channelId
+                            }
+                        }
+                    }
+                });
+                logger.info(`[SlackNotifierChannel] Sent ${alert.kind} alert to company ${company.name} for ${alert.trackedAddress}`);
+            } catch (slackError) {
+                logger.error(`[SlackNotifierChannel] Error sending ${alert.kind} alert to company ${company.name}:`, { error: slackError, address: alert.trackedAddress });
+                if (!posted) {
+                    await this.dedupService.markFailed(claimId).catch(claimErr =>
+                        logger.warn('[SlackNotifierChannel] Failed to release notification claim after failed Slack send', { error: claimErr }));
+                    failedCompanies.push(company.name);
+                }
+            }
+        }
+
+        if (failedCompanies.length > 0) {
+            throw new Error(`Slack delivery failed for ${failedCompanies.length} company(ies): ${failedCompanies.join(', ')}`);
         }
     }
-} 
\ No newline at end of file
+}
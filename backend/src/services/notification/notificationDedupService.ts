@@ -0,0 +1,121 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { prisma } from '../../prisma';
+import logger from '../../config/logger';
+import { config as appConfig } from '../../config';
+import { parseDepositKey } from '../confirmation/pendingDepositService';
+import type { ConfirmationStatus } from '../confirmation/pendingDepositService';
+
+export type NotificationClaimStage = 'alert' | 'confirmed' | 'retracted';
+
+export interface NotificationClaimRequest {
+    companyId: number;
+    channel: string;
+    depositKey: string;
+    confirmationStatus?: ConfirmationStatus | null;
+}
+
+/**
+ * Pending and immediate alerts are the same first message for a transfer; confirmation and
+ * retraction are follow-ups to it.
+ */
+function toStage(confirmationStatus?: ConfirmationStatus | null): NotificationClaimStage {
+    return confirmationStatus === 'confirmed' || confirmationStatus === 'retracted' ? confirmationStatus : 'alert';
+}
+
+/**
+ * Exactly-once guard for channel notifications. Before sending, a channel claims the
+ * (company, chain, transaction, log index, direction, stage) tuple in the database; the unique
+ * index makes the claim atomic across restarts and across instances, so a block scanned twice
+ * (overlapping polls, a service restart, a monitoring mode switch) cannot alert a company twice.
+ */
+export class NotificationDedupService {
+    private static instance: NotificationDedupService;
+
+    private constructor() { }
+
+    public static getInstance(): NotificationDedupService {
+        if (!NotificationDedupService.instance) {
+            NotificationDedupService.instance = new NotificationDedupService();
+        }
+        return NotificationDedupService.instance;
+    }
+
+    /**
+     * Claims the right to send a notification. A claim that failed, or that was taken more than
+     * `outbox.lockTimeoutMs` ago and never completed (the sender died), can be claimed again, as can
+     * one made for the same transaction in another block (re-mined after a reorg).
+     * @returns The claim id, or null when the notification was already sent or is being sent
+     *          (the duplicate is counted on the existing claim)
+     */
+    public async claim(request: NotificationClaimRequest): Promise<number | null> {
+        const parsed = parseDepositKey(request.depositKey);
+        if (!parsed) {
+            throw new Error(`Invalid deposit key: ${request.depositKey}`);
+        }
+        const eventKey = {
+            companyId: request.companyId,
+            channel: request.channel,
+            chainKey: parsed.chainKey,
+            transactionHash: parsed.transactionHash.toLowerCase(),
+            eventIndex: parsed.logIndex === -1 ? 'native' : String(parsed.logIndex), // Internal transfers (-2 and below) keep their own index
+            direction: parsed.direction,
+            stage: toStage(request.confirmationStatus),
+        };
+
+        try {
+            const created = await prisma.notificationClaim.create({
+                data: { ...eventKey, depositKey: request.depositKey },
+                select: { id: true },
+            });
+            return created.id;
+        } catch (e) {
+            if (!(e instanceof PrismaClientKnownRequestError && e.code === 'P2002')) {
+                throw e;
+            }
+        }
+
+        const existing = await prisma.notificationClaim.findFirst({ where: eventKey });
+        if (!existing) {
+            return null; // Deleted along with its company in the meantime
+        }
+
+        const staleBefore = new Date(Date.now() - appConfig.outbox.lockTimeoutMs);
+        const reclaimable = existing.status === 'failed'
+            || (existing.status === 'claimed' && existing.claimedAt < staleBefore)
+            || existing.depositKey !== request.depositKey;
+        if (reclaimable) {
+            // Compare-and-set on the row as read, so only one of several concurrent senders wins
+            const result = await prisma.notificationClaim.updateMany({
+                where: { id: existing.id, status: existing.status, claimedAt: existing.claimedAt },
+                data: { status: 'claimed', depositKey: request.depositKey, claimedAt: new Date(), sentAt: null },
+            });
+            if (result.count === 1) {
+                return existing.id;
+            }
+        }
+
+        await prisma.notificationClaim.update({
+            where: { id: existing.id },
+            data: { suppressedCount: { increment: 1 }, lastSuppressedAt: new Date() },
+        });
+        logger.info(`[NotificationDedup] Suppressed duplicate ${eventKey.stage} ${request.channel} notification for company ${request.companyId} (${request.depositKey}).`);
+        return null;
+    }
+
+    public async markSent(claimId: number): Promise<void> {
+        await prisma.notificationClaim.update({
+            where: { id: claimId },
+            data: { status: 'sent', sentAt: new Date() },
+        });
+    }
+
+    /**
+     * Releases a claim after a failed send, so the retry can claim it again.
+     */
+    public async markFailed(claimId: number): Promise<void> {
+        await prisma.notificationClaim.update({
+            where: { id: claimId },
+            data: { status: 'failed' },
+        });
+    }
+}
@@ -3,6 +3,10 @@ import { ConsoleNotifier } from './channels/consoleNotifier';
 import { SlackNotifierChannel } from './channels/SlackNotifierChannel';
 import logger from '../../config/logger';
 import { BalanceService } from '../balance/balanceService';
+import type { ConfirmationStatus, StoredDepositPayload } from '../confirmation/pendingDepositService';
+import type { FreezeEvent } from '../freeze/addressFreezeService';
+import type { ApprovalEvent } from '../token/tokenAllowanceService';
+import type { MempoolOutboxPayload } from '../outbox/outboxService';
 
 export interface NotificationMessage {
     title: string;
@@ -15,6 +19,45 @@ export interface NotificationChannel {
     send(message: NotificationMessage): Promise<void>;
 }
 
+export interface DeliveryResult {
+    delivered: string[]; // Channel names that accepted the message
+    failures: Array<{ channel: string; error: string }>;
+}
+
+// Context of an ERC-721 or ERC-1155 transfer, which is alerted without a USD value
+export interface NftTransferDetails {
+    standard: 'ERC721' | 'ERC1155';
+    collectionName: string | null;
+    collectionSymbol: string | null;
+    tokenIds: string[];
+    amounts: string[]; // Copies per token ID, aligned with tokenIds
+    operator: string | null;
+}
+
+// Token IDs listed in an alert before the rest are summarized as a count
+const NFT_TOKEN_IDS_LISTED = 10;
+
+/**
+ * Token IDs of an NFT transfer as `#id`, with the copy count for ERC-1155 amounts other than one.
+ */
+export function formatNftTokenList(nft: NftTransferDetails): string {
+    const listed = nft.tokenIds.slice(0, NFT_TOKEN_IDS_LISTED).map((id, index) =>
+        nft.amounts[index] && nft.amounts[index] !== '1' ? `#${id} (x${nft.amounts[index]})` : `#${id}`);
+    const remaining = nft.tokenIds.length - listed.length;
+    return remaining > 0 ? `${listed.join(', ')} and ${remaining} more` : listed.join(', ');
+}
+
+/**
+ * USD value phrase of a summary; tokens missing from the tokens table have no price to show.
+ */
+function describeWorth(usdValue: number, unpriced?: boolean): string {
+    return unpriced ? '(unpriced token)' : `worth $${usdValue.toFixed(2)}`;
+}
+
+function describeNftTransfer(nft: NftTransferDetails): string {
+    return `${nft.collectionName ?? nft.collectionSymbol ?? `an unnamed ${nft.standard} collection`} ${formatNftTokenList(nft)}`;
+}
+
 interface DepositNotificationData {
     recipientAddress: string;
     rawValue: string;
@@ -27,12 +70,16 @@ interface DepositNotificationData {
     senderAddress?: string;
     chainName: string;
     chainId: number | string;
-    chainType: 'EVM' | 'TRON';
+    chainType: 'EVM' | 'TRON' | 'BTC' | 'SOLANA';
     blockNumber?: bigint | number;
     summaryMessage: string;
     accountName?: string;
     accountManager?: string;
     totalBalance: string | undefined;
+    confirmationStatus?: 'pending' | 'confirmed' | 'retracted'; // Unset when the chain alerts without waiting for confirmations
+    depositKey?: string;
+    direction: 'incoming' | 'outgoing';
+    trackedAddress: string; // The monitored wallet: the recipient of a deposit, the sender of a withdrawal
     [key: string]: any;
 }
 
@@ -74,7 +121,133 @@ export class NotificationService extends EventEmitter {
         await Promise.all(promises);
     }
 
-    public async notifyDeposit(
+    /**
+     * Sends a message to every channel not listed in `skipChannels` and reports which ones
+     * succeeded, so the outbox dispatcher can retry only the channels that failed.
+     */
+    public async deliver(message: NotificationMessage, skipChannels: string[] = []): Promise<DeliveryResult> {
+        const result: DeliveryResult = { delivered: [], failures: [] };
+        await Promise.all(this.channels
+            .filter(channel => !skipChannels.includes(channel.constructor.name))
+            .map(async channel => {
+                try {
+                    await channel.send(message);
+                    result.delivered.push(channel.constructor.name);
+                } catch (error: any) {
+                    result.failures.push({ channel: channel.constructor.name, error: error?.message ?? String(error) });
+                }
+            }));
+        return result;
+    }
+
+    /**
+     * Builds the deposit or withdrawal message for a queued transfer notification.
+     */
+    public async buildTransferMessage(transfer: StoredDepositPayload, confirmationStatus?: ConfirmationStatus | null): Promise<NotificationMessage> {
+        const context = {
+            ...transfer.context,
+            depositKey: transfer.depositKey,
+            ...(confirmationStatus && { confirmationStatus }),
+        };
+        if (transfer.direction === 'outgoing') {
+            return this.buildWithdrawalMessage(
+                transfer.senderAddress!,
+                transfer.rawValue,
+                transfer.formattedValue,
+                transfer.tokenSymbol,
+                transfer.tokenDecimals,
+                transfer.tokenContractAddress,
+                transfer.usdValue,
+                transfer.transactionHash,
+                transfer.recipientAddress,
+                BigInt(transfer.blockNumber),
+                context
+            );
+        }
+        return this.buildDepositMessage(
+            transfer.recipientAddress,
+            transfer.rawValue,
+            transfer.formattedValue,
+            transfer.tokenSymbol,
+            transfer.tokenDecimals,
+            transfer.tokenContractAddress,
+            transfer.usdValue,
+            transfer.transactionHash,
+            transfer.senderAddress,
+            BigInt(transfer.blockNumber),
+            context
+        );
+    }
+
+    /**
+     * Builds the alert for an issuer freeze or unfreeze of a tracked address. A freeze is high
+     * severity: the wallet can no longer move that token.
+     */
+    public buildFreezeMessage(freeze: FreezeEvent): NotificationMessage {
+        const summaryMsg = freeze.frozen
+            ? `Wallet ${freeze.address} was frozen by the ${freeze.tokenSymbol} issuer on ${freeze.chainName}. Its ${freeze.tokenSymbol} can no longer be moved.`
+            : `Wallet ${freeze.address} was unfrozen by the ${freeze.tokenSymbol} issuer on ${freeze.chainName}.`;
+        return {
+            title: 'Address Freeze Alert',
+            message: summaryMsg,
+            data: {
+                ...freeze,
+                severity: freeze.frozen ? 'high' : 'info',
+                summaryMessage: summaryMsg,
+            },
+            timestamp: new Date()
+        };
+    }
+
+    /**
+     * Builds the alert for a risky allowance granted by a tracked wallet. Unlimited allowances are
+     * high severity: the spender can drain the wallet's whole balance of the token.
+     */
+    public buildApprovalMessage(approval: ApprovalEvent): NotificationMessage {
+        const summaryMsg = approval.isUnlimited
+            ? `Wallet ${approval.owner} granted ${approval.spender} an unlimited ${approval.tokenSymbol} allowance on ${approval.chainName}. Revoke it unless the spender is trusted.`
+            : `Wallet ${approval.owner} approved ${approval.spender} to spend ${approval.formattedAmount ?? approval.amount} ${approval.tokenSymbol} worth $${(approval.usdValue ?? 0).toFixed(2)} on ${approval.chainName}.`;
+        return {
+            title: 'Token Approval Alert',
+            message: summaryMsg,
+            data: {
+                ...approval,
+                severity: approval.isUnlimited ? 'high' : 'warning',
+                summaryMessage: summaryMsg,
+            },
+            timestamp: new Date()
+        };
+    }
+
+    /**
+     * Builds the early warning for a deposit still in the mempool, or its follow-up once the
+     * transaction was mined or dropped. A pending deposit is not final: it can still be replaced.
+     */
+    public buildMempoolMessage({ mempoolTransfer, stage, blockNumber }: MempoolOutboxPayload): NotificationMessage {
+        const amount = `${mempoolTransfer.formattedValue} ${mempoolTransfer.tokenSymbol} ($${mempoolTransfer.usdValue.toFixed(2)})`;
+        const summaryMsg = stage === 'pending'
+            ? `Pending deposit of ${amount} to ${mempoolTransfer.recipientAddress} on ${mempoolTransfer.chainName}. It is not mined yet.`
+            : stage === 'mined'
+                ? `Pending deposit of ${amount} to ${mempoolTransfer.recipientAddress} on ${mempoolTransfer.chainName} was mined in block ${blockNumber}.`
+                : `Pending deposit of ${amount} to ${mempoolTransfer.recipientAddress} on ${mempoolTransfer.chainName} was dropped from the mempool without being mined.`;
+        return {
+            title: 'Pending Deposit Alert',
+            message: summaryMsg,
+            data: {
+                ...mempoolTransfer,
+                stage,
+                blockNumber,
+                summaryMessage: summaryMsg,
+            },
+            timestamp: new Date()
+        };
+    }
+
+    public async notifyDeposit(...args: Parameters<NotificationService['buildDepositMessage']>): Promise<void> {
+        await this.notify(await this.buildDepositMessage(...args));
+    }
+
+    private async buildDepositMessage(
         recipientAddress: string,
         rawValue: string,
         formattedValue: string,
@@ -88,10 +261,10 @@ export class NotificationService extends EventEmitter {
         depositContext: {
             chainId: number | string;
             chainName: string;
-            chainType: 'EVM' | 'TRON';
+            chainType: 'EVM' | 'TRON' | 'BTC' | 'SOLANA';
             [key: string]: any;
         }
-    ): Promise<void> {
+    ): Promise<NotificationMessage> {
         let totalBalanceMessage = "";
         let topTokensMessage = "";
         let totalBalanceValue: string | undefined = undefined;
@@ -117,7 +290,21 @@ export class NotificationService extends EventEmitter {
         }
         */
 
-        const summaryMsg = `Wallet ${recipientAddress} has a deposit of ${formattedValue} ${tokenSymbol} worth $${usdValue.toFixed(2)}. ${totalBalanceMessage}${topTokensMessage}`;
+        let summaryMsg = `Wallet ${recipientAddress} has a deposit of ${formattedValue} ${tokenSymbol} ${describeWorth(usdValue, depositContext.unpriced)}. ${totalBalanceMessage}${topTokensMessage}`;
+        if (depositContext.confirmationStatus === 'pending') {
+            summaryMsg = `Wallet ${recipientAddress} has a pending deposit of ${formattedValue} ${tokenSymbol} ${describeWorth(usdValue, depositContext.unpriced)}, awaiting ${depositContext.confirmationsRequired} confirmations.`;
+        } else if (depositContext.confirmationStatus === 'retracted') {
+            summaryMsg = `Deposit of ${formattedValue} ${tokenSymbol} to ${recipientAddress} was retracted after a chain reorganization.`;
+        }
+        if (depositContext.nft) {
+            const nfts = describeNftTransfer(depositContext.nft);
+            summaryMsg = depositContext.confirmationStatus === 'retracted'
+                ? `NFT transfer of ${nfts} to ${recipientAddress} was retracted after a chain reorganization.`
+                : `Wallet ${recipientAddress} received ${nfts}${depositContext.confirmationStatus === 'pending' ? `, awaiting ${depositContext.confirmationsRequired} confirmations` : ''}.`;
+        }
+        if (depositContext.poisoning && depositContext.confirmationStatus !== 'retracted') {
+            summaryMsg = `Possible address poisoning: wallet ${recipientAddress} received ${formattedValue} ${tokenSymbol} from ${senderAddress}, which imitates earlier counterparty ${depositContext.poisoning.lookalikeOf}. Do not copy addresses from this transaction.`;
+        }
 
         const {
             chainName: ctxChainName,
@@ -126,34 +313,7 @@ export class NotificationService extends EventEmitter {
             ...otherContextData
         } = depositContext;
 
-        // Fetch accountName and accountManager from the companyAddress table
-        let accountName: string | undefined = undefined;
-        let accountManager: string | undefined = undefined;
-        try {
-            const prisma = require('../../prisma').default;
-            const companyAddresses = await prisma.companyAddress.findMany({
-                where: {
-                    address: {
-                        address: recipientAddress,
-                        chainType: depositContext.chainType,
-                    },
-                    isActive: true, // Only active addresses
-                },
-            });
-            if (companyAddresses && companyAddresses.length > 0) {
-                // Use the first active company's account details for the notification data
-                // (The actual multi-company notification will be handled by individual channels)
-                const firstCompanyAddress = companyAddresses[0];
-                accountName = firstCompanyAddress.accountName;
-                accountManager = firstCompanyAddress.accountManager;
-
-                if (companyAddresses.length > 1) {
-                    logger.info(`[NotificationService] Address ${recipientAddress} is configured for ${companyAddresses.length} companies. Using first company's account details for notification data.`);
-                }
-            }
-        } catch (err) {
-            logger.error('Error fetching accountName/accountManager for notification:', err);
-        }
+        const { accountName, accountManager } = await this.getAccountDetails(recipientAddress, depositContext.chainType);
 
         const notificationData: DepositNotificationData = {
             ...otherContextData,
@@ -174,16 +334,131 @@ export class NotificationService extends EventEmitter {
             accountName,
             accountManager,
             totalBalance: totalBalanceValue,
+            direction: 'incoming',
+            trackedAddress: recipientAddress,
         };
 
-        const message: NotificationMessage = {
+        return {
             title: 'New Deposit Detected',
             message: summaryMsg,
             data: notificationData,
             timestamp: new Date()
         };
+    }
 
-        await this.notify(message);
+    /**
+     * Alerts that a tracked wallet sent funds out. Mirrors notifyDeposit, with the tracked
+     * wallet as sender and the destination as recipient.
+     */
+    public async notifyWithdrawal(...args: Parameters<NotificationService['buildWithdrawalMessage']>): Promise<void> {
+        await this.notify(await this.buildWithdrawalMessage(...args));
+    }
+
+    private async buildWithdrawalMessage(
+        senderAddress: string,
+        rawValue: string,
+        formattedValue: string,
+        tokenSymbol: string,
+        tokenDecimals: number,
+        tokenContractAddress: string | undefined,
+        usdValue: number,
+        transactionHash: string,
+        destinationAddress: string,
+        blockNumber: bigint | number | undefined,
+        withdrawalContext: {
+            chainId: number | string;
+            chainName: string;
+            chainType: 'EVM' | 'TRON' | 'BTC' | 'SOLANA';
+            [key: string]: any;
+        }
+    ): Promise<NotificationMessage> {
+        let summaryMsg = `Wallet ${senderAddress} sent ${formattedValue} ${tokenSymbol} ${describeWorth(usdValue, withdrawalContext.unpriced)} to ${destinationAddress}.`;
+        if (withdrawalContext.confirmationStatus === 'pending') {
+            summaryMsg = `Wallet ${senderAddress} has a pending withdrawal of ${formattedValue} ${tokenSymbol} ${describeWorth(usdValue, withdrawalContext.unpriced)} to ${destinationAddress}, awaiting ${withdrawalContext.confirmationsRequired} confirmations.`;
+        } else if (withdrawalContext.confirmationStatus === 'retracted') {
+            summaryMsg = `Withdrawal of ${formattedValue} ${tokenSymbol} from ${senderAddress} was retracted after a chain reorganization.`;
+        }
+        if (withdrawalContext.nft) {
+            const nfts = describeNftTransfer(withdrawalContext.nft);
+            summaryMsg = withdrawalContext.confirmationStatus === 'retracted'
+                ? `NFT transfer of ${nfts} from ${senderAddress} was retracted after a chain reorganization.`
+                : `Wallet ${senderAddress} sent ${nfts} to ${destinationAddress}${withdrawalContext.confirmationStatus === 'pending' ? `, awaiting ${withdrawalContext.confirmationsRequired} confirmations` : ''}.`;
+        }
+        if (withdrawalContext.poisoning && withdrawalContext.confirmationStatus !== 'retracted') {
+            summaryMsg = `Possible address poisoning: a transfer of ${formattedValue} ${tokenSymbol} from wallet ${senderAddress} went to ${destinationAddress}, which imitates earlier counterparty ${withdrawalContext.poisoning.lookalikeOf}. Do not copy addresses from this transaction.`;
+        }
+
+        const {
+            chainName: ctxChainName,
+            chainId: ctxChainId,
+            chainType: ctxChainType,
+            ...otherContextData
+        } = withdrawalContext;
+
+        const { accountName, accountManager } = await this.getAccountDetails(senderAddress, withdrawalContext.chainType);
+
+        const notificationData: DepositNotificationData = {
+            ...otherContextData,
+            recipientAddress: destinationAddress,
+            rawValue,
+            formattedValue,
+            tokenSymbol,
+            tokenDecimals,
+            tokenContractAddress,
+            usdValue,
+            transactionHash,
+            senderAddress,
+            chainName: ctxChainName,
+            chainId: ctxChainId,
+            chainType: ctxChainType,
+            blockNumber,
+            summaryMessage: summaryMsg,
+            accountName,
+            accountManager,
+            totalBalance: undefined,
+            direction: 'outgoing',
+            trackedAddress: senderAddress,
+        };
+
+        return {
+            title: 'New Withdrawal Detected',
+            message: summaryMsg,
+            data: notificationData,
+            timestamp: new Date()
+        };
+    }
+
+    /**
+     * Fetches accountName and accountManager from the companyAddress table.
+     */
+    private async getAccountDetails(address: string, chainType: 'EVM' | 'TRON' | 'BTC' | 'SOLANA'): Promise<{ accountName?: string; accountManager?: string }> {
+        try {
+            const prisma = require('../../prisma').default;
+            const companyAddresses = await prisma.companyAddress.findMany({
+                where: {
+                    address: {
+                        address,
+                        chainType,
+                    },
+                    isActive: true, // Only active addresses
+                },
+            });
+            if (companyAddresses && companyAddresses.length > 0) {
+                // Use the first active company's account details for the notification data
+                // (The actual multi-company notification will be handled by individual channels)
+                const firstCompanyAddress = companyAddresses[0];
+                if (companyAddresses.length > 1) {
+                    logger.info(`[NotificationService] Address ${address} is configured for ${companyAddresses.length} companies. Using first company's account details for notification data.`);
+                }
+                return {
+                    accountName: firstCompanyAddress.accountName ?? undefined,
+                    accountManager: firstCompanyAddress.accountManager ?? undefined,
+                };
+            }
+        } catch (err) {
+            logger.error('Error fetching accountName/accountManager for notification:', err);
+        }
+        return {};
     }
 
     public async notifyTransfer(
@@ -0,0 +1,123 @@
+import logger from '../../config/logger';
+import { config as appConfig } from '../../config';
+import { NotificationService } from '../notification/notificationService';
+import type { NotificationMessage } from '../notification/notificationService';
+import { TransferLedgerService } from '../transfer/transferLedgerService';
+import { OutboxService } from './outboxService';
+import type { ApprovalOutboxPayload, FreezeOutboxPayload, MempoolOutboxPayload, OutboxEntry, TransferOutboxPayload } from './outboxService';
+
+/**
+ * Background worker that delivers queued notifications from the outbox to the notification
+ * channels. Runs independently of block processing, so a slow or failing channel never holds
+ * up the monitors.
+ */
+export class OutboxDispatcher {
+    private static instance: OutboxDispatcher;
+    private outboxService: OutboxService;
+    private notificationService: NotificationService;
+    private transferLedger: TransferLedgerService;
+    private timer: NodeJS.Timeout | null = null;
+    private isDispatching = false;
+
+    private constructor() {
+        this.outboxService = OutboxService.getInstance();
+        this.notificationService = NotificationService.getInstance();
+        this.transferLedger = TransferLedgerService.getInstance();
+    }
+
+    public static getInstance(): OutboxDispatcher {
+        if (!OutboxDispatcher.instance) {
+            OutboxDispatcher.instance = new OutboxDispatcher();
+        }
+        return OutboxDispatcher.instance;
+    }
+
+    public start(): void {
+        if (this.timer) {
+            logger.warn('[OutboxDispatcher] Already running.');
+            return;
+        }
+        this.timer = setInterval(() => {
+            this.dispatchDue().catch(error => logger.error('[OutboxDispatcher] Dispatch run failed:', error));
+        }, appConfig.outbox.pollIntervalMs);
+        logger.info(`[OutboxDispatcher] Started, polling every ${appConfig.outbox.pollIntervalMs}ms.`);
+    }
+
+    public stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+            logger.info('[OutboxDispatcher] Stopped.');
+        }
+    }
+
+    /**
+     * Delivers every notification that is due, batch by batch, until none are left.
+     */
+    public async dispatchDue(): Promise<void> {
+        if (this.isDispatching) {
+            return;
+        }
+        this.isDispatching = true;
+        try {
+            let batch: OutboxEntry[];
+            do {
+                batch = await this.outboxService.claimDue(appConfig.outbox.batchSize);
+                for (const entry of batch) {
+                    await this.deliver(entry);
+                }
+            } while (batch.length === appConfig.outbox.batchSize && this.timer);
+        } finally {
+            this.isDispatching = false;
+        }
+    }
+
+    private async deliver(entry: OutboxEntry): Promise<void> {
+        try {
+            let message: NotificationMessage | null;
+            if (entry.eventType === 'freeze') {
+                message = this.notificationService.buildFreezeMessage((entry.payload as FreezeOutboxPayload).freeze);
+            } else if (entry.eventType === 'approval') {
+                message = this.notificationService.buildApprovalMessage((entry.payload as ApprovalOutboxPayload).approval);
+            } else if (entry.eventType === 'mempool') {
+                message = this.notificationService.buildMempoolMessage(entry.payload as MempoolOutboxPayload);
+            } else {
+                message = await this.buildTransferMessage(entry, entry.payload as TransferOutboxPayload);
+            }
+            if (!message) {
+                await this.outboxService.markDelivered(entry.id, entry.deliveredChannels);
+                return;
+            }
+            const result = await this.notificationService.deliver(message, entry.deliveredChannels);
+            const deliveredChannels = [...entry.deliveredChannels, ...result.delivered];
+
+            if (result.failures.length === 0) {
+                await this.outboxService.markDelivered(entry.id, deliveredChannels);
+                return;
+            }
+            const error = result.failures.map(failure => `${failure.channel}: ${failure.error}`).join('; ');
+            await this.outboxService.markFailed(entry, error, deliveredChannels);
+        } catch (error: any) {
+            await this.outboxService.markFailed(entry, error?.message ?? String(error), entry.deliveredChannels);
+        }
+    }
+
+    /**
+     * @returns null when the classifier suppresses the transfer
+     */
+    private async buildTransferMessage(entry: OutboxEntry, payload: TransferOutboxPayload): Promise<NotificationMessage | null> {
+        const { transfer, confirmationStatus } = payload;
+        // Spam never reaches the channels; it stays in the ledger with the classification it was recorded with
+        const classification = await this.transferLedger.getClassification(transfer.depositKey);
+        if (classification?.classification === 'suppressed') {
+            logger.debug(`[OutboxDispatcher] Suppressed ${entry.eventKey} (${classification.reasons.join(', ')}).`);
+            return null;
+        }
+        return this.notificationService.buildTransferMessage(
+            classification?.classification === 'poisoning'
+                ? { ...transfer, context: { ...transfer.context, poisoning: { lookalikeOf: classification.lookalikeOf } } }
+                : transfer,
+            confirmationStatus
+        );
+    }
+}
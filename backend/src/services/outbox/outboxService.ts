@@ -0,0 +1,312 @@
+import { Prisma } from '@prisma/client';
+import type { NotificationOutbox } from '@prisma/client';
+import { prisma } from '../../prisma';
+import logger from '../../config/logger';
+import { config as appConfig } from '../../config';
+import type { ConfirmationStatus, StoredDepositPayload } from '../confirmation/pendingDepositService';
+import type { FreezeEvent } from '../freeze/addressFreezeService';
+import type { ApprovalEvent } from '../token/tokenAllowanceService';
+import type { MempoolStage, MempoolTransfer } from '../monitors/evmMempoolWatcher';
+
+export type OutboxStatus = 'pending' | 'processing' | 'delivered' | 'dead';
+
+export type OutboxEventType = 'transfer' | 'freeze' | 'approval' | 'mempool';
+
+/**
+ * A transfer notification as queued by a monitor. The message itself is built at delivery time.
+ */
+export interface TransferOutboxPayload {
+    transfer: StoredDepositPayload;
+    confirmationStatus: ConfirmationStatus | null; // Null when the chain alerts without waiting for confirmations
+}
+
+/**
+ * An issuer freeze or unfreeze of a tracked address, alerted to every company tracking it.
+ */
+export interface FreezeOutboxPayload {
+    freeze: FreezeEvent;
+}
+
+/**
+ * A risky ERC20 approval granted by a tracked wallet.
+ */
+export interface ApprovalOutboxPayload {
+    approval: ApprovalEvent;
+}
+
+/**
+ * A deposit seen in the mempool, or the follow-up once its transaction was mined or dropped.
+ */
+export interface MempoolOutboxPayload {
+    mempoolTransfer: MempoolTransfer;
+    stage: MempoolStage;
+    blockNumber: string | null; // Set when mined
+}
+
+export type OutboxPayload = TransferOutboxPayload | FreezeOutboxPayload | ApprovalOutboxPayload | MempoolOutboxPayload;
+
+export interface OutboxEventInput {
+    eventKey: string;
+    eventType: OutboxEventType;
+    chainKey: string;
+    payload: OutboxPayload;
+}
+
+export interface OutboxEntry {
+    id: number;
+    eventKey: string;
+    eventType: OutboxEventType;
+    chainKey: string;
+    payload: OutboxPayload; // The payload interface matching eventType
+    status: OutboxStatus;
+    attempts: number;
+    deliveredChannels: string[];
+    nextAttemptAt: Date;
+    lastError: string | null;
+    deliveredAt: Date | null;
+    createdAt: Date;
+}
+
+/**
+ * One queued notification per transfer and confirmation step, so re-scanning a block
+ * (after a restart or a cursor rewind) does not queue the same alert twice.
+ */
+export function buildTransferOutboxEvent(chainKey: string, transfer: StoredDepositPayload, confirmationStatus?: ConfirmationStatus): OutboxEventInput {
+    return {
+        eventKey: `${transfer.depositKey}:${confirmationStatus ?? 'immediate'}`,
+        eventType: 'transfer',
+        chainKey,
+        payload: { transfer, confirmationStatus: confirmationStatus ?? null },
+    };
+}
+
+/**
+ * One queued notification per freeze or unfreeze event.
+ */
+export function buildFreezeOutboxEvent(freeze: FreezeEvent): OutboxEventInput {
+    return {
+        eventKey: `freeze:${freeze.chainKey}:${freeze.transactionHash.toLowerCase()}:${freeze.logIndex}:${freeze.blockHash.toLowerCase()}`,
+        eventType: 'freeze',
+        chainKey: freeze.chainKey,
+        payload: { freeze },
+    };
+}
+
+/**
+ * One queued notification per risky Approval event.
+ */
+export function buildApprovalOutboxEvent(approval: ApprovalEvent): OutboxEventInput {
+    return {
+        eventKey: `approval:${approval.chainKey}:${approval.transactionHash.toLowerCase()}:${approval.logIndex}:${approval.blockHash.toLowerCase()}`,
+        eventType: 'approval',
+        chainKey: approval.chainKey,
+        payload: { approval },
+    };
+}
+
+/**
+ * One queued notification per pending deposit and stage (pending, then mined or dropped).
+ */
+export function buildMempoolOutboxEvent(mempoolTransfer: MempoolTransfer, stage: MempoolStage, blockNumber?: bigint | null): OutboxEventInput {
+    return {
+        eventKey: `mempool:${mempoolTransfer.chainKey}:${mempoolTransfer.transactionHash.toLowerCase()}:${mempoolTransfer.transferIndex}:${stage}`,
+        eventType: 'mempool',
+        chainKey: mempoolTransfer.chainKey,
+        payload: { mempoolTransfer, stage, blockNumber: blockNumber != null ? blockNumber.toString() : null },
+    };
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed deliveries: base * 2^(attempts - 1), capped.
+ */
+export function computeBackoffMs(attempts: number): number {
+    const { baseBackoffMs, maxBackoffMs } = appConfig.outbox;
+    return Math.min(maxBackoffMs, baseBackoffMs * Math.pow(2, Math.max(0, attempts - 1)));
+}
+
+function toEntry(row: NotificationOutbox): OutboxEntry {
+    return {
+        id: row.id,
+        eventKey: row.eventKey,
+        eventType: row.eventType as OutboxEventType,
+        chainKey: row.chainKey,
+        payload: row.payload as unknown as OutboxPayload,
+        status: row.status as OutboxStatus,
+        attempts: row.attempts,
+        deliveredChannels: row.deliveredChannels ?? [],
+        nextAttemptAt: row.nextAttemptAt,
+        lastError: row.lastError,
+        deliveredAt: row.deliveredAt,
+        createdAt: row.createdAt,
+    };
+}
+
+/**
+ * Durable queue between the monitors and the notification channels. Monitors enqueue in the
+ * same transaction that advances their block cursor; the OutboxDispatcher delivers, retrying
+ * with exponential backoff and dead-lettering after `outbox.maxAttempts` failures.
+ */
+export class OutboxService {
+    private static instance: OutboxService;
+
+    private constructor() { }
+
+    public static getInstance(): OutboxService {
+        if (!OutboxService.instance) {
+            OutboxService.instance = new OutboxService();
+        }
+        return OutboxService.instance;
+    }
+
+    /**
+     * The insert for `events`, for callers that run it inside their own transaction.
+     */
+    public enqueueOperation(events: OutboxEventInput[]) {
+        return prisma.notificationOutbox.createMany({
+            data: events.map(event => ({
+                eventKey: event.eventKey,
+                eventType: event.eventType,
+                chainKey: event.chainKey,
+                payload: event.payload as unknown as Prisma.InputJsonValue,
+            })),
+            skipDuplicates: true,
+        });
+    }
+
+    public async enqueue(events: OutboxEventInput[]): Promise<number> {
+        if (events.length === 0) {
+            return 0;
+        }
+        const result = await this.enqueueOperation(events);
+        return result.count;
+    }
+
+    /**
+     * Claims up to `limit` due notifications for delivery, including ones whose previous
+     * claim is older than `outbox.lockTimeoutMs` (the process died mid-delivery).
+     */
+    public async claimDue(limit: number): Promise<OutboxEntry[]> {
+        const now = new Date();
+        const staleLock = new Date(now.getTime() - appConfig.outbox.lockTimeoutMs);
+        const dueCondition = {
+            OR: [
+                { status: 'pending', nextAttemptAt: { lte: now } },
+                { status: 'processing', lockedAt: { lt: staleLock } },
+            ],
+        };
+
+        const candidates = await prisma.notificationOutbox.findMany({
+            where: dueCondition,
+            orderBy: [{ nextAttemptAt: 'asc' }, { id: 'asc' }],
+            take: limit,
+        });
+
+        const claimed: OutboxEntry[] = [];
+        for (const candidate of candidates) {
+            const result = await prisma.notificationOutbox.updateMany({
+                where: { id: candidate.id, ...dueCondition },
+                data: { status: 'processing', lockedAt: now },
+            });
+            if (result.count === 1) {
+                claimed.push(toEntry({ ...candidate, status: 'processing', lockedAt: now }));
+            }
+        }
+        return claimed;
+    }
+
+    public async markDelivered(id: number, deliveredChannels: string[]): Promise<void> {
+        await prisma.notificationOutbox.update({
+            where: { id },
+            data: {
+                status: 'delivered',
+                deliveredChannels,
+                deliveredAt: new Date(),
+                lockedAt: null,
+                lastError: null,
+            },
+        });
+    }
+
+    /**
+     * Schedules the next attempt, or dead-letters the notification once it has used up its attempts.
+     * @returns The status the notification was moved to
+     */
+    public async markFailed(entry: OutboxEntry, error: string, deliveredChannels: string[]): Promise<OutboxStatus> {
+        const attempts = entry.attempts + 1;
+        const status: OutboxStatus = attempts >= appConfig.outbox.maxAttempts ? 'dead' : 'pending';
+        const nextAttemptAt = new Date(Date.now() + computeBackoffMs(attempts));
+        await prisma.notificationOutbox.update({
+            where: { id: entry.id },
+            data: {
+                status,
+                attempts,
+                deliveredChannels,
+                nextAttemptAt,
+                lockedAt: null,
+                lastError: error,
+            },
+        });
+        if (status === 'dead') {
+            logger.error(`[Outbox] Notification ${entry.eventKey} dead-lettered after ${attempts} attempts: ${error}`);
+        } else {
+            logger.warn(`[Outbox] Delivery of ${entry.eventKey} failed (attempt ${attempts}/${appConfig.outbox.maxAttempts}), retrying at ${nextAttemptAt.toISOString()}: ${error}`);
+        }
+        return status;
+    }
+
+    public async listEntries(status: OutboxStatus, limit: number = 100, offset: number = 0): Promise<{ total: number; entries: OutboxEntry[] }> {
+        const [total, rows] = await Promise.all([
+            prisma.notificationOutbox.count({ where: { status } }),
+            prisma.notificationOutbox.findMany({
+                where: { status },
+                orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+                take: Math.min(limit, 500),
+                skip: offset,
+            }),
+        ]);
+        return { total, entries: rows.map(toEntry) };
+    }
+
+    /**
+     * Number of notifications in each status and the age of the oldest undelivered one.
+     */
+    public async getStats(): Promise<{ counts: Record<OutboxStatus, number>; oldestPendingAt: string | null }> {
+        const [groups, oldestPending] = await Promise.all([
+            prisma.notificationOutbox.groupBy({ by: ['status'], _count: { _all: true } }),
+            prisma.notificationOutbox.findFirst({
+                where: { status: { in: ['pending', 'processing'] } },
+                orderBy: { createdAt: 'asc' },
+                select: { createdAt: true },
+            }),
+        ]);
+        const counts: Record<OutboxStatus, number> = { pending: 0, processing: 0, delivered: 0, dead: 0 };
+        for (const group of groups) {
+            counts[group.status as OutboxStatus] = group._count._all;
+        }
+        return { counts, oldestPendingAt: oldestPending?.createdAt.toISOString() ?? null };
+    }
+
+    /**
+     * Moves dead-lettered notifications back into the queue with a fresh set of attempts.
+     * Redrives every dead notification when `ids` is omitted.
+     * @returns The number of notifications re-queued
+     */
+    public async redrive(ids?: number[]): Promise<number> {
+        const result = await prisma.notificationOutbox.updateMany({
+            where: {
+                status: 'dead',
+                ...(ids && { id: { in: ids } }),
+            },
+            data: {
+                status: 'pending',
+                attempts: 0,
+                nextAttemptAt: new Date(),
+                lockedAt: null,
+            },
+        });
+        if (result.count > 0) {
+            logger.info(`[Outbox] Re-drove ${result.count} dead-lettered notification(s).`);
+        }
+        return result.count;
+    }
+}
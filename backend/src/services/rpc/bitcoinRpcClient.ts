@@ -0,0 +1,117 @@
+import axios from 'axios';
+import { config as appConfig } from '../../config';
+import { RpcProviderPool, isTransportFailure } from './rpcProviderPool';
+import type { RpcPoolStatus } from './rpcProviderPool';
+
+export interface BitcoinScriptPubKey {
+    type: string;
+    address?: string; // Missing for OP_RETURN and bare multisig outputs
+}
+
+export interface BitcoinVout {
+    value: number; // BTC
+    n: number;
+    scriptPubKey: BitcoinScriptPubKey;
+}
+
+export interface BitcoinVin {
+    txid?: string;
+    vout?: number;
+    coinbase?: string;
+    prevout?: { value: number; scriptPubKey: BitcoinScriptPubKey }; // Only returned with getblock verbosity 3
+}
+
+export interface BitcoinTransaction {
+    txid: string;
+    vin: BitcoinVin[];
+    vout: BitcoinVout[];
+}
+
+export interface BitcoinBlock {
+    hash: string;
+    height: number;
+    time: number; // Seconds
+    previousblockhash?: string;
+    tx: BitcoinTransaction[];
+}
+
+/**
+ * Error returned by the node for a well-formed request, e.g. an unknown block hash.
+ */
+export class BitcoinRpcError extends Error {
+    constructor(public readonly code: number, message: string) {
+        super(message);
+        this.name = 'BitcoinRpcError';
+    }
+}
+
+/**
+ * Minimal Bitcoin Core JSON-RPC client, failing over between the configured nodes.
+ */
+export class BitcoinRpcClient {
+    private readonly pool: RpcProviderPool;
+    private requestId = 0;
+
+    constructor(chainKey: string, urls: string[] = appConfig.bitcoin.rpcUrls) {
+        const { rpcUser, rpcPassword } = appConfig.bitcoin;
+        const headers = rpcUser
+            ? { Authorization: `Basic ${Buffer.from(`${rpcUser}:${rpcPassword ?? ''}`).toString('base64')}` }
+            : undefined;
+        this.pool = new RpcProviderPool(chainKey, 'Bitcoin', urls.map(url => ({ url, headers })), {
+            // The node answers RPC errors with an HTTP error status; those are our request's fault, not the node's
+            isProviderFailure: error => !(error instanceof BitcoinRpcError) && isTransportFailure(error),
+            probe: async provider => { await this.post(provider.url, provider.headers, 'getblockcount', []); },
+        });
+    }
+
+    public async call<T>(method: string, params: unknown[] = []): Promise<T> {
+        return this.pool.execute(provider => this.post<T>(provider.url, provider.headers, method, params));
+    }
+
+    public getBlockCount(): Promise<number> {
+        return this.call<number>('getblockcount');
+    }
+
+    public getBlockHash(height: number): Promise<string> {
+        return this.call<string>('getblockhash', [height]);
+    }
+
+    /**
+     * A block with its decoded transactions. Verbosity 3 (Bitcoin Core 23+) adds the spent outputs to
+     * every input, which is how the sender of a deposit is known.
+     */
+    public getBlock(hash: string, verbosity: 2 | 3 = 3): Promise<BitcoinBlock> {
+        return this.call<BitcoinBlock>('getblock', [hash, verbosity]);
+    }
+
+    public startHealthChecks(): void {
+        this.pool.startHealthChecks();
+    }
+
+    public stopHealthChecks(): void {
+        this.pool.stopHealthChecks();
+    }
+
+    public getStatus(): RpcPoolStatus {
+        return this.pool.getStatus();
+    }
+
+    private async post<T>(url: string, headers: Record<string, string>, method: string, params: unknown[]): Promise<T> {
+        try {
+            const response = await axios.post(url, { jsonrpc: '1.0', id: ++this.requestId, method, params }, {
+                headers,
+                timeout: appConfig.rpcPool.requestTimeoutMs,
+            });
+            if (response.data?.error) {
+                throw new BitcoinRpcError(response.data.error.code, response.data.error.message);
+            }
+            return response.data.result as T;
+        } catch (error: any) {
+            const rpcError = error?.response?.data?.error;
+            if (rpcError) {
+                throw new BitcoinRpcError(rpcError.code, rpcError.message);
+            }
+            throw error;
+        }
+    }
+}
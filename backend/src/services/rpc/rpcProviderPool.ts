@@ -0,0 +1,320 @@
+import logger from '../../config/logger';
+import { config as appConfig } from '../../config';
+
+export interface RpcProviderConfig {
+    url: string;
+    headers?: Record<string, string>;
+}
+
+export interface RpcProviderStatus {
+    url: string; // Redacted, API keys embedded in the path are masked
+    healthy: boolean;
+    active: boolean;
+    latencyMs: number | null;
+    successCount: number;
+    errorCount: number;
+    consecutiveFailures: number;
+    lastError: string | null;
+    lastErrorAt: string | null;
+    lastSuccessAt: string | null;
+}
+
+export interface RpcPoolStatus {
+    chainKey: string;
+    name: string;
+    activeProvider: string | null;
+    providers: RpcProviderStatus[];
+}
+
+export interface RpcProviderPoolOptions {
+    // Whether an error means the provider is at fault (timeout, rate limit, 5xx) rather than the request itself
+    isProviderFailure?: (error: unknown) => boolean;
+    // Cheap request used to check whether an unhealthy provider has recovered
+    probe?: (provider: RpcProvider) => Promise<void>;
+}
+
+export interface RpcErrorDescription {
+    status?: number; // HTTP status of the failed request
+    code?: number | string; // JSON-RPC error code, or a Node.js system error code such as 'ECONNRESET'
+    message: string;
+}
+
+export interface RpcProvider {
+    readonly url: string;
+    readonly headers: Record<string, string>;
+}
+
+interface ProviderState extends RpcProvider {
+    priority: number; // Position in the configured list; breaks ties between equally scored providers
+    healthy: boolean;
+    latencyMs: number | null; // Exponentially weighted moving average of successful calls
+    successCount: number;
+    errorCount: number;
+    recentErrorRate: number; // Exponentially weighted share of failed calls
+    consecutiveFailures: number;
+    lastError: string | null;
+    lastErrorAt: Date | null;
+    lastSuccessAt: Date | null;
+}
+
+// Weight of the newest sample in the latency and error-rate averages
+const EWMA_ALPHA = 0.3;
+// Milliseconds of latency a provider that fails every call is penalised by
+const ERROR_RATE_PENALTY_MS = 2000;
+
+/**
+ * Masks path segments and query values that look like API keys, so provider URLs can be logged and
+ * shown on the status endpoint.
+ */
+export function redactRpcUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        const path = parsed.pathname
+            .split('/')
+            .map(segment => segment.length >= 16 ? '***' : segment)
+            .join('/');
+        const query = parsed.search ? '?***' : '';
+        return `${parsed.protocol}//${parsed.host}${path}${query}`;
+    } catch {
+        return '***';
+    }
+}
+
+/**
+ * The HTTP status, error code and message of an RPC client error. viem errors carry the status
+ * themselves, axios-style errors on their response, and viem's `shortMessage` is preferred over
+ * its multi-line `message`.
+ */
+export function describeRpcError(error: unknown): RpcErrorDescription {
+    const err: Record<string, unknown> = isRecord(error) ? error : {};
+    const response: Record<string, unknown> = isRecord(err.response) ? err.response : {};
+    const status = typeof err.status === 'number' ? err.status : (typeof response.status === 'number' ? response.status : undefined);
+    const code = typeof err.code === 'number' || typeof err.code === 'string' ? err.code : undefined;
+    const message = (typeof err.shortMessage === 'string' && err.shortMessage)
+        || (typeof err.message === 'string' && err.message)
+        || String(error);
+    return { status, code, message };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Default failure classification for HTTP-based providers: network errors, timeouts,
+ * rate limits and server errors fail over; anything else is the caller's problem.
+ */
+export function isTransportFailure(error: unknown): boolean {
+    const { status, code } = describeRpcError(error);
+    if (status !== undefined) {
+        return status === 408 || status === 429 || status >= 500;
+    }
+    if (typeof code === 'number') {
+        // JSON-RPC internal error, "resource unavailable" and "limit exceeded" are provider-side problems
+        return code === -32603 || code === -32002 || code === -32005 || code === 429;
+    }
+    return true;
+}
+
+/**
+ * Whether an RPC error, or any error in its cause chain, means the provider does not offer the
+ * method at all (e.g. a trace API or `eth_subscribe` subscription it does not support).
+ */
+export function isRpcMethodUnsupported(error: unknown): boolean {
+    for (let err: unknown = error; isRecord(err); err = err.cause) {
+        const { code, message } = describeRpcError(err);
+        if (code === -32601 || /method .*(not found|does not exist|not available|not supported)/i.test(message)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * An ordered list of RPC endpoints for one chain. Calls go to the best-scoring healthy provider and
+ * fail over to the next one when a provider errors out. A provider that fails
+ * `rpcPool.failureThreshold` times in a row (or rate-limits us) is marked unhealthy and skipped
+ * until a periodic probe succeeds.
+ */
+export class RpcProviderPool {
+    private providers: ProviderState[];
+    private activeProvider: ProviderState | null = null;
+    private probeTimer: NodeJS.Timeout | null = null;
+    private readonly isProviderFailure: (error: unknown) => boolean;
+    private readonly probe?: (provider: RpcProvider) => Promise<void>;
+
+    constructor(
+        public readonly chainKey: string,
+        public readonly name: string,
+        providers: RpcProviderConfig[],
+        options: RpcProviderPoolOptions = {}
+    ) {
+        const seen = new Set<string>();
+        this.providers = providers
+            .filter(provider => provider.url && !seen.has(provider.url) && seen.add(provider.url))
+            .map((provider, priority) => ({
+                url: provider.url,
+                headers: provider.headers ?? {},
+                priority,
+                healthy: true,
+                latencyMs: null,
+                successCount: 0,
+                errorCount: 0,
+                recentErrorRate: 0,
+                consecutiveFailures: 0,
+                lastError: null,
+                lastErrorAt: null,
+                lastSuccessAt: null,
+            }));
+        if (this.providers.length === 0) {
+            throw new Error(`No RPC providers configured for ${name}.`);
+        }
+        this.isProviderFailure = options.isProviderFailure ?? isTransportFailure;
+        this.probe = options.probe;
+    }
+
+    public get size(): number {
+        return this.providers.length;
+    }
+
+    /**
+     * Runs `request` against providers in score order until one succeeds. Errors that are not
+     * provider failures are rethrown straight away; if every provider fails, the last error is thrown.
+     */
+    public async execute<T>(request: (provider: RpcProvider) => Promise<T>): Promise<T> {
+        let lastError: unknown = null;
+        for (const provider of this.getCandidates()) {
+            const started = Date.now();
+            try {
+                const result = await request(provider);
+                this.recordSuccess(provider, Date.now() - started);
+                return result;
+            } catch (error) {
+                if (!this.isProviderFailure(error)) {
+                    throw error;
+                }
+                this.recordFailure(provider, error);
+                lastError = error;
+            }
+        }
+        throw lastError;
+    }
+
+    /**
+     * Periodically probes unhealthy providers so they rejoin the rotation once they recover.
+     */
+    public startHealthChecks(intervalMs: number = appConfig.rpcPool.probeIntervalMs): void {
+        if (this.probeTimer || !this.probe || this.providers.length < 2) {
+            return;
+        }
+        this.probeTimer = setInterval(() => {
+            this.probeUnhealthyProviders().catch(error =>
+                logger.error(`[RPC ${this.name}] Provider health check failed:`, error));
+        }, intervalMs);
+    }
+
+    public stopHealthChecks(): void {
+        if (this.probeTimer) {
+            clearInterval(this.probeTimer);
+            this.probeTimer = null;
+        }
+    }
+
+    public getStatus(): RpcPoolStatus {
+        return {
+            chainKey: this.chainKey,
+            name: this.name,
+            activeProvider: this.activeProvider ? redactRpcUrl(this.activeProvider.url) : null,
+            providers: this.providers.map(provider => ({
+                url: redactRpcUrl(provider.url),
+                healthy: provider.healthy,
+                active: provider === this.activeProvider,
+                latencyMs: provider.latencyMs === null ? null : Math.round(provider.latencyMs),
+                successCount: provider.successCount,
+                errorCount: provider.errorCount,
+                consecutiveFailures: provider.consecutiveFailures,
+                lastError: provider.lastError,
+                lastErrorAt: provider.lastErrorAt?.toISOString() ?? null,
+                lastSuccessAt: provider.lastSuccessAt?.toISOString() ?? null,
+            })),
+        };
+    }
+
+    /**
+     * Healthy providers by score, then unhealthy ones (least recently failed first) as a last resort,
+     * so a chain keeps trying rather than stalling when every provider is marked down.
+     */
+    private getCandidates(): ProviderState[] {
+        const healthy = this.providers
+            .filter(provider => provider.healthy)
+            .sort((a, b) => this.score(a) - this.score(b) || a.priority - b.priority);
+        const unhealthy = this.providers
+            .filter(provider => !provider.healthy)
+            .sort((a, b) => (a.lastErrorAt?.getTime() ?? 0) - (b.lastErrorAt?.getTime() ?? 0));
+        return [...healthy, ...unhealthy];
+    }
+
+    // Lower is better. Untried providers score 0 so they are used in configured order until measured.
+    private score(provider: ProviderState): number {
+        return (provider.latencyMs ?? 0) + provider.recentErrorRate * ERROR_RATE_PENALTY_MS;
+    }
+
+    private recordSuccess(provider: ProviderState, latencyMs: number): void {
+        provider.latencyMs = provider.latencyMs === null
+            ? latencyMs
+            : provider.latencyMs * (1 - EWMA_ALPHA) + latencyMs * EWMA_ALPHA;
+        provider.recentErrorRate *= 1 - EWMA_ALPHA;
+        provider.successCount++;
+        provider.consecutiveFailures = 0;
+        provider.lastSuccessAt = new Date();
+        if (!provider.healthy) {
+            provider.healthy = true;
+            logger.info(`[RPC ${this.name}] Provider ${redactRpcUrl(provider.url)} is healthy again.`);
+        }
+        if (this.activeProvider !== provider) {
+            logger.info(`[RPC ${this.name}] Now using provider ${redactRpcUrl(provider.url)}.`);
+            this.activeProvider = provider;
+        }
+    }
+
+    private recordFailure(provider: ProviderState, error: unknown): void {
+        const { status, message } = describeRpcError(error);
+        provider.errorCount++;
+        provider.recentErrorRate = provider.recentErrorRate * (1 - EWMA_ALPHA) + EWMA_ALPHA;
+        provider.consecutiveFailures++;
+        provider.lastError = message;
+        provider.lastErrorAt = new Date();
+
+        const rateLimited = status === 429;
+        if (provider.healthy && (rateLimited || provider.consecutiveFailures >= appConfig.rpcPool.failureThreshold)) {
+            provider.healthy = false;
+            logger.warn(`[RPC ${this.name}] Marking provider ${redactRpcUrl(provider.url)} unhealthy after ${provider.consecutiveFailures} failure(s): ${message}`);
+        } else {
+            logger.warn(`[RPC ${this.name}] Provider ${redactRpcUrl(provider.url)} failed, trying next provider: ${message}`);
+        }
+    }
+
+    private async probeUnhealthyProviders(): Promise<void> {
+        for (const provider of this.providers.filter(p => !p.healthy)) {
+            const started = Date.now();
+            try {
+                await this.probe!(provider);
+                this.recordProbeSuccess(provider, Date.now() - started);
+            } catch (error) {
+                provider.lastError = describeRpcError(error).message;
+                provider.lastErrorAt = new Date();
+                logger.debug(`[RPC ${this.name}] Probe of ${redactRpcUrl(provider.url)} failed: ${provider.lastError}`);
+            }
+        }
+    }
+
+    // A successful probe brings the provider back without making it the active one
+    private recordProbeSuccess(provider: ProviderState, latencyMs: number): void {
+        provider.healthy = true;
+        provider.consecutiveFailures = 0;
+        provider.recentErrorRate = 0;
+        provider.latencyMs = latencyMs;
+        provider.lastSuccessAt = new Date();
+        logger.info(`[RPC ${this.name}] Provider ${redactRpcUrl(provider.url)} passed its health check and is back in rotation.`);
+    }
+}
@@ -0,0 +1,124 @@
+import axios from 'axios';
+import { config as appConfig } from '../../config';
+import { RpcProviderPool, isTransportFailure } from './rpcProviderPool';
+import type { RpcPoolStatus } from './rpcProviderPool';
+
+export type SolanaCommitment = 'confirmed' | 'finalized';
+
+// Slot had no block (leader skipped it) or the node no longer has it; neither will ever return a block
+export const SOLANA_SLOT_SKIPPED_CODES = [-32007, -32009];
+
+export interface SolanaParsedInstruction {
+    program?: string; // Set when the node could parse the instruction, e.g. 'system', 'spl-token'
+    programId: string;
+    parsed?: { type: string; info: Record<string, any> } | string;
+}
+
+export interface SolanaTokenBalance {
+    accountIndex: number;
+    mint: string;
+    owner?: string;
+    uiTokenAmount: { amount: string; decimals: number };
+}
+
+export interface SolanaTransaction {
+    transaction: {
+        signatures: string[];
+        message: {
+            accountKeys: { pubkey: string; signer: boolean; writable: boolean }[]; // Includes addresses loaded from lookup tables
+            instructions: SolanaParsedInstruction[];
+        };
+    };
+    meta: {
+        err: unknown;
+        innerInstructions?: { index: number; instructions: SolanaParsedInstruction[] }[] | null;
+        preTokenBalances?: SolanaTokenBalance[] | null;
+        postTokenBalances?: SolanaTokenBalance[] | null;
+    } | null;
+}
+
+export interface SolanaBlock {
+    blockhash: string;
+    previousBlockhash: string;
+    parentSlot: number;
+    blockHeight: number | null;
+    blockTime: number | null; // Seconds
+    transactions: SolanaTransaction[];
+}
+
+/**
+ * Error returned by the node for a well-formed request, e.g. a skipped slot.
+ */
+export class SolanaRpcError extends Error {
+    constructor(public readonly code: number, message: string) {
+        super(message);
+        this.name = 'SolanaRpcError';
+    }
+}
+
+/**
+ * Minimal Solana JSON-RPC client, failing over between the configured nodes.
+ */
+export class SolanaRpcClient {
+    private readonly pool: RpcProviderPool;
+    private requestId = 0;
+
+    constructor(chainKey: string, urls: string[] = appConfig.solana.rpcUrls) {
+        this.pool = new RpcProviderPool(chainKey, 'Solana', urls.map(url => ({ url })), {
+            isProviderFailure: error => !(error instanceof SolanaRpcError) && isTransportFailure(error),
+            probe: async provider => { await this.post(provider.url, provider.headers, 'getSlot', []); },
+        });
+    }
+
+    public async call<T>(method: string, params: unknown[] = []): Promise<T> {
+        return this.pool.execute(provider => this.post<T>(provider.url, provider.headers, method, params));
+    }
+
+    public getSlot(commitment: SolanaCommitment): Promise<number> {
+        return this.call<number>('getSlot', [{ commitment }]);
+    }
+
+    /**
+     * Slots between `startSlot` and `endSlot` (inclusive) that produced a block.
+     */
+    public getBlocks(startSlot: number, endSlot: number, commitment: SolanaCommitment): Promise<number[]> {
+        return this.call<number[]>('getBlocks', [startSlot, endSlot, { commitment }]);
+    }
+
+    /**
+     * A block with its parsed transactions. Parsed instructions name their program and decode
+     * System and SPL Token instructions, and token balances carry the owner of every token account.
+     */
+    public getBlock(slot: number, commitment: SolanaCommitment): Promise<SolanaBlock> {
+        return this.call<SolanaBlock>('getBlock', [slot, {
+            commitment,
+            encoding: 'jsonParsed',
+            transactionDetails: 'full',
+            rewards: false,
+            maxSupportedTransactionVersion: 0,
+        }]);
+    }
+
+    public startHealthChecks(): void {
+        this.pool.startHealthChecks();
+    }
+
+    public stopHealthChecks(): void {
+        this.pool.stopHealthChecks();
+    }
+
+    public getStatus(): RpcPoolStatus {
+        return this.pool.getStatus();
+    }
+
+    private async post<T>(url: string, headers: Record<string, string>, method: string, params: unknown[]): Promise<T> {
+        const response = await axios.post(url, { jsonrpc: '2.0', id: ++this.requestId, method, params }, {
+            headers,
+            timeout: appConfig.rpcPool.requestTimeoutMs,
+        });
+        if (response.data?.error) {
+            throw new SolanaRpcError(response.data.error.code, response.data.error.message);
+        }
+        return response.data.result as T;
+    }
+}
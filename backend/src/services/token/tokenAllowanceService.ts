@@ -0,0 +1,142 @@
+import { prisma } from '../../prisma';
+import logger from '../../config/logger';
+import { config as appConfig } from '../../config';
+import type { TokenAllowance } from '@prisma/client';
+
+// Allowances from uint96 max up count as unlimited: tokens with 96-bit balances (UNI, COMP) cap "infinite" there
+export const UNLIMITED_ALLOWANCE_FLOOR = 2n ** 96n - 1n;
+
+export type ApprovalRisk = 'unlimited' | 'above_threshold';
+
+/**
+ * An ERC20 Approval granted by a tracked wallet, as queued for notification. Amounts and block
+ * values are strings so the event survives the JSON outbox payload.
+ */
+export interface ApprovalEvent {
+    chainKey: string;
+    chainName: string;
+    chainId: number;
+    owner: string; // The tracked wallet, lowercase
+    spender: string; // Lowercase
+    tokenContractAddress: string; // Lowercase
+    tokenSymbol: string;
+    tokenDecimals: number | null; // Null when the token is unlisted and its contract has no decimals()
+    amount: string; // Raw allowance
+    formattedAmount: string | null; // Null when the decimals are unknown
+    isUnlimited: boolean;
+    usdValue: number | null; // Null for unlimited or unpriced allowances
+    transactionHash: string;
+    blockNumber: string;
+    blockHash: string;
+    blockTimestamp: string; // ISO time
+    logIndex: number;
+    risk?: ApprovalRisk; // Why the approval is alerted; set when it is queued
+}
+
+export interface AllowanceFilters {
+    owner?: string;
+    spender?: string;
+    chainKey?: string;
+    unlimited?: boolean;
+    includeRevoked?: boolean; // Also list allowances set back to zero
+}
+
+export function isUnlimitedAllowance(amount: bigint): boolean {
+    return amount >= UNLIMITED_ALLOWANCE_FLOOR;
+}
+
+/**
+ * Inventory of the ERC20 allowances tracked wallets granted, kept from the Approval events the
+ * EVM monitor sees. An allowance is stored as last approved; spending it through `transferFrom`
+ * does not emit an Approval on most tokens, so the stored amount is the granted ceiling.
+ */
+export class TokenAllowanceService {
+    private static instance: TokenAllowanceService;
+
+    private constructor() { }
+
+    public static getInstance(): TokenAllowanceService {
+        if (!TokenAllowanceService.instance) {
+            TokenAllowanceService.instance = new TokenAllowanceService();
+        }
+        return TokenAllowanceService.instance;
+    }
+
+    /**
+     * Whether an approval warrants an alert: an allowance to a spender outside
+     * `approvalMonitor.allowedSpenders` that is unlimited or worth at least `approvalMonitor.usdThreshold`.
+     * @returns null when it does not
+     */
+    public assessRisk(approval: ApprovalEvent): ApprovalRisk | null {
+        if (BigInt(approval.amount) === 0n || appConfig.approvalMonitor.allowedSpenders.includes(approval.spender.toLowerCase())) {
+            return null;
+        }
+        if (approval.isUnlimited) {
+            return 'unlimited';
+        }
+        return approval.usdValue !== null && approval.usdValue >= appConfig.approvalMonitor.usdThreshold ? 'above_threshold' : null;
+    }
+
+    /**
+     * Sets the owner's allowance for the spender. Approvals from blocks older than the stored one
+     * (a block re-scanned after a cursor rewind) leave it untouched.
+     * @returns Whether the stored allowance was updated
+     */
+    public async recordApproval(approval: ApprovalEvent): Promise<boolean> {
+        const blockNumber = BigInt(approval.blockNumber);
+        const key = {
+            chainKey: approval.chainKey,
+            owner: approval.owner,
+            tokenContractAddress: approval.tokenContractAddress,
+            spender: approval.spender,
+        };
+        const existing = await prisma.tokenAllowance.findUnique({
+            where: { chainKey_owner_tokenContractAddress_spender: key },
+            select: { blockNumber: true },
+        });
+        if (existing && existing.blockNumber > blockNumber) {
+            return false;
+        }
+
+        const allowance = {
+            tokenSymbol: approval.tokenSymbol,
+            tokenDecimals: approval.tokenDecimals,
+            amount: approval.amount,
+            isUnlimited: approval.isUnlimited,
+            usdValue: approval.usdValue,
+            transactionHash: approval.transactionHash,
+            blockNumber,
+            approvedAt: new Date(approval.blockTimestamp),
+        };
+        await prisma.tokenAllowance.upsert({
+            where: { chainKey_owner_tokenContractAddress_spender: key },
+            create: { ...key, ...allowance },
+            update: allowance,
+        });
+        logger.debug(`[TokenAllowanceService] ${approval.owner} on ${approval.chainKey} approved ${approval.isUnlimited ? 'unlimited' : approval.amount} ${approval.tokenSymbol} to ${approval.spender}.`);
+        return true;
+    }
+
+    /**
+     * Allowances matching the filters, most recently approved first.
+     */
+    public async listAllowances(filters: AllowanceFilters = {}, limit: number = 100, offset: number = 0): Promise<{ total: number; allowances: TokenAllowance[] }> {
+        const where = {
+            ...(filters.owner && { owner: filters.owner.toLowerCase() }),
+            ...(filters.spender && { spender: filters.spender.toLowerCase() }),
+            ...(filters.chainKey && { chainKey: filters.chainKey }),
+            ...(filters.unlimited !== undefined && { isUnlimited: filters.unlimited }),
+            ...(!filters.includeRevoked && { amount: { gt: 0 } }),
+        };
+        const [total, allowances] = await Promise.all([
+            prisma.tokenAllowance.count({ where }),
+            prisma.tokenAllowance.findMany({
+                where,
+                orderBy: [{ approvedAt: 'desc' }, { id: 'desc' }],
+                take: Math.min(limit, 500),
+                skip: offset,
+            }),
+        ]);
+        return { total, allowances };
+    }
+}
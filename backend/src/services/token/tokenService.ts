@@ -12,7 +12,13 @@ interface TokenMetadata {
         ethereum?: string;
         polygon?: string;
         bsc?: string;
+        arbitrum?: string;
+        base?: string;
+        optimism?: string;
+        avalanche?: string;
         tron?: string;
+        bitcoin?: string;
+        solana?: string; // SPL mint; SOL uses the wrapped SOL mint
     };
 }
 
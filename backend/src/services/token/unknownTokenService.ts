@@ -0,0 +1,135 @@
+import { prisma } from '../../prisma';
+import logger from '../../config/logger';
+import type { UnknownToken } from '@prisma/client';
+
+export type UnknownTokenStatus = 'pending' | 'promoted';
+
+/**
+ * A transfer of a token contract that is not in the tokens table, with whatever metadata
+ * the contract returned. Any field the contract did not answer is null.
+ */
+export interface UnknownTokenSighting {
+    chain: string; // Token chain name, e.g. 'ethereum', 'tron'
+    address: string;
+    symbol: string | null;
+    name: string | null;
+    decimals: number | null;
+}
+
+// Values an admin can set when the on-chain metadata is missing or misleading
+export interface PromoteTokenOverrides {
+    symbol?: string;
+    name?: string;
+    decimals?: number;
+}
+
+/**
+ * Review queue of token contracts the monitors saw moving into or out of tracked wallets
+ * without a tokens table entry. Their transfers are alerted as unpriced; promoting a contract
+ * adds it to the tokens table so later transfers are priced.
+ */
+export class UnknownTokenService {
+    private static instance: UnknownTokenService;
+
+    private constructor() { }
+
+    public static getInstance(): UnknownTokenService {
+        if (!UnknownTokenService.instance) {
+            UnknownTokenService.instance = new UnknownTokenService();
+        }
+        return UnknownTokenService.instance;
+    }
+
+    /**
+     * Queues a contract on its first transfer and counts the transfers seen after that.
+     * Metadata is only filled in, never cleared, by later sightings.
+     */
+    public async recordSighting(sighting: UnknownTokenSighting): Promise<void> {
+        const address = sighting.address.toLowerCase();
+        const chain = sighting.chain.toLowerCase();
+        await prisma.unknownToken.upsert({
+            where: { chain_address: { chain, address } },
+            create: {
+                chain,
+                address,
+                symbol: sighting.symbol,
+                name: sighting.name,
+                decimals: sighting.decimals,
+            },
+            update: {
+                transferCount: { increment: 1 },
+                lastSeenAt: new Date(),
+                ...(sighting.symbol !== null && { symbol: sighting.symbol }),
+                ...(sighting.name !== null && { name: sighting.name }),
+                ...(sighting.decimals !== null && { decimals: sighting.decimals }),
+            },
+        });
+    }
+
+    /**
+     * Queued contracts in one status, most recently seen first.
+     */
+    public async listUnknownTokens(status: UnknownTokenStatus, limit: number = 100, offset: number = 0): Promise<{ total: number; tokens: UnknownToken[] }> {
+        const [total, tokens] = await Promise.all([
+            prisma.unknownToken.count({ where: { status } }),
+            prisma.unknownToken.findMany({
+                where: { status },
+                orderBy: [{ lastSeenAt: 'desc' }, { id: 'desc' }],
+                take: Math.min(limit, 500),
+                skip: offset,
+            }),
+        ]);
+        return { total, tokens };
+    }
+
+    /**
+     * Adds a queued contract to the tokens table. A symbol that already exists gains the contract
+     * as its address on this chain, provided it has none there yet and uses the same decimals;
+     * otherwise a new token is created. Prices are picked up by the next price refresh.
+     */
+    public async promote(id: number, overrides: PromoteTokenOverrides = {}): Promise<{ tokenId: number; symbol: string }> {
+        const result = await prisma.$transaction(async (tx: any) => {
+            const unknownToken = await tx.unknownToken.findUnique({ where: { id } });
+            if (!unknownToken) {
+                throw new Error('Unknown token not found.');
+            }
+            if (unknownToken.status === 'promoted') {
+                throw new Error(`Invalid request: ${unknownToken.address} on ${unknownToken.chain} was already promoted.`);
+            }
+
+            const symbol = overrides.symbol ?? unknownToken.symbol;
+            const decimals = overrides.decimals ?? unknownToken.decimals;
+            if (!symbol || decimals === null || decimals === undefined) {
+                throw new Error('Invalid request: symbol and decimals could not be read from the contract and must be provided.');
+            }
+
+            const existing = await tx.token.findUnique({ where: { symbol }, include: { addresses: true } });
+            if (existing?.addresses.some((address: { chain: string }) => address.chain === unknownToken.chain)) {
+                throw new Error(`Invalid symbol: ${symbol} already has a contract on ${unknownToken.chain}.`);
+            }
+            if (existing && existing.decimals !== decimals) {
+                throw new Error(`Invalid symbol: ${symbol} is registered with ${existing.decimals} decimals, not ${decimals}.`);
+            }
+
+            const token = existing ?? await tx.token.create({
+                data: {
+                    symbol,
+                    name: overrides.name ?? unknownToken.name ?? symbol,
+                    decimals,
+                    isActive: true,
+                },
+            });
+            await tx.tokenAddress.create({
+                data: { tokenId: token.id, chain: unknownToken.chain, address: unknownToken.address },
+            });
+            await tx.unknownToken.update({
+                where: { id },
+                data: { status: 'promoted', promotedTokenId: token.id, promotedAt: new Date() },
+            });
+            return { tokenId: token.id as number, symbol, chain: unknownToken.chain as string, address: unknownToken.address as string };
+        });
+
+        logger.info(`[UnknownTokenService] Promoted ${result.address} on ${result.chain} to token ${result.symbol} (id ${result.tokenId}).`);
+        return { tokenId: result.tokenId, symbol: result.symbol };
+    }
+}
@@ -0,0 +1,157 @@
+import { prisma } from '../../prisma';
+import { config as appConfig } from '../../config';
+import { TokenService } from '../token/tokenService';
+import type { ClassificationReason, ClassificationResult, TransferLedgerInput } from './transferLedgerService';
+
+const CLEAN: ClassificationResult = { classification: 'clean', reasons: [], lookalikeOf: null };
+
+// Cyrillic and Greek letters fake tokens use to pass for Latin symbols, e.g. 'USDТ' with a Cyrillic Т
+const HOMOGLYPHS: Record<string, string> = {
+    'А': 'A', 'В': 'B', 'С': 'C', 'Е': 'E', 'Н': 'H', 'І': 'I', 'К': 'K', 'М': 'M', 'О': 'O', 'Р': 'P', 'Ѕ': 'S', 'Т': 'T', 'Х': 'X', 'У': 'Y',
+    'Α': 'A', 'Β': 'B', 'Ε': 'E', 'Η': 'H', 'Ι': 'I', 'Κ': 'K', 'Μ': 'M', 'Ν': 'N', 'Ο': 'O', 'Ρ': 'P', 'Τ': 'T', 'Χ': 'X', 'Υ': 'Y', 'Ζ': 'Z',
+};
+
+/**
+ * Symbol reduced to plain uppercase Latin letters and digits, so 'USDT', 'usdt', 'U$DT ' and
+ * 'USDТ' compare equal.
+ */
+export function normalizeTokenSymbol(symbol: string): string {
+    return Array.from(symbol.normalize('NFKC').toUpperCase())
+        .map(char => HOMOGLYPHS[char] ?? (char === '$' ? 'S' : char))
+        .join('')
+        .replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * The characters of an address that are chosen by its key rather than fixed by the format:
+ * EVM addresses without '0x', Tron addresses without the leading 'T'.
+ */
+function getAddressBody(address: string, chainType: string): { fixed: string; body: string } {
+    const fixedLength = chainType === 'EVM' && /^0x/i.test(address) ? 2 : (chainType === 'TRON' ? 1 : 0);
+    return { fixed: address.slice(0, fixedLength), body: address.slice(fixedLength) };
+}
+
+/**
+ * Decides, when a transfer is recorded, whether it is worth an alert:
+ * - zero-value transfers (e.g. `transferFrom` spam for 0 tokens) and priced dust below
+ *   `spamFilter.dustUsdThreshold` are suppressed;
+ * - unlisted tokens whose symbol imitates a listed token are suppressed as fakes;
+ * - a counterparty sharing the first and last characters of an earlier, clean counterparty
+ *   of the same wallet is flagged as address poisoning and alerted as a warning instead.
+ * The result is stored on the ledger row, so backfilled and not yet delivered transfers are
+ * classified too, every confirmation step of the transfer is treated alike and suppressed
+ * transfers stay queryable.
+ */
+export class TransferClassifier {
+    private static instance: TransferClassifier;
+    private tokenService: TokenService;
+
+    private constructor() {
+        this.tokenService = TokenService.getInstance();
+    }
+
+    public static getInstance(): TransferClassifier {
+        if (!TransferClassifier.instance) {
+            TransferClassifier.instance = new TransferClassifier();
+        }
+        return TransferClassifier.instance;
+    }
+
+    public async classify(transfer: TransferLedgerInput): Promise<ClassificationResult> {
+        if (!appConfig.spamFilter.enabled) {
+            return CLEAN;
+        }
+
+        const reasons: ClassificationReason[] = [];
+        if (BigInt(transfer.rawAmount) === 0n) {
+            reasons.push('zero_value');
+        } else if (transfer.usdValue !== null && transfer.usdValue > 0 && transfer.usdValue < appConfig.spamFilter.dustUsdThreshold) {
+            reasons.push('dust');
+        }
+        // Monitors record transfers of unlisted tokens without a USD value
+        if (transfer.usdValue === null && await this.isImpersonatedSymbol(transfer.tokenSymbol)) {
+            reasons.push('fake_token');
+        }
+        const lookalikeOf = await this.findImitatedCounterparty(transfer);
+        if (lookalikeOf) {
+            reasons.push('address_poisoning');
+        }
+
+        return {
+            classification: lookalikeOf ? 'poisoning' : (reasons.length > 0 ? 'suppressed' : 'clean'),
+            reasons,
+            lookalikeOf,
+        };
+    }
+
+    /**
+     * Whether an unlisted token uses the symbol of a token in the tokens table, whose listed
+     * contracts are the only genuine ones.
+     */
+    private async isImpersonatedSymbol(symbol: string): Promise<boolean> {
+        const normalized = normalizeTokenSymbol(symbol);
+        if (!normalized) {
+            return false;
+        }
+        const listedTokens = await this.tokenService.getActiveTokens();
+        return listedTokens.some(token => normalizeTokenSymbol(token.symbol) === normalized);
+    }
+
+    private async findImitatedCounterparty(transfer: TransferLedgerInput): Promise<string | null> {
+        const isOutgoing = transfer.direction === 'outgoing';
+        const trackedAddress = isOutgoing ? transfer.fromAddress : transfer.toAddress;
+        const counterparty = isOutgoing ? transfer.toAddress : transfer.fromAddress;
+        if (!trackedAddress || !counterparty) {
+            return null;
+        }
+
+        const { poisoningPrefixLength, poisoningSuffixLength } = appConfig.spamFilter;
+        const { fixed, body } = getAddressBody(counterparty, transfer.chainType);
+        if (body.length <= poisoningPrefixLength + poisoningSuffixLength) {
+            return null;
+        }
+        return this.findLookalikeCounterparty(
+            transfer.chainKey,
+            trackedAddress,
+            counterparty,
+            fixed + body.slice(0, poisoningPrefixLength),
+            body.slice(-poisoningSuffixLength),
+            transfer.chainType !== 'EVM'
+        );
+    }
+
+    /**
+     * An earlier counterparty of `trackedAddress` that starts with `prefix` and ends with `suffix`
+     * but is not `counterparty` itself. Only transfers classified clean count, so a poisoning
+     * address cannot vouch for itself or the next one.
+     * @param caseSensitive False for hex addresses, whose case carries no meaning
+     */
+    private async findLookalikeCounterparty(
+        chainKey: string,
+        trackedAddress: string,
+        counterparty: string,
+        prefix: string,
+        suffix: string,
+        caseSensitive: boolean
+    ): Promise<string | null> {
+        const mode = caseSensitive ? 'default' : 'insensitive';
+        const lookalike = { startsWith: prefix, endsWith: suffix, not: counterparty, mode } as const;
+        const row = await prisma.transfer.findFirst({
+            where: {
+                chainKey,
+                status: { not: 'retracted' },
+                classification: 'clean',
+                OR: [
+                    { direction: 'incoming', toAddress: { equals: trackedAddress, mode }, fromAddress: lookalike },
+                    { direction: 'outgoing', fromAddress: { equals: trackedAddress, mode }, toAddress: lookalike },
+                ],
+            },
+            orderBy: { createdAt: 'desc' },
+            select: { direction: true, fromAddress: true, toAddress: true },
+        });
+        if (!row) {
+            return null;
+        }
+        return row.direction === 'incoming' ? row.fromAddress : row.toAddress;
+    }
+}
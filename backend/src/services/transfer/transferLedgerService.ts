@@ -0,0 +1,239 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../prisma';
+import logger from '../../config/logger';
+import type { TransferDirection } from '../monitors/chainMonitorManager';
+import type { ConfirmationStatus } from '../confirmation/pendingDepositService';
+import { networkSelectionFilter } from '../address/networkSelection';
+import { TransferClassifier } from './transferClassifier';
+
+/**
+ * A detected transfer as the monitors see it. Amounts are raw on-chain integers as strings.
+ */
+export interface TransferLedgerInput {
+    transferKey: string; // buildDepositKey() of the event, shared with the notification pipeline
+    chainKey: string;
+    chainType: 'EVM' | 'TRON' | 'BTC' | 'SOLANA';
+    blockNumber: bigint;
+    blockHash: string;
+    blockTimestamp: Date | null;
+    transactionHash: string;
+    logIndex: number; // -1 for native transfers
+    direction: TransferDirection;
+    fromAddress: string;
+    toAddress: string;
+    tokenSymbol: string;
+    tokenContractAddress?: string;
+    rawAmount: string;
+    decimals: number;
+    usdValue: number | null;
+    status: ConfirmationStatus;
+}
+
+export interface TransferFilters {
+    companyId?: number;
+    chainKey?: string;
+    address?: string; // Matches either side of the transfer
+    transactionHash?: string;
+    direction?: TransferDirection;
+    status?: ConfirmationStatus;
+    classification?: TransferClassification;
+    since?: Date;
+    until?: Date;
+    blockRanges?: TransferBlockRange[]; // Transfers in any of these block ranges, e.g. the ones a backfill job scanned
+    limit?: number;
+    offset?: number;
+}
+
+export interface TransferBlockRange {
+    chainKey: string;
+    fromBlock: bigint;
+    toBlock: bigint;
+}
+
+export type TransferClassification = 'clean' | 'suppressed' | 'poisoning';
+export type ClassificationReason = 'zero_value' | 'dust' | 'fake_token' | 'address_poisoning';
+
+export interface ClassificationResult {
+    classification: TransferClassification;
+    reasons: ClassificationReason[];
+    lookalikeOf: string | null; // Earlier counterparty a poisoning address imitates
+}
+
+// A listed ledger row with the company addresses it matched
+export type LedgerTransfer = Awaited<ReturnType<TransferLedgerService['listTransfers']>>['transfers'][number];
+
+const MAX_PAGE_SIZE = 500;
+
+/**
+ * Durable record of every transfer the monitors detect, independent of how (or whether)
+ * it was notified. Rows are written before any notification is sent.
+ */
+export class TransferLedgerService {
+    private static instance: TransferLedgerService;
+    private classifier: TransferClassifier;
+
+    private constructor() {
+        this.classifier = TransferClassifier.getInstance();
+    }
+
+    public static getInstance(): TransferLedgerService {
+        if (!TransferLedgerService.instance) {
+            TransferLedgerService.instance = new TransferLedgerService();
+        }
+        return TransferLedgerService.instance;
+    }
+
+    /**
+     * Stores a transfer and links it to the active company addresses on the tracked side
+     * (the recipient for deposits, the sender for withdrawals) that watch its network. New rows are
+     * classified (spam, poisoning) as they are written. Re-recording the same event, e.g. after a
+     * cursor rewind, leaves the existing row untouched.
+     * @returns The ledger row id and whether it was created by this call
+     */
+    public async recordTransfer(input: TransferLedgerInput): Promise<{ id: number; isNew: boolean }> {
+        const existing = await prisma.transfer.findUnique({ where: { transferKey: input.transferKey }, select: { id: true } });
+        if (existing) {
+            return { id: existing.id, isNew: false };
+        }
+
+        const trackedAddress = input.direction === 'outgoing' ? input.fromAddress : input.toAddress;
+        const companyAddresses = await prisma.companyAddress.findMany({
+            where: {
+                address: {
+                    address: { equals: trackedAddress, mode: 'insensitive' },
+                    chainType: input.chainType,
+                },
+                isActive: true,
+                ...networkSelectionFilter(input.chainKey),
+            },
+            select: { id: true },
+        });
+        const classification = await this.classifier.classify(input);
+
+        const result = await prisma.transfer.createMany({
+            data: [{
+                transferKey: input.transferKey,
+                chainKey: input.chainKey,
+                chainType: input.chainType,
+                blockNumber: input.blockNumber,
+                blockHash: input.blockHash,
+                blockTimestamp: input.blockTimestamp,
+                transactionHash: input.transactionHash,
+                logIndex: input.logIndex,
+                direction: input.direction,
+                fromAddress: input.fromAddress,
+                toAddress: input.toAddress,
+                tokenSymbol: input.tokenSymbol,
+                tokenContractAddress: input.tokenContractAddress,
+                rawAmount: input.rawAmount,
+                decimals: input.decimals,
+                usdValue: input.usdValue,
+                status: input.status,
+                classification: classification.classification,
+                classificationReasons: classification.reasons,
+                lookalikeOf: classification.lookalikeOf,
+            }],
+            skipDuplicates: true,
+        });
+        const row = await prisma.transfer.findUniqueOrThrow({ where: { transferKey: input.transferKey }, select: { id: true } });
+        if (result.count === 0) {
+            return { id: row.id, isNew: false }; // Recorded concurrently by another scan
+        }
+        if (classification.classification !== 'clean') {
+            logger.info(`[TransferLedger] Transfer ${input.transferKey} classified as ${classification.classification} (${classification.reasons.join(', ')}).`);
+        }
+
+        if (companyAddresses.length > 0) {
+            await prisma.transferCompanyAddress.createMany({
+                data: companyAddresses.map(companyAddress => ({ transferId: row.id, companyAddressId: companyAddress.id })),
+                skipDuplicates: true,
+            });
+        } else {
+            logger.warn(`[TransferLedger] Transfer ${input.transferKey} did not match any active company address for ${trackedAddress}.`);
+        }
+        return { id: row.id, isNew: true };
+    }
+
+    public async updateStatus(transferKey: string, status: ConfirmationStatus): Promise<void> {
+        const result = await prisma.transfer.updateMany({
+            where: { transferKey },
+            data: { status },
+        });
+        if (result.count === 0) {
+            logger.warn(`[TransferLedger] No ledger entry for ${transferKey} to mark as ${status}.`);
+        }
+    }
+
+    /**
+     * Classification stored when the transfer was recorded; null for rows recorded before transfers were classified.
+     */
+    public async getClassification(transferKey: string): Promise<ClassificationResult | null> {
+        const row = await prisma.transfer.findUnique({
+            where: { transferKey },
+            select: { classification: true, classificationReasons: true, lookalikeOf: true },
+        });
+        if (!row?.classification) {
+            return null;
+        }
+        return {
+            classification: row.classification as TransferClassification,
+            reasons: row.classificationReasons as ClassificationReason[],
+            lookalikeOf: row.lookalikeOf,
+        };
+    }
+
+    /**
+     * Ledger entries, newest first, with the company addresses each one matched.
+     */
+    public async listTransfers(filters: TransferFilters = {}) {
+        const where: Prisma.TransferWhereInput = {};
+        if (filters.chainKey) where.chainKey = filters.chainKey;
+        if (filters.transactionHash) where.transactionHash = { equals: filters.transactionHash, mode: 'insensitive' };
+        if (filters.direction) where.direction = filters.direction;
+        if (filters.status) where.status = filters.status;
+        if (filters.classification) where.classification = filters.classification;
+        if (filters.address) {
+            where.OR = [
+                { fromAddress: { equals: filters.address, mode: 'insensitive' } },
+                { toAddress: { equals: filters.address, mode: 'insensitive' } },
+            ];
+        }
+        if (filters.since || filters.until) {
+            where.createdAt = {
+                ...(filters.since && { gte: filters.since }),
+                ...(filters.until && { lte: filters.until }),
+            };
+        }
+        if (filters.blockRanges) {
+            where.AND = [{
+                OR: filters.blockRanges.map(range => ({
+                    chainKey: range.chainKey,
+                    blockNumber: { gte: range.fromBlock, lte: range.toBlock },
+                })),
+            }];
+        }
+        if (filters.companyId !== undefined) {
+            where.matchedAddresses = { some: { companyAddress: { companyId: filters.companyId } } };
+        }
+
+        const [total, transfers] = await Promise.all([
+            prisma.transfer.count({ where }),
+            prisma.transfer.findMany({
+                where,
+                orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+                take: Math.min(filters.limit ?? 100, MAX_PAGE_SIZE),
+                skip: filters.offset ?? 0,
+                include: {
+                    matchedAddresses: {
+                        include: {
+                            companyAddress: {
+                                select: { id: true, companyId: true, accountName: true, accountManager: true },
+                            },
+                        },
+                    },
+                },
+            }),
+        ]);
+        return { total, transfers };
+    }
+}
@@ -1,2 +1,25 @@
 export const isValidEVMAddress = (address: string): boolean => /^0x[a-fA-F0-9]{40}$/.test(address);
-export const isValidTronAddress = (address: string): boolean => /^T[1-9A-HJ-NP-Za-km-z]{33}$/.test(address); 
\ No newline at end of file
+export const isValidTronAddress = (address: string): boolean => /^T[1-9A-HJ-NP-Za-km-z]{33}$/.test(address);
+// Base58 P2PKH/P2SH (1..., 3...; m/n/2 on test networks) or bech32/bech32m (bc1..., tb1..., bcrt1...) in a single case
+export const isValidBitcoinAddress = (address: string): boolean =>
+    /^[13mn2][1-9A-HJ-NP-Za-km-z]{25,34}$/.test(address) ||
+    /^(bc|tb|bcrt)1[02-9ac-hj-np-z]{8,87}$/.test(address) ||
+    /^(BC|TB|BCRT)1[02-9AC-HJ-NP-Z]{8,87}$/.test(address);
+// Bitcoin SegWit/Taproot address; case-insensitive, unlike Base58
+export const isBech32Address = (address: string): boolean => /^(bc|tb|bcrt)1[02-9ac-hj-np-z]{8,87}$/i.test(address);
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Number of bytes a Base58 string decodes to; every leading '1' is a zero byte
+const base58DecodedLength = (value: string): number => {
+    let number = 0n;
+    for (const char of value) {
+        number = number * 58n + BigInt(BASE58_ALPHABET.indexOf(char));
+    }
+    const leadingZeros = value.length - value.replace(/^1+/, '').length;
+    return leadingZeros + (number === 0n ? 0 : Math.ceil(number.toString(16).length / 2));
+};
+
+// Solana public key: 32 bytes in Base58. Decoding tells it apart from Tron and Bitcoin Base58 addresses (25 bytes)
+export const isValidSolanaAddress = (address: string): boolean =>
+    /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address) && base58DecodedLength(address) === 32;
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll } from '@jest/globals';
+import type { Address } from '@prisma/client';
+import { prisma } from '../../../src/prisma';
+import { AddressManager } from '../../../src/services/address/addressManager';
+import { AddressChangeService } from '../../../src/services/address/addressChangeService';
+import { ChainMonitorManager } from '../../../src/services/monitors/chainMonitorManager';
+import { registerChainMonitor } from '../../../src/services/monitors/chainMonitorRegistry';
+import type { ChainMonitor } from '../../../src/services/monitors/chainMonitor';
+
+// Replaces the addresses table with fixtures and the monitor with one that records its address
+// updates; no database or RPC needed.
+
+interface AddressRow extends Pick<Address, 'id' | 'address'> {
+    activeLinks: number; // Active company addresses tracking it
+}
+
+interface AddressDelegateStub {
+    findMany(args: { where: { id: { in: number[] } } }): Promise<Array<Pick<Address, 'address'> & { companyAddresses: Array<{ id: number }> }>>;
+}
+
+const evmAddress = '0xdAC17F958D2ee523a2206206994597C13D831ec7';
+const otherEvmAddress = '0x' + '2'.repeat(40);
+const tronAddress = 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t';
+
+class RecordingMonitor implements ChainMonitor {
+    public updates: string[][] = [];
+    start(): void { }
+    stop(): void { }
+    updateTrackedAddresses(addresses: string[]): void {
+        this.updates.push([...addresses].sort());
+    }
+    getCursorStatus() { return []; }
+    getProviderStatus() { return []; }
+}
+
+describe('Address changes', () => {
+    describe('AddressManager.applyChanges', () => {
+        it('should add new addresses in their stored form and report the change', () => {
+            const manager = new AddressManager([otherEvmAddress]);
+
+            expect(manager.applyChanges([evmAddress, tronAddress], [])).toBe(true);
+            expect(manager.getTrackedAddresses().sort()).toEqual([otherEvmAddress, evmAddress.toLowerCase(), tronAddress].sort());
+            expect(manager.isTracking(evmAddress)).toBe(true);
+        });
+
+        it('should remove addresses written in any EVM case', () => {
+            const manager = new AddressManager([evmAddress, tronAddress]);
+
+            expect(manager.applyChanges([], [evmAddress.toUpperCase().replace('0X', '0x')])).toBe(true);
+            expect(manager.getTrackedAddresses()).toEqual([tronAddress]);
+        });
+
+        it('should keep Tron addresses case-sensitive', () => {
+            const manager = new AddressManager([tronAddress]);
+
+            expect(manager.applyChanges([], [tronAddress.toLowerCase()])).toBe(false);
+            expect(manager.isTracking(tronAddress)).toBe(true);
+        });
+
+        it('should report no change for known additions, unknown removals and blanks', () => {
+            const manager = new AddressManager([evmAddress]);
+
+            expect(manager.applyChanges([evmAddress.toLowerCase(), ' '], [otherEvmAddress, ''])).toBe(false);
+            expect(manager.getTrackedAddressCount()).toBe(1);
+        });
+
+        it('should apply removals before additions, so an address in both stays tracked', () => {
+            const manager = new AddressManager([evmAddress]);
+
+            manager.applyChanges([evmAddress], [evmAddress]);
+
+            expect(manager.isTracking(evmAddress)).toBe(true);
+        });
+    });
+
+    describe('published changes', () => {
+        const delegate = prisma.address as unknown as AddressDelegateStub;
+        const originalFindMany = delegate.findMany;
+        let addressRows: AddressRow[];
+        let monitor: RecordingMonitor;
+        let manager: ChainMonitorManager;
+
+        beforeAll(() => {
+            registerChainMonitor({ chainType: 'TEST', displayName: 'Test', create: () => monitor });
+        });
+
+        beforeEach(async () => {
+            addressRows = [
+                { id: 1, address: evmAddress, activeLinks: 1 },
+                { id: 2, address: otherEvmAddress, activeLinks: 0 },
+                { id: 3, address: tronAddress, activeLinks: 2 },
+            ];
+            delegate.findMany = async ({ where }) => addressRows
+                .filter(row => where.id.in.includes(row.id))
+                .map(row => ({ address: row.address, companyAddresses: row.activeLinks > 0 ? [{ id: row.id }] : [] }));
+            monitor = new RecordingMonitor();
+            manager = new ChainMonitorManager(0, 'TEST');
+            await manager.startConnections([otherEvmAddress]);
+        });
+
+        afterEach(() => {
+            manager.stopConnections();
+            delegate.findMany = originalFindMany;
+        });
+
+        it('should add addresses a company now tracks and drop ones no company tracks', async () => {
+            await AddressChangeService.getInstance().publish([1, 2], 'import');
+
+            expect(monitor.updates).toEqual([[evmAddress.toLowerCase()]]);
+        });
+
+        it('should keep an address another company still tracks', async () => {
+            await AddressChangeService.getInstance().publish([1], 'import');
+            addressRows[0].activeLinks = 1; // One of two links was deactivated
+            monitor.updates = [];
+
+            await AddressChangeService.getInstance().publish([1], 'address_update');
+
+            expect(monitor.updates).toEqual([]);
+        });
+
+        it('should not update the monitor when nothing changed', async () => {
+            await AddressChangeService.getInstance().publish([3], 'import');
+            monitor.updates = [];
+
+            await AddressChangeService.getInstance().publish([3, 3], 'import');
+
+            expect(monitor.updates).toEqual([]);
+        });
+
+        it('should ignore changes once the monitor is stopped', async () => {
+            manager.stopConnections();
+
+            await AddressChangeService.getInstance().publish([1], 'import');
+
+            expect(monitor.updates).toEqual([]);
+        });
+
+        it('should only log when the addresses cannot be read', async () => {
+            delegate.findMany = async () => { throw new Error('connection refused'); };
+
+            await expect(AddressChangeService.getInstance().publish([1], 'company_delete')).resolves.toBeUndefined();
+            expect(monitor.updates).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { BitcoinRpcClient, BitcoinRpcError } from '../../../src/services/rpc/bitcoinRpcClient';
+import type { BitcoinBlock } from '../../../src/services/rpc/bitcoinRpcClient';
+import { extractTrackedDeposits, normalizeBitcoinAddress } from '../../../src/services/monitors/bitcoinBlockParser';
+import recordedBlock from './fixtures/block-840000.json';
+
+// Runs against a local fixture server replaying a recorded block.
+// Set BTC_REGTEST_RPC_URL (e.g. http://127.0.0.1:18443, with BTC_RPC_USER/BTC_RPC_PASSWORD in .env) to also run against a regtest node.
+
+const block = recordedBlock as BitcoinBlock;
+
+function startFixtureServer(): Promise<http.Server> {
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            const { id, method, params } = JSON.parse(body);
+            const reply = (status: number, payload: object) => {
+                res.writeHead(status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ id, ...payload }));
+            };
+            if (method === 'getblockcount') return reply(200, { result: block.height + 2, error: null });
+            if (method === 'getblockhash' && params[0] === block.height) return reply(200, { result: block.hash, error: null });
+            if (method === 'getblock' && params[0] === block.hash) return reply(200, { result: block, error: null });
+            // Bitcoin Core answers RPC errors with HTTP 500 and the error in the body
+            return reply(500, { result: null, error: { code: -5, message: 'Block not found' } });
+        });
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('Bitcoin deposit parsing', () => {
+    const tracked = new Set([
+        'BC1QAR0SRRR7XFKVY5L643LYDNW9RE59GTZZWF5MDQ',
+        '1BoatSLRHtKNngkdXEeobR76b53LETtpyT',
+        'bc1qxhmdufsvnuaaaer4ynz88fspdsxq2h9e9cetdj',
+    ].map(normalizeBitcoinAddress));
+
+    it('should sum outputs to the same address and keep other tracked addresses separate', () => {
+        const deposits = extractTrackedDeposits(block, tracked);
+        const batched = deposits.find(d => d.transactionHash === block.tx[1].txid && d.recipientAddress.startsWith('bc1'));
+        expect(batched).toMatchObject({
+            recipientAddress: 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq',
+            amountSats: 50_012_345n,
+            outputIndex: 0,
+            outputCount: 2,
+            senderAddress: 'bc1q9vza2e8x573nczrlzms0wvx3gsqjx7vavgkx0l',
+        });
+        const legacy = deposits.find(d => d.recipientAddress === '1BoatSLRHtKNngkdXEeobR76b53LETtpyT');
+        expect(legacy).toMatchObject({ amountSats: 25_000_000n, outputIndex: 1, outputCount: 1 });
+    });
+
+    it('should not report change back to a spending address', () => {
+        const deposits = extractTrackedDeposits(block, tracked);
+        expect(deposits.some(d => d.transactionHash === block.tx[2].txid)).toBe(false);
+    });
+
+    it('should report coinbase outputs without a sender', () => {
+        const deposits = extractTrackedDeposits(block, tracked);
+        const coinbase = deposits.find(d => d.transactionHash === block.tx[0].txid);
+        expect(coinbase).toMatchObject({ amountSats: 312_500_000n, senderAddress: undefined });
+        expect(deposits).toHaveLength(3);
+    });
+});
+
+describe('Bitcoin RPC client (fixture server)', () => {
+    let server: http.Server;
+    let client: BitcoinRpcClient;
+
+    beforeAll(async () => {
+        server = await startFixtureServer();
+        const { port } = server.address() as AddressInfo;
+        client = new BitcoinRpcClient('BTC:test', [`http://127.0.0.1:${port}`]);
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should fetch a block by height', async () => {
+        expect(await client.getBlockCount()).toBe(block.height + 2);
+        const hash = await client.getBlockHash(block.height);
+        const fetched = await client.getBlock(hash);
+        expect(fetched.hash).toBe(block.hash);
+        expect(fetched.tx).toHaveLength(block.tx.length);
+    });
+
+    it('should surface node errors as BitcoinRpcError without failing the provider', async () => {
+        await expect(client.getBlock('00'.repeat(32))).rejects.toBeInstanceOf(BitcoinRpcError);
+        expect(client.getStatus().providers.every(provider => provider.healthy)).toBe(true);
+    });
+});
+
+const regtestUrl = process.env.BTC_REGTEST_RPC_URL;
+(regtestUrl ? describe : describe.skip)('Bitcoin RPC client (regtest)', () => {
+    it('should read the tip block with spent outputs', async () => {
+        const client = new BitcoinRpcClient('BTC:regtest', [regtestUrl!]);
+        const height = await client.getBlockCount();
+        const tip = await client.getBlock(await client.getBlockHash(height));
+        expect(tip.height).toBe(height);
+        expect(Array.isArray(tip.tx)).toBe(true);
+    }, 30000);
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildDepositKey, parseDepositKey } from '../../../src/services/confirmation/pendingDepositService';
+
+const txHash = '0x' + 'AB'.repeat(32);
+const blockHash = '0x' + 'CD'.repeat(32);
+
+describe('Deposit keys', () => {
+    it('should round-trip token transfers, native transfers and internal transfers', () => {
+        // -1 is the transaction's own value, -2 and below its internal transfers
+        for (const logIndex of [0, 17, -1, -2, -15]) {
+            expect(parseDepositKey(buildDepositKey('EVM:1', txHash, logIndex, blockHash))).toEqual({
+                chainKey: 'EVM:1',
+                transactionHash: txHash.toLowerCase(),
+                logIndex,
+                blockHash: blockHash.toLowerCase(),
+                direction: 'incoming',
+            });
+        }
+    });
+
+    it('should round-trip the direction of withdrawals', () => {
+        const depositKey = buildDepositKey('EVM:137', txHash, -3, blockHash, 'outgoing');
+
+        expect(depositKey.endsWith(':out')).toBe(true);
+        expect(parseDepositKey(depositKey)).toMatchObject({ chainKey: 'EVM:137', logIndex: -3, direction: 'outgoing' });
+    });
+
+    it('should keep incoming and outgoing keys of one transfer apart', () => {
+        expect(buildDepositKey('EVM:1', txHash, 4, blockHash)).not.toBe(buildDepositKey('EVM:1', txHash, 4, blockHash, 'outgoing'));
+    });
+
+    it('should reject keys in any other format', () => {
+        expect(parseDepositKey('EVM:1:0xabc:1')).toBeNull();
+        expect(parseDepositKey('EVM:1:0xabc:native:0xdef')).toBeNull();
+        expect(parseDepositKey('EVM:1:0xabc:--1:0xdef')).toBeNull();
+        expect(parseDepositKey('')).toBeNull();
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from '@jest/globals';
+import { encodeAbiParameters, encodeEventTopics } from 'viem';
+import type { Hex } from 'viem';
+import { FREEZE_EVENTS_ABI, decodeFreezeLog } from '../../../src/services/monitors/stablecoinFreezeEvents';
+import { TRANSFER_EVENT_TOPIC, addressToTopic } from '../../../src/services/monitors/evmLogFilter';
+
+const holder = '0xdAC17F958D2ee523a2206206994597C13D831ec7' as Hex;
+const holderData = encodeAbiParameters([{ type: 'address' }], [holder]);
+
+describe('Stablecoin freeze logs', () => {
+    it('should decode USDT blacklist changes, whose holder is in the data', () => {
+        const added = encodeEventTopics({ abi: FREEZE_EVENTS_ABI, eventName: 'AddedBlackList' }) as Hex[];
+        const removed = encodeEventTopics({ abi: FREEZE_EVENTS_ABI, eventName: 'RemovedBlackList' }) as Hex[];
+
+        expect(decodeFreezeLog(added, holderData)).toEqual({ account: holder.toLowerCase(), frozen: true });
+        expect(decodeFreezeLog(removed, holderData)).toEqual({ account: holder.toLowerCase(), frozen: false });
+    });
+
+    it('should decode USDC blacklist changes, whose holder is indexed', () => {
+        const blacklisted = encodeEventTopics({ abi: FREEZE_EVENTS_ABI, eventName: 'Blacklisted', args: { _account: holder } }) as Hex[];
+        const unblacklisted = encodeEventTopics({ abi: FREEZE_EVENTS_ABI, eventName: 'UnBlacklisted', args: { _account: holder } }) as Hex[];
+
+        expect(decodeFreezeLog(blacklisted, '0x')).toEqual({ account: holder.toLowerCase(), frozen: true });
+        expect(decodeFreezeLog(unblacklisted, '0x')).toEqual({ account: holder.toLowerCase(), frozen: false });
+    });
+
+    it('should ignore other logs and malformed blacklist logs', () => {
+        const added = encodeEventTopics({ abi: FREEZE_EVENTS_ABI, eventName: 'AddedBlackList' }) as Hex[];
+
+        expect(decodeFreezeLog([TRANSFER_EVENT_TOPIC, addressToTopic(holder), addressToTopic(holder)], holderData)).toBeNull();
+        expect(decodeFreezeLog(added, '0x')).toBeNull();
+        expect(decodeFreezeLog([], holderData)).toBeNull();
+    });
+});
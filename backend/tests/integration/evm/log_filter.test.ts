@@ -0,0 +1,103 @@
+import { describe, it, expect } from '@jest/globals';
+import { toEventSelector } from 'viem';
+import type { Hex } from 'viem';
+import {
+    APPROVAL_EVENT_TOPIC,
+    TRANSFER_BATCH_EVENT_TOPIC,
+    TRANSFER_EVENT_TOPIC,
+    TRANSFER_SINGLE_EVENT_TOPIC,
+    addressToTopic,
+    buildTrackedLogTopicFilters,
+    chunkAddresses,
+    dedupeTransferLogs,
+    isErc20ApprovalLog,
+    isTrackedTransferLog,
+    topicToAddress,
+} from '../../../src/services/monitors/evmLogFilter';
+
+const address = (digit: string) => '0x' + digit.repeat(40);
+const blockHash = (digit: string) => ('0x' + digit.repeat(64)) as Hex;
+
+describe('EVM log filters', () => {
+    it('should match the event signatures', () => {
+        expect(TRANSFER_EVENT_TOPIC).toBe(toEventSelector('Transfer(address,address,uint256)'));
+        expect(APPROVAL_EVENT_TOPIC).toBe(toEventSelector('Approval(address,address,uint256)'));
+        expect(TRANSFER_SINGLE_EVENT_TOPIC).toBe(toEventSelector('TransferSingle(address,address,address,uint256,uint256)'));
+        expect(TRANSFER_BATCH_EVENT_TOPIC).toBe(toEventSelector('TransferBatch(address,address,address,uint256[],uint256[])'));
+    });
+
+    describe('address chunking', () => {
+        it('should split addresses into chunks of at most the chunk size, keeping their order', () => {
+            const addresses = Array.from({ length: 7 }, (_, i) => address(String(i)));
+
+            expect(chunkAddresses(addresses, 3)).toEqual([addresses.slice(0, 3), addresses.slice(3, 6), addresses.slice(6)]);
+            expect(chunkAddresses(addresses, 7)).toEqual([addresses]);
+        });
+
+        it('should return no chunks for no addresses and treat a chunk size below one as one', () => {
+            expect(chunkAddresses([], 100)).toEqual([]);
+            expect(chunkAddresses(['a', 'b'], 0)).toEqual([['a'], ['b']]);
+        });
+    });
+
+    describe('topic filters', () => {
+        const topics = [address('1'), address('2')].map(addressToTopic);
+
+        it('should put the tracked addresses at every position a transfer indexes its parties', () => {
+            expect(buildTrackedLogTopicFilters(topics, false)).toEqual([
+                [[TRANSFER_EVENT_TOPIC], topics],
+                [[TRANSFER_EVENT_TOPIC, TRANSFER_SINGLE_EVENT_TOPIC, TRANSFER_BATCH_EVENT_TOPIC], null, topics],
+                [[TRANSFER_SINGLE_EVENT_TOPIC, TRANSFER_BATCH_EVENT_TOPIC], null, null, topics],
+            ]);
+        });
+
+        it('should OR approvals into the owner filter', () => {
+            const [ownerFilter, ...rest] = buildTrackedLogTopicFilters(topics, true);
+
+            expect(ownerFilter).toEqual([[TRANSFER_EVENT_TOPIC, APPROVAL_EVENT_TOPIC], topics]);
+            expect(rest).toEqual(buildTrackedLogTopicFilters(topics, false).slice(1));
+        });
+
+        it('should tell ERC20 approvals from ERC-721 ones', () => {
+            const log = (extraTopics: Hex[]) => ({ topics: [APPROVAL_EVENT_TOPIC as Hex, ...topics, ...extraTopics], blockHash: null, blockNumber: null, logIndex: null });
+
+            expect(isErc20ApprovalLog(log([]))).toBe(true);
+            expect(isErc20ApprovalLog(log([addressToTopic('0x01')]))).toBe(false);
+        });
+    });
+
+    describe('address topics', () => {
+        it('should round-trip a checksummed address as lowercase', () => {
+            const checksummed = '0xdAC17F958D2ee523a2206206994597C13D831ec7';
+            const topic = addressToTopic(checksummed);
+
+            expect(topic).toBe('0x000000000000000000000000dac17f958d2ee523a2206206994597c13d831ec7');
+            expect(topicToAddress(topic)).toBe(checksummed.toLowerCase());
+        });
+
+        it('should reject topics that are not 32 bytes', () => {
+            expect(topicToAddress(null)).toBeNull();
+            expect(topicToAddress(address('1') as Hex)).toBeNull();
+        });
+    });
+
+    describe('matched logs', () => {
+        it('should drop logs returned by several filters and order the rest by block and log index', () => {
+            const log = (block: bigint, logIndex: number, hashDigit: string) => ({ topics: [], blockHash: blockHash(hashDigit), blockNumber: block, logIndex });
+            const logs = [log(11n, 0, 'b'), log(10n, 5, 'a'), log(10n, 2, 'a'), log(10n, 5, 'a'), log(11n, 0, 'b')];
+
+            expect(dedupeTransferLogs(logs)).toEqual([log(10n, 2, 'a'), log(10n, 5, 'a'), log(11n, 0, 'b')]);
+        });
+
+        it('should match tracked senders and recipients at their ERC20 and ERC-1155 positions', () => {
+            const tracked = new Set([address('1')]);
+            const [trackedTopic, otherTopic, operatorTopic] = [address('1'), address('2'), address('3')].map(addressToTopic);
+            const log = (topics: Hex[]) => ({ topics, blockHash: null, blockNumber: null, logIndex: null });
+
+            expect(isTrackedTransferLog(log([TRANSFER_EVENT_TOPIC, otherTopic, trackedTopic]), tracked)).toBe(true);
+            expect(isTrackedTransferLog(log([TRANSFER_SINGLE_EVENT_TOPIC, operatorTopic, otherTopic, trackedTopic]), tracked)).toBe(true);
+            expect(isTrackedTransferLog(log([TRANSFER_SINGLE_EVENT_TOPIC, trackedTopic, otherTopic, operatorTopic]), tracked)).toBe(false);
+            expect(isTrackedTransferLog(log([APPROVAL_EVENT_TOPIC, trackedTopic, otherTopic]), tracked)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from '@jest/globals';
+import { evmChainRegistry } from '../../../src/config/evmChains';
+import { normalizeEvmNetworks } from '../../../src/services/address/networkSelection';
+
+// Uses the chains enabled by EVM_CHAINS; each test needs the ones it names.
+const hasChains = (...keys: string[]) => keys.every(key => evmChainRegistry.some(chain => chain.key === key));
+
+describe('EVM network selection', () => {
+    it('should accept chain keys, names and chain ids', () => {
+        if (!hasChains('ethereum', 'polygon', 'bsc')) return;
+
+        expect(normalizeEvmNetworks(['EVM:1', 'polygon', 'BNB', 56, '137'])).toEqual(['EVM:1', 'EVM:137', 'EVM:56']);
+    });
+
+    it('should split comma and semicolon separated lists and skip blanks', () => {
+        if (!hasChains('ethereum', 'polygon')) return;
+
+        expect(normalizeEvmNetworks(' Ethereum ;polygon,, ')).toEqual(['EVM:1', 'EVM:137']);
+    });
+
+    it('should treat an empty selection as every network', () => {
+        expect(normalizeEvmNetworks([])).toEqual([]);
+        expect(normalizeEvmNetworks('')).toEqual([]);
+    });
+
+    it('should reject networks that are not configured EVM chains', () => {
+        expect(() => normalizeEvmNetworks(['solana'])).toThrow('Invalid network "solana"');
+        expect(() => normalizeEvmNetworks('EVM:999999')).toThrow('not a configured EVM chain');
+    });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from '@jest/globals';
+import type { Hex } from 'viem';
+import { extractCallTracerTransfers, extractParityTraceTransfers } from '../../../src/services/monitors/evmTraceParser';
+import type { CallTracerFrame, ParityTrace } from '../../../src/services/monitors/evmTraceParser';
+
+const txHash = ('0x' + 'AA'.repeat(32)) as Hex;
+const otherTxHash = ('0x' + 'bb'.repeat(32)) as Hex;
+const blockHash = ('0x' + 'cc'.repeat(32)) as Hex;
+const address = (digit: string) => '0x' + digit.repeat(40);
+
+describe('EVM trace parsing', () => {
+    describe('callTracer output', () => {
+        // wallet -> router (1 ETH) -> splitter, which pays two recipients and makes one call that reverts
+        const root: CallTracerFrame = {
+            type: 'CALL',
+            from: address('1'),
+            to: address('2'),
+            value: '0xde0b6b3a7640000',
+            calls: [
+                {
+                    type: 'CALL',
+                    from: address('2'),
+                    to: address('3'),
+                    value: '0x64',
+                    calls: [
+                        { type: 'CALL', from: address('3'), to: address('A'), value: '0x1' },
+                        { type: 'STATICCALL', from: address('3'), to: address('4') },
+                        {
+                            type: 'CALL',
+                            from: address('3'),
+                            to: address('5'),
+                            value: '0x2',
+                            error: 'execution reverted',
+                            calls: [{ type: 'CALL', from: address('5'), to: address('6'), value: '0x3' }],
+                        },
+                        { type: 'DELEGATECALL', from: address('3'), to: address('7'), value: '0x4' },
+                        { type: 'CALL', from: address('3'), to: address('8'), value: '0x5' },
+                    ],
+                },
+            ],
+        };
+
+        it('should flatten nested value calls in call order, skipping the transaction itself', () => {
+            const transfers = extractCallTracerTransfers([{ txHash, result: root }], []);
+
+            expect(transfers).toEqual([
+                { transactionHash: txHash.toLowerCase(), traceIndex: 0, from: address('2'), to: address('3'), value: 100n },
+                { transactionHash: txHash.toLowerCase(), traceIndex: 1, from: address('3'), to: address('a'), value: 1n },
+                { transactionHash: txHash.toLowerCase(), traceIndex: 2, from: address('3'), to: address('8'), value: 5n },
+            ]);
+        });
+
+        it('should drop reverted calls together with everything they called', () => {
+            const transfers = extractCallTracerTransfers([{ txHash, result: root }], []);
+
+            expect(transfers.map(transfer => transfer.to)).not.toContain(address('5'));
+            expect(transfers.map(transfer => transfer.to)).not.toContain(address('6'));
+        });
+
+        it('should take transaction hashes from the block order when txHash is missing', () => {
+            const transfers = extractCallTracerTransfers([{ result: { type: 'CALL', from: address('1'), to: address('2') } }, { result: root }], [txHash, otherTxHash]);
+
+            expect(new Set(transfers.map(transfer => transfer.transactionHash))).toEqual(new Set([otherTxHash]));
+        });
+
+        it('should number each transaction\'s transfers from zero', () => {
+            const transfers = extractCallTracerTransfers([{ txHash, result: root }, { txHash: otherTxHash, result: root }], []);
+
+            expect(transfers.map(transfer => transfer.traceIndex)).toEqual([0, 1, 2, 0, 1, 2]);
+        });
+    });
+
+    describe('trace_block output', () => {
+        const trace = (traceAddress: number[], fields: Partial<ParityTrace>, transactionHash: Hex | null = txHash): ParityTrace => ({
+            type: 'call',
+            action: {},
+            traceAddress,
+            transactionHash,
+            blockHash,
+            ...fields,
+        });
+
+        const traces: ParityTrace[] = [
+            trace([], { action: { callType: 'call', from: address('1'), to: address('2'), value: '0xde0b6b3a7640000' } }),
+            trace([0], { action: { callType: 'call', from: address('2'), to: address('3'), value: '0x64' } }),
+            trace([0, 0], { action: { callType: 'call', from: address('3'), to: address('4'), value: '0x1' } }),
+            trace([0, 1], { action: { callType: 'call', from: address('3'), to: address('5'), value: '0x2' }, error: 'Reverted' }),
+            trace([0, 1, 0], { action: { callType: 'call', from: address('5'), to: address('6'), value: '0x3' } }),
+            trace([0, 10], { action: { callType: 'call', from: address('3'), to: address('7'), value: '0x4' } }),
+            trace([0, 2], { action: { callType: 'delegatecall', from: address('3'), to: address('8'), value: '0x5' } }),
+            trace([1], { type: 'create', action: { from: address('2'), value: '0x6' }, result: { address: address('9') } }),
+            trace([2], { type: 'suicide', action: { address: address('9'), refundAddress: address('B'), balance: '0x7' } }),
+            trace([], { type: 'reward', action: { to: address('c'), value: '0x8' } }, null),
+        ];
+
+        it('should flatten value calls, creates and self-destructs in trace order', () => {
+            const transfers = extractParityTraceTransfers(traces);
+
+            expect(transfers.map(({ traceIndex, from, to, value }) => ({ traceIndex, from, to, value }))).toEqual([
+                { traceIndex: 0, from: address('2'), to: address('3'), value: 100n },
+                { traceIndex: 1, from: address('3'), to: address('4'), value: 1n },
+                { traceIndex: 2, from: address('3'), to: address('7'), value: 4n },
+                { traceIndex: 3, from: address('2'), to: address('9'), value: 6n },
+                { traceIndex: 4, from: address('9'), to: address('b'), value: 7n },
+            ]);
+        });
+
+        it('should skip the subtree of a reverted call but not its siblings with a longer index', () => {
+            const recipients = extractParityTraceTransfers(traces).map(transfer => transfer.to);
+
+            expect(recipients).not.toContain(address('6'));
+            expect(recipients).toContain(address('7'));
+        });
+
+        it('should move nothing when the whole transaction reverted', () => {
+            const reverted = [
+                trace([], { action: { callType: 'call', from: address('1'), to: address('2'), value: '0x1' }, error: 'Reverted' }),
+                trace([0], { action: { callType: 'call', from: address('2'), to: address('3'), value: '0x64' } }),
+            ];
+
+            expect(extractParityTraceTransfers(reverted)).toEqual([]);
+        });
+    });
+
+});
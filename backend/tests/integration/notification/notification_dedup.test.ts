@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import type { NotificationClaim, Prisma } from '@prisma/client';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { prisma } from '../../../src/prisma';
+import { NotificationDedupService } from '../../../src/services/notification/notificationDedupService';
+import { buildDepositKey } from '../../../src/services/confirmation/pendingDepositService';
+
+// Replaces the notification_claims table with an in-memory unique index; no database needed.
+
+type ClaimEventKey = Pick<NotificationClaim, 'companyId' | 'channel' | 'chainKey' | 'transactionHash' | 'eventIndex' | 'direction' | 'stage'>;
+type StoredClaim = Pick<NotificationClaim, 'id' | 'status' | 'claimedAt' | 'depositKey'>;
+
+interface NotificationClaimDelegateStub {
+    create(args: { data: ClaimEventKey & { depositKey: string } }): Promise<{ id: number }>;
+    findFirst(args: { where: ClaimEventKey }): Promise<StoredClaim | null>;
+    update(args: { where: { id: number }; data: Prisma.NotificationClaimUpdateInput }): Promise<object>;
+}
+
+const chainKey = 'EVM:1';
+const txHash = '0x' + 'ab'.repeat(32);
+const blockHash = '0x' + 'cd'.repeat(32);
+
+describe('Notification claims', () => {
+    let claims: Map<string, StoredClaim>;
+    const uniqueKey = (data: ClaimEventKey) => [data.companyId, data.channel, data.chainKey, data.transactionHash, data.eventIndex, data.direction, data.stage].join('|');
+
+    const delegate = prisma.notificationClaim as unknown as NotificationClaimDelegateStub;
+    const originals = { create: delegate.create, findFirst: delegate.findFirst, update: delegate.update };
+
+    beforeEach(() => {
+        claims = new Map();
+        delegate.create = async ({ data }) => {
+            const key = uniqueKey(data);
+            if (claims.has(key)) {
+                throw new PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+            }
+            const claim = { id: claims.size + 1, status: 'claimed', claimedAt: new Date(), depositKey: data.depositKey };
+            claims.set(key, claim);
+            return { id: claim.id };
+        };
+        delegate.findFirst = async ({ where }) => claims.get(uniqueKey(where)) ?? null;
+        delegate.update = async () => ({});
+    });
+
+    afterEach(() => {
+        Object.assign(delegate, originals);
+    });
+
+    it('should claim two internal transfers of one transaction separately', async () => {
+        const dedup = NotificationDedupService.getInstance();
+        const first = await dedup.claim({ companyId: 1, channel: 'slack', depositKey: buildDepositKey(chainKey, txHash, -2, blockHash) });
+        const second = await dedup.claim({ companyId: 1, channel: 'slack', depositKey: buildDepositKey(chainKey, txHash, -3, blockHash) });
+
+        expect(first).not.toBeNull();
+        expect(second).not.toBeNull();
+        expect(second).not.toBe(first);
+        expect(Array.from(claims.keys()).map(key => key.split('|')[4])).toEqual(['-2', '-3']);
+    });
+
+    it('should keep the native transfer under its own index', async () => {
+        const dedup = NotificationDedupService.getInstance();
+        await dedup.claim({ companyId: 1, channel: 'slack', depositKey: buildDepositKey(chainKey, txHash, -1, blockHash) });
+        await dedup.claim({ companyId: 1, channel: 'slack', depositKey: buildDepositKey(chainKey, txHash, -2, blockHash) });
+
+        expect(Array.from(claims.keys()).map(key => key.split('|')[4])).toEqual(['native', '-2']);
+    });
+
+    it('should suppress the same internal transfer scanned twice', async () => {
+        const dedup = NotificationDedupService.getInstance();
+        const depositKey = buildDepositKey(chainKey, txHash, -2, blockHash);
+        expect(await dedup.claim({ companyId: 1, channel: 'slack', depositKey })).not.toBeNull();
+        expect(await dedup.claim({ companyId: 1, channel: 'slack', depositKey })).toBeNull();
+    });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import type { NotificationOutbox } from '@prisma/client';
+import { prisma } from '../../../src/prisma';
+import { config as appConfig } from '../../../src/config';
+import { NotificationService } from '../../../src/services/notification/notificationService';
+import type { DeliveryResult, NotificationMessage } from '../../../src/services/notification/notificationService';
+import { TransferLedgerService } from '../../../src/services/transfer/transferLedgerService';
+import type { ClassificationResult } from '../../../src/services/transfer/transferLedgerService';
+import { OutboxDispatcher } from '../../../src/services/outbox/outboxDispatcher';
+import { OutboxService, buildFreezeOutboxEvent, buildTransferOutboxEvent, computeBackoffMs } from '../../../src/services/outbox/outboxService';
+import type { OutboxEventInput } from '../../../src/services/outbox/outboxService';
+import type { StoredDepositPayload } from '../../../src/services/confirmation/pendingDepositService';
+
+// Replaces the notification_outbox table with an in-memory list and the notification channels
+// with two stubs that fail on demand; no database or Slack needed.
+
+// The subset of the where clauses OutboxService builds
+interface OutboxWhere {
+    OR?: OutboxWhere[];
+    id?: number | { in: number[] };
+    status?: string | { in: string[] };
+    nextAttemptAt?: { lte: Date };
+    lockedAt?: { lt: Date };
+}
+
+interface NotificationOutboxDelegateStub {
+    findMany(args: { where: OutboxWhere; take?: number }): Promise<NotificationOutbox[]>;
+    updateMany(args: { where: OutboxWhere; data: Partial<NotificationOutbox> }): Promise<{ count: number }>;
+    update(args: { where: { id: number }; data: Partial<NotificationOutbox> }): Promise<NotificationOutbox>;
+}
+
+interface NotificationServiceStub {
+    deliver(message: NotificationMessage, skipChannels?: string[]): Promise<DeliveryResult>;
+}
+
+interface TransferLedgerStub {
+    getClassification(transferKey: string): Promise<ClassificationResult | null>;
+}
+
+const CHANNELS = ['SlackNotifierChannel', 'ConsoleNotifier'];
+
+function matches(row: NotificationOutbox, where: OutboxWhere): boolean {
+    if (where.OR && !where.OR.some(condition => matches(row, condition))) return false;
+    if (typeof where.id === 'number' && row.id !== where.id) return false;
+    if (typeof where.id === 'object' && !where.id.in.includes(row.id)) return false;
+    if (typeof where.status === 'string' && row.status !== where.status) return false;
+    if (typeof where.status === 'object' && !where.status.in.includes(row.status)) return false;
+    if (where.nextAttemptAt && !(row.nextAttemptAt <= where.nextAttemptAt.lte)) return false;
+    if (where.lockedAt && !(row.lockedAt !== null && row.lockedAt < where.lockedAt.lt)) return false;
+    return true;
+}
+
+const freezeEvent = buildFreezeOutboxEvent({
+    chainKey: 'EVM:1',
+    chainType: 'EVM',
+    chainName: 'Ethereum',
+    chainId: 1,
+    address: '0x' + '1'.repeat(40),
+    frozen: true,
+    tokenSymbol: 'USDT',
+    tokenContractAddress: '0xdac17f958d2ee523a2206206994597c13d831ec7',
+    transactionHash: '0x' + 'aa'.repeat(32),
+    blockNumber: '100',
+    blockHash: '0x' + 'bb'.repeat(32),
+    blockTimestamp: null,
+    logIndex: 3,
+});
+
+describe('Outbox dispatcher', () => {
+    const delegate = prisma.notificationOutbox as unknown as NotificationOutboxDelegateStub;
+    const notificationService = NotificationService.getInstance() as unknown as NotificationServiceStub;
+    const transferLedger = TransferLedgerService.getInstance() as unknown as TransferLedgerStub;
+    const originals = {
+        findMany: delegate.findMany,
+        updateMany: delegate.updateMany,
+        update: delegate.update,
+        deliver: notificationService.deliver,
+        getClassification: transferLedger.getClassification,
+    };
+    let rows: NotificationOutbox[];
+    let failingChannels: Set<string>;
+    let sent: Array<{ channel: string; title: string }>;
+
+    const insert = (event: OutboxEventInput, fields: Partial<NotificationOutbox> = {}): NotificationOutbox => {
+        const now = new Date();
+        const row: NotificationOutbox = {
+            id: rows.length + 1,
+            eventKey: event.eventKey,
+            eventType: event.eventType,
+            chainKey: event.chainKey,
+            payload: JSON.parse(JSON.stringify(event.payload)),
+            status: 'pending',
+            attempts: 0,
+            deliveredChannels: [],
+            nextAttemptAt: now,
+            lockedAt: null,
+            lastError: null,
+            deliveredAt: null,
+            createdAt: now,
+            updatedAt: now,
+            ...fields,
+        };
+        rows.push(row);
+        return row;
+    };
+
+    beforeEach(() => {
+        rows = [];
+        failingChannels = new Set();
+        sent = [];
+        delegate.findMany = async ({ where, take }) => rows
+            .filter(row => matches(row, where))
+            .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime() || a.id - b.id)
+            .slice(0, take)
+            .map(row => ({ ...row }));
+        delegate.updateMany = async ({ where, data }) => {
+            const matched = rows.filter(row => matches(row, where));
+            matched.forEach(row => Object.assign(row, data, { updatedAt: new Date() }));
+            return { count: matched.length };
+        };
+        delegate.update = async ({ where, data }) => {
+            const row = rows.find(candidate => candidate.id === where.id)!;
+            return Object.assign(row, data, { updatedAt: new Date() });
+        };
+        notificationService.deliver = async (message, skipChannels = []) => {
+            const result: DeliveryResult = { delivered: [], failures: [] };
+            for (const channel of CHANNELS.filter(name => !skipChannels.includes(name))) {
+                if (failingChannels.has(channel)) {
+                    result.failures.push({ channel, error: 'channel_not_found' });
+                } else {
+                    sent.push({ channel, title: message.title });
+                    result.delivered.push(channel);
+                }
+            }
+            return result;
+        };
+        transferLedger.getClassification = async () => null;
+    });
+
+    afterEach(() => {
+        Object.assign(delegate, { findMany: originals.findMany, updateMany: originals.updateMany, update: originals.update });
+        notificationService.deliver = originals.deliver;
+        transferLedger.getClassification = originals.getClassification;
+    });
+
+    it('should deliver a due notification to every channel', async () => {
+        const row = insert(freezeEvent);
+
+        await OutboxDispatcher.getInstance().dispatchDue();
+
+        expect(sent.map(message => message.channel)).toEqual(CHANNELS);
+        expect(row).toMatchObject({ status: 'delivered', attempts: 0, deliveredChannels: CHANNELS, lockedAt: null, lastError: null });
+        expect(row.deliveredAt).not.toBeNull();
+    });
+
+    it('should leave notifications that are not due yet in the queue', async () => {
+        const row = insert(freezeEvent, { nextAttemptAt: new Date(Date.now() + 60_000) });
+
+        await OutboxDispatcher.getInstance().dispatchDue();
+
+        expect(sent).toEqual([]);
+        expect(row.status).toBe('pending');
+    });
+
+    it('should back off after a failed channel and retry only that channel', async () => {
+        const row = insert(freezeEvent);
+        failingChannels.add('SlackNotifierChannel');
+
+        const before = Date.now();
+        await OutboxDispatcher.getInstance().dispatchDue();
+
+        expect(row).toMatchObject({ status: 'pending', attempts: 1, deliveredChannels: ['ConsoleNotifier'], lastError: 'SlackNotifierChannel: channel_not_found' });
+        expect(row.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + computeBackoffMs(1));
+
+        failingChannels.clear();
+        row.nextAttemptAt = new Date(0); // The backoff has elapsed
+        sent = [];
+        await OutboxDispatcher.getInstance().dispatchDue();
+
+        expect(sent.map(message => message.channel)).toEqual(['SlackNotifierChannel']);
+        expect(row).toMatchObject({ status: 'delivered', attempts: 1, deliveredChannels: ['ConsoleNotifier', 'SlackNotifierChannel'] });
+    });
+
+    it('should double the backoff per attempt up to the maximum', () => {
+        const { baseBackoffMs, maxBackoffMs } = appConfig.outbox;
+
+        expect(computeBackoffMs(1)).toBe(Math.min(maxBackoffMs, baseBackoffMs));
+        expect(computeBackoffMs(2)).toBe(Math.min(maxBackoffMs, baseBackoffMs * 2));
+        expect(computeBackoffMs(3)).toBe(Math.min(maxBackoffMs, baseBackoffMs * 4));
+        expect(computeBackoffMs(100)).toBe(maxBackoffMs);
+    });
+
+    it('should dead-letter a notification on its last attempt and stop retrying it', async () => {
+        const row = insert(freezeEvent, { attempts: appConfig.outbox.maxAttempts - 1 });
+        failingChannels.add('SlackNotifierChannel');
+        failingChannels.add('ConsoleNotifier');
+
+        await OutboxDispatcher.getInstance().dispatchDue();
+
+        expect(row).toMatchObject({ status: 'dead', attempts: appConfig.outbox.maxAttempts, lockedAt: null });
+
+        failingChannels.clear();
+        row.nextAttemptAt = new Date(0);
+        await OutboxDispatcher.getInstance().dispatchDue();
+
+        expect(sent).toEqual([]);
+        expect(row.status).toBe('dead');
+    });
+
+    it('should redrive dead notifications with fresh attempts and deliver them', async () => {
+        const dead = insert(freezeEvent, { status: 'dead', attempts: appConfig.outbox.maxAttempts, lastError: 'SlackNotifierChannel: channel_not_found' });
+        const otherDead = insert({ ...freezeEvent, eventKey: `${freezeEvent.eventKey}:other` }, { status: 'dead', attempts: appConfig.outbox.maxAttempts });
+
+        expect(await OutboxService.getInstance().redrive([dead.id])).toBe(1);
+        expect(dead).toMatchObject({ status: 'pending', attempts: 0 });
+        expect(otherDead.status).toBe('dead');
+
+        await OutboxDispatcher.getInstance().dispatchDue();
+
+        expect(dead.status).toBe('delivered');
+        expect(otherDead.status).toBe('dead');
+        expect(await OutboxService.getInstance().redrive()).toBe(1);
+        expect(otherDead.status).toBe('pending');
+    });
+
+    it('should reclaim a notification whose delivery lock went stale', async () => {
+        const staleLock = new Date(Date.now() - appConfig.outbox.lockTimeoutMs - 1000);
+        const stale = insert(freezeEvent, { status: 'processing', lockedAt: staleLock });
+        const locked = insert({ ...freezeEvent, eventKey: `${freezeEvent.eventKey}:locked` }, { status: 'processing', lockedAt: new Date() });
+
+        await OutboxDispatcher.getInstance().dispatchDue();
+
+        expect(stale.status).toBe('delivered');
+        expect(locked.status).toBe('processing');
+    });
+
+    it('should mark suppressed transfers delivered without sending them', async () => {
+        const transfer = { depositKey: 'EVM:1:0xaa:0:0xbb' } as StoredDepositPayload;
+        const row = insert(buildTransferOutboxEvent('EVM:1', transfer, 'confirmed'));
+        transferLedger.getClassification = async () => ({ classification: 'suppressed', reasons: ['zero_value'], lookalikeOf: null });
+
+        await OutboxDispatcher.getInstance().dispatchDue();
+
+        expect(sent).toEqual([]);
+        expect(row).toMatchObject({ status: 'delivered', attempts: 0, deliveredChannels: [] });
+    });
+});
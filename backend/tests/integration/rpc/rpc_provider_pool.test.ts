@@ -0,0 +1,204 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { config as appConfig } from '../../../src/config';
+import { RpcProviderPool, describeRpcError, isRpcMethodUnsupported, isTransportFailure, redactRpcUrl } from '../../../src/services/rpc/rpcProviderPool';
+
+// Providers are plain URLs; each test decides per URL whether a request succeeds.
+
+const primary = 'https://primary.example';
+const fallback = 'https://fallback.example';
+
+class HttpStatusError extends Error {
+    constructor(public readonly status: number) {
+        super(`HTTP request failed with status ${status}`);
+    }
+}
+
+class RpcCodeError extends Error {
+    constructor(public readonly code: number, message: string) {
+        super(message);
+    }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function waitFor(condition: () => boolean, timeoutMs = 1000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition() && Date.now() < deadline) {
+        await sleep(5);
+    }
+}
+
+describe('RPC provider pool', () => {
+    let pool: RpcProviderPool | null = null;
+
+    afterEach(() => {
+        pool?.stopHealthChecks();
+        pool = null;
+    });
+
+    const providerStatus = (url: string) => pool!.getStatus().providers.find(provider => provider.url === redactRpcUrl(url))!;
+
+    describe('failover', () => {
+        it('should fail over to the next provider on a transport failure and make it active', async () => {
+            pool = new RpcProviderPool('EVM:1', 'Test', [{ url: primary }, { url: fallback }]);
+            const called: string[] = [];
+
+            const result = await pool.execute(async provider => {
+                called.push(provider.url);
+                if (provider.url === primary) throw new HttpStatusError(503);
+                return 'block';
+            });
+
+            expect(result).toBe('block');
+            expect(called).toEqual([primary, fallback]);
+            expect(pool.getStatus().activeProvider).toBe(redactRpcUrl(fallback));
+            expect(providerStatus(primary)).toMatchObject({ healthy: true, consecutiveFailures: 1, lastError: 'HTTP request failed with status 503' });
+        });
+
+        it('should rethrow request errors without trying another provider', async () => {
+            pool = new RpcProviderPool('EVM:1', 'Test', [{ url: primary }, { url: fallback }]);
+            const called: string[] = [];
+            const reverted = new RpcCodeError(3, 'execution reverted');
+
+            await expect(pool.execute(async provider => {
+                called.push(provider.url);
+                throw reverted;
+            })).rejects.toBe(reverted);
+            expect(called).toEqual([primary]);
+            expect(providerStatus(primary).errorCount).toBe(0);
+        });
+
+        it('should throw the last error when every provider fails', async () => {
+            pool = new RpcProviderPool('EVM:1', 'Test', [{ url: primary }, { url: fallback }]);
+
+            await expect(pool.execute(async provider => {
+                throw new HttpStatusError(provider.url === primary ? 502 : 504);
+            })).rejects.toMatchObject({ status: 504 });
+        });
+
+        it('should take a provider out of rotation after consecutive failures', async () => {
+            pool = new RpcProviderPool('EVM:1', 'Test', [{ url: primary }, { url: fallback }]);
+            // Both providers fail until the last round, in which only the fallback recovers
+            for (let round = 1; round <= appConfig.rpcPool.failureThreshold; round++) {
+                const lastRound = round === appConfig.rpcPool.failureThreshold;
+                await pool.execute(async provider => {
+                    if (provider.url === primary || !lastRound) throw new Error('socket hang up');
+                    return provider.url;
+                }).catch(() => null);
+            }
+            expect(providerStatus(primary)).toMatchObject({ healthy: false, consecutiveFailures: appConfig.rpcPool.failureThreshold });
+            expect(providerStatus(fallback)).toMatchObject({ healthy: true, consecutiveFailures: 0 });
+
+            const called: string[] = [];
+            await pool.execute(async provider => {
+                called.push(provider.url);
+                return provider.url;
+            });
+            expect(called).toEqual([fallback]);
+        });
+
+        it('should take a rate-limiting provider out of rotation straight away', async () => {
+            pool = new RpcProviderPool('EVM:1', 'Test', [{ url: primary }, { url: fallback }]);
+
+            await pool.execute(async provider => {
+                if (provider.url === primary) throw new HttpStatusError(429);
+                return provider.url;
+            });
+
+            expect(providerStatus(primary)).toMatchObject({ healthy: false, consecutiveFailures: 1 });
+        });
+
+        it('should still try unhealthy providers when no healthy one is left', async () => {
+            pool = new RpcProviderPool('EVM:1', 'Test', [{ url: primary }, { url: fallback }]);
+            await expect(pool.execute(async () => { throw new HttpStatusError(429); })).rejects.toBeDefined();
+
+            const result = await pool.execute(async provider => provider.url);
+
+            expect([primary, fallback]).toContain(result);
+            expect(providerStatus(result)).toMatchObject({ healthy: true, active: true });
+        });
+    });
+
+    describe('health checks', () => {
+        const markPrimaryUnhealthy = () => pool!.execute(async provider => {
+            if (provider.url === primary) throw new HttpStatusError(429);
+            return provider.url;
+        });
+
+        it('should bring an unhealthy provider back once its probe succeeds, without switching to it', async () => {
+            const probed: string[] = [];
+            pool = new RpcProviderPool('EVM:1', 'Test', [{ url: primary }, { url: fallback }], {
+                probe: async provider => { probed.push(provider.url); },
+            });
+            await markPrimaryUnhealthy();
+
+            pool.startHealthChecks(10);
+            await waitFor(() => providerStatus(primary).healthy);
+
+            expect(probed).toContain(primary);
+            expect(probed).not.toContain(fallback);
+            expect(providerStatus(primary)).toMatchObject({ healthy: true, consecutiveFailures: 0 });
+            expect(pool.getStatus().activeProvider).toBe(redactRpcUrl(fallback));
+        });
+
+        it('should keep a provider out of rotation while its probe fails', async () => {
+            let probes = 0;
+            pool = new RpcProviderPool('EVM:1', 'Test', [{ url: primary }, { url: fallback }], {
+                probe: async () => {
+                    probes++;
+                    throw new HttpStatusError(503);
+                },
+            });
+            await markPrimaryUnhealthy();
+
+            pool.startHealthChecks(10);
+            await waitFor(() => probes >= 2);
+
+            expect(providerStatus(primary)).toMatchObject({ healthy: false, lastError: 'HTTP request failed with status 503' });
+        });
+
+        it('should not probe a single-provider pool', async () => {
+            let probes = 0;
+            pool = new RpcProviderPool('EVM:1', 'Test', [{ url: primary }], { probe: async () => { probes++; } });
+            await expect(pool.execute(async () => { throw new HttpStatusError(429); })).rejects.toBeDefined();
+
+            pool.startHealthChecks(10);
+            await sleep(40);
+
+            expect(probes).toBe(0);
+        });
+    });
+
+    describe('error classification', () => {
+        it('should read the status from the error or its response, and prefer the short message', () => {
+            expect(describeRpcError(new HttpStatusError(502))).toEqual({ status: 502, code: undefined, message: 'HTTP request failed with status 502' });
+            expect(describeRpcError({ response: { status: 429 }, message: 'Too Many Requests' })).toMatchObject({ status: 429, message: 'Too Many Requests' });
+            expect(describeRpcError({ code: -32005, shortMessage: 'Limit exceeded.', message: 'Limit exceeded.\n\nDetails: ...' })).toEqual({ status: undefined, code: -32005, message: 'Limit exceeded.' });
+            expect(describeRpcError('boom')).toEqual({ status: undefined, code: undefined, message: 'boom' });
+        });
+
+        it('should fail over on timeouts, rate limits, server and network errors only', () => {
+            expect(isTransportFailure(new HttpStatusError(408))).toBe(true);
+            expect(isTransportFailure(new HttpStatusError(429))).toBe(true);
+            expect(isTransportFailure(new HttpStatusError(500))).toBe(true);
+            expect(isTransportFailure(new HttpStatusError(400))).toBe(false);
+            expect(isTransportFailure(new RpcCodeError(-32005, 'limit exceeded'))).toBe(true);
+            expect(isTransportFailure(new RpcCodeError(-32602, 'invalid params'))).toBe(false);
+            expect(isTransportFailure(Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' }))).toBe(true);
+        });
+    });
+
+    describe('unsupported methods', () => {
+        it('should recognize method-not-found errors, also when wrapped', () => {
+            expect(isRpcMethodUnsupported(new RpcCodeError(-32601, 'the method trace_block does not exist/is not available'))).toBe(true);
+            expect(isRpcMethodUnsupported({ message: 'request failed', cause: new Error('Method debug_traceBlockByHash not found') })).toBe(true);
+            expect(isRpcMethodUnsupported({ shortMessage: 'The method "eth_subscribe" is not supported.', message: 'RPC Request failed.' })).toBe(true);
+        });
+
+        it('should not treat other RPC errors as unsupported', () => {
+            expect(isRpcMethodUnsupported(new RpcCodeError(-32000, 'header not found'))).toBe(false);
+            expect(isRpcMethodUnsupported(new HttpStatusError(503))).toBe(false);
+            expect(isRpcMethodUnsupported(undefined)).toBe(false);
+        });
+    });
+});
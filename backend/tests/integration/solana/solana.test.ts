@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+import type { SolanaBlock } from '../../../src/services/rpc/solanaRpcClient';
+import { extractTrackedTransfers } from '../../../src/services/monitors/solanaBlockParser';
+import { isValidSolanaAddress } from '../../../src/utils/validators';
+import recordedBlock from './fixtures/block-300000000.json';
+
+// Decodes a recorded jsonParsed block; no RPC node needed.
+
+const block = recordedBlock as unknown as SolanaBlock;
+const trackedWallet = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const sender = 'HN7cABqLq46Es1jh92dQQisAq662SmxELLLsHHe4YWrH';
+
+describe('Solana transfer parsing', () => {
+    const transfers = extractTrackedTransfers(block, new Set([trackedWallet]));
+
+    it('should decode native SOL transfers', () => {
+        expect(transfers).toContainEqual(expect.objectContaining({
+            kind: 'SOL',
+            transactionHash: block.transactions[0].transaction.signatures[0],
+            instructionIndex: 0,
+            recipientAddress: trackedWallet,
+            senderAddress: sender,
+            amount: 1_500_000_000n,
+        }));
+    });
+
+    it('should attribute SPL transfers into a token account to its owner, including inner instructions', () => {
+        expect(transfers).toContainEqual(expect.objectContaining({
+            kind: 'SPL',
+            transactionHash: block.transactions[1].transaction.signatures[0],
+            instructionIndex: 1,
+            recipientAddress: trackedWallet,
+            senderAddress: sender,
+            amount: 250_000_000n,
+            mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+            decimals: 6,
+            tokenAccount: 'TrackedUsdcAccount11111111111111111111111111',
+        }));
+    });
+
+    it('should resolve the mint of a plain transfer from the token balances', () => {
+        expect(transfers).toContainEqual(expect.objectContaining({
+            kind: 'SPL',
+            transactionHash: block.transactions[2].transaction.signatures[0],
+            amount: 42_000_000n,
+            mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+            decimals: 6,
+        }));
+    });
+
+    it('should skip failed transactions and moves between the wallet\'s own token accounts', () => {
+        expect(transfers).toHaveLength(3);
+    });
+});
+
+describe('Solana address validation', () => {
+    it('should accept 32-byte Base58 keys and reject Tron and Bitcoin addresses', () => {
+        expect(isValidSolanaAddress(trackedWallet)).toBe(true);
+        expect(isValidSolanaAddress('11111111111111111111111111111111')).toBe(true);
+        expect(isValidSolanaAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t')).toBe(false);
+        expect(isValidSolanaAddress('1BoatSLRHtKNngkdXEeobR76b53LETtpyT')).toBe(false);
+        expect(isValidSolanaAddress('0xdAC17F958D2ee523a2206206994597C13D831ec7')).toBe(false);
+    });
+});
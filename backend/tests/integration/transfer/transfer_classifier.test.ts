@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import type { Prisma, Transfer } from '@prisma/client';
+import { prisma } from '../../../src/prisma';
+import { TokenService } from '../../../src/services/token/tokenService';
+import { TransferClassifier, normalizeTokenSymbol } from '../../../src/services/transfer/transferClassifier';
+import type { TransferLedgerInput } from '../../../src/services/transfer/transferLedgerService';
+
+// Replaces the tokens table and the transfers ledger with fixtures; no database needed.
+
+interface TransferDelegateStub {
+    findFirst(args: { where: Prisma.TransferWhereInput }): Promise<Pick<Transfer, 'direction' | 'fromAddress' | 'toAddress'> | null>;
+}
+
+interface TokenServiceStub {
+    getActiveTokens(): Promise<Array<{ symbol: string }>>;
+}
+
+const wallet = '0x' + '1'.repeat(40);
+const knownCounterparty = '0xabcd' + '2'.repeat(32) + '9876';
+const lookalike = '0xABCD' + '3'.repeat(32) + '9876';
+
+const baseTransfer: TransferLedgerInput = {
+    transferKey: 'EVM:1:0xaa:0:0xbb',
+    chainKey: 'EVM:1',
+    chainType: 'EVM',
+    blockNumber: 100n,
+    blockHash: '0xbb',
+    blockTimestamp: null,
+    transactionHash: '0xaa',
+    logIndex: 0,
+    direction: 'incoming',
+    fromAddress: knownCounterparty,
+    toAddress: wallet,
+    tokenSymbol: 'USDT',
+    tokenContractAddress: '0x' + 'd'.repeat(40),
+    rawAmount: '5000000',
+    decimals: 6,
+    usdValue: 5,
+    status: 'pending',
+};
+
+describe('Transfer classification', () => {
+    const transferDelegate = prisma.transfer as unknown as TransferDelegateStub;
+    const tokenService = TokenService.getInstance() as unknown as TokenServiceStub;
+    const originals = { findFirst: transferDelegate.findFirst, getActiveTokens: tokenService.getActiveTokens };
+    let cleanCounterparties: string[];
+    let lookups: Prisma.TransferWhereInput[];
+
+    beforeEach(() => {
+        cleanCounterparties = [knownCounterparty];
+        lookups = [];
+        tokenService.getActiveTokens = async () => [{ symbol: 'USDT' }, { symbol: 'USDC' }];
+        // Matches the prefix/suffix lookalike query against the clean counterparties only
+        transferDelegate.findFirst = async ({ where }) => {
+            lookups.push(where);
+            const incoming = (Array.isArray(where.OR) ? where.OR[0].fromAddress : undefined) as Prisma.StringFilter;
+            const { startsWith = '', endsWith = '', not } = incoming;
+            const match = cleanCounterparties.find(address => address !== not
+                && address.toLowerCase().startsWith(startsWith.toLowerCase())
+                && address.toLowerCase().endsWith(endsWith.toLowerCase()));
+            return match ? { direction: 'incoming', fromAddress: match, toAddress: wallet } : null;
+        };
+    });
+
+    afterEach(() => {
+        transferDelegate.findFirst = originals.findFirst;
+        tokenService.getActiveTokens = originals.getActiveTokens;
+    });
+
+    it('should normalize symbols written with homoglyphs, case and punctuation alike', () => {
+        expect(normalizeTokenSymbol('USDT')).toBe('USDT');
+        expect(normalizeTokenSymbol(' usdt ')).toBe('USDT');
+        expect(normalizeTokenSymbol('U$DT')).toBe('USDT');
+        expect(normalizeTokenSymbol('USDТ')).toBe('USDT'); // Cyrillic Т
+        expect(normalizeTokenSymbol('ΤΕΘ')).toBe('TE'); // Greek letters without a Latin twin are dropped
+    });
+
+    it('should leave an ordinary transfer clean', async () => {
+        expect(await TransferClassifier.getInstance().classify(baseTransfer)).toEqual({ classification: 'clean', reasons: [], lookalikeOf: null });
+    });
+
+    it('should suppress zero-value and dust transfers', async () => {
+        const classifier = TransferClassifier.getInstance();
+
+        expect(await classifier.classify({ ...baseTransfer, rawAmount: '0', usdValue: 0 })).toMatchObject({ classification: 'suppressed', reasons: ['zero_value'] });
+        expect(await classifier.classify({ ...baseTransfer, rawAmount: '1', usdValue: 0.000001 })).toMatchObject({ classification: 'suppressed', reasons: ['dust'] });
+    });
+
+    it('should suppress unpriced tokens imitating a listed symbol', async () => {
+        const result = await TransferClassifier.getInstance().classify({ ...baseTransfer, tokenSymbol: 'USDТ', usdValue: null });
+
+        expect(result).toMatchObject({ classification: 'suppressed', reasons: ['fake_token'] });
+    });
+
+    it('should flag a counterparty imitating an earlier clean one as poisoning', async () => {
+        const result = await TransferClassifier.getInstance().classify({ ...baseTransfer, fromAddress: lookalike, rawAmount: '0', usdValue: 0 });
+
+        expect(result).toEqual({ classification: 'poisoning', reasons: ['zero_value', 'address_poisoning'], lookalikeOf: knownCounterparty });
+        expect(lookups[0].classification).toBe('clean');
+    });
+
+    it('should not flag poisoning when no clean counterparty looks alike', async () => {
+        cleanCounterparties = [];
+
+        expect(await TransferClassifier.getInstance().classify({ ...baseTransfer, fromAddress: lookalike })).toMatchObject({ classification: 'clean', lookalikeOf: null });
+    });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import axios from 'axios';
+import * as TronWebLib from 'tronweb';
+import { config as appConfig } from '../../../src/config';
+import { AddressManager } from '../../../src/services/address/addressManager';
+import { TokenService } from '../../../src/services/token/tokenService';
+import { TransferLedgerService } from '../../../src/services/transfer/transferLedgerService';
+import type { TransferLedgerInput } from '../../../src/services/transfer/transferLedgerService';
+import { OutboxService } from '../../../src/services/outbox/outboxService';
+import type { OutboxEventInput } from '../../../src/services/outbox/outboxService';
+import { TronPollingMonitor } from '../../../src/services/monitors/tronPollingMonitor';
+import type { BackfillProgress, BackfillRequest } from '../../../src/services/monitors/chainMonitor';
+import type { UnifiedTransferEvent } from '../../../src/services/monitors/chainMonitorManager';
+
+// Replaces the full node with generated blocks (block n is produced at n * 3s) and the ledger
+// and outbox with in-memory lists; no network or database needed.
+
+interface FullNodeStub {
+    post(url: string, body: Record<string, number>): Promise<{ data: unknown }>;
+}
+
+interface TokenServiceStub {
+    getTronTokens(): Promise<Array<{ symbol: string; decimals: number; price: number; addresses: Array<{ chain: string; address: string }> }>>;
+    getToken(symbol: string, chainName?: string): Promise<null>;
+}
+
+interface TransferLedgerStub {
+    recordTransfer(input: TransferLedgerInput): Promise<{ id: number; isNew: boolean }>;
+}
+
+interface OutboxServiceStub {
+    enqueue(events: OutboxEventInput[]): Promise<number>;
+}
+
+const CHAIN_KEY = 'TRON:728126428';
+const HEAD = 1000;
+const SETTLED_HEAD = HEAD - 19;
+const tracked = 'TLa2f6VPqDgRE67v1736s7bJ8Ray5wYjU7';
+const sender = 'TKHuVq1oKVruCGLvqVexFs6dawKv6fQgFs';
+const usdtContract = 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t';
+const toHex = (address: string) => TronWebLib.TronWeb.address.toHex(address);
+
+// Block 500 pays the tracked address 2 TRX; block 600 sends 5 USDT from it
+const transactionsByBlock = new Map<number, unknown[]>([
+    [500, [{
+        txID: 'aa'.repeat(32),
+        ret: [{ contractRet: 'SUCCESS' }],
+        raw_data: { timestamp: 0, contract: [{ type: 'TransferContract', parameter: { value: { owner_address: toHex(sender), to_address: toHex(tracked), amount: 2_000_000 } } }] },
+    }]],
+    [600, [{
+        txID: 'bb'.repeat(32),
+        ret: [{ contractRet: 'SUCCESS' }],
+        raw_data: {
+            timestamp: 0,
+            contract: [{
+                type: 'TriggerSmartContract',
+                parameter: {
+                    value: {
+                        owner_address: toHex(tracked),
+                        contract_address: toHex(usdtContract),
+                        data: 'a9059cbb' + toHex(sender).slice(2).padStart(64, '0') + (5_000_000).toString(16).padStart(64, '0'),
+                    },
+                },
+            }],
+        },
+    }]],
+]);
+
+const buildBlock = (num: number) => ({
+    blockID: num.toString(16).padStart(64, '0'),
+    block_header: { raw_data: { number: num, timestamp: num * 3000 } },
+    transactions: transactionsByBlock.get(num),
+});
+
+describe('Tron backfill', () => {
+    const fullNode = axios as unknown as FullNodeStub;
+    const tokenService = TokenService.getInstance() as unknown as TokenServiceStub;
+    const transferLedger = TransferLedgerService.getInstance() as unknown as TransferLedgerStub;
+    const outboxService = OutboxService.getInstance() as unknown as OutboxServiceStub;
+    const originals = {
+        post: fullNode.post,
+        getTronTokens: tokenService.getTronTokens,
+        getToken: tokenService.getToken,
+        recordTransfer: transferLedger.recordTransfer,
+        enqueue: outboxService.enqueue,
+    };
+    let recorded: TransferLedgerInput[];
+    let queued: OutboxEventInput[];
+    let liveEvents: UnifiedTransferEvent[];
+    let blockRequests: number;
+    let monitor: TronPollingMonitor;
+
+    const request = (fields: Partial<BackfillRequest> = {}): BackfillRequest => ({
+        chainKey: CHAIN_KEY,
+        addresses: [tracked],
+        notify: false,
+        isCancelled: () => false,
+        ...fields,
+    });
+
+    beforeEach(() => {
+        recorded = [];
+        queued = [];
+        liveEvents = [];
+        blockRequests = 0;
+        fullNode.post = async (url, body) => {
+            const path = url.slice(url.indexOf('/wallet/'));
+            switch (path) {
+                case '/wallet/getnowblock':
+                    return { data: buildBlock(HEAD) };
+                case '/wallet/getblockbynum':
+                    blockRequests++;
+                    return { data: buildBlock(body.num) };
+                case '/wallet/getblockbylimitnext': {
+                    const blocks = [];
+                    for (let num = body.startNum; num < body.endNum; num++) blocks.push(buildBlock(num));
+                    return { data: { block: blocks } };
+                }
+                case '/wallet/gettransactioninfobyblocknum':
+                    return { data: [] };
+                default:
+                    throw new Error(`Unexpected full node call ${path}`);
+            }
+        };
+        tokenService.getTronTokens = async () => [{ symbol: 'USDT', decimals: 6, price: 1, addresses: [{ chain: 'tron', address: usdtContract }] }];
+        tokenService.getToken = async () => null;
+        transferLedger.recordTransfer = async input => {
+            recorded.push(input);
+            return { id: recorded.length, isNew: true };
+        };
+        outboxService.enqueue = async events => {
+            queued.push(...events);
+            return events.length;
+        };
+        monitor = new TronPollingMonitor(new AddressManager([]), event => { liveEvents.push(event); });
+    });
+
+    afterEach(() => {
+        monitor.stop();
+        fullNode.post = originals.post;
+        Object.assign(tokenService, { getTronTokens: originals.getTronTokens, getToken: originals.getToken });
+        transferLedger.recordTransfer = originals.recordTransfer;
+        outboxService.enqueue = originals.enqueue;
+    });
+
+    it('should record native and TRC20 transfers as confirmed without emitting live events', async () => {
+        const progress = await monitor.backfill(request({ fromBlock: 450n, toBlock: 649n }), async () => { });
+
+        expect(recorded.map(({ blockNumber, direction, tokenSymbol, rawAmount, status }) => ({ blockNumber, direction, tokenSymbol, rawAmount, status }))).toEqual([
+            { blockNumber: 500n, direction: 'incoming', tokenSymbol: 'TRX', rawAmount: '2000000', status: 'confirmed' },
+            { blockNumber: 600n, direction: 'outgoing', tokenSymbol: 'USDT', rawAmount: '5000000', status: 'confirmed' },
+        ]);
+        expect(liveEvents).toEqual([]);
+        expect(progress).toEqual({ fromBlock: '450', toBlock: '649', lastScannedBlock: '649', transfersFound: 2 });
+    });
+
+    it('should only queue alerts when asked to notify', async () => {
+        await monitor.backfill(request({ fromBlock: 500n, toBlock: 500n }), async () => { });
+        expect(queued).toEqual([]);
+
+        await monitor.backfill(request({ fromBlock: 500n, toBlock: 500n, notify: true }), async () => { });
+        expect(queued.map(event => event.eventType)).toEqual(['transfer']);
+    });
+
+    it('should report progress after every batch of blocks', async () => {
+        const reports: BackfillProgress[] = [];
+
+        await monitor.backfill(request({ fromBlock: 400n, toBlock: 649n }), async progress => { reports.push({ ...progress }); });
+
+        expect(reports.map(report => [report.lastScannedBlock, report.transfersFound])).toEqual([['499', 0], ['599', 1], ['649', 2]]);
+    });
+
+    it('should resolve a time range to the blocks produced in it', async () => {
+        const progress = await monitor.backfill(request({ since: new Date(500 * 3000), until: new Date(600 * 3000) }), async () => { });
+
+        expect(progress).toMatchObject({ fromBlock: '500', toBlock: '599', transfersFound: 1 });
+        expect(blockRequests).toBeGreaterThan(0);
+    });
+
+    it('should stop scanning at unsolidified blocks', async () => {
+        const progress = await monitor.backfill(request({ fromBlock: 900n }), async () => { });
+
+        expect(progress.toBlock).toBe(SETTLED_HEAD.toString());
+        await expect(monitor.backfill(request({ fromBlock: BigInt(SETTLED_HEAD + 1) }), async () => { })).rejects.toThrow('Invalid range');
+    });
+
+    it('should reject ranges above the backfill limit and other chains', async () => {
+        const tooLarge = request({ fromBlock: BigInt(SETTLED_HEAD - appConfig.backfill.maxBlocks), toBlock: BigInt(SETTLED_HEAD) });
+
+        await expect(monitor.backfill(tooLarge, async () => { })).rejects.toThrow('exceed the backfill limit');
+        await expect(monitor.backfill(request({ chainKey: 'EVM:1' }), async () => { })).rejects.toThrow('not being monitored');
+    });
+
+    it('should stop between blocks once the job is cancelled', async () => {
+        let checks = 0;
+
+        const progress = await monitor.backfill(request({ fromBlock: 450n, toBlock: 649n, isCancelled: () => ++checks > 60 }), async () => { });
+
+        expect(progress.lastScannedBlock).toBeNull();
+        expect(progress.transfersFound).toBe(1);
+    });
+});
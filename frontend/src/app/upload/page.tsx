@@ -21,10 +21,12 @@ interface BackendImportResponse {
 // Add interface for parsed address with threshold
 interface ParsedAddress {
   address: string;
-  chain_type: 'EVM' | 'TRON';
+  chain_type: 'EVM' | 'TRON' | 'BTC' | 'SOLANA';
   threshold?: number;
+  withdrawalThreshold?: number;
   accountName?: string;
   accountManager?: string;
+  networks?: string; // EVM only, e.g. "ethereum;polygon"; every network when empty
 }
 
 // Define a type for the Company data we expect from the /companies endpoint
@@ -112,12 +114,17 @@ export default function UploadPage() {
 
   const validateAddressClientSide = (
     address: string
-  ): { valid: boolean; chain: 'EVM' | 'TRON' | null } => {
+  ): { valid: boolean; chain: 'EVM' | 'TRON' | 'BTC' | 'SOLANA' | null } => {
     const evmRegex = /^0x[a-fA-F0-9]{40}$/;
     // Slightly adjusted Tron regex based on common patterns, backend validator is the source of truth
     const tronRegex = /^T[1-9A-HJ-NP-Za-km-z]{33}$/;
     if (evmRegex.test(address)) return { valid: true, chain: 'EVM' };
+    const btcRegex = /^([13][1-9A-HJ-NP-Za-km-z]{25,34}|bc1[02-9ac-hj-np-z]{8,87}|BC1[02-9AC-HJ-NP-Z]{8,87})$/;
     if (tronRegex.test(address)) return { valid: true, chain: 'TRON' };
+    if (btcRegex.test(address)) return { valid: true, chain: 'BTC' };
+    // Solana public keys are 32 bytes in Base58; checked last, as Tron and Bitcoin addresses use the same alphabet
+    const solanaRegex = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+    if (solanaRegex.test(address)) return { valid: true, chain: 'SOLANA' };
     return { valid: false, chain: null };
   };
 
@@ -150,12 +157,18 @@ export default function UploadPage() {
             const addressThreshold = row.threshold
               ? parseFloat(row.threshold)
               : companyThreshold;
+            const withdrawalThreshold = row.withdrawal_threshold
+              ? parseFloat(row.withdrawal_threshold)
+              : undefined;
 
             let finalAddress = rawAddress;
             if (chain === 'EVM') {
               finalAddress = rawAddress.toLowerCase();
+            } else if (chain === 'BTC' && /^bc1/i.test(rawAddress)) {
+              // Bech32 is case-insensitive; Base58 BTC addresses are kept as is
+              finalAddress = rawAddress.toLowerCase();
             }
-            // For TRON, we use the trimmed address as is.
+            // For TRON and SOLANA, we use the trimmed address as is.
 
             // Handle both underscore and camelCase formats for account fields
             const accountName =
@@ -164,13 +177,17 @@ export default function UploadPage() {
               row.account_manager?.trim() ||
               row.accountManager?.trim() ||
               undefined;
+            const networks =
+              chain === 'EVM' ? row.networks?.trim() || undefined : undefined;
 
             parsedAddresses.push({
               address: finalAddress,
               chain_type: chain,
               threshold: addressThreshold,
+              withdrawalThreshold: withdrawalThreshold,
               accountName: accountName,
               accountManager: accountManager,
+              networks: networks,
             });
           } else {
             clientSideInvalidRows.push(row);
@@ -317,7 +334,9 @@ export default function UploadPage() {
           />
           <p className='text-sm text-gray-500 mt-1'>
             Expected CSV columns: address, chain_type, threshold (optional),
-            account_name (optional), account_manager (optional)
+            account_name (optional), account_manager (optional),
+            withdrawal_threshold (optional), networks (optional, EVM only,
+            e.g. &quot;ethereum;polygon&quot;; all networks when empty)
           </p>
         </div>
         <button